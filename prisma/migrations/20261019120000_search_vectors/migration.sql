@@ -0,0 +1,37 @@
+-- Full-text search: generated tsvector columns with GIN indexes (see src/lib/search.ts)
+-- Prisma sees these columns as plain Unsupported("tsvector"): a database created from the schema
+-- (db push) gets empty columns, they are replaced with the generated ones here
+
+-- array_to_string is only STABLE, a generated column needs an IMMUTABLE expression
+CREATE OR REPLACE FUNCTION search_tags_text(tags text[]) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE
+  AS $$ SELECT coalesce(array_to_string(tags, ' '), '') $$;
+
+-- Task: title, tags, description (attachments, comments and project name have their own columns)
+ALTER TABLE "tasks" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "tasks" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "title"), 'A') ||
+  setweight(to_tsvector('simple', search_tags_text("tags")), 'B') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'C')
+) STORED;
+
+ALTER TABLE "projects" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "projects" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "name"), 'A') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'C')
+) STORED;
+
+ALTER TABLE "attachments" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "attachments" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "name"), 'C')
+) STORED;
+
+ALTER TABLE "comments" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "comments" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "content"), 'D')
+) STORED;
+
+CREATE INDEX "tasks_searchVector_idx" ON "tasks" USING GIN ("searchVector");
+CREATE INDEX "projects_searchVector_idx" ON "projects" USING GIN ("searchVector");
+CREATE INDEX "attachments_searchVector_idx" ON "attachments" USING GIN ("searchVector");
+CREATE INDEX "comments_searchVector_idx" ON "comments" USING GIN ("searchVector");
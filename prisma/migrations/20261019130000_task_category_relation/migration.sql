@@ -0,0 +1,15 @@
+-- Task.category becomes a foreign key: deleting a category leaves its tasks without one
+-- Category.ownerId becomes optional: project categories outlive their author's account
+
+-- Tasks pointing at categories that no longer exist
+UPDATE "tasks" SET "category" = NULL
+WHERE "category" IS NOT NULL AND NOT EXISTS (SELECT 1 FROM "categories" c WHERE c."id" = "tasks"."category");
+
+ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "tasks_category_fkey";
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_category_fkey"
+  FOREIGN KEY ("category") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "categories" ALTER COLUMN "ownerId" DROP NOT NULL;
+ALTER TABLE "categories" DROP CONSTRAINT IF EXISTS "categories_ownerId_fkey";
+ALTER TABLE "categories" ADD CONSTRAINT "categories_ownerId_fkey"
+  FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,7 +1,7 @@
 import './utils/dev-tools-config';
 import React from 'react';
 import './styles/globals.css';
-import { AuthScreen } from './components/auth-screen';
+import { AuthScreen, EmailVerificationBanner } from './components/auth-screen';
 import { SidebarNav } from './components/sidebar-nav';
 import { Header } from './components/header';
 import { DashboardView } from './components/dashboard-view';
@@ -18,9 +18,13 @@ import { TaskModal } from './components/task-modal';
 import { SidebarProvider, SidebarInset } from './components/ui/sidebar';
 import { Toaster } from './components/ui/sonner';
 import { authAPI } from './utils/supabase/client';
-import { AppProvider } from './contexts/app-context';
+import { SESSION_ENDED_EVENT } from './utils/api-client';
+import { AppProvider, type SavedView } from './contexts/app-context';
+import type { BoardState } from './server/types';
+import { DEFAULT_BOARD_STATE, boardStateFromSearchParams, writeBoardStateToUrl } from './utils/board-url';
 import { ErrorBoundary } from './components/error-boundary';
 import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
 import { DndProviderWrapper } from './components/dnd-provider-wrapper';
 import { generateFaviconDataURL } from './components/favicon-svg';
 
@@ -29,7 +33,13 @@ type View = 'dashboard' | 'dashboard-calendar' | 'tasks' | 'projects' | 'project
 function App() {
   const [isAuthenticated, setIsAuthenticated] = React.useState(false);
   const [isLoading, setIsLoading] = React.useState(true);
-  const [currentView, setCurrentView] = React.useState<View>('dashboard');
+  // Dashboard filters, sorting and mode live here so switching views keeps them; a link with them opens the same board
+  const [initialBoard] = React.useState(() => boardStateFromSearchParams(new URLSearchParams(window.location.search)));
+  const [boardState, setBoardState] = React.useState<BoardState>(initialBoard?.state ?? DEFAULT_BOARD_STATE);
+  const [activeSavedViewId, setActiveSavedViewId] = React.useState<string | null>(initialBoard?.savedViewId ?? null);
+  const [currentView, setCurrentView] = React.useState<View>(
+    initialBoard?.state.viewMode === 'calendar' ? 'dashboard-calendar' : 'dashboard'
+  );
   const [isCreateTaskOpen, setIsCreateTaskOpen] = React.useState(false);
   const [currentProject, setCurrentProject] = React.useState<string>('');
   const [selectedProjectId, setSelectedProjectId] = React.useState<string | null>(null);
@@ -139,6 +149,33 @@ function App() {
       try {
         // Check if URL is an invite link
         const path = window.location.pathname;
+
+        // Email change confirmation link from the email sent to the new address
+        if (path === '/confirm-email-change') {
+          const confirmationToken = new URLSearchParams(window.location.search).get('token');
+          window.history.replaceState(null, '', '/');
+          if (confirmationToken) {
+            try {
+              const user = await authAPI.confirmEmailChange(confirmationToken);
+              toast.success(`Email изменен на ${user.email}`);
+            } catch (error: any) {
+              toast.error(error.message || 'Не удалось подтвердить email');
+            }
+          }
+        }
+        // Verification link from the welcome email, or the redirect of GET /api/auth/verify-email
+        if (path === '/verify-email') {
+          const verificationToken = new URLSearchParams(window.location.search).get('token');
+          window.history.replaceState(null, '', '/');
+          if (verificationToken) {
+            try {
+              await authAPI.verifyEmail(verificationToken);
+              toast.success('Email подтвержден');
+            } catch (error: any) {
+              toast.error(error.message || 'Не удалось подтвердить email');
+            }
+          }
+        }
         if (path.startsWith('/invite/')) {
           const invitationId = path.replace('/invite/', '');
           if (invitationId) {
@@ -189,6 +226,18 @@ function App() {
     };
   }, []);
 
+  // The session was revoked from another device or has expired: back to the sign-in screen
+  React.useEffect(() => {
+    const handleSessionEnded = () => {
+      toast.error('Сессия завершена. Войдите снова');
+      setIsAuthenticated(false);
+      setCurrentView('dashboard');
+    };
+
+    window.addEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+    return () => window.removeEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+  }, []);
+
   const handleLogin = React.useCallback(() => {
     setIsAuthenticated(true);
   }, []);
@@ -234,6 +283,7 @@ function App() {
   }, []);
 
   const handleDashboardCalendarView = React.useCallback(() => {
+    setBoardState((prev) => ({ ...prev, viewMode: 'calendar' }));
     setCurrentView('dashboard-calendar');
   }, []);
 
@@ -241,6 +291,28 @@ function App() {
     setCurrentView('dashboard');
   }, []);
 
+  // Leaving the calendar (back button or sidebar) returns the board to kanban
+  React.useEffect(() => {
+    if (currentView === 'dashboard' && boardState.viewMode === 'calendar') {
+      setBoardState((prev) => ({ ...prev, viewMode: 'kanban' }));
+    }
+  }, [currentView, boardState.viewMode]);
+
+  const handleOpenSavedView = React.useCallback((view: SavedView) => {
+    const state = { ...DEFAULT_BOARD_STATE, ...view.state };
+    setBoardState(state);
+    setActiveSavedViewId(view.id);
+    setSelectedProjectId(null);
+    setCurrentView(state.viewMode === 'calendar' ? 'dashboard-calendar' : 'dashboard');
+  }, []);
+
+  // Keep the board in the URL while it is on screen
+  React.useEffect(() => {
+    if (isLoading || !isAuthenticated || currentView === 'invite') return;
+    const isBoardView = currentView === 'dashboard' || currentView === 'dashboard-calendar';
+    writeBoardStateToUrl(isBoardView ? boardState : null, activeSavedViewId);
+  }, [isLoading, isAuthenticated, currentView, boardState, activeSavedViewId]);
+
   const renderView = React.useCallback(() => {
     try {
       // Если выбран проект, показываем страницу проекта
@@ -255,9 +327,28 @@ function App() {
 
       switch (currentView) {
         case 'dashboard':
-          return <DashboardView key="dashboard" onCalendarView={handleDashboardCalendarView} />;
+          return (
+            <DashboardView
+              key="dashboard"
+              boardState={boardState}
+              onBoardStateChange={setBoardState}
+              activeSavedViewId={activeSavedViewId}
+              onOpenSavedView={handleOpenSavedView}
+              onSavedViewChange={setActiveSavedViewId}
+              onCalendarView={handleDashboardCalendarView}
+            />
+          );
         case 'dashboard-calendar':
-          return <DashboardCalendarView key="dashboard-calendar" onBack={handleBackFromDashboardCalendar} />;
+          return (
+            <DashboardCalendarView
+              key="dashboard-calendar"
+              filters={boardState.filters}
+              onFiltersChange={(filters) => setBoardState((prev) => ({ ...prev, filters }))}
+              dateRange={boardState.dateRange}
+              onDateRangeChange={(dateRange) => setBoardState((prev) => ({ ...prev, dateRange }))}
+              onBack={handleBackFromDashboardCalendar}
+            />
+          );
         case 'projects':
           return <ProjectsView key="projects" onProjectClick={handleProjectClick} />;
         case 'tasks':
@@ -267,11 +358,21 @@ function App() {
         case 'archive':
           return <ArchiveView key="archive" />;
         case 'profile':
-          return <ProfileView key="profile" />;
+          return <ProfileView key="profile" onLogout={handleLogout} />;
         case 'invite':
           return <InviteAcceptPage key="invite" />;
         default:
-          return <DashboardView key="dashboard-default" onCalendarView={handleDashboardCalendarView} />;
+          return (
+            <DashboardView
+              key="dashboard-default"
+              boardState={boardState}
+              onBoardStateChange={setBoardState}
+              activeSavedViewId={activeSavedViewId}
+              onOpenSavedView={handleOpenSavedView}
+              onSavedViewChange={setActiveSavedViewId}
+              onCalendarView={handleDashboardCalendarView}
+            />
+          );
       }
     } catch (error) {
       console.error('Error rendering view:', error);
@@ -289,7 +390,7 @@ function App() {
         </div>
       );
     }
-  }, [selectedProjectId, currentView, handleBackToProjects, handleProjectClick, handleCalendarView, handleBackFromCalendar, handleDashboardCalendarView, handleBackFromDashboardCalendar]);
+  }, [selectedProjectId, currentView, boardState, activeSavedViewId, handleBackToProjects, handleProjectClick, handleCalendarView, handleBackFromCalendar, handleDashboardCalendarView, handleBackFromDashboardCalendar, handleOpenSavedView, handleLogout]);
 
   // Early returns AFTER all hooks
   if (isLoading) {
@@ -327,15 +428,22 @@ function App() {
             <Header
               onCreateTask={() => setIsCreateTaskOpen(true)}
               onNavigate={(view) => setCurrentView(view as View)}
+              onOpenProject={(projectId) => {
+                setCurrentView('projects');
+                handleProjectClick(projectId);
+              }}
               onLogout={handleLogout}
               currentProject={currentProject}
             />
             <SidebarNav
               currentView={currentView}
               onViewChange={(view) => setCurrentView(view as View)}
+              activeSavedViewId={activeSavedViewId}
+              onOpenSavedView={handleOpenSavedView}
               onLogout={handleLogout}
             />
             <SidebarInset className="pt-16 h-screen overflow-hidden">
+              <EmailVerificationBanner />
               {renderView()}
             </SidebarInset>
             <TaskModal
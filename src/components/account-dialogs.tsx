@@ -0,0 +1,611 @@
+import React from 'react';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { toast } from 'sonner@2.0.3';
+import { authAPI } from '../utils/api-client';
+
+type AccountDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Смена email: новый адрес начинает работать после перехода по ссылке из письма
+export function ChangeEmailDialog({
+  open,
+  onOpenChange,
+  currentEmail,
+  twoFactorEnabled,
+  onRequested,
+}: AccountDialogProps & { currentEmail: string; twoFactorEnabled?: boolean; onRequested: (pendingEmail: string) => void }) {
+  const [email, setEmail] = React.useState('');
+  const [password, setPassword] = React.useState('');
+  const [code, setCode] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setEmail('');
+      setPassword('');
+      setCode('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email.trim() === currentEmail) {
+      toast.error('Это ваш текущий email');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { pendingEmail } = await authAPI.changeEmail(email.trim(), password, twoFactorEnabled ? code : undefined);
+      toast.success(`Ссылка для подтверждения отправлена на ${pendingEmail}`);
+      onRequested(pendingEmail);
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Change email error:', error);
+      toast.error(error.message || 'Не удалось изменить email');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Изменить email</DialogTitle>
+          <DialogDescription>
+            Мы отправим ссылку для подтверждения на новый адрес. До подтверждения вход выполняется по текущему email.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-email">Новый email</Label>
+            <Input
+              id="new-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="change-email-password">Текущий пароль</Label>
+            <Input
+              id="change-email-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          {twoFactorEnabled && (
+            <div className="space-y-2">
+              <Label htmlFor="change-email-code">Код из приложения или резервный код</Label>
+              <Input
+                id="change-email-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Отмена
+            </Button>
+            <Button type="submit" className="flex-1 bg-purple-600 hover:bg-purple-700" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Отправить ссылку
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Смена пароля с подтверждением текущего
+export function ChangePasswordDialog({
+  open,
+  onOpenChange,
+  onChanged,
+}: AccountDialogProps & { onChanged: (passwordChangedAt?: string | null) => void }) {
+  const [currentPassword, setCurrentPassword] = React.useState('');
+  const [newPassword, setNewPassword] = React.useState('');
+  const [confirmPassword, setConfirmPassword] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Пароль должен содержать минимум ${MIN_PASSWORD_LENGTH} символов`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error('Пароли не совпадают');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const user = await authAPI.changePassword(currentPassword, newPassword);
+      toast.success('Пароль изменен');
+      onChanged(user?.passwordChangedAt);
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Change password error:', error);
+      toast.error(error.message || 'Не удалось изменить пароль');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Изменить пароль</DialogTitle>
+          <DialogDescription>
+            После смены пароля мы отправим уведомление на ваш email и завершим сеансы на других устройствах
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Текущий пароль</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">Новый пароль</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Повторите новый пароль</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Отмена
+            </Button>
+            <Button type="submit" className="flex-1 bg-purple-600 hover:bg-purple-700" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Изменить пароль
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Удаление аккаунта: общие проекты нужно сначала передать другому владельцу
+export function DeleteAccountDialog({
+  open,
+  onOpenChange,
+  onDeleted,
+}: AccountDialogProps & { onDeleted: () => void }) {
+  const [password, setPassword] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setPassword('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await authAPI.deleteAccount(password);
+      toast.success('Аккаунт удален');
+      onOpenChange(false);
+      onDeleted();
+    } catch (error: any) {
+      console.error('Delete account error:', error);
+      toast.error(error.message || 'Не удалось удалить аккаунт');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-red-600">Удалить аккаунт?</DialogTitle>
+          <DialogDescription>
+            Будут удалены ваши личные задачи и проекты, в которых нет других участников. Задачи, созданные вами
+            в чужих проектах, останутся там, их автором станет владелец проекта. Это действие нельзя отменить.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-password">Введите пароль для подтверждения</Label>
+            <Input
+              id="delete-account-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Отмена
+            </Button>
+            <Button type="submit" variant="destructive" className="flex-1" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Удалить навсегда
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Поле для 6-значного кода из приложения-аутентификатора
+function TotpCodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} pattern="^[0-9]*$">
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Резервные коды показываются один раз: их нужно сохранить
+function BackupCodesList({ codes }: { codes: string[] }) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Коды скопированы');
+    } catch {
+      toast.error('Не удалось скопировать коды');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Сохраните резервные коды в надежном месте. Каждый код можно использовать один раз, если нет доступа к приложению.
+        Больше они показаны не будут.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-gray-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Копировать
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Скачать
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Подключение 2FA: QR-код для приложения, подтверждение кодом, затем резервные коды
+export function TwoFactorSetupDialog({
+  open,
+  onOpenChange,
+  onEnabled,
+}: AccountDialogProps & { onEnabled: () => void }) {
+  const [setup, setSetup] = React.useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [code, setCode] = React.useState('');
+  const [backupCodes, setBackupCodes] = React.useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    setSetup(null);
+    setCode('');
+    setBackupCodes(null);
+    authAPI
+      .setupTwoFactor()
+      .then(setSetup)
+      .catch((error: any) => {
+        console.error('Two-factor setup error:', error);
+        toast.error(error.message || 'Не удалось начать настройку 2FA');
+        onOpenChange(false);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length < 6) return;
+
+    setIsSubmitting(true);
+    try {
+      const codes = await authAPI.enableTwoFactor(code);
+      setBackupCodes(codes);
+      toast.success('Двухфакторная аутентификация включена');
+      onEnabled();
+    } catch (error: any) {
+      console.error('Enable two-factor error:', error);
+      toast.error(error.message || 'Не удалось включить 2FA');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Двухфакторная аутентификация</DialogTitle>
+          <DialogDescription>
+            {backupCodes
+              ? 'Готово! При следующем входе понадобится код из приложения'
+              : 'Отсканируйте QR-код в приложении-аутентификаторе (Google Authenticator, 1Password и др.) и введите код из него'}
+          </DialogDescription>
+        </DialogHeader>
+        {backupCodes ? (
+          <div className="space-y-4 mt-4">
+            <BackupCodesList codes={backupCodes} />
+            <Button className="w-full bg-purple-600 hover:bg-purple-700" onClick={() => onOpenChange(false)}>
+              Я сохранил(а) коды
+            </Button>
+          </div>
+        ) : !setup ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Подготовка...
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="flex flex-col items-center gap-2">
+              <img src={setup.qrCodeDataUrl} alt="QR-код для приложения-аутентификатора" className="w-44 h-44" />
+              <p className="text-xs text-gray-500">Или введите ключ вручную:</p>
+              <code className="rounded bg-gray-100 px-2 py-1 text-xs break-all select-all">{setup.secret}</code>
+            </div>
+            <div className="flex flex-col items-center gap-2">
+              <Label>Код из приложения</Label>
+              <TotpCodeInput value={code} onChange={setCode} />
+            </div>
+            <div className="flex gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                Отмена
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1 bg-purple-600 hover:bg-purple-700"
+                disabled={isSubmitting || code.length < 6}
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Включить
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Отключение 2FA: нужны пароль и код из приложения (или резервный код)
+export function DisableTwoFactorDialog({
+  open,
+  onOpenChange,
+  onDisabled,
+}: AccountDialogProps & { onDisabled: () => void }) {
+  const [password, setPassword] = React.useState('');
+  const [code, setCode] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setPassword('');
+      setCode('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await authAPI.disableTwoFactor(password, code);
+      toast.success('Двухфакторная аутентификация отключена');
+      onOpenChange(false);
+      onDisabled();
+    } catch (error: any) {
+      console.error('Disable two-factor error:', error);
+      toast.error(error.message || 'Не удалось отключить 2FA');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Отключить двухфакторную аутентификацию?</DialogTitle>
+          <DialogDescription>
+            Проекты, требующие 2FA, станут недоступны, пока вы снова ее не включите
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="disable-2fa-password">Пароль</Label>
+            <Input
+              id="disable-2fa-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="disable-2fa-code">Код из приложения или резервный код</Label>
+            <Input
+              id="disable-2fa-code"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Отмена
+            </Button>
+            <Button type="submit" variant="destructive" className="flex-1" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Отключить
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Новый набор резервных кодов взамен старого
+export function BackupCodesDialog({
+  open,
+  onOpenChange,
+  onRegenerated,
+}: AccountDialogProps & { onRegenerated: () => void }) {
+  const [code, setCode] = React.useState('');
+  const [backupCodes, setBackupCodes] = React.useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setCode('');
+      setBackupCodes(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length < 6) return;
+
+    setIsSubmitting(true);
+    try {
+      setBackupCodes(await authAPI.regenerateBackupCodes(code));
+      onRegenerated();
+    } catch (error: any) {
+      console.error('Regenerate backup codes error:', error);
+      toast.error(error.message || 'Не удалось создать резервные коды');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Резервные коды</DialogTitle>
+          <DialogDescription>
+            {backupCodes
+              ? 'Старые резервные коды больше не действуют'
+              : 'Введите код из приложения, чтобы создать новые резервные коды. Старые перестанут действовать'}
+          </DialogDescription>
+        </DialogHeader>
+        {backupCodes ? (
+          <div className="space-y-4 mt-4">
+            <BackupCodesList codes={backupCodes} />
+            <Button className="w-full bg-purple-600 hover:bg-purple-700" onClick={() => onOpenChange(false)}>
+              Готово
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="flex justify-center">
+              <TotpCodeInput value={code} onChange={setCode} />
+            </div>
+            <div className="flex gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                Отмена
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1 bg-purple-600 hover:bg-purple-700"
+                disabled={isSubmitting || code.length < 6}
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Создать новые коды
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,312 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Button } from './ui/button';
+import { ArrowRight, History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { toast } from 'sonner@2.0.3';
+import { useApp } from '../contexts/app-context';
+import type { ActivityEntry } from '../contexts/app-context';
+
+type ActivityTimelineProps = {
+  // Загружает страницу истории; before - дата самой старой загруженной записи
+  loadActivity: (before?: string) => Promise<ActivityEntry[]>;
+  // Показывать название задачи (для истории проекта)
+  showTaskTitle?: boolean;
+  // Смена ключа перезагружает историю
+  reloadKey?: string | number;
+};
+
+const PAGE_SIZE = 50;
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Название',
+  description: 'Описание',
+  status: 'Статус',
+  priority: 'Приоритет',
+  category: 'Категория',
+  tags: 'Теги',
+  dueDate: 'Дедлайн',
+  assigneeId: 'Исполнитель',
+  projectId: 'Проект',
+  name: 'Название',
+  color: 'Цвет',
+  archived: 'Архив',
+  role: 'Роль',
+  ownerId: 'Владелец',
+  parentTaskId: 'Родительская задача',
+  creatorId: 'Автор',
+  dependencyMode: 'Зависимости',
+  requireTwoFactor: 'Обязательная 2FA',
+  workflow: 'Статусы',
+  linkName: 'Название ссылки',
+  linkUrl: 'Адрес ссылки',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  todo: 'К выполнению',
+  in_progress: 'В работе',
+  review: 'На проверке',
+  done: 'Готово',
+};
+
+const PRIORITY_LABELS: Record<string, string> = {
+  low: 'Низкий',
+  medium: 'Средний',
+  high: 'Высокий',
+  urgent: 'Срочный',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Владелец',
+  collaborator: 'Участник с правами',
+  member: 'Участник',
+  viewer: 'Наблюдатель',
+};
+
+// Helper to get initials from name
+const getInitials = (name: string) => {
+  return name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+};
+
+// Helper to describe what happened in one entry
+const describeAction = (entry: ActivityEntry): string => {
+  const meta = entry.metadata || {};
+  switch (entry.action) {
+    case 'task.created':
+      if (meta.recurringFromTaskId) return 'создал(а) следующее повторение задачи';
+      return meta.parentTaskId ? 'создал(а) подзадачу' : 'создал(а) задачу';
+    case 'task.updated':
+      if (meta.reason === 'subtasks_completed') return 'завершил(а) подзадачи — задача выполнена автоматически';
+      return meta.recurrenceScope === 'future' ? 'изменил(а) серию повторяющихся задач' : 'изменил(а) задачу';
+    case 'task.deleted':
+      return meta.parentDeletedTaskId ? 'удалил(а) подзадачу вместе с родительской задачей' : 'удалил(а) задачу';
+    case 'attachment.added':
+      return `прикрепил(а) файл «${meta.name}»`;
+    case 'attachment.deleted':
+      return `удалил(а) файл «${meta.name}»`;
+    case 'project.created':
+      return 'создал(а) проект';
+    case 'project.updated':
+      return 'изменил(а) проект';
+    case 'project.archived':
+      return meta.automatic
+        ? `автоматически отправила проект в архив (нет активности ${meta.inactiveDays} дн.)`
+        : 'отправил(а) проект в архив';
+    case 'project.restored':
+      return 'восстановил(а) проект из архива';
+    case 'project.workflow_updated':
+      return 'изменил(а) статусы проекта';
+    case 'project.link_added':
+      return `добавил(а) ссылку «${meta.name}»`;
+    case 'project.link_updated':
+      return `изменил(а) ссылку «${meta.name}»`;
+    case 'project.link_removed':
+      return `удалил(а) ссылку «${meta.name}»`;
+    case 'project.attachment_added':
+      return `прикрепил(а) файл проекта «${meta.name}»`;
+    case 'project.attachment_deleted':
+      return `удалил(а) файл проекта «${meta.name}»`;
+    case 'project.deleted':
+      return 'удалил(а) проект';
+    case 'member.added':
+      return `добавлен(а) в проект (${ROLE_LABELS[meta.role] || meta.role})`;
+    case 'member.role_changed':
+      return `изменил(а) роль участника ${meta.name || meta.email}`;
+    case 'member.removed':
+      return `удалил(а) из проекта ${meta.name || meta.email}`;
+    case 'member.left':
+      return 'покинул(а) проект';
+    case 'project.ownership_transferred':
+      return `передал(а) владение проектом ${meta.newOwnerName || meta.newOwnerEmail}`;
+    case 'invitation.created':
+      return `пригласил(а) ${meta.email} (${ROLE_LABELS[meta.role] || meta.role})`;
+    case 'invitation.revoked':
+      return `отозвал(а) приглашение для ${meta.email}`;
+    case 'invitation.resent':
+      return `повторно отправил(а) приглашение для ${meta.email}`;
+    case 'comment.created':
+      return meta.parentId ? 'ответил(а) на комментарий' : 'оставил(а) комментарий';
+    case 'comment.deleted':
+      return 'удалил(а) комментарий';
+    case 'checklist.item_added':
+      return `добавил(а) пункт чек-листа «${meta.title}»`;
+    case 'checklist.item_completed':
+      return `отметил(а) пункт чек-листа «${meta.title}»`;
+    case 'checklist.item_reopened':
+      return `снял(а) отметку с пункта чек-листа «${meta.title}»`;
+    case 'checklist.item_deleted':
+      return `удалил(а) пункт чек-листа «${meta.title}»`;
+    case 'dependency.added':
+      return meta.direction === 'blocks'
+        ? `отметил(а), что задача блокирует «${meta.otherTaskTitle}»`
+        : `отметил(а), что задача блокируется «${meta.otherTaskTitle}»`;
+    case 'dependency.removed':
+      return meta.direction === 'blocks'
+        ? `убрал(а) блокировку задачи «${meta.otherTaskTitle}»`
+        : `убрал(а) зависимость от задачи «${meta.otherTaskTitle}»`;
+    default:
+      return entry.action;
+  }
+};
+
+export function ActivityTimeline({ loadActivity, showTaskTitle = false, reloadKey }: ActivityTimelineProps) {
+  const { teamMembers, projects, tasks } = useApp();
+  const [entries, setEntries] = React.useState<ActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [hasMore, setHasMore] = React.useState(false);
+
+  // Имена пользователей для отображения исполнителей в изменениях
+  const userNames = React.useMemo(() => {
+    const names = new Map<string, string>();
+    teamMembers.forEach((m) => names.set(m.id, m.name));
+    projects.forEach((p) => {
+      (p.members || []).forEach((m: any) => {
+        if (m.user?.id) names.set(m.user.id, m.user.name);
+      });
+    });
+    return names;
+  }, [teamMembers, projects]);
+
+  const projectNames = React.useMemo(
+    () => new Map(projects.map((p) => [p.id, p.name])),
+    [projects]
+  );
+
+  // Названия статусов из workflow проектов (ключи вроде custom_*)
+  const workflowStatusNames = React.useMemo(
+    () => new Map(projects.flatMap((p) => (p.workflowStatuses || []).map((s) => [s.key, s.name] as const))),
+    [projects]
+  );
+
+  const formatValue = (field: string, value: any): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    switch (field) {
+      case 'status':
+        return STATUS_LABELS[value] || workflowStatusNames.get(value) || value;
+      case 'priority':
+        return PRIORITY_LABELS[value] || value;
+      case 'assigneeId':
+      case 'ownerId':
+      case 'creatorId':
+        return userNames.get(value) || 'Неизвестный пользователь';
+      case 'role':
+        return ROLE_LABELS[value] || value;
+      case 'projectId':
+        return projectNames.get(value) || 'Проект';
+      case 'parentTaskId':
+        return tasks.find((t) => t.id === value)?.title || 'Задача';
+      case 'dueDate':
+        return format(new Date(value), 'PPP', { locale: ru });
+      case 'archived':
+      case 'requireTwoFactor':
+        return value ? 'Да' : 'Нет';
+      case 'dependencyMode':
+        return value === 'block' ? 'Запрещать завершение' : 'Предупреждать';
+      case 'tags':
+      case 'workflow':
+        return Array.isArray(value) && value.length > 0 ? value.join(', ') : '—';
+      case 'description':
+        return String(value).length > 80 ? `${String(value).slice(0, 80)}…` : String(value);
+      default:
+        return String(value);
+    }
+  };
+
+  const load = React.useCallback(async (before?: string) => {
+    setIsLoading(true);
+    try {
+      const page = await loadActivity(before);
+      setEntries((prev) => (before ? [...prev, ...page] : page));
+      setHasMore(page.length >= PAGE_SIZE);
+    } catch (error: any) {
+      console.error('Load activity error:', error);
+      toast.error(error.message || 'Не удалось загрузить историю изменений');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadActivity]);
+
+  React.useEffect(() => {
+    load();
+  }, [load, reloadKey]);
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Загрузка истории...
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-gray-500">
+        <History className="w-8 h-8 mb-2 text-gray-300" />
+        <p className="text-sm">История изменений пока пуста</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+        {entries.map((entry) => (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-3">
+              <Avatar className="w-6 h-6 border-2 border-white">
+                {entry.actor?.avatarUrl && (
+                  <AvatarImage src={entry.actor.avatarUrl} alt={entry.actor.name} />
+                )}
+                <AvatarFallback className="text-xs bg-purple-100 text-purple-700">
+                  {entry.actor ? getInitials(entry.actor.name) : '?'}
+                </AvatarFallback>
+              </Avatar>
+            </span>
+            <div className="text-sm">
+              <span className="font-medium">{entry.actor?.name || (entry.metadata?.automatic ? 'Система' : 'Удаленный пользователь')}</span>{' '}
+              <span className="text-gray-600">{describeAction(entry)}</span>
+              {showTaskTitle && entry.taskId && entry.metadata?.title && (
+                <span className="text-gray-900"> «{entry.metadata.title}»</span>
+              )}
+            </div>
+            <time className="text-xs text-gray-500">
+              {format(new Date(entry.createdAt), 'd MMM yyyy, HH:mm', { locale: ru })}
+            </time>
+            {entry.changes && (
+              <ul className="mt-2 space-y-1">
+                {Object.entries(entry.changes).map(([field, change]) => (
+                  <li key={field} className="text-xs text-gray-700 flex flex-wrap items-center gap-1">
+                    <span className="text-gray-500">{FIELD_LABELS[field] || field}:</span>
+                    <span className="line-through text-gray-400">{formatValue(field, change.from)}</span>
+                    <ArrowRight className="w-3 h-3 text-gray-400" />
+                    <span className="font-medium">{formatValue(field, change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {hasMore && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={isLoading}
+          onClick={() => load(entries[entries.length - 1]?.createdAt)}
+        >
+          {isLoading ? 'Загрузка...' : 'Показать более ранние'}
+        </Button>
+      )}
+    </div>
+  );
+}
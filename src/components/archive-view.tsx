@@ -1,11 +1,11 @@
 import React from 'react';
-import { Archive, RotateCcw, Trash2, Users, CalendarDays } from 'lucide-react';
+import { Archive, RotateCcw, Trash2, Users, CalendarDays, Lock } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
 import { Input } from './ui/input';
 import { Search } from 'lucide-react';
-import { useApp } from '../contexts/app-context';
+import { useApp, type Project } from '../contexts/app-context';
 import { toast } from 'sonner@2.0.3';
 import {
   AlertDialog,
@@ -19,7 +19,7 @@ import {
 } from './ui/alert-dialog';
 
 export function ArchiveView() {
-  const { archivedProjects, fetchArchivedProjects, restoreProject, deleteProject } = useApp();
+  const { archivedProjects, fetchArchivedProjects, restoreProject, deleteProject, currentUser } = useApp();
   const [searchQuery, setSearchQuery] = React.useState('');
   const [projectToDelete, setProjectToDelete] = React.useState<string | null>(null);
 
@@ -54,6 +54,10 @@ export function ArchiveView() {
     }
   };
 
+  // Восстановить или удалить архивный проект может только владелец
+  const isProjectOwner = (project: Project) =>
+    !!project.members?.some((m: any) => m.userId === currentUser?.id && m.role === 'owner');
+
   const getColorClass = (color?: string) => {
     const colorMap: Record<string, string> = {
       purple: 'bg-purple-500',
@@ -141,30 +145,40 @@ export function ArchiveView() {
                         {project.archivedAt && (
                           <div className="flex items-center gap-1.5">
                             <CalendarDays className="w-4 h-4" />
-                            <span>Архивировано: {formatDate(project.archivedAt)}</span>
+                            <span>
+                              Архивировано: {formatDate(project.archivedAt)}
+                              {project.archivedBy ? ` (${project.archivedBy.name})` : ' (автоматически)'}
+                            </span>
                           </div>
                         )}
                       </div>
                     </div>
                     
-                    <div className="flex items-center gap-2 flex-shrink-0">
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => handleRestore(project.id)}
-                      >
-                        <RotateCcw className="w-4 h-4 mr-2" />
-                        Восстановить
-                      </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => setProjectToDelete(project.id)}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
+                    {isProjectOwner(project) ? (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => handleRestore(project.id)}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Восстановить
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => setProjectToDelete(project.id)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="outline" className="flex-shrink-0 gap-1 text-gray-600">
+                        <Lock className="w-3 h-3" />
+                        Только чтение
+                      </Badge>
+                    )}
                   </div>
                 </CardContent>
               </Card>
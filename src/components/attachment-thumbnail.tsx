@@ -0,0 +1,99 @@
+import React from 'react';
+import { FileText, Paperclip } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TaskAttachment } from '../contexts/app-context';
+import { tasksAPI } from '../utils/api-client';
+
+type AttachmentThumbnailProps = {
+  attachment: TaskAttachment;
+};
+
+const isImage = (mimeType?: string) => !!mimeType && mimeType.startsWith('image/');
+const isPdf = (mimeType?: string) => mimeType === 'application/pdf';
+
+/**
+ * Скачать вложение (файлы отдаются только по временным подписанным ссылкам)
+ */
+export async function downloadTaskAttachment(attachment: TaskAttachment) {
+  try {
+    await tasksAPI.downloadAttachment(attachment.id, attachment.name);
+  } catch (error: any) {
+    console.error('Download attachment error:', error);
+    toast.error(error.message || 'Не удалось скачать файл');
+  }
+}
+
+// Миниатюра вложения: картинки и первая страница PDF, для остальных файлов - иконка
+export function AttachmentThumbnail({ attachment }: AttachmentThumbnailProps) {
+  const mimeType = attachment.mimeType || attachment.type;
+  const previewable = isImage(mimeType) || isPdf(mimeType);
+  const [previewUrl, setPreviewUrl] = React.useState<string | null>(null);
+  const [failed, setFailed] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!previewable) return;
+
+    let cancelled = false;
+    tasksAPI
+      .getAttachmentUrl(attachment.id, 'inline')
+      .then(({ url }) => {
+        if (!cancelled) setPreviewUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id, previewable]);
+
+  if (!previewable || failed || !previewUrl) {
+    const Icon = isPdf(mimeType) ? FileText : Paperclip;
+    return (
+      <div className="w-12 h-12 flex items-center justify-center rounded border bg-white shrink-0">
+        <Icon className="w-4 h-4 text-gray-500" />
+      </div>
+    );
+  }
+
+  // Полный просмотр открывается в новой вкладке по свежей ссылке (старая могла истечь)
+  const openPreview = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const previewWindow = window.open('', '_blank');
+    try {
+      const { url } = await tasksAPI.getAttachmentUrl(attachment.id, 'inline');
+      if (previewWindow) previewWindow.location.href = url;
+    } catch (error: any) {
+      previewWindow?.close();
+      toast.error(error.message || 'Не удалось открыть файл');
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={openPreview}
+      className="w-12 h-12 rounded border bg-white overflow-hidden shrink-0"
+      title="Открыть просмотр"
+    >
+      {isImage(mimeType) ? (
+        <img
+          src={previewUrl}
+          alt={attachment.name}
+          className="w-full h-full object-cover"
+          onError={() => setFailed(true)}
+        />
+      ) : (
+        <object
+          data={`${previewUrl}#page=1&toolbar=0&navpanes=0&view=FitH`}
+          type="application/pdf"
+          className="w-full h-full pointer-events-none"
+          aria-label={attachment.name}
+        >
+          <FileText className="w-4 h-4 m-auto text-gray-500" />
+        </object>
+      )}
+    </button>
+  );
+}
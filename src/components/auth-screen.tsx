@@ -5,11 +5,21 @@ import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Alert, AlertDescription } from './ui/alert';
-import { ArrowLeft, CheckCircle2, Loader2 } from 'lucide-react';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import { ArrowLeft, CheckCircle2, Clock, Loader2, MailWarning, ShieldCheck } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { authAPI } from '../utils/supabase/client';
+import { RateLimitError } from '../utils/api-client';
+import { useApp } from '../contexts/app-context';
 import { AnimatedLogo } from './logo';
 
+type AuthForm = 'login' | 'register' | 'reset' | 'two-factor';
+
+// «1:05» для обратного отсчета до следующей попытки
+function formatCountdown(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
 export function AuthScreen({ onLogin }: { onLogin: () => void }) {
   const [loginEmail, setLoginEmail] = React.useState('');
   const [loginPassword, setLoginPassword] = React.useState('');
@@ -21,6 +31,44 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
   const [resetEmailSent, setResetEmailSent] = React.useState(false);
   const [isLoading, setIsLoading] = React.useState(false);
   const [activeTab, setActiveTab] = React.useState('login');
+  // Второй шаг входа при включенной 2FA
+  const [twoFactorChallenge, setTwoFactorChallenge] = React.useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = React.useState('');
+  const [useBackupCode, setUseBackupCode] = React.useState(false);
+  // Сервер ответил 429: форма заблокирована до указанного времени
+  const [rateLimit, setRateLimit] = React.useState<{ form: AuthForm; until: number } | null>(null);
+  const [now, setNow] = React.useState(() => Date.now());
+
+  const currentForm: AuthForm = twoFactorChallenge
+    ? 'two-factor'
+    : showResetPassword
+    ? 'reset'
+    : activeTab === 'register'
+    ? 'register'
+    : 'login';
+  const retrySeconds =
+    rateLimit && rateLimit.form === currentForm ? Math.max(0, Math.ceil((rateLimit.until - now) / 1000)) : 0;
+
+  React.useEffect(() => {
+    if (!rateLimit) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= rateLimit.until) {
+        setRateLimit(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [rateLimit]);
+
+  const showAuthError = (form: AuthForm, error: any, fallback: string) => {
+    if (error instanceof RateLimitError) {
+      setNow(Date.now());
+      setRateLimit({ form, until: Date.now() + error.retryAfter * 1000 });
+    }
+    toast.error(error.message || fallback);
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -33,17 +81,52 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
     setIsLoading(true);
     
     try {
-      await authAPI.signIn(loginEmail, loginPassword);
+      const result = await authAPI.signIn(loginEmail, loginPassword);
+      if (result.twoFactorRequired) {
+        setTwoFactorChallenge(result.challengeToken);
+        setTwoFactorCode('');
+        setUseBackupCode(false);
+        return;
+      }
       toast.success('Вход выполнен успешно! 🎉');
       onLogin();
     } catch (error: any) {
       // Don't log expected auth errors (like wrong password)
-      toast.error(error.message || 'Ошибка входа');
+      showAuthError('login', error, 'Ошибка входа');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitTwoFactorCode = async (code: string) => {
+    if (!twoFactorChallenge || !code.trim() || isLoading || retrySeconds > 0) return;
+
+    setIsLoading(true);
+    try {
+      const { usedBackupCode, backupCodesRemaining } = await authAPI.verifyTwoFactor(twoFactorChallenge, code);
+      if (usedBackupCode) {
+        toast.warning(`Резервный код использован. Осталось кодов: ${backupCodesRemaining}`);
+      }
+      toast.success('Вход выполнен успешно! 🎉');
+      onLogin();
+    } catch (error: any) {
+      showAuthError('two-factor', error, 'Неверный код подтверждения');
+      setTwoFactorCode('');
+      // The challenge has expired: start over from the password
+      if (error.message?.includes('истекло')) {
+        setTwoFactorChallenge(null);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCancelTwoFactor = () => {
+    setTwoFactorChallenge(null);
+    setTwoFactorCode('');
+    setUseBackupCode(false);
+  };
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -61,14 +144,14 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
     
     try {
       await authAPI.signUp(registerEmail, registerPassword, registerName);
-      toast.success('🎉 Регистрация успешна! Загружаем ваше рабочее пространство...');
+      toast.success('🎉 Регистрация успешна! Мы отправили ссылку для подтверждения на ' + registerEmail);
       // Small delay to show the success message
       setTimeout(() => {
         onLogin();
       }, 500);
     } catch (error: any) {
       console.error('Register error:', error);
-      toast.error(error.message || 'Ошибка регистрации');
+      showAuthError('register', error, 'Ошибка регистрации');
       setIsLoading(false);
     }
   };
@@ -78,12 +161,12 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
     setIsLoading(true);
     
     try {
-      await authAPI.resetPassword(resetEmail);
+      await authAPI.forgotPassword(resetEmail);
       setResetEmailSent(true);
       toast.success('Письмо с инструкциями отправлено на ' + resetEmail);
     } catch (error: any) {
       console.error('Reset password error:', error);
-      toast.error(error.message || 'Ошибка отправки письма');
+      showAuthError('reset', error, 'Ошибка отправки письма');
     } finally {
       setIsLoading(false);
     }
@@ -99,6 +182,12 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
 
         <Card>
           <CardHeader>
+            {twoFactorChallenge && (
+              <Button variant="ghost" size="sm" onClick={handleCancelTwoFactor} className="w-fit mb-2">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Назад к входу
+              </Button>
+            )}
             {showResetPassword && (
               <Button
                 variant="ghost"
@@ -114,15 +203,99 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
                 Назад к входу
               </Button>
             )}
-            <CardTitle>{showResetPassword ? 'Восстановление пароля' : 'Добро пожаловать'}</CardTitle>
+            <CardTitle>
+              {twoFactorChallenge ? 'Подтверждение входа' : showResetPassword ? 'Восстановление пароля' : 'Добро пожаловать'}
+            </CardTitle>
             <CardDescription>
-              {showResetPassword
+              {twoFactorChallenge
+                ? useBackupCode
+                  ? 'Введите один из резервных кодов'
+                  : 'Введите 6-значный код из приложения-аутентификатора'
+                : showResetPassword
                 ? 'Введите email для получения инструкций'
                 : 'Войдите в свой аккаунт или создайте новый'}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {!showResetPassword ? (
+            {retrySeconds > 0 && (
+              <Alert className="mt-4 border-amber-200 bg-amber-50">
+                <Clock className="h-4 w-4 text-amber-600" />
+                <AlertDescription className="text-amber-800">
+                  Слишком много попыток. Повторить можно через {formatCountdown(retrySeconds)}
+                </AlertDescription>
+              </Alert>
+            )}
+            {twoFactorChallenge ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitTwoFactorCode(twoFactorCode);
+                }}
+                className="space-y-4 mt-4"
+              >
+                {useBackupCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="backup-code">Резервный код</Label>
+                    <Input
+                      id="backup-code"
+                      placeholder="xxxxx-xxxxx"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      autoFocus
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
+                      onComplete={(code: string) => submitTwoFactorCode(code)}
+                      pattern="^[0-9]*$"
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full bg-purple-600 hover:bg-purple-700"
+                  disabled={
+                    isLoading || retrySeconds > 0 || (!useBackupCode && twoFactorCode.length < 6) || !twoFactorCode.trim()
+                  }
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Проверка...
+                    </>
+                  ) : (
+                    <>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Подтвердить
+                    </>
+                  )}
+                </Button>
+                <p className="text-center text-sm text-gray-600">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseBackupCode(!useBackupCode);
+                      setTwoFactorCode('');
+                    }}
+                    className="text-purple-600 hover:text-purple-700 hover:underline"
+                  >
+                    {useBackupCode ? 'Ввести код из приложения' : 'Нет доступа к приложению? Использовать резервный код'}
+                  </button>
+                </p>
+              </form>
+            ) : !showResetPassword ? (
               <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
                 <TabsList className="grid w-full grid-cols-2">
                   <TabsTrigger value="login">Вход</TabsTrigger>
@@ -162,7 +335,11 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
                         required
                       />
                     </div>
-                    <Button type="submit" className="w-full bg-purple-600 hover:bg-purple-700" disabled={isLoading}>
+                    <Button
+                      type="submit"
+                      className="w-full bg-purple-600 hover:bg-purple-700"
+                      disabled={isLoading || retrySeconds > 0}
+                    >
                       {isLoading ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -222,7 +399,11 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
                       />
                       <p className="text-xs text-gray-500">Минимум 8 символов</p>
                     </div>
-                    <Button type="submit" className="w-full bg-purple-600 hover:bg-purple-700" disabled={isLoading}>
+                    <Button
+                      type="submit"
+                      className="w-full bg-purple-600 hover:bg-purple-700"
+                      disabled={isLoading || retrySeconds > 0}
+                    >
                       {isLoading ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -263,7 +444,11 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
                         Мы отправим инструкции по восстановлению пароля на указанный email
                       </p>
                     </div>
-                    <Button type="submit" className="w-full bg-purple-600 hover:bg-purple-700" disabled={isLoading}>
+                    <Button
+                      type="submit"
+                      className="w-full bg-purple-600 hover:bg-purple-700"
+                      disabled={isLoading || retrySeconds > 0}
+                    >
                       {isLoading ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -291,3 +476,53 @@ export function AuthScreen({ onLogin }: { onLogin: () => void }) {
     </div>
   );
 }
+
+// Баннер над рабочим пространством, пока email не подтвержден
+export function EmailVerificationBanner() {
+  const { currentUser, fetchCurrentUser } = useApp();
+  const [isSending, setIsSending] = React.useState(false);
+
+  if (!currentUser || currentUser.emailVerified !== false) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      const { emailSent } = await authAPI.resendVerification();
+      if (emailSent) {
+        toast.success('Письмо отправлено на ' + currentUser.email);
+      } else {
+        toast.warning('Почтовый сервис не настроен, письмо не отправлено');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Не удалось отправить письмо');
+      // Email may have been verified in another tab
+      fetchCurrentUser();
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Alert className="rounded-none border-x-0 border-t-0 border-amber-200 bg-amber-50">
+      <MailWarning className="h-4 w-4 text-amber-600" />
+      <AlertDescription className="flex flex-wrap items-center gap-x-3 gap-y-1 text-amber-800">
+        <span>
+          Подтвердите email <strong>{currentUser.email}</strong> по ссылке из письма. Без подтверждения некоторые действия,
+          например приглашения в проекты, могут быть недоступны.
+        </span>
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0 text-amber-900 underline"
+          onClick={handleResend}
+          disabled={isSending}
+        >
+          {isSending && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          Отправить повторно
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,286 @@
+import React from 'react';
+import { CalendarDays, CircleDot, Flag, FolderInput, Tag, Trash2, User, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Calendar } from './ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { useApp, type Task } from '../contexts/app-context';
+import { getWorkflowStatuses } from '../utils/workflow';
+import { MAX_BULK_TASKS, type BulkTaskUpdate } from '../server/types';
+
+const personalStatuses = [
+  { key: 'todo', name: 'К выполнению' },
+  { key: 'in_progress', name: 'В работе' },
+  { key: 'done', name: 'Готово' },
+];
+
+const priorities = [
+  { key: 'low', name: 'Низкий' },
+  { key: 'medium', name: 'Средний' },
+  { key: 'high', name: 'Высокий' },
+  { key: 'urgent', name: 'Срочный' },
+];
+
+type BulkActionBarProps = {
+  selectedTasks: Task[];
+  onClearSelection: () => void;
+  // Таблица с постраничной загрузкой: выбрать все задачи по фильтру, а не только загруженные
+  totalCount?: number;
+  onSelectAll?: () => void;
+  isSelectingAll?: boolean;
+};
+
+export function BulkActionBar({ selectedTasks, onClearSelection, totalCount, onSelectAll, isSelectingAll }: BulkActionBarProps) {
+  const { projects, teamMembers, categories, customColumns, bulkUpdateTasks, bulkDeleteTasks, canCreateTask } = useApp();
+  const [isApplying, setIsApplying] = React.useState(false);
+  const [tag, setTag] = React.useState('');
+
+  // Статусы всех процессов, в которых есть выбранные задачи; задачи без такого статуса попадут в ошибки
+  const statusOptions = React.useMemo(() => {
+    const options = new Map<string, string>();
+    selectedTasks.forEach(task => {
+      const statuses = task.projectId
+        ? getWorkflowStatuses(projects.find(p => p.id === task.projectId))
+        : [...personalStatuses, ...customColumns.map(col => ({ key: col.id, name: col.title }))];
+      statuses.forEach(status => {
+        if (!options.has(status.key)) options.set(status.key, status.name);
+      });
+    });
+    return Array.from(options, ([key, name]) => ({ key, name }));
+  }, [selectedTasks, projects, customColumns]);
+
+  // Личные категории и категории проектов выбранных задач
+  const categoryOptions = React.useMemo(() => {
+    const projectIds = new Set(selectedTasks.map(task => task.projectId).filter(Boolean));
+    return categories.filter(category => !category.projectId || projectIds.has(category.projectId));
+  }, [selectedTasks, categories]);
+
+  const selectedTags = React.useMemo(
+    () => Array.from(new Set(selectedTasks.flatMap(task => task.tags || []))).sort(),
+    [selectedTasks]
+  );
+
+  if (selectedTasks.length === 0) return null;
+
+  const applyChange = async (change: Omit<BulkTaskUpdate, 'id'>) => {
+    setIsApplying(true);
+    try {
+      await bulkUpdateTasks(selectedTasks.map(task => ({ id: task.id, ...change })));
+    } catch {
+      // Ошибка уже показана
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleAddTag = () => {
+    const value = tag.trim();
+    if (!value) return;
+    applyChange({ addTags: [value] });
+    setTag('');
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Удалить выбранные задачи (${selectedTasks.length})? Подзадачи будут удалены вместе с ними`)) return;
+    bulkDeleteTasks(selectedTasks.map(task => task.id));
+    onClearSelection();
+  };
+
+  const canSelectAll = !!onSelectAll && totalCount !== undefined && totalCount > selectedTasks.length;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 rounded-lg border bg-white px-4 py-2 shadow-lg">
+      <span className="text-sm font-medium whitespace-nowrap">Выбрано: {selectedTasks.length}</span>
+      {canSelectAll && (
+        <Button variant="link" size="sm" className="px-1 text-purple-600" onClick={onSelectAll} disabled={isSelectingAll}>
+          {isSelectingAll
+            ? 'Загрузка...'
+            : `Выбрать все по фильтру (${Math.min(totalCount, MAX_BULK_TASKS)})`}
+        </Button>
+      )}
+
+      <div className="h-5 w-px bg-gray-200" />
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isApplying}>
+            <CircleDot className="w-4 h-4 mr-1" />
+            Статус
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {statusOptions.map(status => (
+            <DropdownMenuItem key={status.key} onClick={() => applyChange({ status: status.key })}>
+              {status.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isApplying}>
+            <Flag className="w-4 h-4 mr-1" />
+            Приоритет
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {priorities.map(priority => (
+            <DropdownMenuItem
+              key={priority.key}
+              onClick={() => applyChange({ priority: priority.key as BulkTaskUpdate['priority'] })}
+            >
+              {priority.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isApplying}>
+            <User className="w-4 h-4 mr-1" />
+            Исполнитель
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="max-h-80 overflow-y-auto">
+          <DropdownMenuItem onClick={() => applyChange({ assigneeId: null })}>Не назначен</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {teamMembers.map(member => (
+            <DropdownMenuItem key={member.id} onClick={() => applyChange({ assigneeId: member.id })}>
+              {member.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isApplying}>
+            <Tag className="w-4 h-4 mr-1" />
+            Категория
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="max-h-80 overflow-y-auto">
+          <DropdownMenuItem onClick={() => applyChange({ category: null })}>Без категории</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {categoryOptions.map(category => (
+            <DropdownMenuItem key={category.id} onClick={() => applyChange({ category: category.id })}>
+              <div className={`w-2 h-2 rounded-full ${category.color} mr-2`} />
+              <span className="truncate">{category.name}</span>
+              {category.project && (
+                <span className="ml-2 text-xs text-gray-500 truncate max-w-[100px]">{category.project.name}</span>
+              )}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isApplying}>
+            <CalendarDays className="w-4 h-4 mr-1" />
+            Дедлайн
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="center">
+          <Calendar
+            mode="single"
+            onSelect={(date) => {
+              if (date) applyChange({ dueDate: date.toISOString() });
+            }}
+            footer={
+              <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => applyChange({ dueDate: null })}>
+                Убрать дедлайн
+              </Button>
+            }
+          />
+        </PopoverContent>
+      </Popover>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isApplying}>
+            <Tag className="w-4 h-4 mr-1" />
+            Теги
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3" align="center">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Добавить тег"
+              value={tag}
+              maxLength={50}
+              onChange={(e) => setTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddTag();
+                }
+              }}
+            />
+            <Button size="sm" onClick={handleAddTag} disabled={!tag.trim()}>
+              Добавить
+            </Button>
+          </div>
+          {selectedTags.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-gray-500">Убрать у выбранных задач:</p>
+              <div className="flex flex-wrap gap-1">
+                {selectedTags.map(selectedTag => (
+                  <Badge
+                    key={selectedTag}
+                    variant="secondary"
+                    className="cursor-pointer"
+                    onClick={() => applyChange({ removeTags: [selectedTag] })}
+                  >
+                    {selectedTag}
+                    <X className="w-3 h-3 ml-1" />
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isApplying}>
+            <FolderInput className="w-4 h-4 mr-1" />
+            Переместить
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="max-h-80 overflow-y-auto">
+          <DropdownMenuItem onClick={() => applyChange({ projectId: null })}>
+            <User className="w-4 h-4 mr-2" />
+            Личные задачи
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {projects.filter(project => canCreateTask(project.id)).map(project => (
+            <DropdownMenuItem key={project.id} onClick={() => applyChange({ projectId: project.id })}>
+              {project.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700" onClick={handleDelete} disabled={isApplying}>
+        <Trash2 className="w-4 h-4 mr-1" />
+        Удалить
+      </Button>
+
+      <Button variant="ghost" size="sm" onClick={onClearSelection} title="Снять выбор">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Plus, MoreHorizontal, Tag, Trash2, Edit2 } from 'lucide-react';
+import { Plus, MoreHorizontal, Tag, Trash2, Edit2, Users } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader } from './ui/card';
 import { Badge } from './ui/badge';
@@ -18,7 +18,14 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
-import { useApp } from '../contexts/app-context';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { useApp, type Category } from '../contexts/app-context';
 
 const AVAILABLE_COLORS = [
   'bg-purple-500',
@@ -31,14 +38,20 @@ const AVAILABLE_COLORS = [
   'bg-indigo-500',
 ];
 
+const PERSONAL = 'personal';
+const NO_CATEGORY = 'none';
+
 export function CategoriesView() {
-  const { categories, tasks, createCategory, updateCategory, deleteCategory } = useApp();
+  const { categories, tasks, projects, createCategory, updateCategory, deleteCategory } = useApp();
   const [isCreateOpen, setIsCreateOpen] = React.useState(false);
   const [isEditOpen, setIsEditOpen] = React.useState(false);
   const [editingCategory, setEditingCategory] = React.useState<any>(null);
   const [newCategoryName, setNewCategoryName] = React.useState('');
   const [newCategoryDescription, setNewCategoryDescription] = React.useState('');
   const [selectedColor, setSelectedColor] = React.useState(AVAILABLE_COLORS[0]);
+  const [shareWith, setShareWith] = React.useState(PERSONAL);
+  const [deletingCategory, setDeletingCategory] = React.useState<Category | null>(null);
+  const [reassignTo, setReassignTo] = React.useState(NO_CATEGORY);
 
   const handleCreateCategory = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,12 +62,14 @@ export function CategoriesView() {
         name: newCategoryName,
         color: selectedColor,
         description: newCategoryDescription,
+        projectId: shareWith === PERSONAL ? null : shareWith,
       });
       
       setIsCreateOpen(false);
       setNewCategoryName('');
       setNewCategoryDescription('');
       setSelectedColor(AVAILABLE_COLORS[0]);
+      setShareWith(PERSONAL);
     } catch (error) {
       console.error('Error creating category:', error);
     }
@@ -81,16 +96,33 @@ export function CategoriesView() {
     }
   };
 
-  const handleDeleteCategory = async (categoryId: string) => {
-    if (confirm('Вы уверены, что хотите удалить эту категорию?')) {
-      try {
-        await deleteCategory(categoryId);
-      } catch (error) {
-        console.error('Error deleting category:', error);
-      }
+  const openDeleteDialog = (category: Category) => {
+    setDeletingCategory(category);
+    setReassignTo(NO_CATEGORY);
+  };
+
+  const handleDeleteCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deletingCategory) return;
+
+    try {
+      await deleteCategory(deletingCategory.id, reassignTo === NO_CATEGORY ? undefined : reassignTo);
+      setDeletingCategory(null);
+    } catch (error) {
+      console.error('Error deleting category:', error);
     }
   };
 
+  // Задачи категории проекта можно перенести только в другую категорию того же проекта,
+  // а в категорию проекта - только задачи этого проекта
+  const reassignTargets = deletingCategory
+    ? categories.filter(c =>
+        c.id !== deletingCategory.id &&
+        (!deletingCategory.projectId || c.projectId === deletingCategory.projectId) &&
+        (!c.projectId || tasks.every(task => task.categoryId !== deletingCategory.id || task.projectId === c.projectId))
+      )
+    : [];
+
   const openEditDialog = (category: any) => {
     setEditingCategory(category);
     setNewCategoryName(category.name);
@@ -157,7 +189,7 @@ export function CategoriesView() {
                           Редактировать
                         </DropdownMenuItem>
                         <DropdownMenuItem 
-                          onClick={() => handleDeleteCategory(category.id)}
+                          onClick={() => openDeleteDialog(category)}
                           className="text-red-600"
                         >
                           <Trash2 className="w-4 h-4 mr-2" />
@@ -167,6 +199,12 @@ export function CategoriesView() {
                     </DropdownMenu>
                   </div>
                   <h4>{category.name}</h4>
+                  {category.project && (
+                    <p className="flex items-center gap-1 text-xs text-gray-500 mt-1" title={`Общая для проекта «${category.project.name}»`}>
+                      <Users className="w-3 h-3" />
+                      <span className="truncate">{category.project.name}</span>
+                    </p>
+                  )}
                   <p className="text-sm text-gray-600 mt-1">{category.description || 'Без описания'}</p>
                 </CardHeader>
                 <CardContent>
@@ -211,6 +249,22 @@ export function CategoriesView() {
                 onChange={(e) => setNewCategoryDescription(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Доступ</Label>
+              <Select value={shareWith} onValueChange={setShareWith}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PERSONAL}>Только я</SelectItem>
+                  {projects.filter(project => !project.archived).map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                      Участники проекта «{project.name}»
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-2">
               <Label>Цвет</Label>
               <div className="flex gap-2 flex-wrap">
@@ -235,6 +289,7 @@ export function CategoriesView() {
                   setNewCategoryName('');
                   setNewCategoryDescription('');
                   setSelectedColor(AVAILABLE_COLORS[0]);
+                  setShareWith(PERSONAL);
                 }}
                 className="flex-1"
               >
@@ -313,6 +368,55 @@ export function CategoriesView() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!deletingCategory} onOpenChange={(open) => !open && setDeletingCategory(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Удалить категорию</DialogTitle>
+            <DialogDescription>
+              {deletingCategory && getCategoryTaskCount(deletingCategory.id) > 0
+                ? `Категория «${deletingCategory.name}» используется в задачах: ${getCategoryTaskCount(deletingCategory.id)}. Выберите, что с ними сделать`
+                : `Вы уверены, что хотите удалить категорию «${deletingCategory?.name}»?`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleDeleteCategory} className="space-y-4 mt-4">
+            {deletingCategory && getCategoryTaskCount(deletingCategory.id) > 0 && (
+              <div className="space-y-2">
+                <Label>Задачи категории</Label>
+                <Select value={reassignTo} onValueChange={setReassignTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>Оставить без категории</SelectItem>
+                    {reassignTargets.map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <div className="flex items-center gap-2">
+                          <div className={`w-2 h-2 rounded-full ${category.color}`} />
+                          Перенести в «{category.name}»
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDeletingCategory(null)}
+                className="flex-1"
+              >
+                Отмена
+              </Button>
+              <Button type="submit" className="flex-1 bg-red-600 hover:bg-red-700">
+                Удалить
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,223 @@
+import React from 'react';
+import { Home, CheckSquare, FolderKanban, Tag, Archive, User, Loader2 } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from './ui/command';
+import { useApp } from '../contexts/app-context';
+import { searchAPI } from '../utils/api-client';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import type { ProjectSearchResult, TaskSearchResult } from '../lib/search';
+
+const navigationItems = [
+  { view: 'dashboard', label: 'Дашборд', icon: Home },
+  { view: 'tasks', label: 'Личные задачи', icon: CheckSquare },
+  { view: 'projects', label: 'Проекты', icon: FolderKanban },
+  { view: 'categories', label: 'Категории', icon: Tag },
+  { view: 'archive', label: 'Архив', icon: Archive },
+  { view: 'profile', label: 'Профиль', icon: User },
+];
+
+const statusLabels: Record<string, string> = {
+  todo: 'К выполнению',
+  in_progress: 'В работе',
+  review: 'На проверке',
+  done: 'Готово',
+};
+
+// The server is asked only after a pause in typing, and not for a single letter (matches almost everything)
+const SEARCH_DELAY_MS = 300;
+const SEARCH_MIN_LENGTH = 2;
+
+type CommandPaletteProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNavigate: (view: string) => void;
+  onOpenProject: (projectId: string) => void;
+  onOpenTask: (taskId: string) => void;
+};
+
+// Text highlighted by the server: matched words come wrapped in <mark></mark>
+function Highlight({ text }: { text: string }) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith('<mark>') ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+            {part.slice('<mark>'.length, -'</mark>'.length)}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export function CommandPalette({ open, onOpenChange, onNavigate, onOpenProject, onOpenTask }: CommandPaletteProps) {
+  const { projects } = useApp();
+  const [query, setQuery] = React.useState('');
+  const [results, setResults] = React.useState<{ tasks: TaskSearchResult[]; projects: ProjectSearchResult[] } | null>(null);
+  const [isSearching, setIsSearching] = React.useState(false);
+
+  // Ctrl+K / Cmd+K opens the palette from anywhere
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  React.useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setResults(null);
+    }
+  }, [open]);
+
+  const searchText = query.trim();
+  const debouncedSearchText = useDebouncedValue(searchText, SEARCH_DELAY_MS);
+
+  React.useEffect(() => {
+    if (debouncedSearchText.length < SEARCH_MIN_LENGTH) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    searchAPI.search(debouncedSearchText, { signal: controller.signal })
+      .then(setResults)
+      .catch((error: any) => {
+        if (error.name !== 'AbortError') {
+          console.error('[CommandPalette] Search error:', error);
+          setResults({ tasks: [], projects: [] });
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsSearching(false);
+      });
+
+    // A newer search text cancels the request still in flight
+    return () => controller.abort();
+  }, [debouncedSearchText]);
+
+  // Spinner from the first keystroke, not only once the request is sent
+  const isWaitingForResults = searchText.length >= SEARCH_MIN_LENGTH && (isSearching || searchText !== debouncedSearchText);
+
+  const run = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  const text = query.trim().toLowerCase();
+  const matchingViews = navigationItems.filter(item => item.label.toLowerCase().includes(text));
+  // Before the user types, the palette lists the active projects to jump to
+  const recentProjects = text ? [] : projects.filter(project => !project.archived).slice(0, 8);
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Поиск"
+      description="Поиск задач и проектов"
+      shouldFilter={false}
+    >
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Поиск задач, проектов, вложений..."
+      />
+      <CommandList className="max-h-[420px]">
+        {isWaitingForResults && !results ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Поиск...
+          </div>
+        ) : (
+          <CommandEmpty>Ничего не найдено</CommandEmpty>
+        )}
+
+        {results && results.projects.length > 0 && (
+          <CommandGroup heading="Проекты">
+            {results.projects.map(project => (
+              <CommandItem
+                key={project.id}
+                value={`project-${project.id}`}
+                onSelect={() => run(() => onOpenProject(project.id))}
+              >
+                <FolderKanban />
+                <span className="truncate"><Highlight text={project.nameHighlight} /></span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {results && results.tasks.length > 0 && (
+          <CommandGroup heading="Задачи">
+            {results.tasks.map(task => (
+              <CommandItem
+                key={task.id}
+                value={`task-${task.id}`}
+                onSelect={() => run(() => onOpenTask(task.id))}
+              >
+                <CheckSquare />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate"><Highlight text={task.titleHighlight} /></p>
+                  {task.snippet && (
+                    <p className="truncate text-xs text-gray-500"><Highlight text={task.snippet} /></p>
+                  )}
+                </div>
+                <CommandShortcut className="tracking-normal">
+                  {task.projectName || 'Личные задачи'} · {statusLabels[task.status] || task.status}
+                </CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {recentProjects.length > 0 && (
+          <CommandGroup heading="Проекты">
+            {recentProjects.map(project => (
+              <CommandItem
+                key={project.id}
+                value={`project-${project.id}`}
+                onSelect={() => run(() => onOpenProject(project.id))}
+              >
+                <FolderKanban />
+                <span className="truncate">{project.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingViews.length > 0 && (
+          <CommandGroup heading="Переход">
+            {matchingViews.map(item => (
+              <CommandItem
+                key={item.view}
+                value={`view-${item.view}`}
+                onSelect={() => run(() => onNavigate(item.view))}
+              >
+                <item.icon />
+                <span>{item.label}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
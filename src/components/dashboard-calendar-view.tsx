@@ -27,8 +27,14 @@ import { ru } from 'date-fns/locale';
 import { TaskModal } from './task-modal';
 import { Checkbox } from './ui/checkbox';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import type { Filters } from './filters-panel';
+import type { BoardState } from '../server/types';
 
 type DashboardCalendarViewProps = {
+  filters: Filters;
+  onFiltersChange: (filters: Filters) => void;
+  dateRange: BoardState['dateRange'];
+  onDateRangeChange: (dateRange: BoardState['dateRange']) => void;
   onBack?: () => void;
 };
 
@@ -40,15 +46,32 @@ const STATUS_COLORS = {
 };
 
 export function DashboardCalendarView({
+  filters,
+  onFiltersChange,
+  dateRange,
+  onDateRangeChange,
   onBack,
 }: DashboardCalendarViewProps) {
   const { tasks, projects, teamMembers, categories } = useApp();
-  const [dateRange, setDateRange] = React.useState<'1week' | '2weeks' | '1month' | '3months'>('2weeks');
-  const [statusFilter, setStatusFilter] = React.useState<string>('all');
-  const [assigneeFilter, setAssigneeFilter] = React.useState<string>('all');
-  const [priorityFilter, setPriorityFilter] = React.useState<string>('all');
-  const [categoryFilter, setCategoryFilter] = React.useState<string>('all');
-  const [selectedProjects, setSelectedProjects] = React.useState<string[]>([]);
+  // Filters and range are the dashboard board state (kept in App, saved views and the URL);
+  // the selects here pick a single value, filters set on the board may hold several
+  const selectedProjects = filters.projects;
+  const statusFilter = filters.statuses[0] ?? 'all';
+  const assigneeFilter = filters.assignees[0] ?? 'all';
+  const priorityFilter = filters.priorities[0] ?? 'all';
+  const categoryFilter = filters.categories[0] ?? 'all';
+
+  const setSingleFilter = (key: 'statuses' | 'assignees' | 'priorities' | 'categories') => (value: string) => {
+    onFiltersChange({ ...filters, [key]: value === 'all' ? [] : [value] });
+  };
+  const setStatusFilter = setSingleFilter('statuses');
+  const setAssigneeFilter = setSingleFilter('assignees');
+  const setPriorityFilter = setSingleFilter('priorities');
+  const setCategoryFilter = setSingleFilter('categories');
+  const setSelectedProjects = (update: string[] | ((prev: string[]) => string[])) => {
+    onFiltersChange({ ...filters, projects: typeof update === 'function' ? update(filters.projects) : update });
+  };
+  const setDateRange = onDateRangeChange;
   const [selectedTaskId, setSelectedTaskId] = React.useState<string | null>(null);
 
   // Get date range based on filter
@@ -111,26 +134,20 @@ export function DashboardCalendarView({
       }
       
       // Status filter
-      if (statusFilter !== 'all' && task.status !== statusFilter) return false;
+      if (filters.statuses.length > 0 && !filters.statuses.includes(task.status)) return false;
       
       // Assignee filter
-      if (assigneeFilter !== 'all' && task.assigneeId !== assigneeFilter) return false;
+      if (filters.assignees.length > 0 && !filters.assignees.includes(task.assigneeId || '')) return false;
       
       // Priority filter
-      if (priorityFilter !== 'all' && task.priority !== priorityFilter) return false;
+      if (filters.priorities.length > 0 && !filters.priorities.includes(task.priority)) return false;
       
       // Category filter
-      if (categoryFilter !== 'all') {
-        if (categoryFilter === 'no-category') {
-          if (task.categoryId) return false;
-        } else {
-          if (task.categoryId !== categoryFilter) return false;
-        }
-      }
+      if (filters.categories.length > 0 && !filters.categories.includes(task.categoryId || 'none')) return false;
       
       return true;
     });
-  }, [tasks, selectedProjects, statusFilter, assigneeFilter, priorityFilter, categoryFilter]);
+  }, [tasks, selectedProjects, filters]);
 
   // Group tasks by row to avoid overlapping
   const taskRows = React.useMemo(() => {
@@ -237,11 +254,7 @@ export function DashboardCalendarView({
   }, [dateRange]);
 
   const clearFilters = () => {
-    setStatusFilter('all');
-    setAssigneeFilter('all');
-    setPriorityFilter('all');
-    setCategoryFilter('all');
-    setSelectedProjects([]);
+    onFiltersChange({ ...filters, statuses: [], assignees: [], priorities: [], categories: [], projects: [] });
   };
 
   const hasActiveFilters = statusFilter !== 'all' || assigneeFilter !== 'all' || priorityFilter !== 'all' || categoryFilter !== 'all' || selectedProjects.length > 0;
@@ -445,7 +458,7 @@ export function DashboardCalendarView({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Все категории</SelectItem>
-              <SelectItem value="no-category">Без категории</SelectItem>
+              <SelectItem value="none">Без категории</SelectItem>
               {categories.map(category => (
                 <SelectItem key={category.id} value={category.id}>
                   {category.name}
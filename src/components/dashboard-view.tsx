@@ -12,17 +12,11 @@ import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { Input } from './ui/input';
 import { Switch } from './ui/switch';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useApp } from '../contexts/app-context';
-
-type Filters = {
-  projects: string[];
-  categories: string[];
-  statuses: string[];
-  priorities: string[];
-  assignees: string[];
-  tags: string[];
-  deadline: 'all' | 'overdue' | 'today' | '3days' | 'week';
-};
+import { useApp, type SavedView } from '../contexts/app-context';
+import { SavedViewsMenu } from './saved-views-menu';
+import type { Filters } from './filters-panel';
+import type { BoardState } from '../server/types';
+import { DEFAULT_BOARD_STATE } from '../utils/board-url';
 
 // Статичные списки статусов и приоритетов
 const statusesList = [
@@ -40,28 +34,37 @@ const prioritiesList = [
 ];
 
 type DashboardViewProps = {
+  boardState: BoardState;
+  onBoardStateChange: (boardState: BoardState) => void;
+  activeSavedViewId: string | null;
+  onOpenSavedView: (view: SavedView) => void;
+  onSavedViewChange: (viewId: string | null) => void;
   onCalendarView?: () => void;
 };
 
-export function DashboardView({ onCalendarView }: DashboardViewProps = {}) {
+export function DashboardView({
+  boardState,
+  onBoardStateChange,
+  activeSavedViewId,
+  onOpenSavedView,
+  onSavedViewChange,
+  onCalendarView,
+}: DashboardViewProps) {
   const { projects, teamMembers, currentUser, categories } = useApp();
-  const [viewMode, setViewMode] = React.useState<'kanban' | 'table'>('kanban');
   const [selectedTaskId, setSelectedTaskId] = React.useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = React.useState('');
-  const [showMyTasks, setShowMyTasks] = React.useState(false);
+
+  // Фильтры, поиск и вид хранятся в App (переживают переключение разделов и попадают в URL)
+  const { filters, search: searchQuery, myTasks: showMyTasks } = boardState;
+  const viewMode = boardState.viewMode === 'table' ? 'table' : 'kanban';
+  const updateBoardState = (changes: Partial<BoardState>) => onBoardStateChange({ ...boardState, ...changes });
+  const setViewMode = (mode: 'kanban' | 'table') => updateBoardState({ viewMode: mode });
+  const setSearchQuery = (search: string) => updateBoardState({ search });
+  const setShowMyTasks = (myTasks: boolean) => updateBoardState({ myTasks });
+  const setFilters = (newFilters: Filters) => updateBoardState({ filters: newFilters });
   const [showCustomColumns, setShowCustomColumns] = React.useState(() => {
     const stored = localStorage.getItem('dashboard-show-custom-columns');
     return stored !== null ? stored === 'true' : true; // По умолчанию показываем
   });
-  const [filters, setFilters] = React.useState<Filters>({
-    projects: [],
-    categories: [],
-    statuses: [],
-    priorities: [],
-    assignees: [],
-    tags: [],
-    deadline: 'all',
-  });
 
   // Save showCustomColumns to localStorage
   React.useEffect(() => {
@@ -69,16 +72,7 @@ export function DashboardView({ onCalendarView }: DashboardViewProps = {}) {
   }, [showCustomColumns]);
 
   const handleClearFilters = () => {
-    setFilters({
-      projects: [],
-      categories: [],
-      statuses: [],
-      priorities: [],
-      assignees: [],
-      tags: [],
-      deadline: 'all',
-    });
-    setShowMyTasks(false);
+    updateBoardState({ filters: DEFAULT_BOARD_STATE.filters, myTasks: false });
   };
 
   const handleTaskClick = (taskId: string) => {
@@ -136,6 +130,12 @@ export function DashboardView({ onCalendarView }: DashboardViewProps = {}) {
             <h1 className="text-gray-900 mb-1">Дашборд</h1>
             <p className="text-gray-600">Обзор всех задач из проектов и личных задач</p>
           </div>
+          <SavedViewsMenu
+            boardState={boardState}
+            activeSavedViewId={activeSavedViewId}
+            onOpenSavedView={onOpenSavedView}
+            onSavedViewChange={onSavedViewChange}
+          />
         </div>
 
         {/* Поиск, переключатель "Назначенные на меня" и переключатель вида */}
@@ -599,7 +599,14 @@ export function DashboardView({ onCalendarView }: DashboardViewProps = {}) {
             showCustomColumns={showCustomColumns}
           />
         ) : (
-          <TaskTable searchQuery={searchQuery} filters={effectiveFilters} onTaskClick={handleTaskClick} />
+          <TaskTable
+            searchQuery={searchQuery}
+            filters={effectiveFilters}
+            sortColumn={boardState.sortColumn}
+            sortDirection={boardState.sortDirection}
+            onSortChange={(sortColumn, sortDirection) => updateBoardState({ sortColumn, sortDirection })}
+            onTaskClick={handleTaskClick}
+          />
         )}
       </div>
 
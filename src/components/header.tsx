@@ -1,8 +1,7 @@
 import React from 'react';
-import { Plus, Bell } from 'lucide-react';
+import { Plus, Search } from 'lucide-react';
 import { Button } from './ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { Badge } from './ui/badge';
 import { SidebarTrigger } from './ui/sidebar';
 import {
   DropdownMenu,
@@ -17,18 +16,24 @@ import { toast } from 'sonner';
 import { RealtimeIndicator } from './realtime-indicator';
 import { Logo } from './logo';
 import { InvitationsModal } from './invitations-modal';
+import { NotificationCenter } from './notification-center';
+import { TaskModal } from './task-modal';
+import { CommandPalette } from './command-palette';
 
 type HeaderProps = {
   onCreateTask: () => void;
   onNavigate: (view: string) => void;
+  onOpenProject: (projectId: string) => void;
   onLogout: () => void;
   currentProject?: string;
 };
 
-export function Header({ onCreateTask, onNavigate, onLogout, currentProject }: HeaderProps) {
+export function Header({ onCreateTask, onNavigate, onOpenProject, onLogout, currentProject }: HeaderProps) {
   const { currentUser, refreshData, isRealtimeConnected, canCreateTask } = useApp();
   const [pendingInvitations, setPendingInvitations] = React.useState<any[]>([]);
   const [isInvitationsModalOpen, setIsInvitationsModalOpen] = React.useState(false);
+  const [viewTaskId, setViewTaskId] = React.useState<string | null>(null);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = React.useState(false);
 
   const getInitials = (name?: string) => {
     if (!name) return 'U';
@@ -85,6 +90,18 @@ export function Header({ onCreateTask, onNavigate, onLogout, currentProject }: H
 
       {/* Правая часть */}
       <div className="flex items-center gap-2 md:gap-4 ml-auto">
+        {/* Поиск (Ctrl+K) */}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 md:h-10 text-gray-500"
+          onClick={() => setIsCommandPaletteOpen(true)}
+        >
+          <Search className="w-4 h-4 md:mr-2" />
+          <span className="hidden md:inline">Поиск</span>
+          <kbd className="hidden md:inline ml-3 rounded border bg-gray-50 px-1.5 text-xs text-gray-400">Ctrl K</kbd>
+        </Button>
+
         {/* Real-time индикатор */}
         <RealtimeIndicator isConnected={isRealtimeConnected} />
 
@@ -98,20 +115,12 @@ export function Header({ onCreateTask, onNavigate, onLogout, currentProject }: H
           <span className="hidden md:inline">Новая задача</span>
         </Button>
 
-        {/* Уведомления о приглашениях */}
-        <Button 
-          variant="ghost" 
-          size="icon" 
-          className="relative"
-          onClick={() => setIsInvitationsModalOpen(true)}
-        >
-          <Bell className="w-5 h-5" />
-          {pendingInvitations.length > 0 && (
-            <Badge className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 bg-red-500 text-white text-xs">
-              {pendingInvitations.length}
-            </Badge>
-          )}
-        </Button>
+        {/* Уведомления и приглашения */}
+        <NotificationCenter
+          pendingInvitationsCount={pendingInvitations.length}
+          onOpenInvitations={() => setIsInvitationsModalOpen(true)}
+          onOpenTask={setViewTaskId}
+        />
 
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -156,6 +165,24 @@ export function Header({ onCreateTask, onNavigate, onLogout, currentProject }: H
         onOpenChange={setIsInvitationsModalOpen}
         onInvitationAccepted={handleInvitationAccepted}
       />
+
+      <CommandPalette
+        open={isCommandPaletteOpen}
+        onOpenChange={setIsCommandPaletteOpen}
+        onNavigate={onNavigate}
+        onOpenProject={onOpenProject}
+        onOpenTask={setViewTaskId}
+      />
+
+      {/* Задача, открытая из уведомления или поиска */}
+      {viewTaskId && (
+        <TaskModal
+          open={!!viewTaskId}
+          onOpenChange={(open) => !open && setViewTaskId(null)}
+          mode="view"
+          taskId={viewTaskId}
+        />
+      )}
     </header>
   );
 }
@@ -2,7 +2,7 @@ import React from 'react';
 import { Card, CardContent, CardHeader } from './ui/card';
 import { Badge } from './ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { MoreHorizontal, Calendar, Flame, Tag, User, AlertCircle, Info, Paperclip, Repeat } from 'lucide-react';
+import { MoreHorizontal, Calendar, Flame, Tag, User, AlertCircle, Info, Paperclip, Repeat, CornerDownRight } from 'lucide-react';
 import { Button } from './ui/button';
 import { Label } from './ui/label';
 import { Switch } from './ui/switch';
@@ -14,6 +14,7 @@ import { ru } from 'date-fns/locale';
 import { motion, AnimatePresence } from 'framer-motion';
 import { compareOrderKeys } from '../utils/orderKey';
 import { useKanbanDnD } from '../hooks/useKanbanDnD';
+import { TaskProgress, TaskBlockedBadge } from './task-progress';
 import type { Filters } from './filters-panel';
 import type { Task as TaskType } from '../contexts/app-context';
 
@@ -45,11 +46,12 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
   const { projects, teamMembers, categories, setIsDragging } = useApp();
   const [dropPosition, setDropPosition] = React.useState<'before' | 'after' | null>(null);
   const [canDropHere, setCanDropHere] = React.useState(true);
+  const parentTask = task.parentTaskId ? allTasks.find((t) => t.id === task.parentTaskId) : undefined;
   
   const [{ isDragging }, drag] = useDrag(() => ({
     type: ITEM_TYPE,
     item: () => {
-      setIsDragging(true);
+      setIsDragging(true, task.id);
       return { taskId: task.id, currentStatus: task.status, index, hasProjectId: !!task.projectId };
     },
     collect: (monitor) => ({
@@ -207,6 +209,14 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
             )}
           </div>
 
+          {/* Родительская задача для подзадач */}
+          {parentTask && (
+            <div className="flex items-center gap-1 text-xs text-gray-500 -mb-2" title="Подзадача">
+              <CornerDownRight className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{parentTask.title}</span>
+            </div>
+          )}
+
           {/* Заголовок */}
           <div className="flex items-center gap-2">
             {task.isRecurring && (
@@ -231,6 +241,7 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
               )}
               {priorityLabels[task.priority]}
             </Badge>
+            <TaskBlockedBadge task={task} />
           </div>
 
           {/* Теги */}
@@ -274,6 +285,8 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
                   <span>{task.attachments.length}</span>
                 </div>
               )}
+
+              <TaskProgress task={task} className="text-sm" />
             </div>
             
             {assignee && (
@@ -0,0 +1,154 @@
+import React from 'react';
+import {
+  AtSign,
+  Bell,
+  CalendarClock,
+  CheckCheck,
+  Mail,
+  MessageSquare,
+  Shield,
+  UserCheck,
+  UserPlus,
+  X,
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { useApp } from '../contexts/app-context';
+import type { AppNotification, NotificationType } from '../contexts/app-context';
+
+type NotificationCenterProps = {
+  // Приглашения в проекты по-прежнему показываются в отдельном модальном окне
+  pendingInvitationsCount: number;
+  onOpenInvitations: () => void;
+  onOpenTask: (taskId: string) => void;
+};
+
+const NOTIFICATION_ICONS: Record<NotificationType, React.ComponentType<{ className?: string }>> = {
+  task_assigned: UserPlus,
+  task_due_soon: CalendarClock,
+  task_overdue: CalendarClock,
+  invitation_accepted: UserCheck,
+  role_changed: Shield,
+  comment: MessageSquare,
+  mention: AtSign,
+};
+
+export function NotificationCenter({
+  pendingInvitationsCount,
+  onOpenInvitations,
+  onOpenTask,
+}: NotificationCenterProps) {
+  const { notifications, unreadNotificationCount, markNotificationsRead, deleteNotification, tasks } = useApp();
+  const [open, setOpen] = React.useState(false);
+
+  const badgeCount = unreadNotificationCount + pendingInvitationsCount;
+
+  const handleClick = (notification: AppNotification) => {
+    if (!notification.readAt) {
+      markNotificationsRead([notification.id]);
+    }
+    // Задача могла быть удалена или стать недоступной
+    if (notification.taskId && tasks.some((t) => t.id === notification.taskId)) {
+      setOpen(false);
+      onOpenTask(notification.taskId);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="w-5 h-5" />
+          {badgeCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-5 min-w-5 flex items-center justify-center px-1 bg-red-500 text-white text-xs">
+              {badgeCount > 99 ? '99+' : badgeCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h4 className="font-medium">Уведомления</h4>
+          {unreadNotificationCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-purple-600"
+              onClick={() => markNotificationsRead()}
+            >
+              <CheckCheck className="w-4 h-4 mr-1" />
+              Прочитать все
+            </Button>
+          )}
+        </div>
+
+        {pendingInvitationsCount > 0 && (
+          <button
+            type="button"
+            className="w-full flex items-center gap-3 px-4 py-3 border-b bg-purple-50 hover:bg-purple-100 text-left"
+            onClick={() => {
+              setOpen(false);
+              onOpenInvitations();
+            }}
+          >
+            <Mail className="w-4 h-4 text-purple-600" />
+            <span className="text-sm">
+              Приглашения в проекты: <strong>{pendingInvitationsCount}</strong>
+            </span>
+          </button>
+        )}
+
+        {notifications.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-gray-500">
+            <Bell className="w-8 h-8 mb-2 text-gray-300" />
+            <p className="text-sm">Уведомлений пока нет</p>
+          </div>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = NOTIFICATION_ICONS[notification.type] || Bell;
+              const isOverdue = notification.type === 'task_overdue';
+              return (
+                <li
+                  key={notification.id}
+                  className={`group flex gap-3 px-4 py-3 border-b last:border-b-0 cursor-pointer hover:bg-gray-50 ${
+                    notification.readAt ? '' : 'bg-purple-50/50'
+                  }`}
+                  onClick={() => handleClick(notification)}
+                >
+                  <Icon className={`w-4 h-4 mt-1 shrink-0 ${isOverdue ? 'text-red-500' : 'text-purple-600'}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.readAt ? 'text-gray-700' : 'font-medium'}`}>
+                      {notification.title}
+                    </p>
+                    <p className="text-xs text-gray-600 line-clamp-2 break-words">{notification.message}</p>
+                    <time className="text-xs text-gray-400">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: ru })}
+                    </time>
+                  </div>
+                  <div className="flex flex-col items-center gap-2">
+                    {!notification.readAt && <span className="w-2 h-2 rounded-full bg-purple-600" />}
+                    <button
+                      type="button"
+                      className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+                      title="Удалить"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteNotification(notification.id);
+                      }}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,112 @@
+import React from 'react';
+import { Bell, Loader2, Mail } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Switch } from './ui/switch';
+import { toast } from 'sonner@2.0.3';
+import type { NotificationPreferences, NotificationType } from '../contexts/app-context';
+import { notificationsAPI } from '../utils/api-client';
+
+const NOTIFICATION_TYPE_LABELS: { type: NotificationType; title: string; description: string }[] = [
+  { type: 'task_assigned', title: 'Назначение задачи', description: 'Вас назначили исполнителем' },
+  { type: 'task_due_soon', title: 'Скоро дедлайн', description: 'До срока задачи осталось меньше суток' },
+  { type: 'task_overdue', title: 'Просроченные задачи', description: 'Срок задачи истёк, а она не выполнена' },
+  { type: 'comment', title: 'Комментарии', description: 'Новые комментарии к вашим задачам' },
+  { type: 'mention', title: 'Упоминания', description: 'Вас упомянули через @ в комментарии' },
+  { type: 'invitation_accepted', title: 'Принятые приглашения', description: 'Приглашённый пользователь присоединился к проекту' },
+  { type: 'role_changed', title: 'Изменение роли', description: 'Ваша роль в проекте изменилась' },
+];
+
+// Настройки каналов доставки уведомлений: в приложении / email / выключено
+export function NotificationSettings() {
+  const [preferences, setPreferences] = React.useState<NotificationPreferences | null>(null);
+  const [savingType, setSavingType] = React.useState<NotificationType | null>(null);
+
+  React.useEffect(() => {
+    notificationsAPI
+      .getPreferences()
+      .then(setPreferences)
+      .catch((error: any) => {
+        console.error('Load notification preferences error:', error);
+        toast.error('Не удалось загрузить настройки уведомлений');
+      });
+  }, []);
+
+  const handleToggle = async (type: NotificationType, channel: 'inApp' | 'email', value: boolean) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    const channels = { ...preferences[type], [channel]: value };
+    setPreferences({ ...preferences, [type]: channels });
+    setSavingType(type);
+
+    try {
+      const saved = await notificationsAPI.updatePreferences({ [type]: channels });
+      setPreferences(saved);
+    } catch (error: any) {
+      console.error('Update notification preferences error:', error);
+      toast.error(error.message || 'Не удалось сохранить настройки уведомлений');
+      setPreferences(previous);
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Уведомления</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!preferences ? (
+          <div className="flex items-center justify-center py-6 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Загрузка настроек...
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 items-center pb-2 border-b text-xs text-gray-500">
+              <span>Событие</span>
+              <span className="flex items-center gap-1">
+                <Bell className="w-3 h-3" />
+                В приложении
+              </span>
+              <span className="flex items-center gap-1">
+                <Mail className="w-3 h-3" />
+                Email
+              </span>
+            </div>
+            {NOTIFICATION_TYPE_LABELS.map(({ type, title, description }) => (
+              <div
+                key={type}
+                className="grid grid-cols-[1fr_auto_auto] gap-x-6 items-center py-3 border-b last:border-b-0"
+              >
+                <div>
+                  <p className="flex items-center gap-2">
+                    {title}
+                    {savingType === type && <Loader2 className="w-3 h-3 animate-spin text-gray-400" />}
+                  </p>
+                  <p className="text-sm text-gray-500">{description}</p>
+                </div>
+                <div className="flex justify-center w-[6.5rem]">
+                  <Switch
+                    checked={preferences[type].inApp}
+                    onCheckedChange={(value) => handleToggle(type, 'inApp', value)}
+                  />
+                </div>
+                <div className="flex justify-center w-12">
+                  <Switch
+                    checked={preferences[type].email}
+                    onCheckedChange={(value) => handleToggle(type, 'email', value)}
+                  />
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500 pt-2">
+              Если выключить оба канала, уведомления этого типа приходить не будут.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -71,7 +71,7 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
     type: ITEM_TYPE,
     canDrag: () => canDrag,
     item: () => {
-      setIsDragging(true);
+      setIsDragging(true, task.id);
       return { taskId: task.id, currentStatus: task.status, index };
     },
     collect: (monitor) => ({
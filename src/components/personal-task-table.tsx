@@ -20,6 +20,8 @@ import {
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
 import { useApp } from '../contexts/app-context';
+import { BulkActionBar } from './bulk-action-bar';
+import { useTaskSelection } from '../hooks/useTaskSelection';
 import { format } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import type { Task as TaskType } from '../contexts/app-context';
@@ -182,6 +184,8 @@ export function PersonalTaskTable({ filters, onTaskClick }: PersonalTaskTablePro
     return result;
   }, [personalTasks, filters, sortColumn, sortDirection]);
 
+  const rowIds = React.useMemo(() => filteredAndSortedTasks.map(task => task.id), [filteredAndSortedTasks]);
+  const selection = useTaskSelection(rowIds);
 
 
   const handleSort = (column: SortColumn) => {
@@ -224,6 +228,14 @@ export function PersonalTaskTable({ filters, onTaskClick }: PersonalTaskTablePro
       <Table>
         <TableHeader>
           <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={selection.isAllSelected ? true : selection.isSomeSelected ? 'indeterminate' : false}
+                onCheckedChange={selection.toggleAll}
+                disabled={filteredAndSortedTasks.length === 0}
+                aria-label="Выбрать все задачи"
+              />
+            </TableHead>
             <TableHead>
               <button
                 className="flex items-center hover:text-purple-600"
@@ -277,7 +289,7 @@ export function PersonalTaskTable({ filters, onTaskClick }: PersonalTaskTablePro
         <TableBody>
           {filteredAndSortedTasks.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={8} className="text-center text-gray-500 py-8">
+              <TableCell colSpan={9} className="text-center text-gray-500 py-8">
                 Задачи не найдены
               </TableCell>
             </TableRow>
@@ -289,9 +301,16 @@ export function PersonalTaskTable({ filters, onTaskClick }: PersonalTaskTablePro
               return (
                 <TableRow
                   key={task.id}
-                  className="cursor-pointer hover:bg-gray-50"
+                  className={`cursor-pointer ${selection.selectedIds.has(task.id) ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
                   onClick={() => onTaskClick(task.id)}
                 >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selection.selectedIds.has(task.id)}
+                      onClick={(e) => selection.toggle(task.id, e.shiftKey)}
+                      aria-label={`Выбрать задачу «${task.title}»`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <div className="max-w-md flex items-center gap-2">
                       <p className={`truncate ${task.status === 'done' ? 'line-through text-gray-500' : ''}`}>
@@ -397,6 +416,10 @@ export function PersonalTaskTable({ filters, onTaskClick }: PersonalTaskTablePro
           )}
         </TableBody>
       </Table>
+      <BulkActionBar
+        selectedTasks={filteredAndSortedTasks.filter(task => selection.selectedIds.has(task.id))}
+        onClearSelection={selection.clear}
+      />
     </div>
   );
 }
@@ -1,24 +1,41 @@
 import React from 'react';
-import { User, Mail, Calendar, Lock, Bell, Globe, Loader2, Upload, Trash2, RefreshCw } from 'lucide-react';
+import { User, Mail, Calendar, Lock, Globe, Loader2, Upload, Trash2, RefreshCw, ShieldCheck } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { Switch } from './ui/switch';
 import { Separator } from './ui/separator';
 import { useApp } from '../contexts/app-context';
-import { format } from 'date-fns';
+import { NotificationSettings } from './notification-settings';
+import { SessionList } from './session-list';
+import {
+  BackupCodesDialog,
+  ChangeEmailDialog,
+  ChangePasswordDialog,
+  DeleteAccountDialog,
+  DisableTwoFactorDialog,
+  TwoFactorSetupDialog,
+} from './account-dialogs';
+import { format, formatDistanceToNow } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { toast } from 'sonner@2.0.3';
 // Removed: import { projectId, publicAnonKey } from '../utils/supabase/info';
 
-export function ProfileView() {
-  const { currentUser, updateCurrentUser, uploadAvatar, deleteAvatar, refreshData, tasks, deleteTask } = useApp();
+type ProfileViewProps = {
+  // Вызывается после удаления аккаунта
+  onLogout?: () => void;
+};
+
+export function ProfileView({ onLogout }: ProfileViewProps) {
+  const { currentUser, updateCurrentUser, uploadAvatar, deleteAvatar, refreshData, fetchCurrentUser, tasks, deleteTask } = useApp();
   const [name, setName] = React.useState('');
-  const [email, setEmail] = React.useState('');
-  const [notifications, setNotifications] = React.useState(true);
-  const [emailDigest, setEmailDigest] = React.useState(true);
+  const [isEmailDialogOpen, setIsEmailDialogOpen] = React.useState(false);
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = React.useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
+  const [isTwoFactorSetupOpen, setIsTwoFactorSetupOpen] = React.useState(false);
+  const [isTwoFactorDisableOpen, setIsTwoFactorDisableOpen] = React.useState(false);
+  const [isBackupCodesOpen, setIsBackupCodesOpen] = React.useState(false);
   const [isSaving, setIsSaving] = React.useState(false);
   const [hasChanges, setHasChanges] = React.useState(false);
   const [isUploadingAvatar, setIsUploadingAvatar] = React.useState(false);
@@ -29,7 +46,6 @@ export function ProfileView() {
   React.useEffect(() => {
     if (currentUser) {
       setName(currentUser.name || '');
-      setEmail(currentUser.email || '');
     }
   }, [currentUser]);
 
@@ -262,12 +278,22 @@ export function ProfileView() {
                     <Mail className="w-4 h-4 inline mr-2" />
                     Email
                   </Label>
-                  <Input
-                    id="profile-email"
-                    type="email"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                  />
+                  <div className="flex gap-2">
+                    <Input
+                      id="profile-email"
+                      type="email"
+                      value={currentUser.email}
+                      disabled
+                    />
+                    <Button variant="outline" onClick={() => setIsEmailDialogOpen(true)}>
+                      Изменить
+                    </Button>
+                  </div>
+                  {currentUser.pendingEmail && (
+                    <p className="text-sm text-amber-600">
+                      Ожидает подтверждения: {currentUser.pendingEmail}. Перейдите по ссылке из письма.
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -320,52 +346,55 @@ export function ProfileView() {
                   <div>
                     <p>Пароль</p>
                     <p className="text-sm text-gray-500">
-                      Последнее изменение: 2 недели назад
+                      {currentUser.passwordChangedAt
+                        ? `Последнее изменение: ${formatDistanceToNow(new Date(currentUser.passwordChangedAt), { addSuffix: true, locale: ru })}`
+                        : 'Пароль не менялся с момента регистрации'}
                     </p>
                   </div>
                 </div>
-                <Button variant="outline" size="sm">
+                <Button variant="outline" size="sm" onClick={() => setIsPasswordDialogOpen(true)}>
                   Изменить пароль
                 </Button>
               </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle>Уведомления</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <Bell className="w-5 h-5 text-gray-500" />
-                  <div>
-                    <p>Push-уведомления</p>
-                    <p className="text-sm text-gray-500">
-                      Получать уведомления о новых задачах
-                    </p>
-                  </div>
-                </div>
-                <Switch checked={notifications} onCheckedChange={setNotifications} />
-              </div>
 
               <Separator />
 
-              <div className="flex items-center justify-between">
+              <div className="flex items-center justify-between gap-4">
                 <div className="flex items-center gap-3">
-                  <Mail className="w-5 h-5 text-gray-500" />
+                  <ShieldCheck className={`w-5 h-5 ${currentUser.twoFactorEnabled ? 'text-green-600' : 'text-gray-500'}`} />
                   <div>
-                    <p>Email дайджест</p>
+                    <p>Двухфакторная аутентификация</p>
                     <p className="text-sm text-gray-500">
-                      Еженедельная сводка по задачам
+                      {currentUser.twoFactorEnabled
+                        ? `Включена · резервных кодов осталось: ${currentUser.backupCodesRemaining ?? 0}`
+                        : 'Выключена: для входа достаточно пароля'}
                     </p>
                   </div>
                 </div>
-                <Switch checked={emailDigest} onCheckedChange={setEmailDigest} />
+                {currentUser.twoFactorEnabled ? (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setIsBackupCodesOpen(true)}>
+                      Новые резервные коды
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setIsTwoFactorDisableOpen(true)}>
+                      Отключить
+                    </Button>
+                  </div>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => setIsTwoFactorSetupOpen(true)}>
+                    Включить
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          <SessionList
+            reloadKey={`${currentUser.passwordChangedAt ?? ''}:${currentUser.twoFactorEnabled ? 'on' : 'off'}`}
+          />
+
+          <NotificationSettings />
+
           <Card>
             <CardHeader>
               <CardTitle>Настройки</CardTitle>
@@ -427,7 +456,7 @@ export function ProfileView() {
                     Это действие нельзя будет отменить
                   </p>
                 </div>
-                <Button variant="destructive" size="sm">
+                <Button variant="destructive" size="sm" onClick={() => setIsDeleteDialogOpen(true)}>
                   Удалить аккаунт
                 </Button>
               </div>
@@ -435,6 +464,39 @@ export function ProfileView() {
           </Card>
         </div>
       </div>
+
+      <ChangeEmailDialog
+        open={isEmailDialogOpen}
+        onOpenChange={setIsEmailDialogOpen}
+        currentEmail={currentUser.email}
+        twoFactorEnabled={currentUser.twoFactorEnabled}
+        onRequested={() => fetchCurrentUser()}
+      />
+      <ChangePasswordDialog
+        open={isPasswordDialogOpen}
+        onOpenChange={setIsPasswordDialogOpen}
+        onChanged={() => fetchCurrentUser()}
+      />
+      <DeleteAccountDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        onDeleted={() => onLogout?.()}
+      />
+      <TwoFactorSetupDialog
+        open={isTwoFactorSetupOpen}
+        onOpenChange={setIsTwoFactorSetupOpen}
+        onEnabled={() => fetchCurrentUser()}
+      />
+      <DisableTwoFactorDialog
+        open={isTwoFactorDisableOpen}
+        onOpenChange={setIsTwoFactorDisableOpen}
+        onDisabled={() => fetchCurrentUser()}
+      />
+      <BackupCodesDialog
+        open={isBackupCodesOpen}
+        onOpenChange={setIsBackupCodesOpen}
+        onRegenerated={() => fetchCurrentUser()}
+      />
     </div>
   );
 }
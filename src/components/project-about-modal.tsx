@@ -10,6 +10,7 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Separator } from './ui/separator';
+import { Progress } from './ui/progress';
 import {
   Link as LinkIcon,
   Paperclip,
@@ -21,11 +22,16 @@ import {
   Calendar,
   User,
   RefreshCw,
+  History,
+  HardDrive,
 } from 'lucide-react';
 import { useApp } from '../contexts/app-context';
 import { format } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { diagnosticsAPI } from '../utils/supabase/client';
+import { projectsAPI } from '../utils/api-client';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { ActivityTimeline } from './activity-timeline';
 import { toast } from 'sonner@2.0.3';
 
 type ProjectAboutModalProps = {
@@ -102,6 +108,23 @@ export function ProjectAboutModal({
     };
   }, [projectTasks, project]);
 
+  // Загрузка истории изменений проекта (вкладка "История")
+  const loadProjectActivity = React.useCallback(
+    (before?: string) => projectsAPI.getActivity(projectId, { before }),
+    [projectId]
+  );
+
+  // Занятое вложениями задач место и квота проекта
+  const [storage, setStorage] = React.useState<{ usedBytes: number; quotaBytes: number; attachmentCount: number } | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    projectsAPI
+      .getStorageUsage(projectId)
+      .then(setStorage)
+      .catch((error) => console.error('Load storage usage error:', error));
+  }, [open, projectId]);
+
   if (!project) {
     return null;
   }
@@ -129,308 +152,344 @@ export function ProjectAboutModal({
         </DialogHeader>
 
         <div className="space-y-6 mt-4">
-          {/* Основная информация */}
-          <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
-            <div className="flex items-center gap-2 text-sm">
-              <Calendar className="w-4 h-4 text-gray-500" />
-              <div>
-                <p className="text-xs text-gray-500">Создан</p>
-                <p>{format(new Date(project.createdAt), 'PPP', { locale: ru })}</p>
-              </div>
-            </div>
-            <div className="flex items-center gap-2 text-sm">
-              <User className="w-4 h-4 text-gray-500" />
-              <div>
-                <p className="text-xs text-gray-500">Владелец</p>
-                <p>{currentUser?.name || 'Вы'}</p>
-              </div>
-            </div>
-          </div>
-
-          <Separator />
-
-          {/* Описание */}
-          {project.description && (
-            <>
-              <div>
-                <h4 className="mb-2">Описание проекта</h4>
-                <p className="text-sm text-gray-600 leading-relaxed">{project.description}</p>
-              </div>
-              <Separator />
-            </>
-          )}
+          <Tabs defaultValue="overview">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="overview">О проекте</TabsTrigger>
+              <TabsTrigger value="activity">
+                <History className="w-4 h-4 mr-2" />
+                История
+              </TabsTrigger>
+            </TabsList>
 
-          {/* Внешние ссылки */}
-          {links.length > 0 && (
-            <>
-              <div>
-                <div className="flex items-center gap-2 mb-3">
-                  <LinkIcon className="w-4 h-4" />
-                  <h4>Внешние ссылки ({links.length})</h4>
+            <TabsContent value="overview" className="space-y-6 mt-4">
+              {/* Основная информация */}
+              <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center gap-2 text-sm">
+                  <Calendar className="w-4 h-4 text-gray-500" />
+                  <div>
+                    <p className="text-xs text-gray-500">Создан</p>
+                    <p>{format(new Date(project.createdAt), 'PPP', { locale: ru })}</p>
+                  </div>
                 </div>
-                <div className="space-y-2">
-                  {links.map((link) => (
-                    <a
-                      key={link.id}
-                      href={link.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors group"
-                    >
-                      <div className="flex items-center gap-3 flex-1 min-w-0">
-                        <LinkIcon className="w-4 h-4 text-gray-500 flex-shrink-0" />
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm truncate">{link.name}</p>
-                          <p className="text-xs text-gray-500 truncate">{link.url}</p>
-                        </div>
-                      </div>
-                      <LinkIcon className="w-4 h-4 text-purple-600 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
-                    </a>
-                  ))}
+                <div className="flex items-center gap-2 text-sm">
+                  <User className="w-4 h-4 text-gray-500" />
+                  <div>
+                    <p className="text-xs text-gray-500">Владелец</p>
+                    <p>{currentUser?.name || 'Вы'}</p>
+                  </div>
                 </div>
               </div>
-              <Separator />
-            </>
-          )}
 
-          {/* Категории */}
-          {categories.length > 0 && (
-            <>
-              <div>
-                <h4 className="mb-3">Категории</h4>
-                <div className="flex flex-wrap gap-2">
-                  {categories.map((category) => (
-                    <Badge key={category} variant="secondary" className="text-sm">
-                      {category}
-                    </Badge>
-                  ))}
-                </div>
-              </div>
               <Separator />
-            </>
-          )}
 
-          {/* Файлы */}
-          {attachments.length > 0 && (
-            <>
-              <div>
-                <div className="flex items-center gap-2 mb-3">
-                  <Paperclip className="w-4 h-4" />
-                  <h4>Файлы проекта ({attachments.length})</h4>
-                </div>
-                <div className="space-y-2">
-                  {attachments.map((attachment) => (
-                    <div
-                      key={attachment.id}
-                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                    >
-                      <div className="flex items-center gap-3 flex-1 min-w-0">
-                        <Paperclip className="w-4 h-4 text-gray-500 flex-shrink-0" />
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm truncate">{attachment.name}</p>
-                          <p className="text-xs text-gray-500">{attachment.size}</p>
+              {/* Описание */}
+              {project.description && (
+                <>
+                  <div>
+                    <h4 className="mb-2">Описание проекта</h4>
+                    <p className="text-sm text-gray-600 leading-relaxed">{project.description}</p>
+                  </div>
+                  <Separator />
+                </>
+              )}
+
+              {/* Внешние ссылки */}
+              {links.length > 0 && (
+                <>
+                  <div>
+                    <div className="flex items-center gap-2 mb-3">
+                      <LinkIcon className="w-4 h-4" />
+                      <h4>Внешние ссылки ({links.length})</h4>
+                    </div>
+                    <div className="space-y-2">
+                      {links.map((link) => (
+                        <a
+                          key={link.id}
+                          href={link.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors group"
+                        >
+                          <div className="flex items-center gap-3 flex-1 min-w-0">
+                            <LinkIcon className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm truncate">{link.name}</p>
+                              <p className="text-xs text-gray-500 truncate">{link.url}</p>
+                            </div>
+                          </div>
+                          <LinkIcon className="w-4 h-4 text-purple-600 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                  <Separator />
+                </>
+              )}
+
+              {/* Категории */}
+              {categories.length > 0 && (
+                <>
+                  <div>
+                    <h4 className="mb-3">Категории</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {categories.map((category) => (
+                        <Badge key={category} variant="secondary" className="text-sm">
+                          {category}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Separator />
+                </>
+              )}
+
+              {/* Файлы */}
+              {attachments.length > 0 && (
+                <>
+                  <div>
+                    <div className="flex items-center gap-2 mb-3">
+                      <Paperclip className="w-4 h-4" />
+                      <h4>Файлы проекта ({attachments.length})</h4>
+                    </div>
+                    <div className="space-y-2">
+                      {attachments.map((attachment) => (
+                        <div
+                          key={attachment.id}
+                          className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                          <div className="flex items-center gap-3 flex-1 min-w-0">
+                            <Paperclip className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm truncate">{attachment.name}</p>
+                              <p className="text-xs text-gray-500">{(attachment.size / 1024 / 1024).toFixed(2)} MB</p>
+                            </div>
+                          </div>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={async () => {
+                              try {
+                                await projectsAPI.downloadAttachment(project.id, attachment.id, attachment.name);
+                              } catch (error: any) {
+                                console.error('Download project attachment error:', error);
+                                toast.error(error.message || 'Не удалось скачать файл');
+                              }
+                            }}
+                          >
+                            <Download className="w-4 h-4 mr-2" />
+                            Скачать
+                          </Button>
                         </div>
-                      </div>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => {
-                          if (attachment.url) {
-                            window.open(attachment.url, '_blank');
-                          }
-                        }}
-                      >
-                        <Download className="w-4 h-4 mr-2" />
-                        Скачать
-                      </Button>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </div>
-              <Separator />
-            </>
-          )}
+                  </div>
+                  <Separator />
+                </>
+              )}
 
-          {/* Участники */}
-          {members.length > 0 && (
-            <>
-              <div>
-                <div className="flex items-center gap-2 mb-3">
-                  <Users className="w-4 h-4" />
-                  <h4>Участники проекта ({members.length})</h4>
-                </div>
-                <div className="space-y-2">
-                  {members.map((member) => (
-                    <div
-                      key={member.id}
-                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
-                    >
-                      <div className="flex items-center gap-3">
-                        <Avatar className="w-10 h-10">
-                          <AvatarFallback className="text-sm bg-purple-100 text-purple-600">
-                            {member.short || member.name?.substring(0, 2).toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <p className="text-sm">{member.name}</p>
-                          <p className="text-xs text-gray-500">{member.role || 'Участник'}</p>
+              {/* Участники */}
+              {members.length > 0 && (
+                <>
+                  <div>
+                    <div className="flex items-center gap-2 mb-3">
+                      <Users className="w-4 h-4" />
+                      <h4>Участники проекта ({members.length})</h4>
+                    </div>
+                    <div className="space-y-2">
+                      {members.map((member) => (
+                        <div
+                          key={member.id}
+                          className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                        >
+                          <div className="flex items-center gap-3">
+                            <Avatar className="w-10 h-10">
+                              <AvatarFallback className="text-sm bg-purple-100 text-purple-600">
+                                {member.short || member.name?.substring(0, 2).toUpperCase()}
+                              </AvatarFallback>
+                            </Avatar>
+                            <div>
+                              <p className="text-sm">{member.name}</p>
+                              <p className="text-xs text-gray-500">{member.role || 'Участник'}</p>
+                            </div>
+                          </div>
+                          <Badge variant="outline">{member.role || 'Участник'}</Badge>
                         </div>
-                      </div>
-                      <Badge variant="outline">{member.role || 'Участник'}</Badge>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </div>
-              <Separator />
-            </>
-          )}
+                  </div>
+                  <Separator />
+                </>
+              )}
 
-          {/* Статистика */}
-          <div>
-            <h4 className="mb-3">Статистика проекта</h4>
+              {/* Статистика */}
+              <div>
+                <h4 className="mb-3">Статистика проекта</h4>
             
-            {/* Краткая информация */}
-            <div className="grid grid-cols-2 gap-4 mb-4">
-              <div className="p-3 bg-gray-50 rounded-lg">
-                <div className="flex items-center gap-2 text-sm">
-                  <Users className="w-4 h-4 text-gray-500" />
-                  <span className="text-gray-600">{stats.activeMembers} {stats.activeMembers === 1 ? 'участник' : stats.activeMembers < 5 ? 'участника' : 'участников'}</span>
-                </div>
-              </div>
-              <div className="p-3 bg-gray-50 rounded-lg">
-                <div className="flex items-center gap-2 text-sm">
-                  <CheckCircle2 className="w-4 h-4 text-gray-500" />
-                  <span className="text-gray-600">{stats.totalTasks} {stats.totalTasks === 1 ? 'задача' : stats.totalTasks < 5 ? 'задачи' : 'задач'}</span>
+                {/* Краткая информация */}
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Users className="w-4 h-4 text-gray-500" />
+                      <span className="text-gray-600">{stats.activeMembers} {stats.activeMembers === 1 ? 'участник' : stats.activeMembers < 5 ? 'участника' : 'участников'}</span>
+                    </div>
+                  </div>
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center gap-2 text-sm">
+                      <CheckCircle2 className="w-4 h-4 text-gray-500" />
+                      <span className="text-gray-600">{stats.totalTasks} {stats.totalTasks === 1 ? 'задача' : stats.totalTasks < 5 ? 'задачи' : 'задач'}</span>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
 
-            {/* Статусы задач */}
-            <div className="space-y-3">
-              <div className="flex items-center justify-between text-sm">
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-gray-400"></div>
-                  <span className="text-gray-700">{stats.newTasks} новых</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-blue-500"></div>
-                  <span className="text-gray-700">{stats.inProgressTasks} в работе</span>
-                </div>
-              </div>
+                {/* Статусы задач */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 rounded-full bg-gray-400"></div>
+                      <span className="text-gray-700">{stats.newTasks} новых</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 rounded-full bg-blue-500"></div>
+                      <span className="text-gray-700">{stats.inProgressTasks} в работе</span>
+                    </div>
+                  </div>
               
-              <div className="flex items-center justify-between text-sm">
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-orange-500"></div>
-                  <span className="text-gray-700">{stats.inReviewTasks} на проверке</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                  <span className="text-gray-700">{stats.completedTasks} завершено</span>
-                </div>
-              </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 rounded-full bg-orange-500"></div>
+                      <span className="text-gray-700">{stats.inReviewTasks} на проверке</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 rounded-full bg-green-500"></div>
+                      <span className="text-gray-700">{stats.completedTasks} завершено</span>
+                    </div>
+                  </div>
               
-              {stats.overdueTasks > 0 && (
-                <div className="flex items-center gap-2 text-sm pt-2 border-t border-gray-200">
-                  <AlertCircle className="w-4 h-4 text-red-500" />
-                  <span className="text-red-600">{stats.overdueTasks} просрочено</span>
+                  {stats.overdueTasks > 0 && (
+                    <div className="flex items-center gap-2 text-sm pt-2 border-t border-gray-200">
+                      <AlertCircle className="w-4 h-4 text-red-500" />
+                      <span className="text-red-600">{stats.overdueTasks} просрочено</span>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-          </div>
-
-          {/* Пустое состояние для проектов без данных */}
-          {!project.description && links.length === 0 && categories.length === 0 && attachments.length === 0 && (
-            <div className="text-center py-8 bg-gray-50 rounded-lg">
-              <p className="text-gray-500 mb-2">Информация о проекте не заполнена</p>
-              {canEdit && onEdit && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    onEdit();
-                    onOpenChange(false);
-                  }}
-                >
-                  <Edit className="w-4 h-4 mr-2" />
-                  Добавить информацию
-                </Button>
-              )}
-            </div>
-          )}
 
-          <Separator />
+                {/* Хранилище вложений */}
+                {storage && (
+                  <div className="mt-4 p-3 bg-gray-50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <HardDrive className="w-4 h-4 text-gray-500" />
+                        <span>Файлы: {storage.attachmentCount}</span>
+                      </div>
+                      <span className="text-gray-700">
+                        {(storage.usedBytes / 1024 / 1024).toFixed(1)} из {Math.round(storage.quotaBytes / 1024 / 1024)} МБ
+                      </span>
+                    </div>
+                    <Progress value={Math.min(100, (storage.usedBytes / storage.quotaBytes) * 100)} />
+                  </div>
+                )}
+              </div>
 
-          {/* Диагностика и миграция задач (только для владельца) */}
-          {isOwner && (
-            <>
-              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                <h4 className="mb-2 flex items-center gap-2">
-                  <RefreshCw className="w-4 h-4 text-yellow-700" />
-                  <span className="text-yellow-700">Миграция задач</span>
-                </h4>
-                <p className="text-sm text-gray-600 mb-3">
-                  Если приглашенные участники не видят задачи проекта, нужно выполнить миграцию.
-                </p>
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={async () => {
-                      try {
-                        const result = await diagnosticsAPI.diagnoseProjectTasks(projectId);
-                        setDiagnostics(result);
-                        console.log('Diagnostics:', result);
-                        if (result.needsMigration) {
-                          toast.info(`Найдено ${result.oldFormatTasksCount} задач требующих миграции`);
-                        } else {
-                          toast.success('Все задачи в правильном формате');
-                        }
-                      } catch (error: any) {
-                        console.error('Diagnostics error:', error);
-                        toast.error(error.message || 'Ошибка диагностики');
-                      }
-                    }}
-                  >
-                    Проверить задачи
-                  </Button>
-                  {diagnostics?.needsMigration && (
+              {/* Пустое состояние для проектов без данных */}
+              {!project.description && links.length === 0 && categories.length === 0 && attachments.length === 0 && (
+                <div className="text-center py-8 bg-gray-50 rounded-lg">
+                  <p className="text-gray-500 mb-2">Информация о проекте не заполнена</p>
+                  {canEdit && onEdit && (
                     <Button
-                      variant="default"
+                      variant="outline"
                       size="sm"
-                      className="bg-yellow-600 hover:bg-yellow-700"
-                      onClick={async () => {
-                        try {
-                          setIsMigrating(true);
-                          const result = await diagnosticsAPI.migrateProjectTasks(projectId);
-                          console.log('Migration result:', result);
-                          toast.success(`Перенесено ${result.migratedCount} задач`);
-                          await fetchTasks();
-                          setDiagnostics(null);
-                        } catch (error: any) {
-                          console.error('Migration error:', error);
-                          toast.error(error.message || 'Ошибка миграции');
-                        } finally {
-                          setIsMigrating(false);
-                        }
+                      onClick={() => {
+                        onEdit();
+                        onOpenChange(false);
                       }}
-                      disabled={isMigrating}
                     >
-                      {isMigrating ? 'Миграция...' : `Мигрировать ${diagnostics.oldFormatTasksCount} задач`}
+                      <Edit className="w-4 h-4 mr-2" />
+                      Добавить информацию
                     </Button>
                   )}
                 </div>
-                {diagnostics && (
-                  <div className="mt-3 text-xs text-gray-600 space-y-1">
-                    <p>✅ Задач в новом формате: {diagnostics.projectTasksCount}</p>
-                    {diagnostics.needsMigration && (
-                      <p>⚠️ Задач в старом формате: {diagnostics.oldFormatTasksCount}</p>
+              )}
+
+              <Separator />
+
+              {/* Диагностика и миграция задач (только для владельца) */}
+              {isOwner && (
+                <>
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                    <h4 className="mb-2 flex items-center gap-2">
+                      <RefreshCw className="w-4 h-4 text-yellow-700" />
+                      <span className="text-yellow-700">Миграция задач</span>
+                    </h4>
+                    <p className="text-sm text-gray-600 mb-3">
+                      Если приглашенные участники не видят задачи проекта, нужно выполнить миграцию.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={async () => {
+                          try {
+                            const result = await diagnosticsAPI.diagnoseProjectTasks(projectId);
+                            setDiagnostics(result);
+                            console.log('Diagnostics:', result);
+                            if (result.needsMigration) {
+                              toast.info(`Найдено ${result.oldFormatTasksCount} задач требующих миграции`);
+                            } else {
+                              toast.success('Все задачи в правильном формате');
+                            }
+                          } catch (error: any) {
+                            console.error('Diagnostics error:', error);
+                            toast.error(error.message || 'Ошибка диагностики');
+                          }
+                        }}
+                      >
+                        Проверить задачи
+                      </Button>
+                      {diagnostics?.needsMigration && (
+                        <Button
+                          variant="default"
+                          size="sm"
+                          className="bg-yellow-600 hover:bg-yellow-700"
+                          onClick={async () => {
+                            try {
+                              setIsMigrating(true);
+                              const result = await diagnosticsAPI.migrateProjectTasks(projectId);
+                              console.log('Migration result:', result);
+                              toast.success(`Перенесено ${result.migratedCount} задач`);
+                              await fetchTasks();
+                              setDiagnostics(null);
+                            } catch (error: any) {
+                              console.error('Migration error:', error);
+                              toast.error(error.message || 'Ошибка миграции');
+                            } finally {
+                              setIsMigrating(false);
+                            }
+                          }}
+                          disabled={isMigrating}
+                        >
+                          {isMigrating ? 'Миграция...' : `Мигрировать ${diagnostics.oldFormatTasksCount} задач`}
+                        </Button>
+                      )}
+                    </div>
+                    {diagnostics && (
+                      <div className="mt-3 text-xs text-gray-600 space-y-1">
+                        <p>✅ Задач в новом формате: {diagnostics.projectTasksCount}</p>
+                        {diagnostics.needsMigration && (
+                          <p>⚠️ Задач в старом формате: {diagnostics.oldFormatTasksCount}</p>
+                        )}
+                      </div>
                     )}
                   </div>
-                )}
-              </div>
-              <Separator />
-            </>
-          )}
+                  <Separator />
+                </>
+              )}
+            </TabsContent>
+
+            {/* История изменений проекта и его задач */}
+            <TabsContent value="activity" className="mt-4">
+              <ActivityTimeline loadActivity={loadProjectActivity} showTaskTitle reloadKey={project.updatedAt} />
+            </TabsContent>
+          </Tabs>
 
           {/* Кнопки действий */}
           <div className="flex gap-3">
@@ -1,5 +1,5 @@
 import React from 'react';
-import { LayoutGrid, Table as TableIcon, Info, ArrowLeft, Loader2, Users, Plus, Search, Calendar } from 'lucide-react';
+import { LayoutGrid, Table as TableIcon, Info, ArrowLeft, Loader2, Users, Plus, Search, Calendar, Columns3 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -14,8 +14,10 @@ import { TaskModal } from './task-modal';
 import { ProjectAboutModal } from './project-about-modal';
 import { ProjectMembersModal } from './project-members-modal';
 import { ProjectModal } from './project-modal';
+import { ProjectWorkflowModal } from './project-workflow-modal';
 import { useApp } from '../contexts/app-context';
 import type { Filters } from './filters-panel';
+import { getWorkflowStatuses } from '../utils/workflow';
 
 type ProjectDetailViewProps = {
   projectId: string;
@@ -52,6 +54,7 @@ export function ProjectDetailView({ projectId, onBack, onCalendarView }: Project
   const [isAboutModalOpen, setIsAboutModalOpen] = React.useState(false);
   const [isMembersModalOpen, setIsMembersModalOpen] = React.useState(false);
   const [isEditProjectModalOpen, setIsEditProjectModalOpen] = React.useState(false);
+  const [isWorkflowModalOpen, setIsWorkflowModalOpen] = React.useState(false);
   const [selectedTaskId, setSelectedTaskId] = React.useState<string | null>(null);
   const [isCreateTaskModalOpen, setIsCreateTaskModalOpen] = React.useState(false);
   const [searchQuery, setSearchQuery] = React.useState('');
@@ -108,12 +111,7 @@ export function ProjectDetailView({ projectId, onBack, onCalendarView }: Project
   });
 
   // Статичные списки
-  const statusesList = [
-    { id: 'todo', name: 'К выполнению' },
-    { id: 'in_progress', name: 'В работе' },
-    { id: 'review', name: 'На проверке' },
-    { id: 'done', name: 'Готово' },
-  ];
+  const statusesList = getWorkflowStatuses(project).map((status) => ({ id: status.key, name: status.name }));
 
   const prioritiesList = [
     { id: 'low', name: 'Низкий' },
@@ -240,6 +238,16 @@ export function ProjectDetailView({ projectId, onBack, onCalendarView }: Project
               <Users className="w-4 h-4 mr-2" />
               Участники
             </Button>
+            {canEditProject(projectId) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsWorkflowModalOpen(true)}
+              >
+                <Columns3 className="w-4 h-4 mr-2" />
+                Статусы
+              </Button>
+            )}
           </div>
         </div>
 
@@ -619,6 +627,12 @@ export function ProjectDetailView({ projectId, onBack, onCalendarView }: Project
         mode="edit"
         projectId={projectId}
       />
+
+      <ProjectWorkflowModal
+        open={isWorkflowModalOpen}
+        onOpenChange={setIsWorkflowModalOpen}
+        projectId={projectId}
+      />
     </div>
   );
 }
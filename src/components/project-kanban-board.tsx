@@ -29,6 +29,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { KanbanBoardSkeleton } from './kanban-skeleton';
 import { compareOrderKeys } from '../utils/orderKey';
 import { useKanbanDnD } from '../hooks/useKanbanDnD';
+import { getWorkflowStatuses, canTransition } from '../utils/workflow';
+import { toast } from 'sonner';
 import type { Filters } from './filters-panel';
 import type { Task as TaskType } from '../contexts/app-context';
 
@@ -43,6 +45,7 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
   moveCard: (draggedId: string, targetId: string, position: 'before' | 'after') => void;
   isInitialRender: boolean;
   canDrag?: boolean;
+  isDone?: boolean; // Статус задачи относится к категории «выполнено»
 }>(({
   task,
   onClick,
@@ -51,6 +54,7 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
   moveCard,
   isInitialRender,
   canDrag = true,
+  isDone = false,
 }, forwardedRef) => {
   const { teamMembers, categories, setIsDragging } = useApp();
   const [dropPosition, setDropPosition] = React.useState<'before' | 'after' | null>(null);
@@ -72,7 +76,7 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
     type: ITEM_TYPE,
     canDrag: () => canDrag,
     item: () => {
-      setIsDragging(true);
+      setIsDragging(true, task.id);
       return { taskId: task.id, currentStatus: task.status, index };
     },
     collect: (monitor) => ({
@@ -161,7 +165,7 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
       >
       <Card
         className={`cursor-pointer hover:shadow-lg transition-shadow duration-150 ${
-          task.status === 'done' ? 'opacity-60' : ''
+          isDone ? 'opacity-60' : ''
         } ${isDragging ? 'shadow-2xl ring-2 ring-purple-400' : ''} ${
           task.isRecurring ? 'border-2 border-purple-300 bg-purple-50/30' : ''
         }`}
@@ -172,7 +176,7 @@ const DraggableTaskCard = React.forwardRef<HTMLDivElement, {
             {task.isRecurring && (
               <Repeat className="w-4 h-4 text-purple-600 flex-shrink-0" />
             )}
-            <h4 className={`flex-1 ${task.status === 'done' ? 'line-through text-gray-500' : ''}`}>
+            <h4 className={`flex-1 ${isDone ? 'line-through text-gray-500' : ''}`}>
               {task.title}
             </h4>
           </div>
@@ -270,7 +274,8 @@ const MemoizedDraggableTaskCard = React.memo(DraggableTaskCard, (prevProps, next
     prevProps.isOverdue === nextProps.isOverdue &&
     prevProps.index === nextProps.index &&
     prevProps.isInitialRender === nextProps.isInitialRender &&
-    prevProps.canDrag === nextProps.canDrag
+    prevProps.canDrag === nextProps.canDrag &&
+    prevProps.isDone === nextProps.isDone
   );
 });
 
@@ -286,6 +291,9 @@ const DroppableColumn = ({
   moveCardWithinColumn,
   isFirstRender,
   canDrag,
+  isDone,
+  wipLimit,
+  totalCount,
 }: {
   columnId: string;
   title: string;
@@ -297,6 +305,9 @@ const DroppableColumn = ({
   moveCardWithinColumn: (draggedId: string, targetId: string, position: 'before' | 'after') => void;
   isFirstRender: boolean;
   canDrag?: boolean;
+  isDone: boolean;
+  wipLimit: number | null;
+  totalCount: number; // Все задачи статуса (без учета поиска и фильтров) - для WIP-лимита
 }) => {
   const [{ isOver }, drop] = useDrop(() => ({
     accept: ITEM_TYPE,
@@ -309,16 +320,26 @@ const DroppableColumn = ({
     collect: (monitor) => ({
       isOver: monitor.isOver({ shallow: true }),
     }),
-  }));
+  }), [columnId, onDrop]);
 
   return (
     <div ref={drop} className="flex flex-col w-80 flex-shrink-0">
       <div className="flex items-center gap-2 mb-4">
         <div className={`w-3 h-3 rounded-full ${color}`} />
         <h3 className="text-gray-900">{title}</h3>
-        <Badge variant="secondary" className="ml-auto">
-          {tasks.length}
-        </Badge>
+        {wipLimit !== null ? (
+          <Badge
+            variant="secondary"
+            className={`ml-auto ${totalCount >= wipLimit ? 'bg-red-100 text-red-700' : ''}`}
+            title="Задач в статусе / WIP-лимит"
+          >
+            {totalCount}/{wipLimit}
+          </Badge>
+        ) : (
+          <Badge variant="secondary" className="ml-auto">
+            {tasks.length}
+          </Badge>
+        )}
       </div>
 
       <motion.div
@@ -341,6 +362,7 @@ const DroppableColumn = ({
               moveCard={moveCardWithinColumn}
               isInitialRender={isFirstRender}
               canDrag={canDrag}
+              isDone={isDone}
             />
           ))}
         </AnimatePresence>
@@ -357,7 +379,12 @@ const MemoizedDroppableColumn = React.memo(DroppableColumn, (prevProps, nextProp
     prevProps.tasks.length === nextProps.tasks.length &&
     prevProps.tasks.every((task, index) => task.id === nextProps.tasks[index]?.id && task.updatedAt === nextProps.tasks[index]?.updatedAt) &&
     prevProps.isFirstRender === nextProps.isFirstRender &&
-    prevProps.canDrag === nextProps.canDrag
+    prevProps.canDrag === nextProps.canDrag &&
+    prevProps.color === nextProps.color &&
+    prevProps.isDone === nextProps.isDone &&
+    prevProps.wipLimit === nextProps.wipLimit &&
+    prevProps.totalCount === nextProps.totalCount &&
+    prevProps.onDrop === nextProps.onDrop
   );
 });
 
@@ -374,7 +401,7 @@ export function ProjectKanbanBoard({
   filters,
   onTaskClick,
 }: ProjectKanbanBoardProps) {
-  const { tasks, updateTask, getUserRoleInProject, canViewAllProjectTasks, currentUser, isInitialLoad } = useApp();
+  const { tasks, projects, updateTask, getUserRoleInProject, canViewAllProjectTasks, currentUser, isInitialLoad } = useApp();
   const [isAddingColumn, setIsAddingColumn] = React.useState(false);
   const [newColumnName, setNewColumnName] = React.useState('');
   const [editingColumnId, setEditingColumnId] = React.useState<string | null>(null);
@@ -389,13 +416,30 @@ export function ProjectKanbanBoard({
     }
   }, [isInitialLoad, isFirstRender]);
 
-  // Define kanban columns
-  const columnDefinitions = [
-    { id: 'todo', title: 'К выполнению', color: 'bg-gray-500' },
-    { id: 'in_progress', title: 'В работе', color: 'bg-blue-500' },
-    { id: 'review', title: 'На проверке', color: 'bg-yellow-500' },
-    { id: 'done', title: 'Готово', color: 'bg-green-500' },
-  ];
+  // Колонки доски - статусы workflow проекта (общие для всех участников)
+  const project = projects.find((p) => p.id === projectId);
+  const workflowStatuses = React.useMemo(() => getWorkflowStatuses(project), [project]);
+  const columnDefinitions = React.useMemo(
+    () => workflowStatuses.map((status) => ({
+      id: status.key,
+      title: status.name,
+      color: status.color,
+      isDone: status.isDone,
+      wipLimit: status.wipLimit,
+    })),
+    [workflowStatuses]
+  );
+
+  // Количество задач проекта в каждом статусе для WIP-лимитов
+  const statusCounts = React.useMemo(() => {
+    const counts: Record<string, number> = {};
+    tasks
+      .filter((t) => t.projectId === projectId)
+      .forEach((t) => {
+        counts[t.status] = (counts[t.status] || 0) + 1;
+      });
+    return counts;
+  }, [tasks, projectId]);
 
   const isOverdue = (deadline?: string) => {
     if (!deadline) return false;
@@ -547,12 +591,37 @@ export function ProjectKanbanBoard({
       
       return { ...colDef, tasks: uniqueTasks };
     });
-  }, [projectTasks, taskOrder]);
+  }, [projectTasks, taskOrder, columnDefinitions]);
+
+  // Проверка перехода по правилам workflow до запроса (сервер проверяет то же самое)
+  const checkStatusChange = React.useCallback((taskId: string, newStatus: string) => {
+    const task = projectTasks.find((t) => t.id === taskId);
+    if (!task || task.status === newStatus) return true;
+
+    const target = workflowStatuses.find((s) => s.key === newStatus);
+    if (!canTransition(workflowStatuses, task.status, newStatus)) {
+      const source = workflowStatuses.find((s) => s.key === task.status);
+      toast.error(`Переход «${source?.name || task.status}» → «${target?.name || newStatus}» запрещён`);
+      return false;
+    }
+    if (target && target.wipLimit !== null && (statusCounts[newStatus] || 0) >= target.wipLimit) {
+      toast.error(`В статусе «${target.name}» достигнут WIP-лимит (${target.wipLimit})`);
+      return false;
+    }
+    return true;
+  }, [projectTasks, workflowStatuses, statusCounts]);
 
   // Wrap handlers in useCallback for memoization
   const handleMoveCardCallback = React.useCallback((draggedId: string, targetId: string, position: 'before' | 'after') => {
+    const targetTask = projectTasks.find((t) => t.id === targetId);
+    if (targetTask && !checkStatusChange(draggedId, targetTask.status)) return;
     return handleMoveCard(draggedId, targetId, position, projectTasks);
-  }, [handleMoveCard, projectTasks]);
+  }, [handleMoveCard, projectTasks, checkStatusChange]);
+
+  const handleStatusChangeCallback = React.useCallback((taskId: string, newStatus: string) => {
+    if (!checkStatusChange(taskId, newStatus)) return;
+    handleStatusChange(taskId, newStatus);
+  }, [handleStatusChange, checkStatusChange]);
 
   const handleTaskClick = React.useCallback((taskId: string) => {
     onTaskClick(taskId);
@@ -568,7 +637,7 @@ export function ProjectKanbanBoard({
 
   // Show skeleton during initial load
   if (isInitialLoad) {
-    return <KanbanBoardSkeleton columnCount={4} />;
+    return <KanbanBoardSkeleton columnCount={columnDefinitions.length} />;
   }
 
   return (
@@ -600,7 +669,10 @@ export function ProjectKanbanBoard({
               title={column.title}
               color={column.color}
               tasks={column.tasks}
-              onDrop={handleStatusChange}
+              isDone={column.isDone}
+              wipLimit={column.wipLimit}
+              totalCount={statusCounts[column.id] || 0}
+              onDrop={handleStatusChangeCallback}
               onTaskClick={handleTaskClick}
               isOverdue={isOverdueMemoized}
               moveCardWithinColumn={handleMoveCardCallback}
@@ -40,17 +40,22 @@ import {
   Search,
   UserPlus,
   Loader2,
+  Crown,
+  LogOut,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { getAuthToken, authAPI } from '../utils/supabase/client';
 import { projectsAPI } from '../utils/api-client';
+import { useApp } from '../contexts/app-context';
 import { format } from 'date-fns';
 import { ru } from 'date-fns/locale';
 
 type Role = 'owner' | 'collaborator' | 'member' | 'viewer';
+type AssignableRole = Exclude<Role, 'owner'>;
 
 type Member = {
   id: string;
+  userId: string;
   name: string;
   email: string;
   avatar: string;
@@ -129,6 +134,7 @@ const formatDate = (dateString: string): string => {
 const getMockMembers = (): Member[] => [
   {
     id: '1',
+    userId: '1',
     name: 'Мария Иванова',
     email: 'maria@example.com',
     avatar: 'МИ',
@@ -137,6 +143,7 @@ const getMockMembers = (): Member[] => [
   },
   {
     id: '2',
+    userId: '2',
     name: 'Александр Петров',
     email: 'alex@example.com',
     avatar: 'АП',
@@ -145,6 +152,7 @@ const getMockMembers = (): Member[] => [
   },
   {
     id: '3',
+    userId: '3',
     name: 'Евгений Смирнов',
     email: 'evgeny@example.com',
     avatar: 'ЕС',
@@ -153,6 +161,7 @@ const getMockMembers = (): Member[] => [
   },
   {
     id: '4',
+    userId: '4',
     name: 'Дмитрий Козлов',
     email: 'dmitry@example.com',
     avatar: 'ДК',
@@ -197,6 +206,11 @@ export function ProjectMembersModal({
   const [activeTab, setActiveTab] = React.useState('members');
   const [isLoading, setIsLoading] = React.useState(false);
   const [currentUserEmail, setCurrentUserEmail] = React.useState<string>('');
+  // Кому передать открытые задачи удаляемого/уходящего участника ('none' - снять исполнителя)
+  const [reassignTo, setReassignTo] = React.useState<string>('none');
+  const [memberToPromote, setMemberToPromote] = React.useState<Member | null>(null);
+  const [isLeaveDialogOpen, setIsLeaveDialogOpen] = React.useState(false);
+  const { currentUser, refreshData } = useApp();
 
   const isOwner = currentUserRole === 'owner';
   const canManage = isOwner;
@@ -263,7 +277,7 @@ export function ProjectMembersModal({
       const projectMembers = project.members || [];
       
       // Ensure owner is in the members list
-      const ownerId = project.userId;
+      const ownerId = project.ownerId || project.userId;
       const ownerInMembers = projectMembers.find((m: any) => 
         (m.id === ownerId || m.userId === ownerId) && m.role === 'owner'
       );
@@ -323,33 +337,23 @@ export function ProjectMembersModal({
         }
       }
       
-      // Add pending invitations as "invited" members
-      const pendingInvitations = project.invitations || [];
-      const invitedMembers = pendingInvitations
-        .filter((inv: any) => inv.status === 'pending')
-        .map((inv: any) => ({
-          id: `inv_${inv.id}`,
-          userId: inv.id,
-          name: inv.email,
-          email: inv.email,
-          role: inv.role,
-          status: 'invited' as const,
-          addedDate: inv.sentDate || new Date().toISOString(),
-        }));
-      
-      // Combine accepted members with pending invitations
-      const allMembersWithInvited = [...allMembers, ...invitedMembers];
-      
       // Transform members to match expected format
-      const transformedMembers = allMembersWithInvited.map((m: any) => ({
-        id: m.id || m.userId,
-        name: m.name || m.email || 'Без имени',
-        email: m.email,
-        avatar: m.name ? m.name.split(' ').map((n: string) => n[0]).join('').toUpperCase() : m.email?.[0]?.toUpperCase() || '?',
-        role: m.role,
-        status: m.status || 'active',
-        addedDate: m.addedDate ? new Date(m.addedDate).toLocaleDateString('ru-RU') : 'Недавно',
-      }));
+      // Prisma members keep name/email in the nested user object
+      const transformedMembers = allMembers.map((m: any) => {
+        const name = m.name || m.user?.name;
+        const email = m.email || m.user?.email;
+        const addedDate = m.addedDate || m.addedAt;
+        return {
+          id: m.id || m.userId,
+          userId: m.userId || m.id,
+          name: name || email || 'Без имени',
+          email,
+          avatar: name ? name.split(' ').map((n: string) => n[0]).join('').toUpperCase() : email?.[0]?.toUpperCase() || '?',
+          role: m.role,
+          status: m.status || 'active',
+          addedDate: addedDate ? new Date(addedDate).toLocaleDateString('ru-RU') : 'Недавно',
+        };
+      });
       
       setMembers(transformedMembers);
     } catch (error) {
@@ -371,24 +375,14 @@ export function ProjectMembersModal({
         return;
       }
       
-      // Fetch projects from KV store
-      const projects = await projectsAPI.getAll();
-      const project = projects.find((p: any) => p.id === prjId);
-      
-      if (!project) {
-        console.error('Project not found');
-        return;
-      }
-      
-      // Get invitations from project and transform them to match expected structure
-      const rawInvitations = project.invitations || [];
+      const rawInvitations = await projectsAPI.getInvitations(prjId);
       const transformedInvitations = rawInvitations.map((inv: any) => ({
         id: inv.id,
-        email: inv.invitedEmail || inv.email, // Support both field names
+        email: inv.email,
         role: inv.role,
         status: inv.status,
-        sentDate: inv.sentDate ? formatDate(inv.sentDate) : 'Недавно',
-        link: inv.inviteLink || inv.link,
+        sentDate: inv.createdAt ? formatDate(inv.createdAt) : 'Недавно',
+        link: inv.link,
       }));
       
       setInvitations(transformedInvitations);
@@ -486,31 +480,12 @@ export function ProjectMembersModal({
         return;
       }
       
-      // Fetch current projects
-      const projects = await projectsAPI.getAll();
-      const project = projects.find((p: any) => p.id === prjId);
-      
-      if (!project) {
-        toast.error('Проект не найден');
-        return;
-      }
-      
-      // Update invitation sent date
-      const invitations = project.invitations || [];
-      const inviteIndex = invitations.findIndex((inv: Invitation) => inv.id === invitation.id);
-      
-      if (inviteIndex !== -1) {
-        invitations[inviteIndex].sentDate = new Date().toISOString();
-        invitations[inviteIndex].status = 'pending';
-        await projectsAPI.update(prjId, { invitations });
-        await fetchInvitations();
-        toast.success('Приглашение повторно отправлено');
-      } else {
-        toast.error('Приглашение не найдено');
-      }
-    } catch (error) {
+      await projectsAPI.resendInvitation(invitation.id);
+      await fetchInvitations();
+      toast.success('Приглашение повторно отправлено');
+    } catch (error: any) {
       console.error('Resend invite error:', error);
-      toast.error('Ошибка повторной отправки');
+      toast.error(error.message || 'Ошибка повторной отправки');
     } finally {
       setIsLoading(false);
     }
@@ -537,17 +512,14 @@ export function ProjectMembersModal({
     }
   };
 
-  const handleChangeRole = async (memberId: string, newRole: Role) => {
+  const handleChangeRole = async (memberId: string, newRole: AssignableRole) => {
     const member = members.find((m) => m.id === memberId);
     if (!member) return;
 
-    // Проверка: нельзя снять последнего владельца
-    if (member.role === 'owner' && newRole !== 'owner') {
-      const ownerCount = members.filter((m) => m.role === 'owner').length;
-      if (ownerCount <= 1) {
-        toast.error('Нельзя снять последнего владельца проекта');
-        return;
-      }
+    // Роль владельца меняется только через передачу владения
+    if (member.role === 'owner') {
+      toast.error('Чтобы сменить владельца, передайте владение другому участнику');
+      return;
     }
 
     try {
@@ -563,7 +535,7 @@ export function ProjectMembersModal({
       toast.success('Роль обновлена');
     } catch (error) {
       console.error('Change role error:', error);
-      toast.error('Ошибка обновления роли');
+      toast.error(`Ошибка обновления роли: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
     } finally {
       setIsLoading(false);
     }
@@ -586,20 +558,90 @@ export function ProjectMembersModal({
       setIsLoading(true);
       
       // Remove member using new API
-      await projectsAPI.removeMember(prjId, memberToDelete.id);
+      const { reassignedTaskCount } = await projectsAPI.removeMember(
+        prjId,
+        memberToDelete.id,
+        reassignTo === 'none' ? null : reassignTo
+      );
       
       // Update local state
       setMembers(members.filter((m) => m.id !== memberToDelete.id));
-      toast.success('Участник удалён из проекта');
+      toast.success(
+        reassignedTaskCount > 0
+          ? `Участник удалён из проекта, задач передано: ${reassignedTaskCount}`
+          : 'Участник удалён из проекта'
+      );
     } catch (error) {
       console.error('Delete member error:', error);
-      toast.error('Ошибка удаления участника');
+      toast.error(`Ошибка удаления участника: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
     } finally {
       setIsLoading(false);
       setMemberToDelete(null);
+      setReassignTo('none');
     }
   };
 
+  const handleTransferOwnership = async () => {
+    if (!memberToPromote) return;
+
+    try {
+      setIsLoading(true);
+      await projectsAPI.transferOwnership(prjId, memberToPromote.id);
+      toast.success(`Владелец проекта теперь ${memberToPromote.name}`);
+      // Права текущего пользователя изменились - перезагружаем проекты
+      await refreshData();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Transfer ownership error:', error);
+      toast.error(`Ошибка передачи владения: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
+    } finally {
+      setIsLoading(false);
+      setMemberToPromote(null);
+    }
+  };
+
+  const handleLeaveProject = async () => {
+    try {
+      setIsLoading(true);
+      await projectsAPI.leaveProject(prjId, reassignTo === 'none' ? null : reassignTo);
+      toast.success(`Вы покинули проект «${projectName}»`);
+      onOpenChange(false);
+      await refreshData();
+    } catch (error) {
+      console.error('Leave project error:', error);
+      toast.error(`Ошибка выхода из проекта: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`);
+    } finally {
+      setIsLoading(false);
+      setIsLeaveDialogOpen(false);
+      setReassignTo('none');
+    }
+  };
+
+  // Кандидаты на передачу задач: активные участники, кроме наблюдателей и уходящего
+  const getReassignCandidates = (leavingUserId?: string) =>
+    members.filter(
+      (m) => m.status !== 'invited' && m.role !== 'viewer' && m.userId !== leavingUserId
+    );
+
+  const renderReassignSelect = (leavingUserId?: string) => (
+    <div className="space-y-2">
+      <Label>Открытые задачи участника</Label>
+      <Select value={reassignTo} onValueChange={setReassignTo}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Оставить без исполнителя</SelectItem>
+          {getReassignCandidates(leavingUserId).map((m) => (
+            <SelectItem key={m.userId} value={m.userId}>
+              Передать: {m.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -670,7 +712,7 @@ export function ProjectMembersModal({
                               <Select
                                 value={member.role}
                                 onValueChange={(value) =>
-                                  handleChangeRole(member.id, value as Role)
+                                  handleChangeRole(member.id, value as AssignableRole)
                                 }
                                 disabled={member.status === 'invited'}
                               >
@@ -723,14 +765,29 @@ export function ProjectMembersModal({
                         </div>
 
                         {canManage && member.role !== 'owner' && member.status !== 'invited' && (
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => setMemberToDelete(member)}
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Передать владение"
+                              onClick={() => setMemberToPromote(member)}
+                              className="text-amber-600 hover:text-amber-700 hover:bg-amber-50"
+                            >
+                              <Crown className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Удалить из проекта"
+                              onClick={() => {
+                                setReassignTo('none');
+                                setMemberToDelete(member);
+                              }}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </>
                         )}
                       </div>
                     </div>
@@ -965,7 +1022,22 @@ export function ProjectMembersModal({
 
           <Separator className="mt-4" />
 
-          <div className="flex justify-end">
+          <div className="flex justify-between">
+            {!isOwner ? (
+              <Button
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => {
+                  setReassignTo('none');
+                  setIsLeaveDialogOpen(true);
+                }}
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Покинуть проект
+              </Button>
+            ) : (
+              <span />
+            )}
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Закрыть
             </Button>
@@ -983,6 +1055,7 @@ export function ProjectMembersModal({
               пользователь сразу потеряет доступ к проекту.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {renderReassignSelect(memberToDelete?.userId)}
           <AlertDialogFooter>
             <AlertDialogCancel>Отмена</AlertDialogCancel>
             <AlertDialogAction
@@ -995,6 +1068,51 @@ export function ProjectMembersModal({
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Диалог передачи владения */}
+      <AlertDialog open={!!memberToPromote} onOpenChange={() => setMemberToPromote(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Передать владение проектом?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {memberToPromote?.name} станет владельцем проекта «{projectName}». Вы останетесь
+              в проекте с ролью «{roleLabels.collaborator}» и больше не сможете управлять участниками.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleTransferOwnership}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              Передать
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Диалог выхода из проекта */}
+      <AlertDialog open={isLeaveDialogOpen} onOpenChange={setIsLeaveDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Покинуть проект?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Вы потеряете доступ к проекту «{projectName}». Вернуться можно только по новому
+              приглашению.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {renderReassignSelect(currentUser?.id)}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleLeaveProject}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Покинуть
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Диалог подтверждения отзыва приглашения */}
       <AlertDialog open={!!inviteToRevoke} onOpenChange={() => setInviteToRevoke(null)}>
         <AlertDialogContent>
@@ -14,8 +14,10 @@ import { Badge } from './ui/badge';
 import { X, Plus, Upload, Paperclip, Link as LinkIcon, Users, UserPlus, Loader2 } from 'lucide-react';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Separator } from './ui/separator';
+import { Switch } from './ui/switch';
 import { toast } from 'sonner';
 import { useApp, type ProjectLink, type ProjectAttachment } from '../contexts/app-context';
+import { projectsAPI } from '../utils/api-client';
 
 type ProjectModalMode = 'create' | 'edit';
 
@@ -49,12 +51,14 @@ export function ProjectModal({
   onSave,
   onManageMembers,
 }: ProjectModalProps) {
-  const { projects, createProject, updateProject, categories } = useApp();
+  const { projects, createProject, updateProject, categories, fetchProjects, currentUser, getUserRoleInProject } = useApp();
   const [isLoading, setIsLoading] = React.useState(false);
   const prevOpenRef = React.useRef(false);
   
   const isEditMode = mode === 'edit';
   const existingProject = projectId && isEditMode ? projects.find(p => p.id === projectId) : null;
+  // Требование 2FA меняет только владелец проекта
+  const canManageTwoFactor = !!existingProject && getUserRoleInProject(existingProject.id) === 'owner';
 
   // Form state
   const [name, setName] = React.useState(existingProject?.name || '');
@@ -69,6 +73,11 @@ export function ProjectModal({
   const [attachments, setAttachments] = React.useState<ProjectAttachment[]>(
     existingProject?.attachments || []
   );
+  // Новые файлы загружаются после сохранения проекта
+  const [pendingFiles, setPendingFiles] = React.useState<File[]>([]);
+  // Запрещать завершение задач с незавершёнными блокирующими задачами (иначе только предупреждение)
+  const [blockDependencies, setBlockDependencies] = React.useState(existingProject?.dependencyMode === 'block');
+  const [requireTwoFactor, setRequireTwoFactor] = React.useState(!!existingProject?.requireTwoFactor);
   const [errors, setErrors] = React.useState<Record<string, string>>({});
 
   React.useEffect(() => {
@@ -86,6 +95,9 @@ export function ProjectModal({
           const projectCategories = (project as any).availableCategories || [];
           setSelectedCategories(projectCategories);
           setAttachments(project.attachments || []);
+          setPendingFiles([]);
+          setBlockDependencies(project.dependencyMode === 'block');
+          setRequireTwoFactor(!!project.requireTwoFactor);
         }
       } else if (!isEditMode) {
         // Очищаем форму для создания нового проекта
@@ -105,6 +117,9 @@ export function ProjectModal({
     setNewLinkUrl('');
     setSelectedCategories([]);
     setAttachments([]);
+    setPendingFiles([]);
+    setBlockDependencies(false);
+    setRequireTwoFactor(false);
     setErrors({});
   };
 
@@ -138,15 +153,19 @@ export function ProjectModal({
         }).join(', '), // Сохраняем для отображения
         availableCategories: selectedCategories, // Сохраняем массив ID для фильтрации в задачах
         status: isEditMode && existingProject?.status ? existingProject.status : 'active',
-        links: links.length > 0 ? links : undefined,
-        attachments: attachments.length > 0 ? attachments : undefined,
+        // Ссылки нового проекта создаются вместе с ним, у существующего - синхронизируются отдельно
+        links: !isEditMode && links.length > 0 ? links : undefined,
+        dependencyMode: (blockDependencies ? 'block' : 'warn') as 'block' | 'warn',
+        ...(canManageTwoFactor ? { requireTwoFactor } : {}),
       };
 
       if (isEditMode && existingProject) {
         await updateProject(existingProject.id, projectData);
+        await syncLinksAndFiles(existingProject.id);
         onSave?.(projectData);
       } else {
-        await createProject(projectData);
+        const newProject = await createProject(projectData);
+        await syncLinksAndFiles(newProject.id);
         onSave?.(projectData);
       }
 
@@ -160,6 +179,61 @@ export function ProjectModal({
     }
   };
 
+  /**
+   * Применить изменения ссылок и файлов к сохраненному проекту
+   * Ошибки отдельных ссылок и файлов показываются, но не отменяют сохранение проекта
+   */
+  const syncLinksAndFiles = async (targetProjectId: string) => {
+    const originalLinks = isEditMode ? existingProject?.links || [] : links;
+    const originalAttachments = isEditMode ? existingProject?.attachments || [] : [];
+    let changed = pendingFiles.length > 0;
+
+    const run = async (action: () => Promise<unknown>, errorMessage: string) => {
+      try {
+        await action();
+        changed = true;
+      } catch (error: any) {
+        console.error(errorMessage, error);
+        toast.error(`${errorMessage}: ${error.message || 'Неизвестная ошибка'}`);
+      }
+    };
+
+    if (isEditMode) {
+      for (const link of originalLinks.filter((l) => !links.some((current) => current.id === l.id))) {
+        await run(() => projectsAPI.deleteLink(targetProjectId, link.id), `Не удалось удалить ссылку «${link.name}»`);
+      }
+      for (const link of links.filter((l) => !originalLinks.some((original) => original.id === l.id))) {
+        await run(
+          () => projectsAPI.addLink(targetProjectId, { name: link.name, url: link.url }),
+          `Не удалось добавить ссылку «${link.name}»`
+        );
+      }
+    }
+
+    for (const attachment of originalAttachments.filter((a) => !attachments.some((current) => current.id === a.id))) {
+      await run(
+        () => projectsAPI.deleteAttachment(targetProjectId, attachment.id),
+        `Не удалось удалить файл ${attachment.name}`
+      );
+    }
+
+    for (const file of pendingFiles) {
+      try {
+        await projectsAPI.uploadAttachment(targetProjectId, file);
+      } catch (error: any) {
+        console.error('Upload project file error:', error);
+        const reason = error.message?.includes('quota')
+          ? 'превышена квота хранилища проекта'
+          : error.message || 'Неизвестная ошибка';
+        toast.error(`Ошибка загрузки файла ${file.name}: ${reason}`);
+      }
+    }
+
+    if (changed) {
+      await fetchProjects();
+    }
+  };
+
   const addLink = () => {
     if (newLinkName.trim() && newLinkUrl.trim()) {
       setLinks([
@@ -190,20 +264,19 @@ export function ProjectModal({
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files) {
-      const newAttachments = Array.from(files).map((file) => ({
-        id: `file-${Date.now()}-${Math.random()}`,
-        name: file.name,
-        size: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
-        url: URL.createObjectURL(file),
-      }));
-      setAttachments([...attachments, ...newAttachments]);
+      setPendingFiles([...pendingFiles, ...Array.from(files)]);
     }
+    e.target.value = ''; // Reset input
   };
 
   const removeAttachment = (attachmentId: string) => {
     setAttachments(attachments.filter((a) => a.id !== attachmentId));
   };
 
+  const removePendingFile = (index: number) => {
+    setPendingFiles(pendingFiles.filter((_, i) => i !== index));
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
@@ -361,6 +434,41 @@ export function ProjectModal({
 
           <Separator />
 
+          {/* Зависимости задач */}
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="project-dependency-mode">Строгие зависимости</Label>
+              <p className="text-xs text-gray-500">
+                Запрещать завершение задач, пока не выполнены блокирующие их задачи. Если выключено, показывается только предупреждение
+              </p>
+            </div>
+            <Switch
+              id="project-dependency-mode"
+              checked={blockDependencies}
+              onCheckedChange={setBlockDependencies}
+            />
+          </div>
+
+          {canManageTwoFactor && (
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="project-require-2fa">Требовать 2FA</Label>
+                <p className="text-xs text-gray-500">
+                  Открыть проект можно будет только после входа с двухфакторной аутентификацией
+                  {!currentUser?.twoFactorEnabled && '. Сначала включите 2FA в профиле'}
+                </p>
+              </div>
+              <Switch
+                id="project-require-2fa"
+                checked={requireTwoFactor}
+                onCheckedChange={setRequireTwoFactor}
+                disabled={!requireTwoFactor && !currentUser?.twoFactorEnabled}
+              />
+            </div>
+          )}
+
+          <Separator />
+
           {/* Файлы */}
           <div className="space-y-2">
             <Label>Файлы</Label>
@@ -391,7 +499,7 @@ export function ProjectModal({
                       <Paperclip className="w-4 h-4 text-gray-500" />
                       <div>
                         <p className="text-sm">{attachment.name}</p>
-                        <p className="text-xs text-gray-500">{attachment.size}</p>
+                        <p className="text-xs text-gray-500">{(attachment.size / 1024 / 1024).toFixed(2)} MB</p>
                       </div>
                     </div>
                     <Button
@@ -407,6 +515,34 @@ export function ProjectModal({
                 ))}
               </div>
             )}
+            {pendingFiles.length > 0 && (
+              <div className="space-y-2 mt-3">
+                <p className="text-sm text-gray-600">Будут загружены при сохранении:</p>
+                {pendingFiles.map((file, index) => (
+                  <div
+                    key={`${file.name}-${index}`}
+                    className="flex items-center justify-between p-3 bg-blue-50 rounded-lg"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Paperclip className="w-4 h-4 text-blue-500" />
+                      <div>
+                        <p className="text-sm">{file.name}</p>
+                        <p className="text-xs text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removePendingFile(index)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {isEditMode && existingProject?.members && (
@@ -10,6 +10,7 @@ import {
 import { Badge } from './ui/badge';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -18,6 +19,7 @@ import {
   SelectValue,
 } from './ui/select';
 import { Calendar, Flame, Tag, MoreHorizontal, AlertCircle, Paperclip } from 'lucide-react';
+import { getWorkflowStatuses, canTransition } from '../utils/workflow';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,6 +28,8 @@ import {
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
 import { useApp } from '../contexts/app-context';
+import { BulkActionBar } from './bulk-action-bar';
+import { useTaskSelection } from '../hooks/useTaskSelection';
 import { format, isToday, isTomorrow, isPast } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import type { Filters } from './filters-panel';
@@ -59,17 +63,12 @@ const statusColors = {
   done: 'bg-green-100 text-green-700 border-green-300',
 };
 
-const statusLabels = {
-  todo: 'К выполнению',
-  in_progress: 'В работе',
-  review: 'На проверке',
-  done: 'Готово',
-};
-
 // Categories are now loaded from the app context
 
 export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick }: ProjectTaskTableProps) {
-  const { tasks, updateTask, deleteTask, teamMembers, currentUser, canEditTask, canDeleteTask, categories, canViewAllProjectTasks } = useApp();
+  const { tasks, projects, updateTask, deleteTask, teamMembers, currentUser, canEditTask, canDeleteTask, categories, canViewAllProjectTasks } = useApp();
+  const workflowStatuses = getWorkflowStatuses(projects.find((p) => p.id === projectId));
+  const getWorkflowStatus = (status: string) => workflowStatuses.find((s) => s.key === status);
 
   // Filter tasks for this project
   const filteredTasks = React.useMemo(() => {
@@ -143,6 +142,9 @@ export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick
     });
   }, [tasks, projectId, searchQuery, filters, canViewAllProjectTasks, currentUser]);
 
+  const rowIds = React.useMemo(() => filteredTasks.map(task => task.id), [filteredTasks]);
+  const selection = useTaskSelection(rowIds);
+
   const getInitials = (name?: string) => {
     if (!name) return '?';
     return name
@@ -169,7 +171,7 @@ export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick
   const handleStatusChange = async (taskId: string, newStatus: string) => {
     await updateTask(taskId, { 
       status: newStatus,
-      completed: newStatus === 'done',
+      completed: getWorkflowStatus(newStatus)?.isDone === true,
     });
   };
 
@@ -198,6 +200,13 @@ export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={selection.isAllSelected ? true : selection.isSomeSelected ? 'indeterminate' : false}
+                  onCheckedChange={selection.toggleAll}
+                  aria-label="Выбрать все задачи"
+                />
+              </TableHead>
               <TableHead className="min-w-[250px]">Задача</TableHead>
               <TableHead className="w-[180px]">Статус</TableHead>
               <TableHead>Приоритет</TableHead>
@@ -219,7 +228,7 @@ export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick
               return (
                 <TableRow
                   key={task.id}
-                  className="cursor-pointer hover:bg-gray-50"
+                  className={`cursor-pointer ${selection.selectedIds.has(task.id) ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
                   onClick={(e) => {
                     // Не открываем модальное окно, если клик был по Select или его дочерним элементам
                     const target = e.target as HTMLElement;
@@ -229,9 +238,16 @@ export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick
                     onTaskClick(task.id);
                   }}
                 >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selection.selectedIds.has(task.id)}
+                      onClick={(e) => selection.toggle(task.id, e.shiftKey)}
+                      aria-label={`Выбрать задачу «${task.title}»`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <div className="max-w-[300px] flex items-center gap-2">
-                      <span className={`truncate ${task.status === 'done' ? 'line-through text-gray-500' : ''}`}>
+                      <span className={`truncate ${getWorkflowStatus(task.status)?.isDone ? 'line-through text-gray-500' : ''}`}>
                         {task.title}
                       </span>
                       {task.attachments && task.attachments.length > 0 && (
@@ -252,15 +268,18 @@ export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="todo">{statusLabels.todo}</SelectItem>
-                          <SelectItem value="in_progress">{statusLabels.in_progress}</SelectItem>
-                          <SelectItem value="review">{statusLabels.review}</SelectItem>
-                          <SelectItem value="done">{statusLabels.done}</SelectItem>
+                          {workflowStatuses
+                            .filter((status) => canTransition(workflowStatuses, task.status, status.key))
+                            .map((status) => (
+                              <SelectItem key={status.key} value={status.key}>
+                                {status.name}
+                              </SelectItem>
+                            ))}
                         </SelectContent>
                       </Select>
                     ) : (
                       <Badge variant="outline" className={statusColors[task.status as keyof typeof statusColors]}>
-                        {statusLabels[task.status as keyof typeof statusLabels]}
+                        {getWorkflowStatus(task.status)?.name || task.status}
                       </Badge>
                     )}
                   </TableCell>
@@ -354,6 +373,10 @@ export function ProjectTaskTable({ projectId, searchQuery, filters, onTaskClick
           </TableBody>
         </Table>
       </div>
+      <BulkActionBar
+        selectedTasks={filteredTasks.filter(task => selection.selectedIds.has(task.id))}
+        onClearSelection={selection.clear}
+      />
     </div>
   );
 }
@@ -0,0 +1,291 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useApp } from '../contexts/app-context';
+import type { WorkflowStatus } from '../contexts/app-context';
+import { getWorkflowStatuses } from '../utils/workflow';
+
+type ProjectWorkflowModalProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+};
+
+type DraftStatus = Omit<WorkflowStatus, 'id' | 'projectId' | 'position'>;
+
+const STATUS_COLORS = [
+  'bg-gray-500',
+  'bg-blue-500',
+  'bg-yellow-500',
+  'bg-green-500',
+  'bg-purple-500',
+  'bg-pink-500',
+  'bg-orange-500',
+  'bg-teal-500',
+  'bg-indigo-500',
+  'bg-red-500',
+];
+
+const toDraft = (statuses: WorkflowStatus[]): DraftStatus[] =>
+  statuses.map(({ key, name, color, wipLimit, isDone, allowedTransitions }) => ({
+    key,
+    name,
+    color,
+    wipLimit,
+    isDone,
+    allowedTransitions: [...allowedTransitions],
+  }));
+
+// Настройка статусов (колонок доски) проекта: порядок, цвета, WIP-лимиты, «выполнено» и переходы
+export function ProjectWorkflowModal({ open, onOpenChange, projectId }: ProjectWorkflowModalProps) {
+  const { projects, tasks, updateProjectWorkflow } = useApp();
+  const project = projects.find((p) => p.id === projectId);
+  const [draft, setDraft] = React.useState<DraftStatus[]>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // Черновик заполняется при открытии, чтобы realtime-обновления не сбивали редактирование
+  React.useEffect(() => {
+    if (open) {
+      setDraft(toDraft(getWorkflowStatuses(project)));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, projectId]);
+
+  const taskCounts = React.useMemo(() => {
+    const counts: Record<string, number> = {};
+    tasks
+      .filter((t) => t.projectId === projectId)
+      .forEach((t) => {
+        counts[t.status] = (counts[t.status] || 0) + 1;
+      });
+    return counts;
+  }, [tasks, projectId]);
+
+  const updateStatus = (key: string, updates: Partial<DraftStatus>) => {
+    setDraft((prev) => prev.map((s) => (s.key === key ? { ...s, ...updates } : s)));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const next = [...prev];
+      const [status] = next.splice(index, 1);
+      next.splice(index + offset, 0, status);
+      return next;
+    });
+  };
+
+  const removeStatus = (key: string) => {
+    setDraft((prev) =>
+      prev
+        .filter((s) => s.key !== key)
+        .map((s) => ({ ...s, allowedTransitions: s.allowedTransitions.filter((t) => t !== key) }))
+    );
+  };
+
+  const addStatus = () => {
+    setDraft((prev) => [
+      ...prev,
+      {
+        key: `custom_${Date.now()}`,
+        name: 'Новый статус',
+        color: STATUS_COLORS[prev.length % STATUS_COLORS.length],
+        wipLimit: null,
+        isDone: false,
+        allowedTransitions: [],
+      },
+    ]);
+  };
+
+  const toggleTransition = (status: DraftStatus, target: string) => {
+    // Пустой список означает «в любой статус», поэтому первое снятие отметки раскрывает его
+    const current = status.allowedTransitions.length > 0
+      ? status.allowedTransitions
+      : draft.filter((s) => s.key !== status.key).map((s) => s.key);
+    const next = current.includes(target) ? current.filter((t) => t !== target) : [...current, target];
+    const allOthers = draft.filter((s) => s.key !== status.key).length;
+    updateStatus(status.key, { allowedTransitions: next.length === allOthers ? [] : next });
+  };
+
+  const hasDoneStatus = draft.some((s) => s.isDone);
+  const hasEmptyName = draft.some((s) => !s.name.trim());
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateProjectWorkflow(projectId, draft.map((s) => ({ ...s, name: s.name.trim() })));
+      onOpenChange(false);
+    } catch (error) {
+      // Ошибка уже показана в updateProjectWorkflow
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Статусы проекта</DialogTitle>
+          <DialogDescription>
+            Колонки доски общие для всех участников проекта. Задачи в статусах «Выполнено» считаются завершёнными
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="hidden md:grid grid-cols-[auto_1fr_6rem_6rem_8rem_auto] gap-2 px-2 text-xs text-gray-500">
+            <span className="w-6" />
+            <span>Название</span>
+            <span>WIP-лимит</span>
+            <span>Выполнено</span>
+            <span>Переходы</span>
+            <span className="w-24" />
+          </div>
+
+          {draft.map((status, index) => {
+            const others = draft.filter((s) => s.key !== status.key);
+            const taskCount = taskCounts[status.key] || 0;
+
+            return (
+              <div
+                key={status.key}
+                className="grid grid-cols-[auto_1fr_6rem_6rem_8rem_auto] items-center gap-2 p-2 rounded-lg border bg-white"
+              >
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button type="button" className={`w-6 h-6 rounded-full ${status.color}`} title="Цвет" />
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto" align="start">
+                    <div className="grid grid-cols-5 gap-2">
+                      {STATUS_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          className={`w-6 h-6 rounded-full ${color} ${
+                            color === status.color ? 'ring-2 ring-offset-2 ring-purple-500' : ''
+                          }`}
+                          onClick={() => updateStatus(status.key, { color })}
+                        />
+                      ))}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+
+                <Input
+                  value={status.name}
+                  maxLength={50}
+                  onChange={(e) => updateStatus(status.key, { name: e.target.value })}
+                />
+
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="Нет"
+                  value={status.wipLimit ?? ''}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    updateStatus(status.key, { wipLimit: Number.isNaN(value) || value < 1 ? null : value });
+                  }}
+                />
+
+                <div className="flex justify-center">
+                  <Checkbox
+                    checked={status.isDone}
+                    onCheckedChange={(value) => updateStatus(status.key, { isDone: value === true })}
+                  />
+                </div>
+
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" className="w-full justify-start font-normal">
+                      {status.allowedTransitions.length === 0
+                        ? 'Любые'
+                        : `${status.allowedTransitions.length} из ${others.length}`}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-56" align="start">
+                    <Label className="text-sm">Можно перевести в</Label>
+                    <div className="mt-2 space-y-2">
+                      {others.map((target) => (
+                        <label key={target.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={
+                              status.allowedTransitions.length === 0 ||
+                              status.allowedTransitions.includes(target.key)
+                            }
+                            onCheckedChange={() => toggleTransition(status, target.key)}
+                          />
+                          <div className={`w-2 h-2 rounded-full ${target.color}`} />
+                          {target.name || 'Без названия'}
+                        </label>
+                      ))}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => moveStatus(index, -1)}
+                    title="Выше"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === draft.length - 1}
+                    onClick={() => moveStatus(index, 1)}
+                    title="Ниже"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={taskCount > 0 || draft.length === 1}
+                    onClick={() => removeStatus(status.key)}
+                    title={taskCount > 0 ? `В статусе задач: ${taskCount}` : 'Удалить статус'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          <Button variant="outline" size="sm" onClick={addStatus} disabled={draft.length >= 20}>
+            <Plus className="w-4 h-4 mr-2" />
+            Добавить статус
+          </Button>
+
+          {!hasDoneStatus && (
+            <p className="text-sm text-red-600">Отметьте хотя бы один статус как «Выполнено»</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Отмена
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !hasDoneStatus || hasEmptyName}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Сохранить
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,256 @@
+import React from 'react';
+import { Bookmark, Check, Link2, Pin, PinOff, Save, Trash2, Users } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import { useApp, type SavedView } from '../contexts/app-context';
+import { boardStateSchema, type BoardState } from '../server/types';
+
+const PERSONAL = 'personal';
+
+type SavedViewsMenuProps = {
+  boardState: BoardState;
+  activeSavedViewId: string | null;
+  onOpenSavedView: (view: SavedView) => void;
+  onSavedViewChange: (viewId: string | null) => void;
+};
+
+// Both sides normalized by the schema so key order and defaults do not matter
+const isSameState = (a: BoardState, b: unknown) =>
+  JSON.stringify(boardStateSchema.safeParse(a).data) === JSON.stringify(boardStateSchema.safeParse(b).data);
+
+export function SavedViewsMenu({ boardState, activeSavedViewId, onOpenSavedView, onSavedViewChange }: SavedViewsMenuProps) {
+  const { savedViews, projects, createSavedView, updateSavedView, deleteSavedView } = useApp();
+  const [isSaveOpen, setIsSaveOpen] = React.useState(false);
+  const [name, setName] = React.useState('');
+  const [shareWith, setShareWith] = React.useState(PERSONAL);
+  const [pinned, setPinned] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const activeView = savedViews.find(view => view.id === activeSavedViewId);
+  const isModified = !!activeView && !isSameState(boardState, activeView.state);
+
+  const resetForm = () => {
+    setName('');
+    setShareWith(PERSONAL);
+    setPinned(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const view = await createSavedView({
+        name,
+        projectId: shareWith === PERSONAL ? null : shareWith,
+        pinned,
+        state: boardState,
+      });
+      onSavedViewChange(view.id);
+      setIsSaveOpen(false);
+      resetForm();
+    } catch {
+      // Ошибка уже показана
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) return;
+    try {
+      await updateSavedView(activeView.id, { state: boardState });
+      toast.success(`Представление «${activeView.name}» обновлено`);
+    } catch {
+      // Ошибка уже показана
+    }
+  };
+
+  const handleTogglePin = async () => {
+    if (!activeView) return;
+    try {
+      await updateSavedView(activeView.id, { pinned: !activeView.pinned });
+    } catch {
+      // Ошибка уже показана
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView || !confirm(`Удалить представление «${activeView.name}»?`)) return;
+    try {
+      await deleteSavedView(activeView.id);
+      onSavedViewChange(null);
+    } catch {
+      // Ошибка уже показана
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Ссылка скопирована');
+    } catch {
+      toast.error('Не удалось скопировать ссылку');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[240px]">
+            <Bookmark className="w-4 h-4 mr-2 shrink-0" />
+            <span className="truncate">{activeView ? activeView.name : 'Представления'}</span>
+            {isModified && <span className="ml-1 text-purple-600">*</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          {savedViews.length > 0 ? (
+            <>
+              <DropdownMenuLabel>Сохраненные представления</DropdownMenuLabel>
+              {savedViews.map(view => (
+                <DropdownMenuItem key={view.id} onClick={() => onOpenSavedView(view)}>
+                  {view.id === activeSavedViewId ? (
+                    <Check className="w-4 h-4 mr-2 text-purple-600" />
+                  ) : (
+                    <span className="w-4 h-4 mr-2" />
+                  )}
+                  <span className="truncate flex-1">{view.name}</span>
+                  {view.project && (
+                    <span className="ml-2 flex items-center gap-1 text-xs text-gray-500 truncate max-w-[100px]" title={`Общее для проекта «${view.project.name}»`}>
+                      <Users className="w-3 h-3" />
+                      {view.project.name}
+                    </span>
+                  )}
+                  {view.pinned && <Pin className="w-3 h-3 ml-2 text-gray-400" />}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          ) : (
+            <DropdownMenuLabel className="font-normal text-gray-500">
+              Нет сохраненных представлений
+            </DropdownMenuLabel>
+          )}
+
+          {activeView && isModified && (
+            <DropdownMenuItem onClick={handleUpdate}>
+              <Save className="w-4 h-4 mr-2" />
+              Сохранить изменения
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setIsSaveOpen(true)}>
+            <Bookmark className="w-4 h-4 mr-2" />
+            Сохранить как новое...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopyLink}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Копировать ссылку
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem onClick={handleTogglePin}>
+                {activeView.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                {activeView.pinned ? 'Открепить от меню' : 'Закрепить в меню'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleDelete} className="text-red-600">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Удалить представление
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Сохранить представление</DialogTitle>
+            <DialogDescription>
+              Фильтры, поиск, сортировка и вид доски сохранятся под этим названием
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Название</Label>
+              <Input
+                id="saved-view-name"
+                placeholder="Например, «Срочное на этой неделе»"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Доступ</Label>
+              <Select value={shareWith} onValueChange={setShareWith}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PERSONAL}>Только я</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                      Участники проекта «{project.name}»
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="saved-view-pinned"
+                checked={pinned}
+                onCheckedChange={(checked) => setPinned(checked === true)}
+              />
+              <Label htmlFor="saved-view-pinned" className="font-normal">
+                Закрепить в боковом меню
+              </Label>
+            </div>
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setIsSaveOpen(false);
+                  resetForm();
+                }}
+                className="flex-1"
+              >
+                Отмена
+              </Button>
+              <Button type="submit" disabled={isSaving} className="flex-1 bg-purple-600 hover:bg-purple-700">
+                Сохранить
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,157 @@
+import React from 'react';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { formatDistanceToNow } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { toast } from 'sonner@2.0.3';
+import { authAPI, type UserSession } from '../utils/api-client';
+
+// Краткое описание устройства по User-Agent: «Chrome · Windows»
+function describeDevice(userAgent: string | null): { label: string; isMobile: boolean } {
+  if (!userAgent) {
+    return { label: 'Неизвестное устройство', isMobile: false };
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /YaBrowser/.test(userAgent) ? 'Яндекс Браузер'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Браузер';
+  const os =
+    /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return {
+    label: os ? `${browser} · ${os}` : browser,
+    isMobile: /Mobile|Android|iPhone|iPad/.test(userAgent),
+  };
+}
+
+type SessionListProps = {
+  // Меняется после смены пароля или настройки 2FA: список сеансов нужно перечитать
+  reloadKey?: string | null;
+};
+
+// Активные сеансы пользователя с возможностью завершить любой из них
+export function SessionList({ reloadKey }: SessionListProps) {
+  const [sessions, setSessions] = React.useState<UserSession[] | null>(null);
+  const [revokingId, setRevokingId] = React.useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = React.useState(false);
+
+  const loadSessions = React.useCallback(() => {
+    authAPI
+      .getSessions()
+      .then(setSessions)
+      .catch((error: any) => {
+        console.error('Load sessions error:', error);
+        toast.error('Не удалось загрузить список сеансов');
+      });
+  }, []);
+
+  React.useEffect(() => {
+    loadSessions();
+  }, [loadSessions, reloadKey]);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    try {
+      await authAPI.revokeSession(sessionId);
+      setSessions((prev) => prev?.filter((session) => session.id !== sessionId) ?? null);
+      toast.success('Сеанс завершен');
+    } catch (error: any) {
+      console.error('Revoke session error:', error);
+      toast.error(error.message || 'Не удалось завершить сеанс');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setIsRevokingOthers(true);
+    try {
+      const revoked = await authAPI.revokeOtherSessions();
+      setSessions((prev) => prev?.filter((session) => session.current) ?? null);
+      toast.success(revoked > 0 ? `Завершено сеансов: ${revoked}` : 'Других активных сеансов нет');
+    } catch (error: any) {
+      console.error('Revoke other sessions error:', error);
+      toast.error(error.message || 'Не удалось завершить сеансы');
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  const hasOtherSessions = !!sessions?.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Сеансы и устройства</CardTitle>
+        {hasOtherSessions && (
+          <Button variant="outline" size="sm" onClick={handleRevokeOthers} disabled={isRevokingOthers}>
+            {isRevokingOthers ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="w-4 h-4 mr-2" />
+            )}
+            Выйти на всех других устройствах
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!sessions ? (
+          <div className="flex items-center justify-center py-6 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Загрузка сеансов...
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => {
+              const device = describeDevice(session.userAgent);
+              const DeviceIcon = device.isMobile ? Smartphone : Monitor;
+              return (
+                <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <DeviceIcon className="w-5 h-5 text-gray-500 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="flex items-center gap-2">
+                        <span className="truncate">{device.label}</span>
+                        {session.current && <Badge variant="secondary">Этот сеанс</Badge>}
+                        {session.twoFactorVerified && <Badge variant="outline">2FA</Badge>}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                        {session.current
+                          ? `Вход ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true, locale: ru })}`
+                          : `Активность ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true, locale: ru })}`}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={revokingId === session.id}
+                    >
+                      {revokingId === session.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Завершить
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,9 @@
 import React from 'react';
-import { Home, CheckSquare, FolderKanban, Tag, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Home, CheckSquare, FolderKanban, Tag, ChevronLeft, ChevronRight, Bookmark } from 'lucide-react';
 import {
   Sidebar,
   SidebarContent,
+  SidebarGroupLabel,
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
@@ -10,6 +11,7 @@ import {
 } from './ui/sidebar';
 import { Button } from './ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+import { useApp, type SavedView } from '../contexts/app-context';
 
 type NavigationItem = {
   title: string;
@@ -27,14 +29,21 @@ const navigationItems: NavigationItem[] = [
 export function SidebarNav({
   currentView,
   onViewChange,
+  activeSavedViewId,
+  onOpenSavedView,
   onLogout,
 }: {
   currentView: string;
   onViewChange: (view: string) => void;
+  activeSavedViewId: string | null;
+  onOpenSavedView: (view: SavedView) => void;
   onLogout: () => void;
 }) {
   const { state, toggleSidebar } = useSidebar();
+  const { savedViews } = useApp();
   const isCollapsed = state === 'collapsed';
+  const pinnedViews = savedViews.filter((view) => view.pinned);
+  const isBoardView = currentView === 'dashboard' || currentView === 'dashboard-calendar';
 
   return (
     <Sidebar collapsible="icon" className="pt-16">
@@ -62,6 +71,34 @@ export function SidebarNav({
                 </TooltipProvider>
               </SidebarMenuItem>
             ))}
+
+            {/* Закрепленные представления доски */}
+            {pinnedViews.length > 0 && (
+              <>
+                <SidebarGroupLabel className="mt-2">Представления</SidebarGroupLabel>
+                {pinnedViews.map((view) => (
+                  <SidebarMenuItem key={view.id}>
+                    <TooltipProvider delayDuration={0}>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <SidebarMenuButton
+                            isActive={isBoardView && activeSavedViewId === view.id}
+                            onClick={() => onOpenSavedView(view)}
+                            className="w-full"
+                          >
+                            <Bookmark className="w-4 h-4" />
+                            <span className="truncate">{view.name}</span>
+                          </SidebarMenuButton>
+                        </TooltipTrigger>
+                        <TooltipContent side="right" className="group-data-[state=expanded]:hidden">
+                          <p>{view.name}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </SidebarMenuItem>
+                ))}
+              </>
+            )}
           </SidebarMenu>
           
           {/* Toggle Button */}
@@ -0,0 +1,467 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Loader2, MessageSquare, Pencil, Reply, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { toast } from 'sonner@2.0.3';
+import { useApp } from '../contexts/app-context';
+import type { MentionCandidate, TaskComment } from '../contexts/app-context';
+import { tasksAPI } from '../utils/api-client';
+
+type TaskCommentsProps = {
+  taskId: string;
+  // Наблюдатели могут только читать комментарии
+  canComment: boolean;
+};
+
+const MAX_SUGGESTIONS = 5;
+
+// Helper to get initials from name
+const getInitials = (name: string) => {
+  return name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Подсветка @упоминаний участников в тексте комментария
+const renderWithMentions = (text: string, candidates: MentionCandidate[]) => {
+  const tokens = candidates
+    .flatMap((user) => [user.name, user.email.split('@')[0]])
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((token) => `@${escapeRegExp(token)}`);
+
+  if (tokens.length === 0) return text;
+
+  const regex = new RegExp(`(${tokens.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+  return text.split(regex).map((part, index) =>
+    index % 2 === 1 ? (
+      <span key={index} className="text-purple-600 font-medium">
+        {part}
+      </span>
+    ) : (
+      part
+    )
+  );
+};
+
+type CommentInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onCancel?: () => void;
+  candidates: MentionCandidate[];
+  placeholder: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  autoFocus?: boolean;
+};
+
+// Поле ввода комментария с подсказками для @упоминаний
+function CommentInput({
+  value,
+  onChange,
+  onSubmit,
+  onCancel,
+  candidates,
+  placeholder,
+  submitLabel,
+  isSubmitting,
+  autoFocus,
+}: CommentInputProps) {
+  // Textarea не пробрасывает ref, поэтому берём элемент через обёртку
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [mentionQuery, setMentionQuery] = React.useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = React.useState(0);
+
+  const suggestions = React.useMemo(() => {
+    if (mentionQuery === null) return [];
+    const query = mentionQuery.toLowerCase();
+    return candidates
+      .filter(
+        (user) =>
+          user.name.toLowerCase().includes(query) ||
+          user.email.toLowerCase().startsWith(query)
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }, [candidates, mentionQuery]);
+
+  // Ищем незавершённое упоминание перед курсором
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(/(?:^|\s)@([\p{L}\p{N}_.-]*)$/u);
+    setMentionQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const insertMention = (user: MentionCandidate) => {
+    const textarea = containerRef.current?.querySelector('textarea');
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@([\p{L}\p{N}_.-]*)$/u, `@${user.name} `);
+    const after = value.slice(caret);
+    onChange(before + after);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((i) => (i + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((i) => (i - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    // Ctrl/Cmd + Enter отправляет комментарий
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative" ref={containerRef}>
+        <Textarea
+          value={value}
+          placeholder={placeholder}
+          rows={2}
+          autoFocus={autoFocus}
+          disabled={isSubmitting}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-50 left-0 right-0 mt-1 bg-white border rounded-md shadow-lg py-1">
+            {suggestions.map((user, index) => (
+              <li
+                key={user.id}
+                className={`px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? 'bg-purple-50 text-purple-700' : 'hover:bg-gray-50'
+                }`}
+                // onMouseDown, чтобы выбор сработал до blur у textarea
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+              >
+                <span className="font-medium">{user.name}</span>
+                <span className="text-gray-500 ml-2">{user.email}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Отмена
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          className="bg-purple-600 hover:bg-purple-700"
+          onClick={onSubmit}
+          disabled={isSubmitting || !value.trim()}
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TaskComments({ taskId, canComment }: TaskCommentsProps) {
+  const { currentUser } = useApp();
+  const [comments, setComments] = React.useState<TaskComment[]>([]);
+  const [candidates, setCandidates] = React.useState<MentionCandidate[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [newComment, setNewComment] = React.useState('');
+  const [replyTo, setReplyTo] = React.useState<string | null>(null);
+  const [replyText, setReplyText] = React.useState('');
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editText, setEditText] = React.useState('');
+
+  const loadComments = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loadedComments, loadedCandidates] = await Promise.all([
+        tasksAPI.getComments(taskId),
+        tasksAPI.getMentionCandidates(taskId),
+      ]);
+      setComments(loadedComments);
+      setCandidates(loadedCandidates);
+    } catch (error: any) {
+      console.error('Load comments error:', error);
+      toast.error(error.message || 'Не удалось загрузить комментарии');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  React.useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const handleAdd = async (content: string, parentId?: string) => {
+    setIsSubmitting(true);
+    try {
+      const comment: TaskComment = await tasksAPI.addComment(taskId, content, parentId);
+      setComments((prev) =>
+        comment.parentId
+          ? prev.map((c) =>
+              c.id === comment.parentId ? { ...c, replies: [...(c.replies || []), comment] } : c
+            )
+          : [...prev, { ...comment, replies: [] }]
+      );
+      if (parentId) {
+        setReplyTo(null);
+        setReplyText('');
+      } else {
+        setNewComment('');
+      }
+    } catch (error: any) {
+      console.error('Add comment error:', error);
+      toast.error(error.message || 'Не удалось добавить комментарий');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpdate = async (commentId: string) => {
+    setIsSubmitting(true);
+    try {
+      const updated: TaskComment = await tasksAPI.updateComment(taskId, commentId, editText);
+      const apply = (c: TaskComment) => (c.id === commentId ? { ...c, ...updated, replies: c.replies } : c);
+      setComments((prev) =>
+        prev.map((c) => ({ ...apply(c), replies: (c.replies || []).map(apply) }))
+      );
+      setEditingId(null);
+      setEditText('');
+    } catch (error: any) {
+      console.error('Update comment error:', error);
+      toast.error(error.message || 'Не удалось изменить комментарий');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    try {
+      const { softDeleted } = await tasksAPI.deleteComment(taskId, comment.id);
+      if (softDeleted) {
+        // Комментарий с ответами остаётся в ветке как "удалён"
+        setComments((prev) =>
+          prev.map((c) =>
+            c.id === comment.id ? { ...c, content: '', deletedAt: new Date().toISOString() } : c
+          )
+        );
+      } else if (comment.parentId) {
+        setComments((prev) =>
+          prev
+            .map((c) =>
+              c.id === comment.parentId
+                ? { ...c, replies: (c.replies || []).filter((r) => r.id !== comment.id) }
+                : c
+            )
+            // Удалённый корень без ответов сервер тоже удаляет
+            .filter((c) => !(c.deletedAt && (c.replies || []).length === 0))
+        );
+      } else {
+        setComments((prev) => prev.filter((c) => c.id !== comment.id));
+      }
+    } catch (error: any) {
+      console.error('Delete comment error:', error);
+      toast.error(error.message || 'Не удалось удалить комментарий');
+    }
+  };
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    const isAuthor = !!currentUser && comment.authorId === currentUser.id;
+    const isDeleted = !!comment.deletedAt;
+    const isEditing = editingId === comment.id;
+
+    return (
+      <div key={comment.id} className="flex gap-3">
+        <Avatar className={isReply ? 'w-6 h-6' : 'w-8 h-8'}>
+          {comment.author?.avatarUrl && (
+            <AvatarImage src={comment.author.avatarUrl} alt={comment.author.name} />
+          )}
+          <AvatarFallback className="text-xs bg-purple-100 text-purple-700">
+            {comment.author ? getInitials(comment.author.name) : '?'}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">{comment.author?.name || 'Удаленный пользователь'}</span>
+            <time className="text-xs text-gray-500">
+              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true, locale: ru })}
+            </time>
+            {comment.editedAt && !isDeleted && (
+              <span className="text-xs text-gray-400">(изменено)</span>
+            )}
+          </div>
+
+          {isEditing ? (
+            <div className="mt-2">
+              <CommentInput
+                value={editText}
+                onChange={setEditText}
+                onSubmit={() => handleUpdate(comment.id)}
+                onCancel={() => setEditingId(null)}
+                candidates={candidates}
+                placeholder="Текст комментария"
+                submitLabel="Сохранить"
+                isSubmitting={isSubmitting}
+                autoFocus
+              />
+            </div>
+          ) : isDeleted ? (
+            <p className="text-sm text-gray-400 italic mt-1">Комментарий удален</p>
+          ) : (
+            <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap break-words">
+              {renderWithMentions(comment.content, candidates)}
+            </p>
+          )}
+
+          {!isEditing && !isDeleted && (
+            <div className="flex items-center gap-1 mt-1">
+              {canComment && !isReply && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-gray-500"
+                  onClick={() => {
+                    setReplyTo(comment.id);
+                    setReplyText('');
+                  }}
+                >
+                  <Reply className="w-3 h-3 mr-1" />
+                  Ответить
+                </Button>
+              )}
+              {isAuthor && (
+                <>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-gray-500"
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditText(comment.content);
+                    }}
+                  >
+                    <Pencil className="w-3 h-3 mr-1" />
+                    Изменить
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                    onClick={() => handleDelete(comment)}
+                  >
+                    <Trash2 className="w-3 h-3 mr-1" />
+                    Удалить
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {!isReply && (comment.replies || []).length > 0 && (
+            <div className="mt-3 space-y-3 pl-3 border-l border-gray-200">
+              {(comment.replies || []).map((reply) => renderComment(reply, true))}
+            </div>
+          )}
+
+          {!isReply && replyTo === comment.id && (
+            <div className="mt-3">
+              <CommentInput
+                value={replyText}
+                onChange={setReplyText}
+                onSubmit={() => handleAdd(replyText, comment.id)}
+                onCancel={() => setReplyTo(null)}
+                candidates={candidates}
+                placeholder="Ответ... (@ — упомянуть участника)"
+                submitLabel="Ответить"
+                isSubmitting={isSubmitting}
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (isLoading && comments.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Загрузка комментариев...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {comments.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-8 text-gray-500">
+          <MessageSquare className="w-8 h-8 mb-2 text-gray-300" />
+          <p className="text-sm">Комментариев пока нет</p>
+        </div>
+      ) : (
+        <div className="space-y-4">{comments.map((comment) => renderComment(comment, false))}</div>
+      )}
+
+      {canComment && (
+        <CommentInput
+          value={newComment}
+          onChange={setNewComment}
+          onSubmit={() => handleAdd(newComment)}
+          candidates={candidates}
+          placeholder="Написать комментарий... (@ — упомянуть участника)"
+          submitLabel="Отправить"
+          isSubmitting={isSubmitting}
+        />
+      )}
+    </div>
+  );
+}
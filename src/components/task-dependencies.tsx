@@ -0,0 +1,196 @@
+import React from 'react';
+import { Link2, Loader2, Lock, Plus, X } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { useApp } from '../contexts/app-context';
+import type { DependencyTask, Task, TaskDependencies as TaskDependenciesData } from '../contexts/app-context';
+import { tasksAPI } from '../utils/api-client';
+
+type TaskDependenciesProps = {
+  task: Task;
+  // Наблюдатели видят связи, но не могут их менять
+  canEdit: boolean;
+};
+
+type Direction = 'blocked_by' | 'blocks';
+
+const statusLabels: Record<string, string> = {
+  todo: 'К выполнению',
+  in_progress: 'В работе',
+  review: 'На проверке',
+  done: 'Готово',
+};
+
+// Связи «блокирует / блокируется» между задачами (в том числе из разных проектов)
+export function TaskDependencies({ task, canEdit }: TaskDependenciesProps) {
+  const { tasks, canEditTask } = useApp();
+  const [dependencies, setDependencies] = React.useState<TaskDependenciesData | null>(null);
+  const [direction, setDirection] = React.useState<Direction>('blocked_by');
+  const [selectedTaskId, setSelectedTaskId] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const loadDependencies = React.useCallback(async () => {
+    try {
+      const data = await tasksAPI.getDependencies(task.id);
+      setDependencies(data);
+    } catch (error) {
+      console.error('Load dependencies error:', error);
+    }
+  }, [task.id]);
+
+  // Связи перезагружаются, когда задача меняется (в том числе через realtime)
+  React.useEffect(() => {
+    loadDependencies();
+  }, [loadDependencies, task.updatedAt]);
+
+  const linkedIds = new Set([
+    ...(dependencies?.blockedBy || []).map((d) => d.task.id),
+    ...(dependencies?.blocking || []).map((d) => d.task.id),
+  ]);
+
+  // Связь создает тот, кто может редактировать блокируемую задачу
+  const candidates = tasks.filter(
+    (t) => t.id !== task.id && !linkedIds.has(t.id) && (direction === 'blocked_by' || canEditTask(t))
+  );
+
+  const handleAdd = async () => {
+    if (!selectedTaskId) return;
+
+    setIsSaving(true);
+    try {
+      await tasksAPI.addDependency(
+        task.id,
+        direction === 'blocked_by' ? { blockingTaskId: selectedTaskId } : { blockedTaskId: selectedTaskId }
+      );
+      setSelectedTaskId('');
+      await loadDependencies();
+    } catch (error: any) {
+      console.error('Add dependency error:', error);
+      if (error.message?.includes('cycle')) {
+        toast.error('Нельзя добавить связь: получится циклическая зависимость');
+      } else if (error.message?.includes('already exists')) {
+        toast.error('Такая связь уже есть');
+      } else {
+        toast.error(error.message || 'Не удалось добавить связь');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    try {
+      await tasksAPI.removeDependency(task.id, dependencyId);
+      await loadDependencies();
+    } catch (error: any) {
+      console.error('Remove dependency error:', error);
+      toast.error(error.message || 'Не удалось удалить связь');
+    }
+  };
+
+  const blockedBy = dependencies?.blockedBy || [];
+  const blocking = dependencies?.blocking || [];
+  const hiddenCount = dependencies?.hiddenCount || 0;
+
+  if (!canEdit && blockedBy.length === 0 && blocking.length === 0 && hiddenCount === 0) {
+    return null;
+  }
+
+  const renderList = (title: string, items: { id: string; task: DependencyTask }[]) => (
+    <div className="space-y-1">
+      <p className="text-sm text-gray-600">{title}</p>
+      <ul className="space-y-1">
+        {items.map(({ id, task: linked }) => (
+          <li key={id} className="group flex items-center gap-2 p-2 rounded-lg hover:bg-gray-50">
+            <span className={`flex-1 text-sm truncate ${linked.status === 'done' ? 'line-through text-gray-500' : ''}`}>
+              {linked.title}
+            </span>
+            {linked.project && linked.projectId !== task.projectId && (
+              <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700 border-blue-200">
+                {linked.project.name}
+              </Badge>
+            )}
+            <Badge variant="secondary" className="text-xs">
+              {statusLabels[linked.status] || linked.status}
+            </Badge>
+            {canEdit && (
+              <button
+                type="button"
+                className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+                title="Удалить связь"
+                onClick={() => handleRemove(id)}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const openBlockers = blockedBy.filter((d) => d.task.status !== 'done').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Link2 className="w-4 h-4" />
+        <h4>Зависимости</h4>
+        {openBlockers > 0 && task.status !== 'done' && (
+          <span className="flex items-center gap-1 text-sm text-orange-700">
+            <Lock className="w-3.5 h-3.5" />
+            Заблокирована
+          </span>
+        )}
+      </div>
+
+      {blockedBy.length > 0 && renderList('Блокируется задачами', blockedBy)}
+      {blocking.length > 0 && renderList('Блокирует задачи', blocking)}
+
+      {hiddenCount > 0 && (
+        <p className="text-xs text-gray-500">Ещё связей с задачами, недоступными вам: {hiddenCount}</p>
+      )}
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <Select value={direction} onValueChange={(value) => { setDirection(value as Direction); setSelectedTaskId(''); }}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="blocked_by">Блокируется</SelectItem>
+              <SelectItem value="blocks">Блокирует</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={selectedTaskId} onValueChange={setSelectedTaskId}>
+            <SelectTrigger className="flex-1 min-w-0">
+              <SelectValue placeholder="Выберите задачу" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.length === 0 ? (
+                <div className="px-2 py-1.5 text-sm text-gray-500">Нет подходящих задач</div>
+              ) : (
+                candidates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.title}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleAdd} disabled={isSaving || !selectedTaskId}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -36,8 +36,9 @@ import {
   History,
   Loader2,
   Repeat,
+  MessageSquare,
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { addDays, addMonths, addWeeks, format } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { toast } from 'sonner';
 import {
@@ -51,7 +52,16 @@ import {
   AlertDialogTitle,
 } from './ui/alert-dialog';
 import { useApp } from '../contexts/app-context';
+import type { RecurrenceFrequency, RecurrenceScope, Task } from '../contexts/app-context';
 import { Checkbox } from './ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { ActivityTimeline } from './activity-timeline';
+import { TaskComments } from './task-comments';
+import { TaskSubtasks } from './task-subtasks';
+import { AttachmentThumbnail, downloadTaskAttachment } from './attachment-thumbnail';
+import { TaskDependencies } from './task-dependencies';
+import { getWorkflowStatuses } from '../utils/workflow';
+import { tasksAPI } from '../utils/api-client';
 
 type TaskModalMode = 'create' | 'view' | 'edit';
 
@@ -77,6 +87,63 @@ const getColorForProject = (color?: string) => {
   return colorMap[color || ''] || 'bg-gray-500';
 };
 
+type RecurrenceEndType = 'never' | 'date' | 'count';
+
+const RECURRENCE_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'дн.',
+  weekly: 'нед.',
+  monthly: 'мес.',
+  custom: 'дн.',
+};
+
+// Helper to add one recurrence step to a date (same rules as the server)
+const addRecurrenceStep = (date: Date, frequency: RecurrenceFrequency, interval: number) => {
+  switch (frequency) {
+    case 'weekly':
+      return addWeeks(date, interval);
+    case 'monthly':
+      return addMonths(date, interval);
+    default:
+      return addDays(date, interval);
+  }
+};
+
+// Helper to build a comparable key of the recurrence settings of a task
+const getRecurrenceKey = (task?: Task | null) => {
+  if (!task?.isRecurring) return 'none';
+  const rule = task.recurrenceRule;
+  return JSON.stringify({
+    frequency: rule?.frequency || 'custom',
+    interval: rule?.interval || task.recurringIntervalDays || 1,
+    startDate: task.recurringStartDate ? new Date(task.recurringStartDate).toISOString() : null,
+    endDate: rule?.endDate ? new Date(rule.endDate).toISOString() : null,
+    count: rule?.maxOccurrences ?? null,
+  });
+};
+
+// Поля формы, отличающиеся от задачи на момент открытия формы.
+// Неизмененные поля не отправляем, чтобы не перезаписать правки других пользователей
+const getChangedTaskFields = <T extends Record<string, unknown>>(taskData: T, baseTask: Task): Partial<T> => {
+  const baseValues: Record<string, unknown> = {
+    title: baseTask.title,
+    description: baseTask.description || '',
+    projectId: baseTask.projectId || undefined,
+    categoryId: baseTask.categoryId || undefined,
+    priority: baseTask.priority,
+    status: baseTask.status,
+    assigneeId: baseTask.assigneeId,
+    deadline: baseTask.deadline ? new Date(baseTask.deadline).toISOString() : undefined,
+    tags: baseTask.tags || [],
+    completed: baseTask.status === 'done',
+  };
+  return Object.fromEntries(
+    Object.entries(taskData).filter(([field, value]) =>
+      // Правило повторения уже сравнивается с задачей отдельно
+      field === 'recurrence' ? value !== undefined : JSON.stringify(value) !== JSON.stringify(baseValues[field])
+    )
+  ) as Partial<T>;
+};
+
 // Helper to get initials from name
 const getInitials = (name: string) => {
   return name
@@ -141,6 +208,7 @@ export function TaskModal({
     deleteTaskAttachment,
     canDeleteTask,
     canCreateTask,
+    canEditTask,
     getUserRoleInProject,
   } = useApp();
   const [mode, setMode] = React.useState<TaskModalMode>(initialMode);
@@ -197,8 +265,22 @@ export function TaskModal({
     existingTask?.recurringStartDate ? new Date(existingTask.recurringStartDate) : undefined
   );
   const [recurringIntervalDays, setRecurringIntervalDays] = React.useState<number>(
-    existingTask?.recurringIntervalDays || 1
+    existingTask?.recurrenceRule?.interval || existingTask?.recurringIntervalDays || 1
+  );
+  const [recurrenceFrequency, setRecurrenceFrequency] = React.useState<RecurrenceFrequency>(
+    existingTask?.recurrenceRule?.frequency || 'custom'
+  );
+  const [recurrenceEndType, setRecurrenceEndType] = React.useState<RecurrenceEndType>(
+    existingTask?.recurrenceRule?.endDate ? 'date' : existingTask?.recurrenceRule?.maxOccurrences ? 'count' : 'never'
+  );
+  const [recurrenceEndDate, setRecurrenceEndDate] = React.useState<Date | undefined>(
+    existingTask?.recurrenceRule?.endDate ? new Date(existingTask.recurrenceRule.endDate) : undefined
+  );
+  const [recurrenceCount, setRecurrenceCount] = React.useState<number>(
+    existingTask?.recurrenceRule?.maxOccurrences || 10
   );
+  // Для существующих повторяющихся задач: применить изменения только к этой или ко всем будущим
+  const [recurrenceScope, setRecurrenceScope] = React.useState<RecurrenceScope>('this');
   
   const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
   const [errors, setErrors] = React.useState<Record<string, string>>({});
@@ -221,8 +303,24 @@ export function TaskModal({
     }
   }, [currentUser, open]); // Перезагружаем при открытии модалки
 
+  // Статусы задач проекта берутся из его workflow (общего для всех участников)
+  const projectWorkflow = React.useMemo(
+    () => (projectId !== 'personal' ? getWorkflowStatuses(projects.find((p) => p.id === projectId)) : null),
+    [projectId, projects]
+  );
+
+  // Статуса может не быть в workflow выбранного проекта - берем первый открытый
+  React.useEffect(() => {
+    if (projectWorkflow && !projectWorkflow.some((s) => s.key === status)) {
+      setStatus((projectWorkflow.find((s) => !s.isDone) || projectWorkflow[0]).key);
+    }
+  }, [projectWorkflow, status]);
+
   // Track if form has been initialized to prevent re-setting values
   const formInitializedRef = React.useRef<string | null>(null);
+
+  // Задача, из которой заполнена форма: ее версия отправляется при сохранении
+  const baseTaskRef = React.useRef<Task | null>(null);
   
   // Update form when switching modes or task changes
   React.useEffect(() => {
@@ -246,7 +344,18 @@ export function TaskModal({
       setAssigneeId(existingTask.assigneeId || '');
       setDueDate(existingTask.deadline ? new Date(existingTask.deadline) : undefined);
       setTags(existingTask.tags || []);
+      setIsRecurring(existingTask.isRecurring || false);
+      setRecurringStartDate(existingTask.recurringStartDate ? new Date(existingTask.recurringStartDate) : undefined);
+      setRecurringIntervalDays(existingTask.recurrenceRule?.interval || existingTask.recurringIntervalDays || 1);
+      setRecurrenceFrequency(existingTask.recurrenceRule?.frequency || 'custom');
+      setRecurrenceEndType(
+        existingTask.recurrenceRule?.endDate ? 'date' : existingTask.recurrenceRule?.maxOccurrences ? 'count' : 'never'
+      );
+      setRecurrenceEndDate(existingTask.recurrenceRule?.endDate ? new Date(existingTask.recurrenceRule.endDate) : undefined);
+      setRecurrenceCount(existingTask.recurrenceRule?.maxOccurrences || 10);
+      setRecurrenceScope('this');
       
+      baseTaskRef.current = existingTask;
       formInitializedRef.current = currentTaskId;
     } else if (isCreateMode && shouldInitialize) {
       console.log('📝 Инициализация формы для создания задачи, initialProject:', initialProject);
@@ -260,6 +369,7 @@ export function TaskModal({
   React.useEffect(() => {
     if (!open) {
       formInitializedRef.current = null;
+      baseTaskRef.current = null;
     }
   }, [open]);
 
@@ -306,6 +416,13 @@ export function TaskModal({
     setTags([]);
     setNewTag('');
     setPendingFiles([]);
+    setIsRecurring(false);
+    setRecurringStartDate(undefined);
+    setRecurringIntervalDays(1);
+    setRecurrenceFrequency('custom');
+    setRecurrenceEndType('never');
+    setRecurrenceEndDate(undefined);
+    setRecurrenceCount(10);
     setErrors({});
   };
 
@@ -322,6 +439,14 @@ export function TaskModal({
       newErrors.recurringStartDate = 'Дата начала обязательна для повторяющихся задач';
       toast.error('Укажите дату начала для повторяющейся задачи');
     }
+    if (isRecurring && recurrenceEndType === 'date') {
+      if (!recurrenceEndDate) {
+        newErrors.recurrenceEndDate = 'Укажите дату окончания повторений';
+      } else if (recurringStartDate && recurrenceEndDate < recurringStartDate) {
+        newErrors.recurrenceEndDate = 'Дата окончания должна быть позже даты начала';
+        toast.error('Дата окончания повторений должна быть позже даты начала');
+      }
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -372,8 +497,7 @@ export function TaskModal({
           normalizedStart.setHours(12, 0, 0, 0);
           
           // Рассчитываем дедлайн
-          const calculatedDeadline = new Date(normalizedStart);
-          calculatedDeadline.setDate(calculatedDeadline.getDate() + (recurringIntervalDays || 1));
+          const calculatedDeadline = addRecurrenceStep(normalizedStart, recurrenceFrequency, recurringIntervalDays || 1);
           
           finalDeadline = calculatedDeadline.toISOString();
           console.log('🔄 Автоматически рассчитан deadline:', {
@@ -387,6 +511,21 @@ export function TaskModal({
         }
       }
 
+      // Правило повторения отправляем только при создании или если оно изменилось,
+      // иначе сервер отделит задачу от серии
+      const recurrence = isRecurring && recurringStartDate
+        ? {
+            frequency: recurrenceFrequency,
+            interval: recurringIntervalDays || 1,
+            startDate: recurringStartDate.toISOString(),
+            endDate: recurrenceEndType === 'date' && recurrenceEndDate ? recurrenceEndDate.toISOString() : null,
+            count: recurrenceEndType === 'count' ? recurrenceCount : null,
+          }
+        : null;
+      const recurrenceChanged = isCreateMode
+        ? !!recurrence
+        : (recurrence ? JSON.stringify(recurrence) : 'none') !== getRecurrenceKey(baseTaskRef.current || existingTask);
+
       const taskData = {
         title,
         description,
@@ -398,10 +537,8 @@ export function TaskModal({
         deadline: finalDeadline,
         tags,
         completed: status === 'done',
-        // Добавляем поля для повторяющихся задач
-        isRecurring,
-        recurringStartDate: isRecurring ? recurringStartDate?.toISOString() : undefined,
-        recurringIntervalDays: isRecurring ? recurringIntervalDays : undefined,
+        // Поля для повторяющихся задач
+        recurrence: recurrenceChanged ? recurrence : undefined,
       };
 
       console.log('📝 TaskModal - Creating/updating task:', {
@@ -428,7 +565,18 @@ export function TaskModal({
         }
         onSave?.(taskData);
       } else if (existingTask) {
-        savedTask = await updateTask(existingTask.id, taskData);
+        const baseTask = baseTaskRef.current || existingTask;
+        const changedData = getChangedTaskFields(taskData, baseTask);
+        if (Object.keys(changedData).length === 0 && pendingFiles.length === 0) {
+          onOpenChange(false);
+          return;
+        }
+        savedTask = Object.keys(changedData).length > 0
+          ? await updateTask(existingTask.id, changedData, {
+              recurrenceScope: existingTask.isRecurring ? recurrenceScope : undefined,
+              baseTask,
+            })
+          : existingTask;
         console.log('✅ Task updated:', savedTask);
         if (savedTask.deadline) {
           console.log('📅 Updated task deadline:', {
@@ -457,7 +605,10 @@ export function TaskModal({
           } catch (uploadError: any) {
             failCount++;
             console.error(`❌ File upload error for ${file.name}:`, uploadError);
-            toast.error(`Ошибка загрузки файла ${file.name}: ${uploadError.message || 'Неизвестная ошибка'}`);
+            const reason = uploadError.message?.includes('quota')
+              ? 'превышена квота хранилища проекта'
+              : uploadError.message || 'Неизвестная ошибка';
+            toast.error(`Ошибка загрузки файла ${file.name}: ${reason}`);
             // Continue with other files even if one fails
           }
         }
@@ -492,7 +643,9 @@ export function TaskModal({
     
     setIsLoading(true);
     try {
-      await deleteTask(taskId);
+      await deleteTask(taskId, {
+        recurrenceScope: existingTask?.isRecurring ? recurrenceScope : undefined,
+      });
       onDelete?.(taskId);
       setShowDeleteDialog(false);
       onOpenChange(false);
@@ -755,6 +908,12 @@ export function TaskModal({
   }, [availableMembers, assigneeId, projectId, selectedProject, teamMembers]);
   
   const selectedAssignee = availableMembersWithCurrent.find((m) => m.id === assigneeId);
+
+  // Загрузка истории изменений задачи (вкладка "История")
+  const loadTaskActivity = React.useCallback(
+    (before?: string) => tasksAPI.getActivity(taskId!, { before }),
+    [taskId]
+  );
   
   // Найти автора задачи (createdBy)
   const taskAuthor = React.useMemo(() => {
@@ -847,207 +1006,260 @@ export function TaskModal({
           {/* VIEW MODE */}
           {isViewMode && existingTask && (
             <div className="space-y-6 mt-4">
-              {/* Основная информация */}
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-3">
-                  {dueDate && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <Calendar className="w-4 h-4 text-gray-500" />
-                      <span className="text-gray-600">Дедлайн:</span>
-                      <span className="text-red-600">
-                        {format(dueDate, 'PPP', { locale: ru })}
-                      </span>
-                    </div>
-                  )}
+              <Tabs defaultValue="details">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="details">Детали</TabsTrigger>
+                  <TabsTrigger value="comments">
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Комментарии
+                  </TabsTrigger>
+                  <TabsTrigger value="activity">
+                    <History className="w-4 h-4 mr-2" />
+                    История
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="details" className="space-y-6 mt-4">
+                  {/* Основная информация */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-3">
+                      {dueDate && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <Calendar className="w-4 h-4 text-gray-500" />
+                          <span className="text-gray-600">Дедлайн:</span>
+                          <span className="text-red-600">
+                            {format(dueDate, 'PPP', { locale: ru })}
+                          </span>
+                        </div>
+                      )}
 
-                  {existingTask.isRecurring && (
-                    <div className="col-span-2 bg-purple-50 border border-purple-200 rounded-lg p-3">
-                      <div className="flex items-center gap-2 mb-2">
-                        <Repeat className="w-4 h-4 text-purple-600" />
-                        <span className="font-medium text-purple-900">Повторяющаяся задача</span>
+                      {existingTask.isRecurring && (
+                        <div className="col-span-2 bg-purple-50 border border-purple-200 rounded-lg p-3">
+                          <div className="flex items-center gap-2 mb-2">
+                            <Repeat className="w-4 h-4 text-purple-600" />
+                            <span className="font-medium text-purple-900">Повторяющаяся задача</span>
+                          </div>
+                          <div className="text-sm text-purple-800 space-y-1">
+                            {existingTask.recurringStartDate && (
+                              <p>
+                                Дата начала: <strong>{format(new Date(existingTask.recurringStartDate), 'PPP', { locale: ru })}</strong>
+                              </p>
+                            )}
+                            {existingTask.recurrenceRule ? (
+                              <p>
+                                Интервал повторения: <strong>{existingTask.recurrenceRule.interval} {RECURRENCE_UNITS[existingTask.recurrenceRule.frequency]}</strong>
+                              </p>
+                            ) : existingTask.recurringIntervalDays && (
+                              <p>
+                                Интервал повторения: <strong>{existingTask.recurringIntervalDays} {existingTask.recurringIntervalDays === 1 ? 'день' : 'дней'}</strong>
+                              </p>
+                            )}
+                            {existingTask.recurrenceRule?.endDate && (
+                              <p>
+                                Повторять до: <strong>{format(new Date(existingTask.recurrenceRule.endDate), 'PPP', { locale: ru })}</strong>
+                              </p>
+                            )}
+                            {existingTask.recurrenceRule?.maxOccurrences && (
+                              <p>
+                                Повторение: <strong>{existingTask.recurrenceRule.occurrenceCount} из {existingTask.recurrenceRule.maxOccurrences}</strong>
+                              </p>
+                            )}
+                            <p className="text-xs text-purple-600 mt-2">
+                              💡 Задача автоматически возобновляется после завершения
+                            </p>
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="flex items-center gap-2 text-sm">
+                        <Flame className="w-4 h-4 text-gray-500" />
+                        <span className="text-gray-600">Приоритет:</span>
+                        <Badge variant="outline" className={
+                          existingTask.priority === 'low' ? 'bg-gray-100 text-gray-700 border-gray-300' :
+                          existingTask.priority === 'medium' ? 'bg-yellow-100 text-yellow-700 border-yellow-300' :
+                          existingTask.priority === 'high' ? 'bg-red-100 text-red-700 border-red-300' :
+                          'bg-orange-100 text-orange-700 border-orange-300'
+                        }>
+                          {existingTask.priority === 'urgent' && (
+                            <Flame className="w-3 h-3 mr-1 fill-current" />
+                          )}
+                          {existingTask.priority === 'urgent' && 'Срочный'}
+                          {existingTask.priority === 'high' && 'Высокий'}
+                          {existingTask.priority === 'medium' && 'Средний'}
+                          {existingTask.priority === 'low' && 'Низкий'}
+                        </Badge>
                       </div>
-                      <div className="text-sm text-purple-800 space-y-1">
-                        {existingTask.recurringStartDate && (
-                          <p>
-                            Дата начала: <strong>{format(new Date(existingTask.recurringStartDate), 'PPP', { locale: ru })}</strong>
-                          </p>
-                        )}
-                        {existingTask.recurringIntervalDays && (
-                          <p>
-                            Интервал повторения: <strong>{existingTask.recurringIntervalDays} {existingTask.recurringIntervalDays === 1 ? 'день' : 'дней'}</strong>
-                          </p>
+
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-gray-600">Статус:</span>
+                        {projectWorkflow?.some((s) => s.key === status) ? (
+                          <Badge variant="outline" className="bg-white text-gray-700 border-gray-300">
+                            <div className={`w-2 h-2 rounded-full mr-1.5 ${projectWorkflow.find((s) => s.key === status)!.color}`} />
+                            {projectWorkflow.find((s) => s.key === status)!.name}
+                          </Badge>
+                        ) : (
+                        <Badge variant="outline" className={
+                          status === 'todo' ? 'bg-gray-100 text-gray-700 border-gray-300' :
+                          status === 'in_progress' ? 'bg-blue-100 text-blue-700 border-blue-300' :
+                          status === 'review' ? 'bg-yellow-100 text-yellow-700 border-yellow-300' :
+                          status === 'done' ? 'bg-green-100 text-green-700 border-green-300' :
+                          'bg-purple-100 text-purple-700 border-purple-300'
+                        }>
+                          {status === 'todo' && 'К выполнению'}
+                          {status === 'in_progress' && 'В работе'}
+                          {status === 'review' && 'На проверке'}
+                          {status === 'done' && 'Готово'}
+                          {!['todo', 'in_progress', 'review', 'done'].includes(status) && 
+                            (customColumns.find(col => col.id === status)?.title || status)
+                          }
+                        </Badge>
                         )}
-                        <p className="text-xs text-purple-600 mt-2">
-                          💡 Задача автоматически возобновляется после завершения
-                        </p>
                       </div>
+
+                      {selectedAssignee && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <User className="w-4 h-4 text-gray-500" />
+                          <span className="text-gray-600">Исполнитель:</span>
+                          <div className="flex items-center gap-2">
+                            <Avatar className="w-6 h-6">
+                              {selectedAssignee.avatarUrl && (
+                                <AvatarImage src={selectedAssignee.avatarUrl} alt={selectedAssignee.name} />
+                              )}
+                              <AvatarFallback className="text-xs bg-purple-100 text-purple-700">
+                                {getInitials(selectedAssignee.name)}
+                              </AvatarFallback>
+                            </Avatar>
+                            <span className="text-sm">{selectedAssignee.name}</span>
+                          </div>
+                        </div>
+                      )}
                     </div>
-                  )}
 
-                  <div className="flex items-center gap-2 text-sm">
-                    <Flame className="w-4 h-4 text-gray-500" />
-                    <span className="text-gray-600">Приоритет:</span>
-                    <Badge variant="outline" className={
-                      existingTask.priority === 'low' ? 'bg-gray-100 text-gray-700 border-gray-300' :
-                      existingTask.priority === 'medium' ? 'bg-yellow-100 text-yellow-700 border-yellow-300' :
-                      existingTask.priority === 'high' ? 'bg-red-100 text-red-700 border-red-300' :
-                      'bg-orange-100 text-orange-700 border-orange-300'
-                    }>
-                      {existingTask.priority === 'urgent' && (
-                        <Flame className="w-3 h-3 mr-1 fill-current" />
+                    <div className="space-y-3">
+                      {taskAuthor && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <User className="w-4 h-4 text-gray-500" />
+                          <span className="text-gray-600">Автор:</span>
+                          <div className="flex items-center gap-2">
+                            <Avatar className="w-6 h-6">
+                              {taskAuthor.avatarUrl && (
+                                <AvatarImage src={taskAuthor.avatarUrl} alt={taskAuthor.name} />
+                              )}
+                              <AvatarFallback className="text-xs bg-green-100 text-green-700">
+                                {getInitials(taskAuthor.name)}
+                              </AvatarFallback>
+                            </Avatar>
+                            <span className="text-sm">{taskAuthor.name}</span>
+                          </div>
+                        </div>
+                      )}
+                
+                      {existingTask.createdAt && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <Clock className="w-4 h-4 text-gray-500" />
+                          <span className="text-gray-600">Создано:</span>
+                          <span className="text-sm">
+                            {format(new Date(existingTask.createdAt), 'PPP', { locale: ru })}
+                          </span>
+                        </div>
                       )}
-                      {existingTask.priority === 'urgent' && 'Срочный'}
-                      {existingTask.priority === 'high' && 'Высокий'}
-                      {existingTask.priority === 'medium' && 'Средний'}
-                      {existingTask.priority === 'low' && 'Низкий'}
-                    </Badge>
-                  </div>
 
-                  <div className="flex items-center gap-2 text-sm">
-                    <span className="text-gray-600">Статус:</span>
-                    <Badge variant="outline" className={
-                      status === 'todo' ? 'bg-gray-100 text-gray-700 border-gray-300' :
-                      status === 'in_progress' ? 'bg-blue-100 text-blue-700 border-blue-300' :
-                      status === 'review' ? 'bg-yellow-100 text-yellow-700 border-yellow-300' :
-                      status === 'done' ? 'bg-green-100 text-green-700 border-green-300' :
-                      'bg-purple-100 text-purple-700 border-purple-300'
-                    }>
-                      {status === 'todo' && 'К выполнению'}
-                      {status === 'in_progress' && 'В работе'}
-                      {status === 'review' && 'На проверке'}
-                      {status === 'done' && 'Готово'}
-                      {!['todo', 'in_progress', 'review', 'done'].includes(status) && 
-                        (customColumns.find(col => col.id === status)?.title || status)
-                      }
-                    </Badge>
+                      {existingTask.updatedAt && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <Clock className="w-4 h-4 text-gray-500" />
+                          <span className="text-gray-600">Обновлено:</span>
+                          <span className="text-sm">
+                            {format(new Date(existingTask.updatedAt), 'PPP', { locale: ru })}
+                          </span>
+                        </div>
+                      )}
+                    </div>
                   </div>
 
-                  {selectedAssignee && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <User className="w-4 h-4 text-gray-500" />
-                      <span className="text-gray-600">Исполнитель:</span>
-                      <div className="flex items-center gap-2">
-                        <Avatar className="w-6 h-6">
-                          {selectedAssignee.avatarUrl && (
-                            <AvatarImage src={selectedAssignee.avatarUrl} alt={selectedAssignee.name} />
-                          )}
-                          <AvatarFallback className="text-xs bg-purple-100 text-purple-700">
-                            {getInitials(selectedAssignee.name)}
-                          </AvatarFallback>
-                        </Avatar>
-                        <span className="text-sm">{selectedAssignee.name}</span>
-                      </div>
-                    </div>
-                  )}
-                </div>
+                  <Separator />
 
-                <div className="space-y-3">
-                  {taskAuthor && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <User className="w-4 h-4 text-gray-500" />
-                      <span className="text-gray-600">Автор:</span>
-                      <div className="flex items-center gap-2">
-                        <Avatar className="w-6 h-6">
-                          {taskAuthor.avatarUrl && (
-                            <AvatarImage src={taskAuthor.avatarUrl} alt={taskAuthor.name} />
-                          )}
-                          <AvatarFallback className="text-xs bg-green-100 text-green-700">
-                            {getInitials(taskAuthor.name)}
-                          </AvatarFallback>
-                        </Avatar>
-                        <span className="text-sm">{taskAuthor.name}</span>
-                      </div>
-                    </div>
-                  )}
-                
-                  {existingTask.createdAt && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <Clock className="w-4 h-4 text-gray-500" />
-                      <span className="text-gray-600">Создано:</span>
-                      <span className="text-sm">
-                        {format(new Date(existingTask.createdAt), 'PPP', { locale: ru })}
-                      </span>
+                  {/* Описание */}
+                  {description && (
+                    <div>
+                      <h4 className="mb-2">Описание</h4>
+                      <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-wrap">
+                        {description}
+                      </p>
                     </div>
                   )}
 
-                  {existingTask.updatedAt && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <Clock className="w-4 h-4 text-gray-500" />
-                      <span className="text-gray-600">Обновлено:</span>
-                      <span className="text-sm">
-                        {format(new Date(existingTask.updatedAt), 'PPP', { locale: ru })}
-                      </span>
+                  {/* Теги */}
+                  {tags && tags.length > 0 && (
+                    <div>
+                      <h4 className="mb-2">Теги</h4>
+                      <div className="flex flex-wrap gap-2">
+                        {tags.map((tag) => (
+                          <Badge key={tag} variant="outline" className="bg-blue-100 text-blue-700 border-blue-200">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
                     </div>
                   )}
-                </div>
-              </div>
 
-              <Separator />
+                  <Separator />
 
-              {/* Описание */}
-              {description && (
-                <div>
-                  <h4 className="mb-2">Описание</h4>
-                  <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-wrap">
-                    {description}
-                  </p>
-                </div>
-              )}
+                  {/* Подзадачи и чек-лист */}
+                  <TaskSubtasks task={existingTask} canEdit={canEditTask(existingTask)} />
 
-              {/* Теги */}
-              {tags && tags.length > 0 && (
-                <div>
-                  <h4 className="mb-2">Теги</h4>
-                  <div className="flex flex-wrap gap-2">
-                    {tags.map((tag) => (
-                      <Badge key={tag} variant="outline" className="bg-blue-100 text-blue-700 border-blue-200">
-                        {tag}
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-              )}
+                  {/* Зависимости */}
+                  <TaskDependencies task={existingTask} canEdit={canEditTask(existingTask)} />
 
-              <Separator />
-
-              {/* Вложения */}
-              {existingAttachments && existingAttachments.length > 0 && (
-                <div>
-                  <div className="flex items-center gap-2 mb-3">
-                    <Paperclip className="w-4 h-4" />
-                    <h4>Вложения ({existingAttachments.length})</h4>
-                  </div>
-                  <div className="space-y-2">
-                    {existingAttachments.map((attachment) => (
-                      <div
-                        key={attachment.id}
-                        className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 cursor-pointer"
-                      >
-                        <div className="flex items-center gap-3">
-                          <Paperclip className="w-4 h-4 text-gray-500" />
-                          <div>
-                            <p className="text-sm">{attachment.name}</p>
-                            <p className="text-xs text-gray-500">
-                              {(attachment.size / 1024 / 1024).toFixed(2)} MB
-                            </p>
+                  {/* Вложения */}
+                  {existingAttachments && existingAttachments.length > 0 && (
+                    <div>
+                      <div className="flex items-center gap-2 mb-3">
+                        <Paperclip className="w-4 h-4" />
+                        <h4>Вложения ({existingAttachments.length})</h4>
+                      </div>
+                      <div className="space-y-2">
+                        {existingAttachments.map((attachment) => (
+                          <div
+                            key={attachment.id}
+                            className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 cursor-pointer"
+                          >
+                            <div className="flex items-center gap-3">
+                              <AttachmentThumbnail attachment={attachment} />
+                              <div>
+                                <p className="text-sm">{attachment.name}</p>
+                                <p className="text-xs text-gray-500">
+                                  {(attachment.size / 1024 / 1024).toFixed(2)} MB
+                                </p>
+                              </div>
+                            </div>
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                downloadTaskAttachment(attachment);
+                              }}
+                            >
+                              <Download className="w-4 h-4 mr-2" />
+                              Скачать
+                            </Button>
                           </div>
-                        </div>
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            window.open(attachment.url, '_blank');
-                          }}
-                        >
-                          <Download className="w-4 h-4 mr-2" />
-                          Скачать
-                        </Button>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+                    </div>
+                  )}
+                </TabsContent>
+
+                {/* Комментарии к задаче */}
+                <TabsContent value="comments" className="mt-4">
+                  <TaskComments taskId={existingTask.id} canComment={canEditTask(existingTask)} />
+                </TabsContent>
+
+                {/* История изменений задачи */}
+                <TabsContent value="activity" className="mt-4">
+                  <ActivityTimeline loadActivity={loadTaskActivity} reloadKey={existingTask.updatedAt} />
+                </TabsContent>
+              </Tabs>
 
               <Separator />
 
@@ -1193,12 +1405,14 @@ export function TaskModal({
                           ))}
                         </>
                       ) : (
-                        <>
-                          <SelectItem value="todo">К выполнению</SelectItem>
-                          <SelectItem value="in_progress">В работе</SelectItem>
-                          <SelectItem value="review">На проверке</SelectItem>
-                          <SelectItem value="done">Готово</SelectItem>
-                        </>
+                        projectWorkflow?.map((workflowStatus) => (
+                          <SelectItem key={workflowStatus.key} value={workflowStatus.key}>
+                            <div className="flex items-center gap-2">
+                              <div className={`w-2 h-2 rounded-full ${workflowStatus.color}`} />
+                              {workflowStatus.name}
+                            </div>
+                          </SelectItem>
+                        ))
                       )}
                     </SelectContent>
                   </Select>
@@ -1349,6 +1563,9 @@ export function TaskModal({
                       if (!checked) {
                         setRecurringStartDate(undefined);
                         setRecurringIntervalDays(1);
+                        setRecurrenceFrequency('custom');
+                        setRecurrenceEndType('never');
+                        setRecurrenceEndDate(undefined);
                       }
                     }}
                   />
@@ -1380,7 +1597,25 @@ export function TaskModal({
                     </div>
 
                     <div className="space-y-2">
-                      <Label>Интервал (дней) *</Label>
+                      <Label>Частота</Label>
+                      <Select
+                        value={recurrenceFrequency}
+                        onValueChange={(value) => setRecurrenceFrequency(value as RecurrenceFrequency)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="daily">Ежедневно</SelectItem>
+                          <SelectItem value="weekly">Еженедельно</SelectItem>
+                          <SelectItem value="monthly">Ежемесячно</SelectItem>
+                          <SelectItem value="custom">Каждые N дней</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Интервал ({RECURRENCE_UNITS[recurrenceFrequency]}) *</Label>
                       <Input
                         type="number"
                         min="1"
@@ -1390,13 +1625,64 @@ export function TaskModal({
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label>Окончание</Label>
+                      <Select
+                        value={recurrenceEndType}
+                        onValueChange={(value) => setRecurrenceEndType(value as RecurrenceEndType)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="never">Никогда</SelectItem>
+                          <SelectItem value="date">В дату</SelectItem>
+                          <SelectItem value="count">После N повторений</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {recurrenceEndType === 'date' && (
+                      <div className="space-y-2">
+                        <Label>Дата окончания *</Label>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className={`w-full justify-start text-left ${errors.recurrenceEndDate ? 'border-red-500' : ''}`}
+                            >
+                              <Calendar className="mr-2 h-4 w-4" />
+                              {recurrenceEndDate ? format(recurrenceEndDate, 'PPP', { locale: ru }) : 'Выберите дату'}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <CalendarComponent mode="single" selected={recurrenceEndDate} onSelect={setRecurrenceEndDate} />
+                          </PopoverContent>
+                        </Popover>
+                      </div>
+                    )}
+
+                    {recurrenceEndType === 'count' && (
+                      <div className="space-y-2">
+                        <Label>Количество повторений *</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={recurrenceCount}
+                          onChange={(e) => setRecurrenceCount(Math.max(1, parseInt(e.target.value) || 1))}
+                          placeholder="10"
+                        />
+                      </div>
+                    )}
+
                     <div className="col-span-2 text-sm text-gray-600 bg-white/50 p-2 rounded border border-purple-200">
                       <p>
                         💡 Дедлайн будет автоматически установлен на:{' '}
                         <strong>
                           {recurringStartDate 
                             ? format(
-                                new Date(new Date(recurringStartDate).getTime() + recurringIntervalDays * 24 * 60 * 60 * 1000),
+                                addRecurrenceStep(recurringStartDate, recurrenceFrequency, recurringIntervalDays),
                                 'PPP',
                                 { locale: ru }
                               )
@@ -1409,6 +1695,25 @@ export function TaskModal({
                     </div>
                   </div>
                 )}
+
+                {/* Выбор области изменений для существующей серии */}
+                {existingTask?.isRecurring && (
+                  <div className="space-y-2 pl-6">
+                    <Label>Применить изменения</Label>
+                    <Select
+                      value={recurrenceScope}
+                      onValueChange={(value) => setRecurrenceScope(value as RecurrenceScope)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="this">Только к этой задаче</SelectItem>
+                        <SelectItem value="future">Ко всем будущим повторениям</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -1443,7 +1748,7 @@ export function TaskModal({
                         className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
                       >
                         <div className="flex items-center gap-3">
-                          <Paperclip className="w-4 h-4 text-gray-500" />
+                          <AttachmentThumbnail attachment={attachment} />
                           <div>
                             <p className="text-sm">{attachment.name}</p>
                             <p className="text-xs text-gray-500">
@@ -1456,7 +1761,7 @@ export function TaskModal({
                             type="button"
                             variant="ghost"
                             size="sm"
-                            onClick={() => window.open(attachment.url, '_blank')}
+                            onClick={() => downloadTaskAttachment(attachment)}
                           >
                             <Download className="w-4 h-4" />
                           </Button>
@@ -1556,6 +1861,18 @@ export function TaskModal({
               Вы уверены, что хотите удалить эту задачу? Это действие нельзя отменить.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {existingTask?.isRecurring && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="delete-future-occurrences"
+                checked={recurrenceScope === 'future'}
+                onCheckedChange={(checked) => setRecurrenceScope(checked === true ? 'future' : 'this')}
+              />
+              <Label htmlFor="delete-future-occurrences" className="cursor-pointer">
+                Удалить также все будущие повторения
+              </Label>
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Отмена</AlertDialogCancel>
             <AlertDialogAction
@@ -0,0 +1,83 @@
+import { ListChecks, ListTree, Lock } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { Task } from '../contexts/app-context';
+
+/**
+ * Прогресс подзадач и чек-листа задачи, например «3/5»
+ */
+export function getTaskProgress(task: Task) {
+  const subtasks = task.subtasks || [];
+  const checklist = task.checklistItems || [];
+  return {
+    subtasksDone: subtasks.filter((s) => s.status === 'done').length,
+    subtasksTotal: subtasks.length,
+    checklistDone: checklist.filter((item) => item.done).length,
+    checklistTotal: checklist.length,
+  };
+}
+
+type TaskProgressProps = {
+  task: Task;
+  className?: string;
+};
+
+export function TaskProgress({ task, className = '' }: TaskProgressProps) {
+  const { subtasksDone, subtasksTotal, checklistDone, checklistTotal } = getTaskProgress(task);
+
+  if (subtasksTotal === 0 && checklistTotal === 0) {
+    return null;
+  }
+
+  const doneClass = (done: number, total: number) =>
+    done === total ? 'text-green-600' : 'text-gray-500';
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      {subtasksTotal > 0 && (
+        <span
+          className={`flex items-center gap-1 ${doneClass(subtasksDone, subtasksTotal)}`}
+          title="Выполнено подзадач"
+        >
+          <ListTree className="w-4 h-4" />
+          {subtasksDone}/{subtasksTotal}
+        </span>
+      )}
+      {checklistTotal > 0 && (
+        <span
+          className={`flex items-center gap-1 ${doneClass(checklistDone, checklistTotal)}`}
+          title="Выполнено пунктов чек-листа"
+        >
+          <ListChecks className="w-4 h-4" />
+          {checklistDone}/{checklistTotal}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Количество незавершённых задач, блокирующих задачу
+ */
+export function getOpenBlockerCount(task: Task) {
+  return (task.blockedBy || []).filter((d) => d.blockingTask.status !== 'done').length;
+}
+
+// Значок «Заблокирована» для незавершённой задачи с незавершёнными блокирующими задачами
+export function TaskBlockedBadge({ task, className = '' }: TaskProgressProps) {
+  const openBlockers = getOpenBlockerCount(task);
+
+  if (openBlockers === 0 || task.status === 'done') {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={`bg-orange-50 text-orange-700 border-orange-200 ${className}`}
+      title={`Незавершённых блокирующих задач: ${openBlockers}`}
+    >
+      <Lock className="w-3 h-3 mr-1" />
+      Заблокирована
+    </Badge>
+  );
+}
@@ -0,0 +1,264 @@
+import React from 'react';
+import { ListChecks, ListTree, Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Switch } from './ui/switch';
+import { useApp } from '../contexts/app-context';
+import type { ChecklistItem, Task } from '../contexts/app-context';
+import { tasksAPI } from '../utils/api-client';
+import { getTaskProgress } from './task-progress';
+
+type TaskSubtasksProps = {
+  task: Task;
+  // Наблюдатели видят подзадачи и чек-лист, но не могут их менять
+  canEdit: boolean;
+};
+
+const sortChecklist = (items: ChecklistItem[]) =>
+  [...items].sort((a, b) => a.position - b.position || a.createdAt.localeCompare(b.createdAt));
+
+// Подзадачи (полноценные задачи с parentTaskId) и чек-лист задачи
+export function TaskSubtasks({ task, canEdit }: TaskSubtasksProps) {
+  const { tasks, createTask, updateTask, canEditTask } = useApp();
+  const [newSubtaskTitle, setNewSubtaskTitle] = React.useState('');
+  const [isCreatingSubtask, setIsCreatingSubtask] = React.useState(false);
+  const [checklist, setChecklist] = React.useState<ChecklistItem[]>(sortChecklist(task.checklistItems || []));
+  const [newItemTitle, setNewItemTitle] = React.useState('');
+  const [isAddingItem, setIsAddingItem] = React.useState(false);
+
+  // Чек-лист приходит с задачей и обновляется через realtime
+  React.useEffect(() => {
+    setChecklist(sortChecklist(task.checklistItems || []));
+  }, [task.checklistItems]);
+
+  const subtasks = tasks.filter((t) => t.parentTaskId === task.id);
+  const { subtasksDone, subtasksTotal } = getTaskProgress(task);
+  const checklistDone = checklist.filter((item) => item.done).length;
+
+  const handleCreateSubtask = async () => {
+    const title = newSubtaskTitle.trim();
+    if (!title) return;
+
+    setIsCreatingSubtask(true);
+    try {
+      await createTask({
+        title,
+        parentTaskId: task.id,
+        projectId: task.projectId,
+        status: 'todo',
+        priority: task.priority,
+      });
+      setNewSubtaskTitle('');
+    } catch (error) {
+      // Ошибка уже показана в createTask
+    } finally {
+      setIsCreatingSubtask(false);
+    }
+  };
+
+  const handleToggleSubtask = async (subtask: Task, done: boolean) => {
+    try {
+      await updateTask(subtask.id, { status: done ? 'done' : 'todo' }, { silent: true });
+    } catch (error) {
+      // Ошибка и откат уже обработаны в updateTask
+    }
+  };
+
+  const handleToggleAutoComplete = async (value: boolean) => {
+    try {
+      await updateTask(task.id, { completeWithSubtasks: value }, { silent: true });
+    } catch (error) {
+      // Ошибка и откат уже обработаны в updateTask
+    }
+  };
+
+  const handleAddItem = async () => {
+    const title = newItemTitle.trim();
+    if (!title) return;
+
+    setIsAddingItem(true);
+    try {
+      const item = await tasksAPI.addChecklistItem(task.id, title);
+      setChecklist((prev) => (prev.some((i) => i.id === item.id) ? prev : [...prev, item]));
+      setNewItemTitle('');
+    } catch (error: any) {
+      console.error('Add checklist item error:', error);
+      toast.error(error.message || 'Не удалось добавить пункт');
+    } finally {
+      setIsAddingItem(false);
+    }
+  };
+
+  const handleToggleItem = async (item: ChecklistItem, done: boolean) => {
+    const previous = checklist;
+    setChecklist((prev) => prev.map((i) => (i.id === item.id ? { ...i, done } : i)));
+    try {
+      await tasksAPI.updateChecklistItem(task.id, item.id, { done });
+    } catch (error: any) {
+      console.error('Update checklist item error:', error);
+      toast.error(error.message || 'Не удалось обновить пункт');
+      setChecklist(previous);
+    }
+  };
+
+  const handleDeleteItem = async (item: ChecklistItem) => {
+    const previous = checklist;
+    setChecklist((prev) => prev.filter((i) => i.id !== item.id));
+    try {
+      await tasksAPI.deleteChecklistItem(task.id, item.id);
+    } catch (error: any) {
+      console.error('Delete checklist item error:', error);
+      toast.error(error.message || 'Не удалось удалить пункт');
+      setChecklist(previous);
+    }
+  };
+
+  if (!canEdit && subtasksTotal === 0 && checklist.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Подзадачи */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListTree className="w-4 h-4" />
+            <h4>Подзадачи</h4>
+            {subtasksTotal > 0 && (
+              <span className="text-sm text-gray-500">
+                {subtasksDone}/{subtasksTotal}
+              </span>
+            )}
+          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`complete-with-subtasks-${task.id}`}
+                checked={!!task.completeWithSubtasks}
+                onCheckedChange={handleToggleAutoComplete}
+              />
+              <Label htmlFor={`complete-with-subtasks-${task.id}`} className="text-xs text-gray-600">
+                Завершить после всех подзадач
+              </Label>
+            </div>
+          )}
+        </div>
+
+        {subtasksTotal > 0 && <Progress value={(subtasksDone / subtasksTotal) * 100} className="h-1.5" />}
+
+        {subtasks.length > 0 && (
+          <ul className="space-y-1">
+            {subtasks.map((subtask) => (
+              <li key={subtask.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-50">
+                <Checkbox
+                  checked={subtask.status === 'done'}
+                  disabled={!canEditTask(subtask)}
+                  onCheckedChange={(value) => handleToggleSubtask(subtask, value === true)}
+                />
+                <span className={`text-sm ${subtask.status === 'done' ? 'line-through text-gray-500' : ''}`}>
+                  {subtask.title}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Подзадачи, которые участнику не видны (чужие задачи), учитываются только в счетчике */}
+        {subtasksTotal > subtasks.length && (
+          <p className="text-xs text-gray-500">
+            Ещё подзадач, недоступных вам: {subtasksTotal - subtasks.length}
+          </p>
+        )}
+
+        {canEdit && (
+          <div className="flex gap-2">
+            <Input
+              value={newSubtaskTitle}
+              onChange={(e) => setNewSubtaskTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreateSubtask();
+                }
+              }}
+              placeholder="Новая подзадача"
+              disabled={isCreatingSubtask}
+            />
+            <Button
+              variant="outline"
+              onClick={handleCreateSubtask}
+              disabled={isCreatingSubtask || !newSubtaskTitle.trim()}
+            >
+              {isCreatingSubtask ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Чек-лист */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <ListChecks className="w-4 h-4" />
+          <h4>Чек-лист</h4>
+          {checklist.length > 0 && (
+            <span className="text-sm text-gray-500">
+              {checklistDone}/{checklist.length}
+            </span>
+          )}
+        </div>
+
+        {checklist.length > 0 && (
+          <ul className="space-y-1">
+            {checklist.map((item) => (
+              <li key={item.id} className="group flex items-center gap-2 p-2 rounded-lg hover:bg-gray-50">
+                <Checkbox
+                  checked={item.done}
+                  disabled={!canEdit}
+                  onCheckedChange={(value) => handleToggleItem(item, value === true)}
+                />
+                <span className={`flex-1 text-sm ${item.done ? 'line-through text-gray-500' : ''}`}>
+                  {item.title}
+                </span>
+                {canEdit && (
+                  <button
+                    type="button"
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+                    title="Удалить пункт"
+                    onClick={() => handleDeleteItem(item)}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && (
+          <div className="flex gap-2">
+            <Input
+              value={newItemTitle}
+              onChange={(e) => setNewItemTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddItem();
+                }
+              }}
+              placeholder="Новый пункт"
+              disabled={isAddingItem}
+            />
+            <Button variant="outline" onClick={handleAddItem} disabled={isAddingItem || !newItemTitle.trim()}>
+              {isAddingItem ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,13 +7,21 @@ import {
   SelectValue,
 } from './ui/select';
 import { Badge } from './ui/badge';
+import { Button } from './ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { ArrowUpDown, ArrowUp, ArrowDown, Flame, Tag, User, Paperclip } from 'lucide-react';
+import { Checkbox } from './ui/checkbox';
+import { ArrowUpDown, ArrowUp, ArrowDown, Flame, Tag, User, Paperclip, CornerDownRight } from 'lucide-react';
 import { useApp } from '../contexts/app-context';
 import { format } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import type { Filters } from './filters-panel';
 import type { Task as TaskType } from '../contexts/app-context';
+import { TaskProgress, TaskBlockedBadge } from './task-progress';
+import { BulkActionBar } from './bulk-action-bar';
+import { useTaskSelection } from '../hooks/useTaskSelection';
+import { getWorkflowStatuses, canTransition } from '../utils/workflow';
+import { tasksAPI, type TaskPage } from '../utils/api-client';
+import { MAX_BULK_TASKS, MAX_TASK_PAGE_SIZE, type BoardState, type TaskListQuery } from '../server/types';
 
 // Categories are now loaded from the app context via useApp hook
 
@@ -45,19 +53,56 @@ const priorityLabels = {
   urgent: 'Срочный',
 };
 
-type SortColumn = 'title' | 'project' | 'category' | 'status' | 'priority' | 'assignee' | 'dueDate' | 'updatedAt';
-type SortDirection = 'asc' | 'desc' | null;
+type SortColumn = NonNullable<BoardState['sortColumn']>;
+type SortDirection = BoardState['sortDirection'];
+
+const PAGE_SIZE = 50;
+
+// Columns sorted by the server; the rest are sorted among the loaded rows
+const serverSorts: Partial<Record<SortColumn, TaskListQuery['sort']>> = {
+  title: 'title',
+  status: 'position',
+  dueDate: 'dueDate',
+  updatedAt: 'updatedAt',
+};
+
+// Deadline range of a deadline filter preset, in local time
+const getDeadlineRange = (deadline: Filters['deadline']): Pick<TaskListQuery, 'dueFrom' | 'dueTo'> => {
+  if (deadline === 'all') return {};
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const endOfDay = (daysFromToday: number) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() + daysFromToday);
+    date.setHours(23, 59, 59, 999);
+    return date.toISOString();
+  };
+
+  switch (deadline) {
+    case 'overdue':
+      return { dueTo: new Date(today.getTime() - 1).toISOString() };
+    case 'today':
+      return { dueFrom: today.toISOString(), dueTo: endOfDay(0) };
+    case '3days':
+      return { dueFrom: today.toISOString(), dueTo: endOfDay(3) };
+    case 'week':
+      // До конца текущей недели (воскресенье)
+      return { dueFrom: today.toISOString(), dueTo: endOfDay(today.getDay() === 0 ? 0 : 7 - today.getDay()) };
+  }
+};
 
 type TaskTableProps = {
   searchQuery: string;
   filters: Filters;
+  sortColumn: SortColumn | null;
+  sortDirection: SortDirection;
+  onSortChange: (sortColumn: SortColumn | null, sortDirection: SortDirection) => void;
   onTaskClick: (taskId: string) => void;
 };
 
-export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps) {
-  const { tasks, projects, teamMembers, currentUser, customColumns, updateTask, categories } = useApp();
-  const [sortColumn, setSortColumn] = React.useState<SortColumn | null>(null);
-  const [sortDirection, setSortDirection] = React.useState<SortDirection>(null);
+export function TaskTable({ searchQuery, filters, sortColumn, sortDirection, onSortChange, onTaskClick }: TaskTableProps) {
+  const { tasks, projects, teamMembers, customColumns, updateTask, categories, pendingDeletedTaskIds } = useApp();
 
   // Log custom columns on mount and when they change
   React.useEffect(() => {
@@ -109,17 +154,32 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
       return statuses;
     }
     
-    const statuses = baseStatuses.map(id => ({
-      id,
-      label: statusLabels[id as keyof typeof statusLabels],
-      color: statusColors[id as keyof typeof statusColors],
-    }));
+    // Project tasks: statuses of the project workflow the task can move to
+    const workflowStatuses = getWorkflowStatuses(projects.find(p => p.id === task.projectId));
+    const statuses = workflowStatuses
+      .filter(status => canTransition(workflowStatuses, task.status, status.key))
+      .map(status => ({
+        id: status.key,
+        label: status.name,
+        color: statusColors[status.key as keyof typeof statusColors] || 'bg-purple-100 text-purple-700',
+      }));
     console.log('[TaskTable] Project task statuses:', statuses);
     return statuses;
   };
 
   // Get status display info
-  const getStatusInfo = (status: string) => {
+  const getStatusInfo = (status: string, task?: TaskType) => {
+    if (task?.projectId) {
+      const workflowStatus = getWorkflowStatuses(projects.find(p => p.id === task.projectId))
+        .find(s => s.key === status);
+      if (workflowStatus) {
+        return {
+          label: workflowStatus.name,
+          color: statusColors[status as keyof typeof statusColors] || 'bg-purple-100 text-purple-700',
+        };
+      }
+    }
+
     if (statusLabels[status as keyof typeof statusLabels]) {
       return {
         label: statusLabels[status as keyof typeof statusLabels],
@@ -165,183 +225,90 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
     }
   };
 
-  const filteredAndSortedTasks = React.useMemo(() => {
-    console.log('[TaskTable] Starting filtration with:', {
-      totalTasks: tasks.length,
-      searchQuery,
-      filters,
-      firstTasksPreview: tasks.slice(0, 5).map(t => ({
-        id: t.id,
-        title: t.title,
-        projectId: t.projectId,
-        status: t.status,
-        priority: t.priority
-      }))
-    });
-    
-    const debugLog: any[] = [];
-    
-    const filterTasks = (task: TaskType, index: number) => {
-      const debug = {
-        taskIndex: index,
-        taskId: task.id,
-        taskTitle: task.title,
-        projectId: task.projectId,
-        passed: true,
-        reason: '',
-      };
-      
-      // Search query
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        if (!task.title.toLowerCase().includes(query)) {
-          debug.passed = false;
-          debug.reason = 'search query';
-          debugLog.push(debug);
-          return false;
-        }
-      }
-
-      // Project filter
-      if (filters.projects.length > 0) {
-        const projectMatch = filters.projects.includes(task.projectId || 'personal');
-        if (!projectMatch) {
-          debug.passed = false;
-          debug.reason = 'project filter';
-          debugLog.push(debug);
-          return false;
-        }
-      }
-
-      // Category filter
-      if (filters.categories.length > 0) {
-        const taskCategory = task.categoryId || 'none';
-        if (!filters.categories.includes(taskCategory)) {
-          debug.passed = false;
-          debug.reason = 'category filter';
-          debugLog.push(debug);
-          return false;
-        }
-      }
-
-      // Status filter
-      if (filters.statuses.length > 0 && !filters.statuses.includes(task.status)) {
-        debug.passed = false;
-        debug.reason = 'status filter';
-        debugLog.push(debug);
-        return false;
-      }
-
-      // Priority filter
-      if (filters.priorities.length > 0 && !filters.priorities.includes(task.priority)) {
-        debug.passed = false;
-        debug.reason = 'priority filter';
-        debugLog.push(debug);
-        return false;
-      }
-
-      // Assignee filter
-      if (filters.assignees.length > 0) {
-        // Special case: 'me' filter
-        if (filters.assignees.includes('me')) {
-          if (task.assigneeId !== currentUser?.id) {
-            debug.passed = false;
-            debug.reason = 'assignee filter (me)';
-            debugLog.push(debug);
-            return false;
-          }
-        } else if (!filters.assignees.includes(task.assigneeId || '')) {
-          debug.passed = false;
-          debug.reason = 'assignee filter';
-          debugLog.push(debug);
-          return false;
-        }
-      }
+  // Filters, search and the sorts the server supports are applied by GET /api/tasks, page by page
+  const serverSort = sortColumn && sortDirection ? serverSorts[sortColumn] : undefined;
+  const query = React.useMemo<TaskListQuery>(() => ({
+    q: searchQuery.trim() || undefined,
+    project: filters.projects,
+    category: filters.categories,
+    status: filters.statuses,
+    priority: filters.priorities,
+    assignee: filters.assignees,
+    tags: filters.tags,
+    ...getDeadlineRange(filters.deadline),
+    sort: serverSort,
+    order: serverSort && sortDirection ? sortDirection : undefined,
+  }), [searchQuery, filters, serverSort, sortDirection]);
+
+  const [page, setPage] = React.useState<TaskPage | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+  const loadedCountRef = React.useRef(0);
 
-      // Tags filter
-      if (filters.tags.length > 0) {
-        const hasTag = filters.tags.some((tag) => task.tags?.includes(tag));
-        if (!hasTag) {
-          debug.passed = false;
-          debug.reason = 'tags filter';
-          debugLog.push(debug);
-          return false;
-        }
-      }
+  React.useEffect(() => {
+    loadedCountRef.current = 0;
+  }, [query]);
 
-      // Deadline filter
-      if (filters.deadline !== 'all') {
-        // Если у задачи нет дедлайна, исключаем её из фильтров дедлайна
-        if (!task.deadline) {
-          debug.passed = false;
-          debug.reason = 'deadline filter (no deadline)';
-          debugLog.push(debug);
-          return false;
+  // Reload when the query or the tasks in the context change (edits, realtime events),
+  // keeping as many rows as were already loaded
+  React.useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const wanted = Math.max(loadedCountRef.current, PAGE_SIZE);
+        let result = await tasksAPI.list({ ...query, limit: Math.min(wanted, MAX_TASK_PAGE_SIZE) });
+        // More rows than one page allows (e.g. after selecting all by the filter) are reloaded page by page
+        while (!cancelled && result.nextCursor && result.tasks.length < wanted) {
+          const next = await tasksAPI.list({
+            ...query,
+            limit: Math.min(wanted - result.tasks.length, MAX_TASK_PAGE_SIZE),
+            cursor: result.nextCursor,
+          });
+          result = { tasks: [...result.tasks, ...next.tasks], total: next.total, nextCursor: next.nextCursor };
         }
-
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        const taskDeadline = new Date(task.deadline);
-        taskDeadline.setHours(0, 0, 0, 0);
-
-        if (filters.deadline === 'overdue') {
-          // Просрочено - deadline < сегодня
-          if (taskDeadline >= today) {
-            debug.passed = false;
-            debug.reason = 'deadline filter (not overdue)';
-            debugLog.push(debug);
-            return false;
-          }
-        } else if (filters.deadline === 'today') {
-          // Сегодня - deadline === сегодня
-          if (taskDeadline.getTime() !== today.getTime()) {
-            debug.passed = false;
-            debug.reason = 'deadline filter (not today)';
-            debugLog.push(debug);
-            return false;
-          }
-        } else if (filters.deadline === '3days') {
-          // 3 дня - deadline в течение следующих 3 дней (включая сегодня)
-          const threeDaysFromNow = new Date(today);
-          threeDaysFromNow.setDate(today.getDate() + 3);
-          if (taskDeadline < today || taskDeadline > threeDaysFromNow) {
-            debug.passed = false;
-            debug.reason = 'deadline filter (not in 3 days)';
-            debugLog.push(debug);
-            return false;
-          }
-        } else if (filters.deadline === 'week') {
-          // На этой неделе - deadline до конца текущей недели (воскресенье)
-          const endOfWeek = new Date(today);
-          const dayOfWeek = today.getDay(); // 0 = Воскресенье, 1 = Понедельник, ...
-          const daysUntilSunday = dayOfWeek === 0 ? 0 : 7 - dayOfWeek;
-          endOfWeek.setDate(today.getDate() + daysUntilSunday);
-          if (taskDeadline < today || taskDeadline > endOfWeek) {
-            debug.passed = false;
-            debug.reason = 'deadline filter (not this week)';
-            debugLog.push(debug);
-            return false;
-          }
+        if (!cancelled) {
+          loadedCountRef.current = result.tasks.length;
+          setPage(result);
         }
+      } catch (error) {
+        console.error('[TaskTable] Error loading tasks:', error);
       }
+    }, 300);
 
-      debugLog.push(debug);
-      return true;
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
+  }, [query, tasks]);
 
-    let result = tasks.filter(filterTasks);
+  const handleLoadMore = async () => {
+    if (!page?.nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const next = await tasksAPI.list({ ...query, limit: PAGE_SIZE, cursor: page.nextCursor });
+      const tasksById = new Map([...page.tasks, ...next.tasks].map(task => [task.id, task]));
+      loadedCountRef.current = tasksById.size;
+      setPage({ tasks: Array.from(tasksById.values()), total: next.total, nextCursor: next.nextCursor });
+    } catch (error) {
+      console.error('[TaskTable] Error loading more tasks:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
 
-    if (sortColumn && sortDirection) {
+  const filteredAndSortedTasks = React.useMemo(() => {
+    // Show the context's copy of each task so optimistic updates appear before the reload
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const result = (page?.tasks ?? [])
+      .filter(task => !pendingDeletedTaskIds.has(task.id))
+      .map(task => tasksById.get(task.id) ?? task);
+
+    // Columns the server cannot sort by are sorted among the loaded rows
+    if (sortColumn && sortDirection && !serverSort) {
       result.sort((a, b) => {
         let aVal: any;
         let bVal: any;
 
         switch (sortColumn) {
-          case 'title':
-            aVal = a.title || '';
-            bVal = b.title || '';
-            break;
           case 'project':
             const aProject = projects?.find(p => p.id === a.projectId);
             const bProject = projects?.find(p => p.id === b.projectId);
@@ -354,10 +321,6 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
             aVal = aCategory?.name || '';
             bVal = bCategory?.name || '';
             break;
-          case 'status':
-            aVal = a.status || '';
-            bVal = b.status || '';
-            break;
           case 'priority':
             const priorityOrder = { urgent: 4, high: 3, medium: 2, low: 1 };
             aVal = priorityOrder[a.priority];
@@ -369,14 +332,6 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
             aVal = aAssignee?.name || '';
             bVal = bAssignee?.name || '';
             break;
-          case 'dueDate':
-            aVal = a.deadline ? new Date(a.deadline) : new Date(0);
-            bVal = b.deadline ? new Date(b.deadline) : new Date(0);
-            break;
-          case 'updatedAt':
-            aVal = a.updatedAt ? new Date(a.updatedAt) : new Date(0);
-            bVal = b.updatedAt ? new Date(b.updatedAt) : new Date(0);
-            break;
           default:
             aVal = '';
             bVal = '';
@@ -388,37 +343,54 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
       });
     }
 
-    console.log('[TaskTable] Filtering results:', {
-      totalTasks: tasks.length,
-      filteredTasks: result.length,
-      filters,
-      searchQuery,
-      rejectedTasks: debugLog.filter(d => !d.passed),
-      acceptedTasks: debugLog.filter(d => d.passed).slice(0, 5),
-    });
-    
-    // Log first 10 rejected tasks for debugging
-    const rejected = debugLog.filter(d => !d.passed);
-    if (rejected.length > 0) {
-      console.log('[TaskTable] First 10 rejected tasks:', rejected.slice(0, 10));
-    }
-    
     return result;
-  }, [tasks, projects, teamMembers, currentUser, searchQuery, filters, sortColumn, sortDirection, customColumns]);
+  }, [page, tasks, pendingDeletedTaskIds, projects, teamMembers, categories, sortColumn, sortDirection, serverSort]);
+
+  const rowIds = React.useMemo(() => filteredAndSortedTasks.map(task => task.id), [filteredAndSortedTasks]);
+  const selection = useTaskSelection(rowIds);
+  const [isSelectingAll, setIsSelectingAll] = React.useState(false);
+
+  // Load the remaining pages of the filter (up to the bulk limit) and select all of them
+  const handleSelectAllFiltered = async () => {
+    if (!page) return;
+    setIsSelectingAll(true);
+    try {
+      const tasksById = new Map(page.tasks.map(task => [task.id, task]));
+      let cursor = page.nextCursor;
+      let total = page.total;
+      while (cursor && tasksById.size < MAX_BULK_TASKS) {
+        const next = await tasksAPI.list({ ...query, limit: MAX_TASK_PAGE_SIZE, cursor });
+        next.tasks.forEach(task => tasksById.set(task.id, task));
+        cursor = next.nextCursor;
+        total = next.total;
+      }
+      const loadedTasks = Array.from(tasksById.values());
+      loadedCountRef.current = loadedTasks.length;
+      setPage({ tasks: loadedTasks, total, nextCursor: cursor });
+      selection.selectIds(
+        loadedTasks
+          .filter(task => !pendingDeletedTaskIds.has(task.id))
+          .slice(0, MAX_BULK_TASKS)
+          .map(task => task.id)
+      );
+    } catch (error) {
+      console.error('[TaskTable] Error selecting all tasks:', error);
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
 
 
 
   const handleSort = (column: SortColumn) => {
     if (sortColumn === column) {
       if (sortDirection === 'asc') {
-        setSortDirection('desc');
+        onSortChange(column, 'desc');
       } else if (sortDirection === 'desc') {
-        setSortColumn(null);
-        setSortDirection(null);
+        onSortChange(null, null);
       }
     } else {
-      setSortColumn(column);
-      setSortDirection('asc');
+      onSortChange(column, 'asc');
     }
   };
 
@@ -467,6 +439,14 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
       <table className="w-full caption-bottom text-sm">
         <thead className="[&_tr]:border-b sticky top-0 bg-white z-10 shadow-sm">
           <tr className="border-b transition-colors">
+            <th className="h-10 w-10 px-2 align-middle">
+              <Checkbox
+                checked={selection.isAllSelected ? true : selection.isSomeSelected ? 'indeterminate' : false}
+                onCheckedChange={selection.toggleAll}
+                disabled={filteredAndSortedTasks.length === 0}
+                aria-label="Выбрать все задачи"
+              />
+            </th>
             <th className="text-foreground h-10 px-2 text-left align-middle font-medium whitespace-nowrap">
               <button
                 className="flex items-center hover:text-purple-600"
@@ -544,7 +524,7 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
         <tbody className="[&_tr:last-child]:border-0">
           {filteredAndSortedTasks.length === 0 ? (
             <tr className="border-b transition-colors">
-              <td colSpan={8} className="p-2 align-middle text-center text-gray-500 py-8">
+              <td colSpan={9} className="p-2 align-middle text-center text-gray-500 py-8">
                 {searchQuery || filters.projects.length > 0 || filters.statuses.length > 0
                   ? 'Задачи не найдены'
                   : 'Нет задач для отображения'}
@@ -556,24 +536,39 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
               const project = projects?.find(p => p.id === task.projectId);
               const category = categories.find(c => c.id === task.categoryId);
               const assignee = teamMembers?.find(m => m.id === task.assigneeId);
+              const parentTask = task.parentTaskId ? tasks.find(t => t.id === task.parentTaskId) : undefined;
 
               return (
                 <tr
                   key={task.id}
-                  className="cursor-pointer hover:bg-gray-50 border-b transition-colors"
+                  className={`cursor-pointer border-b transition-colors ${selection.selectedIds.has(task.id) ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
                   onClick={() => onTaskClick(task.id)}
                 >
+                  <td className="p-2 align-middle" onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selection.selectedIds.has(task.id)}
+                      onClick={(e) => selection.toggle(task.id, e.shiftKey)}
+                      aria-label={`Выбрать задачу «${task.title}»`}
+                    />
+                  </td>
                   <td className="p-2 align-middle whitespace-nowrap">
                     <div className="max-w-md flex items-center gap-2">
+                      {parentTask && (
+                        <span title={`Подзадача: ${parentTask.title}`} className="flex-shrink-0">
+                          <CornerDownRight className="w-3.5 h-3.5 text-gray-400" />
+                        </span>
+                      )}
                       <p className={`truncate ${task.status === 'done' ? 'line-through text-gray-500' : ''}`}>
                         {task.title}
                       </p>
+                      <TaskBlockedBadge task={task} className="text-xs flex-shrink-0" />
                       {task.attachments && task.attachments.length > 0 && (
                         <div className="flex items-center gap-1 text-xs text-gray-500 flex-shrink-0">
                           <Paperclip className="w-3.5 h-3.5" />
                           <span>{task.attachments.length}</span>
                         </div>
                       )}
+                      <TaskProgress task={task} className="text-xs flex-shrink-0" />
                     </div>
                   </td>
                   <td className="p-2 align-middle whitespace-nowrap">
@@ -604,8 +599,8 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
                     >
                       <SelectTrigger className="w-[160px] h-8 border-0 focus:ring-0 bg-transparent">
                         <div className="flex items-center gap-2">
-                          <Badge variant="outline" className={getStatusInfo(task.status).color}>
-                            {getStatusInfo(task.status).label}
+                          <Badge variant="outline" className={getStatusInfo(task.status, task).color}>
+                            {getStatusInfo(task.status, task).label}
                           </Badge>
                         </div>
                       </SelectTrigger>
@@ -671,6 +666,23 @@ export function TaskTable({ searchQuery, filters, onTaskClick }: TaskTableProps)
           )}
         </tbody>
       </table>
+      {page && page.total > 0 && (
+        <div className="flex items-center justify-between border-t px-4 py-3 text-sm text-gray-500">
+          <span>Показано {filteredAndSortedTasks.length} из {page.total}</span>
+          {page.nextCursor && (
+            <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? 'Загрузка...' : 'Показать ещё'}
+            </Button>
+          )}
+        </div>
+      )}
+      <BulkActionBar
+        selectedTasks={filteredAndSortedTasks.filter(task => selection.selectedIds.has(task.id))}
+        onClearSelection={selection.clear}
+        totalCount={page?.total}
+        onSelectAll={handleSelectAllFiltered}
+        isSelectingAll={isSelectingAll}
+      />
     </div>
   );
 }
@@ -1,32 +1,28 @@
 import React from 'react';
-import { tasksAPI, projectsAPI, authAPI, teamAPI, userSettingsAPI, categoriesAPI, supabase, getAuthToken } from '../utils/supabase/client';
+import { tasksAPI, projectsAPI, authAPI, teamAPI, userSettingsAPI, realtimeAPI, notificationsAPI, supabase, getAuthToken, TaskConflictError, TaskBlockedError } from '../utils/supabase/client';
+import { categoriesAPI, savedViewsAPI, type BulkTaskResult } from '../utils/api-client';
+import type { BulkTaskFailure } from '../lib/bulk-tasks';
+import {
+  bulkTaskSchema,
+  categorySchema,
+  createProjectSchema,
+  createTaskSchema,
+  parseRequest,
+  savedViewSchema,
+  updateCategorySchema,
+  updateProjectSchema,
+  updateSavedViewSchema,
+  updateTaskSchema,
+  type BoardState,
+  type BulkTaskUpdate,
+  type CategoryRequest,
+  type SavedViewRequest,
+  type UpdateCategoryRequest,
+  type UpdateSavedViewRequest,
+} from '../server/types';
 // Removed: import { projectId } from '../utils/supabase/info';
 import { toast } from 'sonner@2.0.3';
 
-/**
- * Helper function to get user ID from JWT token
- */
-const getUserIdFromToken = (): string | null => {
-  const token = getAuthToken();
-  if (!token) return null;
-  
-  try {
-    const base64Url = token.split('.')[1];
-    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-    const jsonPayload = decodeURIComponent(
-      atob(base64)
-        .split('')
-        .map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
-        .join('')
-    );
-    const payload = JSON.parse(jsonPayload);
-    return payload.sub || null;
-  } catch (error) {
-    console.error('Failed to decode token:', error);
-    return null;
-  }
-};
-
 /**
  * Deep comparison helper to check if arrays have different content
  * Returns true if arrays are different (need update), false if same
@@ -57,17 +53,78 @@ const areArraysDifferent = <T extends { id: string; updatedAt?: string }>(
   return false;
 };
 
+/**
+ * Compare task field values from the server and the client
+ * Treats undefined/null as equal and compares dates by timestamp
+ */
+const isSameFieldValue = (a: any, b: any): boolean => {
+  const left = a ?? null;
+  const right = b ?? null;
+  if (typeof left === 'string' && typeof right === 'string' && left !== right) {
+    const leftTime = Date.parse(left);
+    const rightTime = Date.parse(right);
+    return !isNaN(leftTime) && !isNaN(rightTime) && leftTime === rightTime;
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+};
+
+// Human-readable task field names for conflict messages
+const TASK_FIELD_LABELS: Record<string, string> = {
+  title: 'название',
+  description: 'описание',
+  status: 'статус',
+  priority: 'приоритет',
+  category: 'категория',
+  tags: 'теги',
+  dueDate: 'дедлайн',
+  assigneeId: 'исполнитель',
+  orderKey: 'порядок',
+};
+
+// How long a bulk deletion can be undone before it is sent to the server
+const BULK_DELETE_UNDO_DELAY = 8000;
+
+/**
+ * Reasons why some tasks of a bulk operation were not changed, for the toast
+ */
+const describeBulkFailures = (failed: BulkTaskFailure[]): string => {
+  const counts = new Map<string, number>();
+  failed.forEach(({ error, code }) => {
+    const reason = code === 'VERSION_CONFLICT'
+      ? 'изменены другим пользователем'
+      : code === 'TASK_BLOCKED'
+        ? 'заблокированы незавершёнными задачами'
+        : error;
+    counts.set(reason, (counts.get(reason) || 0) + 1);
+  });
+  return Array.from(counts, ([reason, count]) => `${reason}: ${count}`).join('; ');
+};
+
 export interface TaskAttachment {
   id: string;
   name: string;
   size: number;
   type: string;
+  mimeType?: string; // Так вложения приходят с сервера
   url: string;
   path: string;
   uploadedAt: string;
   uploadedBy: string;
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+export type RecurrenceScope = 'this' | 'future';
+
+export interface RecurrenceRule {
+  id: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string | null;
+  maxOccurrences?: number | null;
+  occurrenceCount: number;
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -89,22 +146,70 @@ export interface Task {
   recurringStartDate?: string;
   recurringIntervalDays?: number;
   parentRecurringTaskId?: string; // ID родительской повторяющейся задачи
+  recurrenceRuleId?: string | null;
+  recurrenceRule?: RecurrenceRule | null; // Правило повторения (общее для всей серии)
   // Поле для стабильного упорядочивания без переиндексации
   orderKey?: string; // Лексикографический ключ для сортировки (Base36)
   version?: number; // Монотонный счетчик для оптимистичной конкурентности
+  // Подзадачи и чек-лист
+  parentTaskId?: string | null;
+  completeWithSubtasks?: boolean; // Завершить задачу, когда выполнены все подзадачи
+  subtasks?: { id: string; status: string }[]; // Краткие данные подзадач для прогресса
+  checklistItems?: ChecklistItem[];
+  // Блокирующие задачи (статус нужен для значка «Заблокирована»)
+  blockedBy?: { id: string; blockingTaskId: string; blockingTask: { status: string } }[];
+}
+
+export interface ChecklistItem {
+  id: string;
+  taskId: string;
+  title: string;
+  done: boolean;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DependencyTask {
+  id: string;
+  title: string;
+  status: string;
+  projectId: string | null;
+  project: { id: string; name: string } | null;
+}
+
+export interface TaskDependencies {
+  blockedBy: { id: string; task: DependencyTask }[];
+  blocking: { id: string; task: DependencyTask }[];
+  hiddenCount: number; // Связи с задачами, недоступными пользователю
+}
+
+export interface WorkflowStatus {
+  id: string;
+  projectId: string;
+  key: string; // Значение task.status
+  name: string;
+  color: string; // Tailwind-класс, например 'bg-blue-500'
+  position: number;
+  wipLimit: number | null;
+  isDone: boolean; // Категория «выполнено»
+  allowedTransitions: string[]; // Пусто - переход в любой статус
 }
 
 export interface ProjectLink {
   id: string;
   name: string;
   url: string;
+  position?: number;
 }
 
 export interface ProjectAttachment {
   id: string;
   name: string;
-  size: string;
+  size: number; // байты
+  mimeType?: string;
   url: string;
+  createdAt?: string;
 }
 
 export interface Project {
@@ -116,11 +221,16 @@ export interface Project {
   availableCategories?: string[]; // Массив ID категорий, доступных для задач в проекте
   status?: string;
   userId?: string; // Владелец проекта
+  ownerId?: string;
   members?: any[];
   links?: ProjectLink[];
   attachments?: ProjectAttachment[];
   archived?: boolean; // Флаг архивирования
-  archivedAt?: string; // Дата архивирования
+  archivedAt?: string | null; // Дата архивирования
+  archivedBy?: { id: string; name: string; email: string; avatarUrl?: string } | null; // Кто архивировал (null - автоархивация)
+  dependencyMode?: 'warn' | 'block'; // Завершение заблокированных задач: предупреждать или запрещать
+  requireTwoFactor?: boolean; // Доступ только после входа с двухфакторной аутентификацией
+  workflowStatuses?: WorkflowStatus[]; // Статусы (колонки доски) проекта по порядку
   createdAt: string;
   updatedAt: string;
 }
@@ -130,6 +240,11 @@ export interface User {
   email: string;
   name: string;
   avatarUrl?: string;
+  emailVerified?: boolean;
+  pendingEmail?: string | null; // Новый email, ожидающий подтверждения по ссылке
+  passwordChangedAt?: string | null;
+  twoFactorEnabled?: boolean;
+  backupCodesRemaining?: number; // Неиспользованные резервные коды 2FA
   createdAt?: string;
 }
 
@@ -148,12 +263,109 @@ export interface CustomColumn {
   color: string;
 }
 
+export interface ActivityEntry {
+  id: string;
+  action: string; // 'task.created', 'task.updated', 'project.updated', 'member.added', ...
+  entityType: 'task' | 'project' | 'member' | 'invitation' | 'attachment' | 'comment' | 'checklist' | 'dependency';
+  entityId: string;
+  projectId?: string | null;
+  taskId?: string | null;
+  changes?: Record<string, { from: any; to: any }> | null;
+  metadata?: Record<string, any> | null;
+  createdAt: string;
+  actorId?: string | null;
+  actor?: { id: string; name: string; email: string; avatarUrl?: string | null } | null;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  parentId?: string | null;
+  content: string; // пустая строка у удалённого комментария с ответами
+  mentionedUserIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  authorId?: string | null;
+  author?: { id: string; name: string; email: string; avatarUrl?: string | null } | null;
+  replies?: TaskComment[];
+}
+
+export interface MentionCandidate {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export type RealtimeEventType =
+  | 'task.created'
+  | 'task.updated'
+  | 'task.reordered'
+  | 'task.deleted'
+  | 'project.updated'
+  | 'project.deleted'
+  | 'member.added'
+  | 'member.updated'
+  | 'member.removed'
+  | 'notification.created';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  projectId: string | null;
+  actorId?: string;
+  payload: any;
+}
+
+export type NotificationType =
+  | 'task_assigned'
+  | 'task_due_soon'
+  | 'task_overdue'
+  | 'invitation_accepted'
+  | 'role_changed'
+  | 'comment'
+  | 'mention';
+
+// AppNotification, чтобы не путать с браузерным Notification
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any> | null;
+  readAt?: string | null;
+  createdAt: string;
+  taskId?: string | null;
+  projectId?: string | null;
+  actorId?: string | null;
+  actor?: { id: string; name: string; email: string; avatarUrl?: string | null } | null;
+}
+
+export type NotificationPreferences = Record<NotificationType, { inApp: boolean; email: boolean }>;
+
+// Сохраненное представление доски (личное или общее для проекта)
+export interface SavedView {
+  id: string;
+  name: string;
+  state: BoardState;
+  pinned: boolean;
+  ownerId: string;
+  owner?: { id: string; name: string };
+  projectId?: string | null;
+  project?: { id: string; name: string; color: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Категория задач (личная или общая для проекта)
 export interface Category {
   id: string;
   name: string;
   color: string;
-  description?: string;
-  userId: string;
+  description?: string | null;
+  ownerId: string | null; // null - the author deleted their account
+  projectId?: string | null;
+  project?: { id: string; name: string; color: string } | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -169,6 +381,8 @@ interface AppContextType {
   isLoading: boolean;
   isInitialLoad: boolean;
   isRealtimeConnected: boolean;
+  notifications: AppNotification[];
+  unreadNotificationCount: number;
   fetchTasks: () => Promise<void>;
   fetchProjects: () => Promise<void>;
   fetchArchivedProjects: () => Promise<void>;
@@ -177,25 +391,39 @@ interface AppContextType {
   fetchCustomColumns: () => Promise<void>;
   saveCustomColumns: (columns: CustomColumn[]) => Promise<void>;
   fetchCategories: () => Promise<void>;
-  createCategory: (categoryData: Partial<Category>) => Promise<Category>;
-  updateCategory: (categoryId: string, updates: Partial<Category>) => Promise<Category>;
-  deleteCategory: (categoryId: string) => Promise<void>;
+  createCategory: (categoryData: CategoryRequest) => Promise<Category>;
+  updateCategory: (categoryId: string, updates: UpdateCategoryRequest) => Promise<Category>;
+  deleteCategory: (categoryId: string, reassignTo?: string) => Promise<void>;
+  fetchNotifications: () => Promise<void>;
+  markNotificationsRead: (ids?: string[]) => Promise<void>;
+  deleteNotification: (notificationId: string) => Promise<void>;
+  savedViews: SavedView[];
+  fetchSavedViews: () => Promise<void>;
+  createSavedView: (view: SavedViewRequest) => Promise<SavedView>;
+  updateSavedView: (viewId: string, updates: UpdateSavedViewRequest) => Promise<SavedView>;
+  deleteSavedView: (viewId: string) => Promise<void>;
   updateCurrentUser: (updates: Partial<User>) => Promise<void>;
   uploadAvatar: (file: File) => Promise<void>;
   deleteAvatar: () => Promise<void>;
   createTask: (taskData: Partial<Task>) => Promise<Task>;
-  updateTask: (taskId: string, updates: Partial<Task>, options?: { silent?: boolean }) => Promise<Task>;
-  deleteTask: (taskId: string) => Promise<void>;
+  updateTask: (taskId: string, updates: Partial<Task>, options?: { silent?: boolean; recurrenceScope?: RecurrenceScope; ignoreBlockers?: boolean; baseTask?: Task }) => Promise<Task>;
+  deleteTask: (taskId: string, options?: { recurrenceScope?: RecurrenceScope }) => Promise<void>;
+  // Изменения нескольких задач сразу; тост предлагает отменить всю пачку
+  bulkUpdateTasks: (changes: BulkTaskUpdate[]) => Promise<BulkTaskResult>;
+  // Задачи сразу скрываются, на сервер удаление уходит после BULK_DELETE_UNDO_DELAY (можно отменить)
+  bulkDeleteTasks: (taskIds: string[]) => void;
+  pendingDeletedTaskIds: Set<string>; // Скрытые задачи, удаление которых еще можно отменить
   uploadTaskAttachment: (taskId: string, file: File) => Promise<TaskAttachment>;
   deleteTaskAttachment: (taskId: string, attachmentId: string) => Promise<void>;
   createProject: (projectData: Partial<Project>) => Promise<Project>;
   updateProject: (projectId: string, updates: Partial<Project>) => Promise<Project>;
+  updateProjectWorkflow: (projectId: string, statuses: Omit<WorkflowStatus, 'id' | 'projectId' | 'position'>[]) => Promise<WorkflowStatus[]>;
   archiveProject: (projectId: string) => Promise<void>;
   restoreProject: (projectId: string) => Promise<void>;
   deleteProject: (projectId: string) => Promise<void>;
   refreshData: () => Promise<void>;
   // Drag state management
-  setIsDragging: (isDragging: boolean) => void;
+  setIsDragging: (isDragging: boolean, taskId?: string) => void;
   // Permission helpers
   getUserRoleInProject: (projectId: string) => UserRole;
   canViewAllProjectTasks: (projectId: string) => boolean;
@@ -219,14 +447,53 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = React.useState(false);
   const [isInitialLoad, setIsInitialLoad] = React.useState(true);
   const [isRealtimeConnected, setIsRealtimeConnected] = React.useState(false);
+  const [notifications, setNotifications] = React.useState<AppNotification[]>([]);
+  const [unreadNotificationCount, setUnreadNotificationCount] = React.useState(0);
+  const [savedViews, setSavedViews] = React.useState<SavedView[]>([]);
+  const [pendingDeletedTaskIds, setPendingDeletedTaskIds] = React.useState<Set<string>>(new Set());
+  
+  // Bulk deletions waiting for the undo delay: the task ids sent to the server, the ids hidden
+  // until then (subtasks included) and the removed tasks to restore
+  const pendingBulkDeletesRef = React.useRef(new Map<string, {
+    taskIds: string[];
+    hiddenIds: Set<string>;
+    removedTasks: Task[];
+    timer: ReturnType<typeof setTimeout>;
+    isCommitting: boolean;
+  }>());
+  const pendingDeletedTaskIdsRef = React.useRef(new Set<string>());
   
   // Use ref to track drag state without causing re-renders
   const isDraggingRef = React.useRef(false);
   
+  // Realtime events received while dragging, applied when the drag ends
+  const pendingEventsRef = React.useRef<RealtimeEvent[]>([]);
+  const applyRealtimeEventRef = React.useRef<(event: RealtimeEvent) => void>(() => {});
+  
+  // Актуальный список задач для колбэков без зависимостей
+  const tasksRef = React.useRef<Task[]>([]);
+  tasksRef.current = tasks;
+
+  // Задача в момент начала перетаскивания - от ее версии считается изменение при сбросе
+  const dragBaseTaskRef = React.useRef<Task | null>(null);
+  
   // Function to set drag state
-  const setIsDragging = React.useCallback((isDragging: boolean) => {
+  const setIsDragging = React.useCallback((isDragging: boolean, taskId?: string) => {
     isDraggingRef.current = isDragging;
     console.log('[AppContext] Drag state:', isDragging);
+
+    if (isDragging) {
+      dragBaseTaskRef.current = taskId ? tasksRef.current.find(t => t.id === taskId) || null : null;
+    } else {
+      // drop вызывается раньше end, поэтому обновление задачи уже получило снимок
+      dragBaseTaskRef.current = null;
+    }
+    
+    if (!isDragging && pendingEventsRef.current.length > 0) {
+      const pending = pendingEventsRef.current;
+      pendingEventsRef.current = [];
+      pending.forEach((event) => applyRealtimeEventRef.current(event));
+    }
   }, []);
 
   const fetchTasks = React.useCallback(async () => {
@@ -243,6 +510,8 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       // Deduplicate tasks by ID to prevent display issues
       const uniqueTasksMap = new Map();
       fetchedTasks.forEach((task: Task) => {
+        // Deletion is only delayed so it can be undone, the task stays hidden
+        if (pendingDeletedTaskIdsRef.current.has(task.id)) return;
         if (!uniqueTasksMap.has(task.id)) {
           uniqueTasksMap.set(task.id, task);
         }
@@ -356,6 +625,11 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
           email: user.email,
           name: user.name || user.user_metadata?.name || 'Пользователь',
           avatarUrl: user.avatarUrl || user.user_metadata?.avatarUrl,
+          emailVerified: user.emailVerified,
+          pendingEmail: user.pendingEmail,
+          passwordChangedAt: user.passwordChangedAt,
+          twoFactorEnabled: user.twoFactorEnabled,
+          backupCodesRemaining: user.backupCodesRemaining,
           createdAt: user.createdAt || user.created_at,
         };
         setCurrentUser(userData);
@@ -476,7 +750,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         return;
       }
       
-      const categoriesData = await categoriesAPI.getCategories();
+      const categoriesData = await categoriesAPI.getAll();
       setCategories(categoriesData);
       console.log('✅ Категории загружены:', categoriesData.length);
     } catch (error: any) {
@@ -486,96 +760,161 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  const createCategory = React.useCallback(async (categoryData: Partial<Category>): Promise<Category> => {
-    try {
-      const token = await getAuthToken();
-      if (!token) {
-        throw new Error('Необходима авторизация');
-      }
-      
-      const userId = getUserIdFromToken();
-      if (!userId) {
-        throw new Error('Не удалось получить userId из токена');
-      }
-      
-      const newCategory = {
-        ...categoryData,
-        id: categoryData.id || `cat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        userId: currentUser?.id || userId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      
-      const updatedCategories = [...categories, newCategory];
-      await categoriesAPI.saveCategories(updatedCategories);
+  // By name (the order of GET /api/categories)
+  const sortCategories = (list: Category[]) =>
+    [...list].sort((a, b) => a.name.localeCompare(b.name));
 
-      setCategories(updatedCategories);
-      console.log('✅ Категория создана:', newCategory);
+  const createCategory = React.useCallback(async (categoryData: CategoryRequest) => {
+    try {
+      const created = await categoriesAPI.create(parseRequest(categorySchema, categoryData));
+      setCategories((prev) => sortCategories([...prev, created]));
       toast.success('Категория создана');
-      return newCategory as Category;
+      return created;
     } catch (error: any) {
       console.error('❌ Ошибка создания категории:', error);
       toast.error(error.message || 'Ошибка создания категории');
       throw error;
     }
-  }, [categories, currentUser]);
+  }, []);
 
-  const updateCategory = React.useCallback(async (categoryId: string, updates: Partial<Category>): Promise<Category> => {
+  const updateCategory = React.useCallback(async (categoryId: string, updates: UpdateCategoryRequest) => {
     try {
-      const token = await getAuthToken();
-      if (!token) {
-        throw new Error('Необходима авторизация');
-      }
-      
-      const updatedCategories = categories.map(c => 
-        c.id === categoryId 
-          ? { ...c, ...updates, updatedAt: new Date().toISOString() }
-          : c
-      );
-      
-      await categoriesAPI.saveCategories(updatedCategories);
-
-      const updatedCategory = updatedCategories.find(c => c.id === categoryId)!;
-      setCategories(updatedCategories);
-      console.log('✅ Категория обновлена:', updatedCategory);
+      const updated = await categoriesAPI.update(categoryId, parseRequest(updateCategorySchema, updates));
+      setCategories((prev) => sortCategories(prev.map((c) => (c.id === categoryId ? updated : c))));
       toast.success('Категория обновлена');
-      return updatedCategory;
+      return updated;
     } catch (error: any) {
       console.error('❌ Ошибка обновления категории:', error);
       toast.error(error.message || 'Ошибка обновления категории');
       throw error;
     }
-  }, [categories]);
+  }, []);
 
-  const deleteCategory = React.useCallback(async (categoryId: string): Promise<void> => {
+  // Задачи удаленной категории переносятся в reassignTo или остаются без категории
+  const deleteCategory = React.useCallback(async (categoryId: string, reassignTo?: string) => {
+    try {
+      await categoriesAPI.delete(categoryId, reassignTo);
+      setCategories((prev) => prev.filter((c) => c.id !== categoryId));
+      setTasks((prev) => prev.map((t) => (t.categoryId === categoryId ? { ...t, categoryId: reassignTo } : t)));
+      toast.success('Категория удалена');
+    } catch (error: any) {
+      console.error('❌ Ошибка удаления категории:', error);
+      toast.error(error.message || 'Ошибка удаления категории');
+      throw error;
+    }
+  }, []);
+
+  const fetchNotifications = React.useCallback(async () => {
     try {
       const token = await getAuthToken();
       if (!token) {
-        throw new Error('Необходима авторизация');
+        return;
       }
-      
-      const updatedCategories = categories.filter(c => c.id !== categoryId);
-      await categoriesAPI.saveCategories(updatedCategories);
 
-      setCategories(updatedCategories);
-      console.log('✅ Категория удалена:', categoryId);
-      toast.success('Категория удалена');
+      const data = await notificationsAPI.getAll();
+      setNotifications(data.notifications);
+      setUnreadNotificationCount(data.unreadCount);
     } catch (error: any) {
-      console.error('❌ Ошибка удаления категории:', error);
-      toast.error(error.message || 'Ошибка удаления категории');
+      if (!error.message?.includes('авторизован') && !error.message?.includes('Not authenticated')) {
+        console.error('❌ Ошибка загрузки уведомлений:', error);
+      }
+    }
+  }, []);
+
+  const markNotificationsRead = React.useCallback(async (ids?: string[]) => {
+    // Optimistic update: the inbox should react instantly
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((n) => (!n.readAt && (!ids || ids.includes(n.id)) ? { ...n, readAt } : n))
+    );
+    try {
+      const { unreadCount } = await notificationsAPI.markRead(ids);
+      setUnreadNotificationCount(unreadCount);
+    } catch (error: any) {
+      console.error('❌ Ошибка отметки уведомлений:', error);
+      fetchNotifications();
+    }
+  }, [fetchNotifications]);
+
+  const deleteNotification = React.useCallback(async (notificationId: string) => {
+    try {
+      await notificationsAPI.delete(notificationId);
+      const removed = notifications.find((n) => n.id === notificationId);
+      if (removed && !removed.readAt) {
+        setUnreadNotificationCount((count) => Math.max(count - 1, 0));
+      }
+      setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+    } catch (error: any) {
+      console.error('❌ Ошибка удаления уведомления:', error);
+      toast.error(error.message || 'Ошибка удаления уведомления');
+    }
+  }, [notifications]);
+
+  const fetchSavedViews = React.useCallback(async () => {
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        return;
+      }
+
+      setSavedViews(await savedViewsAPI.getAll());
+    } catch (error: any) {
+      if (!error.message?.includes('авторизован') && !error.message?.includes('Not authenticated')) {
+        console.error('❌ Ошибка загрузки сохраненных представлений:', error);
+      }
+    }
+  }, []);
+
+  // Pinned views first, then by name (the order of GET /api/saved-views)
+  const sortSavedViews = (views: SavedView[]) =>
+    [...views].sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name));
+
+  const createSavedView = React.useCallback(async (view: SavedViewRequest) => {
+    try {
+      const created = await savedViewsAPI.create(parseRequest(savedViewSchema, view));
+      setSavedViews((prev) => sortSavedViews([...prev, created]));
+      toast.success('Представление сохранено');
+      return created;
+    } catch (error: any) {
+      console.error('❌ Ошибка сохранения представления:', error);
+      toast.error(error.message || 'Ошибка сохранения представления');
+      throw error;
+    }
+  }, []);
+
+  const updateSavedView = React.useCallback(async (viewId: string, updates: UpdateSavedViewRequest) => {
+    try {
+      const updated = await savedViewsAPI.update(viewId, parseRequest(updateSavedViewSchema, updates));
+      setSavedViews((prev) => sortSavedViews(prev.map((v) => (v.id === viewId ? updated : v))));
+      return updated;
+    } catch (error: any) {
+      console.error('❌ Ошибка обновления представления:', error);
+      toast.error(error.message || 'Ошибка обновления представления');
       throw error;
     }
-  }, [categories]);
+  }, []);
+
+  const deleteSavedView = React.useCallback(async (viewId: string) => {
+    try {
+      await savedViewsAPI.delete(viewId);
+      setSavedViews((prev) => prev.filter((v) => v.id !== viewId));
+      toast.success('Представление удалено');
+    } catch (error: any) {
+      console.error('❌ Ошибка удаления представления:', error);
+      toast.error(error.message || 'Ошибка удаления представления');
+      throw error;
+    }
+  }, []);
 
   const updateCurrentUser = React.useCallback(async (updates: Partial<User>) => {
     try {
-      const updatedUser = await authAPI.updateProfile(updates);
-      setCurrentUser((prev) => prev ? { ...prev, ...updates } : null);
+      const updatedUser = await authAPI.updateProfile({ name: updates.name });
+      setCurrentUser((prev) => prev ? { ...prev, ...updatedUser } : null);
       toast.success('Профиль обновлен');
       return updatedUser;
     } catch (error: any) {
       console.error('❌ Ошибка обновления профиля:', error);
-      toast.error('Ошибка обновления профиля');
+      toast.error(error.message || 'Ошибка обновления профиля');
       throw error;
     }
   }, []);
@@ -599,7 +938,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       toast.success('Аватар удален');
     } catch (error: any) {
       console.error('❌ Ошибка удаления аватара:', error);
-      toast.error('Ошибка удаления аватара');
+      toast.error(error.message || 'Ошибка удаления аватара');
       throw error;
     }
   }, []);
@@ -670,65 +1009,160 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   // Load custom columns and categories when user is loaded
   React.useEffect(() => {
     if (currentUser) {
-      console.log('👤 User loaded, fetching custom columns and categories...');
+      console.log('👤 User loaded, fetching custom columns, categories, notifications and saved views...');
       fetchCustomColumns();
       fetchCategories();
+      fetchNotifications();
+      fetchSavedViews();
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentUser?.id]); // Only re-run when user ID changes
 
-  // Real-time subscriptions for tasks and projects
+  /**
+   * Apply a change pushed by the server to local state
+   */
+  const applyRealtimeEvent = React.useCallback((event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'task.created':
+      case 'task.updated':
+      case 'task.reordered': {
+        const incoming = event.payload as Task;
+        if (pendingDeletedTaskIdsRef.current.has(incoming.id)) break;
+        setTasks((prev) => {
+          const existing = prev.find((t) => t.id === incoming.id);
+          if (!existing) {
+            return [...prev, incoming];
+          }
+          // Ignore echoes of our own optimistic updates
+          if (existing.updatedAt === incoming.updatedAt && existing.version === incoming.version) {
+            return prev;
+          }
+          return prev.map((t) => (t.id === incoming.id ? incoming : t));
+        });
+        break;
+      }
+      case 'task.deleted':
+        setTasks((prev) => prev.filter((t) => t.id !== event.payload.id));
+        break;
+      case 'project.deleted':
+        setProjects((prev) => prev.filter((p) => p.id !== event.projectId));
+        setArchivedProjects((prev) => prev.filter((p) => p.id !== event.projectId));
+        setTasks((prev) => prev.filter((t) => t.projectId !== event.projectId));
+        break;
+      case 'project.updated':
+        fetchProjects();
+        // Проект мог быть архивирован или восстановлен другим участником
+        if (event.payload?.archived) {
+          fetchArchivedProjects();
+        } else {
+          setArchivedProjects((prev) => prev.filter((p) => p.id !== event.projectId));
+        }
+        break;
+      case 'member.added':
+      case 'member.updated':
+      case 'member.removed':
+        // Membership affects both project list and task visibility
+        fetchProjects();
+        fetchTasks();
+        break;
+      case 'notification.created': {
+        const notification = event.payload as AppNotification;
+        setNotifications((prev) =>
+          prev.some((n) => n.id === notification.id) ? prev : [notification, ...prev]
+        );
+        setUnreadNotificationCount((count) => count + 1);
+        toast.info(notification.title, { description: notification.message });
+        break;
+      }
+    }
+  }, [fetchTasks, fetchProjects, fetchArchivedProjects]);
+  applyRealtimeEventRef.current = applyRealtimeEvent;
+
+  // Real-time subscriptions for tasks and projects (Server-Sent Events)
   React.useEffect(() => {
     // Только если пользователь авторизован
     if (!currentUser) {
-      console.log('⏸️ Polling не запущен - пользователь не авторизован');
+      console.log('⏸️ Realtime не запущен - пользователь не авторизован');
       return;
     }
     
-    console.log('🔴 Подключение polling для синхронизации...');
+    console.log('🔴 Подключение к потоку realtime-событий...');
     
-    // Use polling instead of realtime for KV store compatibility
-    const intervalId = setInterval(async () => {
-      try {
-        // Skip fetchTasks if currently dragging to prevent conflicts
-        const shouldFetchTasks = !isDraggingRef.current;
-        
-        if (shouldFetchTasks) {
-          // Обновляем данные каждые 5 секунд используя существующие API функции
-          await Promise.all([
-            fetchTasks(),
-            fetchProjects(),
-            fetchCustomColumns(), // Также обновляем кастомные колонки
-            fetchCategories(), // Также обновляем категории
-          ]);
-        } else {
-          // If dragging, only update non-task data
-          console.log('[Polling] Skipping fetchTasks during drag operation');
-          await Promise.all([
-            fetchProjects(),
-            fetchCustomColumns(),
-            fetchCategories(),
-          ]);
-        }
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let isClosed = false;
 
-        // Если успешно получили данные, считаем что подключение активно
-        setIsRealtimeConnected(true);
+    // Was the stream interrupted? Then we may have missed events and need a full resync
+    let needsResync = false;
+
+    const connect = async () => {
+      try {
+        eventSource = await realtimeAPI.connect();
       } catch (error) {
-        console.error('Polling error:', error);
+        console.error('Realtime connection error:', error);
         setIsRealtimeConnected(false);
+        return;
       }
-    }, 5000); // Обновление каждые 5 секунд (уменьшено с 3 для снижения нагрузки)
+      if (isClosed) {
+        eventSource.close();
+        return;
+      }
+
+      eventSource.onopen = () => {
+        console.log('✅ Realtime подключен');
+        setIsRealtimeConnected(true);
+        if (needsResync) {
+          needsResync = false;
+          fetchTasks();
+          fetchProjects();
+          fetchNotifications();
+        }
+      };
+
+      eventSource.onerror = () => {
+        // EventSource reconnects automatically (retry is sent by the server)
+        console.warn('⚠️ Realtime соединение потеряно, переподключение...');
+        setIsRealtimeConnected(false);
+        needsResync = true;
+
+        // A rejected reconnect (the stream ticket is single-use, or the session was revoked) closes
+        // the stream for good: open a new one with a new ticket, a revoked session ends with
+        // SESSION_ENDED_EVENT instead
+        if (eventSource?.readyState === EventSource.CLOSED && !isClosed) {
+          eventSource.close();
+          reconnectTimer = setTimeout(() => {
+            if (!isClosed) connect();
+          }, 3000);
+        }
+      };
+
+      eventSource.addEventListener('change', (message: MessageEvent) => {
+        try {
+          const event: RealtimeEvent = JSON.parse(message.data);
+          // Defer task events during drag to prevent cards jumping under the cursor
+          if (isDraggingRef.current && event.type.startsWith('task.')) {
+            pendingEventsRef.current.push(event);
+            return;
+          }
+          applyRealtimeEvent(event);
+        } catch (error) {
+          console.error('Failed to handle realtime event:', error);
+        }
+      });
+    };
 
-    console.log('✅ Polling включен (обновление каждые 5 секунд)');
-    setIsRealtimeConnected(true);
+    connect();
 
-    // Cleanup polling on unmount
+    // Cleanup subscription on unmount
     return () => {
-      console.log('🔴 Отключение polling...');
-      clearInterval(intervalId);
+      console.log('🔴 Отключение realtime...');
+      isClosed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      eventSource?.close();
       setIsRealtimeConnected(false);
     };
-  }, [currentUser, fetchTasks, fetchProjects, fetchCustomColumns, fetchCategories]); // Re-subscribe when user or fetch functions change
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUser?.id, fetchTasks, fetchProjects, fetchNotifications, applyRealtimeEvent]); // Re-subscribe when user changes
 
   // RefreshData function for manual refresh
   const refreshData = React.useCallback(async () => {
@@ -770,7 +1204,8 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
 
   const createTask = async (taskData: Partial<Task>): Promise<Task> => {
     try {
-      const newTask = await tasksAPI.create(taskData);
+      // Поля, которых нет в контракте API, отбрасываются; некорректные значения не уходят на сервер
+      const newTask = await tasksAPI.create(parseRequest(createTaskSchema, taskData));
       // Добавляем новую задачу в локальное состояние сразу
       setTasks((prev) => [...prev, newTask]);
       toast.success('Задача создана');
@@ -792,7 +1227,83 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const updateTask = async (taskId: string, updates: Partial<Task>, options?: { silent?: boolean }): Promise<Task> => {
+  /**
+   * Разрешение конфликта версий (409) при обновлении задачи
+   * - поля, которые менял только другой пользователь, берем с сервера
+   * - поля, которые менял только текущий пользователь, автоматически применяем повторно
+   * - если одно поле изменили оба, показываем серверную версию и предлагаем перезаписать
+   */
+  const resolveTaskConflict = async (
+    taskId: string,
+    updates: Partial<Task>,
+    baseTask: Task | undefined,
+    conflict: TaskConflictError,
+    options?: { silent?: boolean; recurrenceScope?: RecurrenceScope; ignoreBlockers?: boolean; baseTask?: Task }
+  ): Promise<Task> => {
+    const serverTask = conflict.currentTask as Task;
+    setTasks((prev) => prev.map((t) => (t.id === taskId ? serverTask : t)));
+
+    const mergedUpdates: Record<string, any> = { ...updates };
+    const conflictingFields: string[] = [];
+    conflict.diff.forEach(({ field, yours, theirs }) => {
+      const baseValue = baseTask ? baseTask[field as keyof Task] : undefined;
+      if (isSameFieldValue(yours, baseValue)) {
+        // Поле изменил только другой пользователь - оставляем серверное значение
+        delete mergedUpdates[field];
+      } else if (!isSameFieldValue(theirs, baseValue)) {
+        conflictingFields.push(field);
+      }
+    });
+
+    const saveOnTop = async (): Promise<Task> => {
+      const savedTask = await tasksAPI.update(taskId, parseRequest(updateTaskSchema, {
+        ...mergedUpdates,
+        version: serverTask.version,
+        ...(options?.recurrenceScope ? { recurrenceScope: options.recurrenceScope } : {}),
+        ...(options?.ignoreBlockers ? { ignoreBlockers: true } : {}),
+      }));
+      setTasks((prev) => prev.map((t) => (t.id === taskId ? savedTask : t)));
+      return savedTask;
+    };
+
+    if (conflictingFields.length === 0) {
+      console.log('🔀 Конфликт версий разрешен автоматически:', { taskId, diff: conflict.diff });
+      const mergedTask = await saveOnTop();
+      if (!options?.silent) {
+        toast.success('Задача обновлена (объединено с изменениями другого пользователя)');
+      }
+      return mergedTask;
+    }
+
+    console.warn('⚠️ Конфликт версий задачи:', { taskId, conflictingFields, diff: conflict.diff });
+    toast.warning('Задачу одновременно изменил другой пользователь', {
+      description: `Показана актуальная версия. Конфликтующие поля: ${conflictingFields
+        .map((field) => TASK_FIELD_LABELS[field] || field)
+        .join(', ')}`,
+      duration: 10000,
+      action: {
+        label: 'Перезаписать',
+        onClick: () => {
+          saveOnTop()
+            .then(() => toast.success('Ваши изменения сохранены'))
+            .catch((retryError: any) => {
+              console.error('Overwrite task error:', retryError);
+              toast.error(retryError instanceof TaskConflictError
+                ? 'Задача снова изменилась. Откройте ее и повторите изменения'
+                : retryError.message || 'Ошибка обновления задачи');
+            });
+        },
+      },
+    });
+    throw conflict;
+  };
+
+  const updateTask = async (taskId: string, updates: Partial<Task>, options?: { silent?: boolean; recurrenceScope?: RecurrenceScope; ignoreBlockers?: boolean; baseTask?: Task }): Promise<Task> => {
+    // Версия задачи, на основе которой сделаны изменения (проверяется сервером):
+    // снимок из открытой формы или начала перетаскивания, иначе текущее состояние
+    const dragBaseTask = dragBaseTaskRef.current?.id === taskId ? dragBaseTaskRef.current : undefined;
+    const baseTask = options?.baseTask ?? dragBaseTask ?? tasks.find(t => t.id === taskId);
+    
     // Сохраняем оригинальную задачу для возможного отката
     let originalTask: Task | undefined;
     
@@ -807,7 +1318,13 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     });
     
     try {
-      const updatedTask = await tasksAPI.update(taskId, updates);
+      // recurrenceScope: 'future' - изменения применяются ко всем будущим повторениям серии
+      const updatedTask = await tasksAPI.update(taskId, parseRequest(updateTaskSchema, {
+        ...updates,
+        version: baseTask?.version,
+        ...(options?.recurrenceScope ? { recurrenceScope: options.recurrenceScope } : {}),
+        ...(options?.ignoreBlockers ? { ignoreBlockers: true } : {}),
+      }));
       // Обновляем с реальными данными сервера
       setTasks((prev) => prev.map((t) => (t.id === taskId ? updatedTask : t)));
       
@@ -817,6 +1334,11 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       }
       return updatedTask;
     } catch (error: any) {
+      // Задачу изменил кто-то другой - объединяем изменения вместо перезаписи
+      if (error instanceof TaskConflictError && error.currentTask) {
+        return resolveTaskConflict(taskId, updates, baseTask, error, options);
+      }
+      
       console.error('Update task error:', error);
       
       // Откатываем оптимистичное обновление в случае ошибки
@@ -824,8 +1346,30 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         setTasks((prev) => prev.map((t) => (t.id === taskId ? originalTask : t)));
       }
       
-      // Check if it's a permission error (403)
-      if (error.message && (error.message.includes('permission') || error.message.includes('do not have'))) {
+      if (error instanceof TaskBlockedError) {
+        // Недоступные пользователю блокирующие задачи показываем без названия
+        const blockerTitles = error.blockers.map((b) => (b.title ? `«${b.title}»` : 'скрытая задача')).join(', ');
+        if (error.canOverride) {
+          toast.warning('Задача заблокирована незавершёнными задачами', {
+            description: blockerTitles,
+            duration: 10000,
+            action: {
+              label: 'Всё равно завершить',
+              onClick: () => {
+                updateTask(taskId, updates, { ...options, baseTask, ignoreBlockers: true }).catch(() => {
+                  // Ошибка уже показана в updateTask
+                });
+              },
+            },
+          });
+        } else {
+          toast.error('Нельзя завершить задачу, пока не выполнены блокирующие задачи', {
+            description: blockerTitles,
+            duration: 8000,
+          });
+        }
+      } else if (error.message && (error.message.includes('permission') || error.message.includes('do not have'))) {
+        // Check if it's a permission error (403)
         toast.error('У вас недостаточно прав для выполнения этого действия', { duration: 5000 });
       } else if (error.message && error.message.includes('авторизован')) {
         // Check if it's an authentication error
@@ -841,25 +1385,52 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const deleteTask = async (taskId: string): Promise<void> => {
-    // Сохраняем задачу на случай отката
-    let deletedTask: Task | undefined;
+  const deleteTask = async (taskId: string, options?: { recurrenceScope?: RecurrenceScope }): Promise<void> => {
+    // Сохраняем задачи на случай отката
+    let deletedTasks: Task[] = [];
     
     // Оптимистично удаляем из UI
+    // Для scope 'future' удаляем также все незавершенные будущие повторения серии
     setTasks((prev) => {
-      deletedTask = prev.find(t => t.id === taskId);
-      return prev.filter((t) => t.id !== taskId);
+      const task = prev.find(t => t.id === taskId);
+      if (!task) return prev;
+      
+      deletedTasks = prev.filter((t) =>
+        t.id === taskId ||
+        (options?.recurrenceScope === 'future' &&
+          !!task.recurrenceRuleId &&
+          t.recurrenceRuleId === task.recurrenceRuleId &&
+          t.status !== 'done' &&
+          new Date(t.createdAt) >= new Date(task.createdAt))
+      );
+      const deletedIds = new Set(deletedTasks.map(t => t.id));
+      // Подзадачи удаляются вместе с родителем (на любой глубине)
+      let subtasks = prev.filter((t) => t.parentTaskId && deletedIds.has(t.parentTaskId));
+      while (subtasks.length > 0) {
+        subtasks.forEach((t) => deletedIds.add(t.id));
+        deletedTasks = [...deletedTasks, ...subtasks];
+        subtasks = prev.filter((t) => t.parentTaskId && deletedIds.has(t.parentTaskId) && !deletedIds.has(t.id));
+      }
+      return prev.filter((t) => !deletedIds.has(t.id));
     });
     
     try {
-      await tasksAPI.delete(taskId);
-      toast.success('Задача удалена');
+      const { deletedIds } = await tasksAPI.delete(taskId, options?.recurrenceScope);
+      // Повторения, которые пользователь не может удалить, сервер оставляет - возвращаем их
+      if (deletedIds) {
+        const keptTasks = deletedTasks.filter((t) => !deletedIds.includes(t.id));
+        if (keptTasks.length > 0) {
+          setTasks((prev) => [...prev, ...keptTasks]);
+          deletedTasks = deletedTasks.filter((t) => deletedIds.includes(t.id));
+        }
+      }
+      toast.success(deletedTasks.length > 1 ? `Удалено задач: ${deletedTasks.length}` : 'Задача удалена');
     } catch (error: any) {
       console.error('Delete task error:', error);
       
       // Откатываем удаление в случае ошибки
-      if (deletedTask) {
-        setTasks((prev) => [...prev, deletedTask]);
+      if (deletedTasks.length > 0) {
+        setTasks((prev) => [...prev, ...deletedTasks]);
       }
       
       // Check if it's a permission error (403)
@@ -872,9 +1443,158 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const bulkUpdateTasks = async (changes: BulkTaskUpdate[], options?: { isUndo?: boolean }): Promise<BulkTaskResult> => {
+    // Версии, на основе которых сделаны изменения: задачи, измененные с тех пор, пропускаются
+    const versions = new Map(tasks.map((t) => [t.id, t.version]));
+    
+    try {
+      const result = await tasksAPI.bulk(parseRequest(bulkTaskSchema, {
+        action: 'update',
+        tasks: changes.map((change) => ({ version: versions.get(change.id), ...change })),
+      }));
+      
+      const updatedById = new Map(result.updated.map((t) => [t.id, t]));
+      setTasks((prev) => [
+        ...prev.map((t) => updatedById.get(t.id) ?? t),
+        ...result.updated.filter((t) => !prev.some((p) => p.id === t.id)),
+      ]);
+      
+      // previous - старые значения с новыми версиями: отправленные обратно, они отменяют всю пачку
+      const undoAction = !options?.isUndo && result.previous.length > 0
+        ? {
+            label: 'Отменить',
+            onClick: () => {
+              bulkUpdateTasks(result.previous, { isUndo: true }).catch(() => {
+                // Ошибка уже показана
+              });
+            },
+          }
+        : undefined;
+      const updatedCount = result.updated.length;
+      
+      if (result.failed.length === 0) {
+        toast.success(options?.isUndo ? 'Изменения отменены' : `Обновлено задач: ${updatedCount}`, {
+          action: undoAction,
+        });
+      } else if (updatedCount > 0) {
+        toast.warning(options?.isUndo
+          ? `Изменения отменены для ${updatedCount} из ${updatedCount + result.failed.length} задач`
+          : `Обновлено задач: ${updatedCount} из ${updatedCount + result.failed.length}`, {
+          description: describeBulkFailures(result.failed),
+          duration: 10000,
+          action: undoAction,
+        });
+      } else {
+        toast.error(options?.isUndo ? 'Не удалось отменить изменения' : 'Не удалось изменить задачи', {
+          description: describeBulkFailures(result.failed),
+          duration: 8000,
+        });
+      }
+      return result;
+    } catch (error: any) {
+      console.error('Bulk update tasks error:', error);
+      toast.error(error.message || 'Ошибка обновления задач');
+      throw error;
+    }
+  };
+
+  const updatePendingDeletedTaskIds = React.useCallback(() => {
+    const ids = new Set<string>();
+    pendingBulkDeletesRef.current.forEach((batch) => batch.hiddenIds.forEach((id) => ids.add(id)));
+    pendingDeletedTaskIdsRef.current = ids;
+    setPendingDeletedTaskIds(ids);
+  }, []);
+
+  const restoreTasks = React.useCallback((restored: Task[]) => {
+    if (restored.length === 0) return;
+    setTasks((prev) => [...prev, ...restored.filter((t) => !prev.some((p) => p.id === t.id))]);
+  }, []);
+
+  /**
+   * Send a delayed bulk deletion to the server; tasks that could not be deleted are shown again
+   * keepalive: the page is being closed
+   */
+  const commitBulkDelete = React.useCallback(async (batchId: string, options?: { keepalive?: boolean }) => {
+    const batch = pendingBulkDeletesRef.current.get(batchId);
+    if (!batch || batch.isCommitting) return;
+    clearTimeout(batch.timer);
+    batch.isCommitting = true;
+    
+    try {
+      const result = await tasksAPI.bulk(parseRequest(bulkTaskSchema, {
+        action: 'delete',
+        taskIds: batch.taskIds,
+      }), options);
+      const deletedIds = new Set(result.deletedIds);
+      restoreTasks(batch.removedTasks.filter((t) => !deletedIds.has(t.id)));
+      
+      if (result.failed.length > 0) {
+        toast.warning(`Не удалось удалить задач: ${result.failed.length}`, {
+          description: describeBulkFailures(result.failed),
+          duration: 8000,
+        });
+      }
+    } catch (error: any) {
+      console.error('Bulk delete tasks error:', error);
+      restoreTasks(batch.removedTasks);
+      toast.error(error.message || 'Ошибка удаления задач');
+    } finally {
+      pendingBulkDeletesRef.current.delete(batchId);
+      updatePendingDeletedTaskIds();
+    }
+  }, [restoreTasks, updatePendingDeletedTaskIds]);
+
+  const bulkDeleteTasks = (taskIds: string[]): void => {
+    // Подзадачи удаляются вместе с родителем (на любой глубине)
+    const deletedIds = new Set(taskIds);
+    let subtasks = tasks.filter((t) => t.parentTaskId && deletedIds.has(t.parentTaskId));
+    while (subtasks.length > 0) {
+      subtasks.forEach((t) => deletedIds.add(t.id));
+      subtasks = tasks.filter((t) => t.parentTaskId && deletedIds.has(t.parentTaskId) && !deletedIds.has(t.id));
+    }
+    
+    // Задачи, загруженные только таблицей, тоже скрываются (их нет в tasks, восстанавливать нечего)
+    const batchId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    pendingBulkDeletesRef.current.set(batchId, {
+      taskIds,
+      hiddenIds: deletedIds,
+      removedTasks: tasks.filter((t) => deletedIds.has(t.id)),
+      timer: setTimeout(() => commitBulkDelete(batchId), BULK_DELETE_UNDO_DELAY),
+      isCommitting: false,
+    });
+    updatePendingDeletedTaskIds();
+    setTasks((prev) => prev.filter((t) => !deletedIds.has(t.id)));
+    
+    toast.success(`Удалено задач: ${taskIds.length}`, {
+      duration: BULK_DELETE_UNDO_DELAY,
+      action: {
+        label: 'Отменить',
+        onClick: () => {
+          const batch = pendingBulkDeletesRef.current.get(batchId);
+          if (!batch || batch.isCommitting) return;
+          clearTimeout(batch.timer);
+          pendingBulkDeletesRef.current.delete(batchId);
+          updatePendingDeletedTaskIds();
+          restoreTasks(batch.removedTasks);
+        },
+      },
+    });
+  };
+
+  // Отложенные удаления отправляем сразу, если страницу закрывают
+  React.useEffect(() => {
+    const handlePageHide = () => {
+      Array.from(pendingBulkDeletesRef.current.keys()).forEach((batchId) => {
+        commitBulkDelete(batchId, { keepalive: true });
+      });
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [commitBulkDelete]);
+
   const createProject = async (projectData: Partial<Project>): Promise<Project> => {
     try {
-      const newProject = await projectsAPI.create(projectData);
+      const newProject = await projectsAPI.create(parseRequest(createProjectSchema, projectData));
       // Immediately refetch projects to ensure we have the correct role and membership data
       await fetchProjects();
       toast.success('Проект создан');
@@ -901,7 +1621,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     });
     
     try {
-      const updatedProject = await projectsAPI.update(projectId, updates);
+      const updatedProject = await projectsAPI.update(projectId, parseRequest(updateProjectSchema, updates));
       // Обновляем реальными данными с сервера
       setProjects((prev) => prev.map((p) => (p.id === projectId ? updatedProject : p)));
       toast.success('Проект обновлен');
@@ -919,6 +1639,22 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const updateProjectWorkflow = async (
+    projectId: string,
+    statuses: Omit<WorkflowStatus, 'id' | 'projectId' | 'position'>[]
+  ): Promise<WorkflowStatus[]> => {
+    try {
+      const workflowStatuses: WorkflowStatus[] = await projectsAPI.updateWorkflow(projectId, statuses);
+      setProjects((prev) => prev.map((p) => (p.id === projectId ? { ...p, workflowStatuses } : p)));
+      toast.success('Статусы проекта обновлены');
+      return workflowStatuses;
+    } catch (error: any) {
+      console.error('Update workflow error:', error);
+      toast.error(error.message || 'Ошибка обновления статусов проекта');
+      throw error;
+    }
+  };
+
   const archiveProject = async (projectId: string): Promise<void> => {
     // Сохраняем для отката
     let originalProject: Project | undefined;
@@ -1196,6 +1932,8 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     isLoading,
     isInitialLoad,
     isRealtimeConnected,
+    notifications,
+    unreadNotificationCount,
     fetchTasks,
     fetchProjects,
     fetchArchivedProjects,
@@ -1207,16 +1945,28 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     createCategory,
     updateCategory,
     deleteCategory,
+    fetchNotifications,
+    markNotificationsRead,
+    deleteNotification,
+    savedViews,
+    fetchSavedViews,
+    createSavedView,
+    updateSavedView,
+    deleteSavedView,
     updateCurrentUser,
     uploadAvatar,
     deleteAvatar,
     createTask,
     updateTask,
     deleteTask,
+    bulkUpdateTasks,
+    bulkDeleteTasks,
+    pendingDeletedTaskIds,
     uploadTaskAttachment,
     deleteTaskAttachment,
     createProject,
     updateProject,
+    updateProjectWorkflow,
     archiveProject,
     restoreProject,
     deleteProject,
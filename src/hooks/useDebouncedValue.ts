@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Значение, которое догоняет value только после паузы в delayMs
+ * Пока пользователь печатает, промежуточные значения пропускаются
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debouncedValue;
+}
@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import { toast } from 'sonner@2.0.3';
 import { generateOrderKey, compareOrderKeys } from '../utils/orderKey';
+import { TaskConflictError, TaskBlockedError } from '../utils/api-client';
 import type { Task } from '../contexts/app-context';
 
 interface UseKanbanDnDOptions {
@@ -54,6 +55,17 @@ export function useKanbanDnD({ tasks, onUpdateTask }: UseKanbanDnDOptions) {
     return () => clearTimeout(cleanupTimer);
   }, [tasks]);
 
+  // Убираем задачу из локального порядка - карточка встанет по серверному orderKey
+  const dropFromTaskOrder = useCallback((taskId: string) => {
+    setTaskOrder(prev => {
+      const updated: TaskOrderState = {};
+      Object.entries(prev).forEach(([status, ids]) => {
+        updated[status] = ids.filter(id => id !== taskId);
+      });
+      return updated;
+    });
+  }, []);
+
   // Обработчик перемещения карточки
   const handleMoveCard = useCallback(async (
     draggedId: string,
@@ -166,6 +178,23 @@ export function useKanbanDnD({ tasks, onUpdateTask }: UseKanbanDnDOptions) {
       // Успешно сохранено - очищаем сохраненное состояние
       setSavedState(null);
     } catch (error) {
+      // Карточку одновременно изменил другой пользователь: updateTask уже показал
+      // серверную версию и предложил перезаписать, поэтому просто сбрасываем локальный порядок
+      if (error instanceof TaskConflictError) {
+        console.warn('[useKanbanDnD] Version conflict while moving card:', error.diff);
+        dropFromTaskOrder(draggedId);
+        setSavedState(null);
+        return;
+      }
+
+      // Задачу нельзя завершить из-за блокирующих задач: updateTask уже вернул ее
+      // в прежнюю колонку и показал предупреждение (с возможностью завершить в режиме warn)
+      if (error instanceof TaskBlockedError) {
+        dropFromTaskOrder(draggedId);
+        setSavedState(null);
+        return;
+      }
+      
       console.error('[useKanbanDnD] Failed to update task:', error);
       
       // Откатываем изменения
@@ -177,7 +206,7 @@ export function useKanbanDnD({ tasks, onUpdateTask }: UseKanbanDnDOptions) {
       // Очищаем сохраненное состояние
       setSavedState(null);
     }
-  }, [tasks, taskOrder, onUpdateTask, savedState]);
+  }, [tasks, taskOrder, onUpdateTask, savedState, dropFromTaskOrder]);
 
   // Обработчик изменения статуса (перетаскивание в пустую колонку)
   const handleStatusChange = useCallback(async (taskId: string, newStatus: string) => {
@@ -196,6 +225,19 @@ export function useKanbanDnD({ tasks, onUpdateTask }: UseKanbanDnDOptions) {
       // Успешно - очищаем сохраненное состояние
       setSavedState(null);
     } catch (error) {
+      if (error instanceof TaskConflictError) {
+        console.warn('[useKanbanDnD] Version conflict while changing status:', error.diff);
+        dropFromTaskOrder(taskId);
+        setSavedState(null);
+        return;
+      }
+
+      if (error instanceof TaskBlockedError) {
+        dropFromTaskOrder(taskId);
+        setSavedState(null);
+        return;
+      }
+      
       console.error('[useKanbanDnD] Failed to change task status:', error);
       
       // При ошибке показываем уведомление (откат произойдет автоматически в updateTask)
@@ -206,7 +248,7 @@ export function useKanbanDnD({ tasks, onUpdateTask }: UseKanbanDnDOptions) {
       
       setSavedState(null);
     }
-  }, [tasks, taskOrder, onUpdateTask, savedState]);
+  }, [tasks, taskOrder, onUpdateTask, savedState, dropFromTaskOrder]);
 
   return {
     taskOrder,
@@ -0,0 +1,68 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Выбор строк таблицы задач для массовых действий
+ * orderedIds - видимые задачи в порядке строк: по ним выделяется диапазон при клике с Shift
+ */
+export function useTaskSelection(orderedIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Строка последнего клика - начало диапазона для Shift
+  const anchorIdRef = useRef<string | null>(null);
+
+  // Убираем из выбора задачи, которые пропали из таблицы (фильтр, удаление, перемещение)
+  useEffect(() => {
+    const visibleIds = new Set(orderedIds);
+    setSelectedIds(prev => {
+      if (Array.from(prev).every(id => visibleIds.has(id))) {
+        return prev;
+      }
+      return new Set(Array.from(prev).filter(id => visibleIds.has(id)));
+    });
+  }, [orderedIds]);
+
+  // С Shift все строки от предыдущего клика до этой получают состояние этой строки
+  const toggle = useCallback((taskId: string, withRange = false) => {
+    const anchorId = anchorIdRef.current;
+    anchorIdRef.current = taskId;
+
+    setSelectedIds(prev => {
+      const select = !prev.has(taskId);
+      const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1;
+      const index = orderedIds.indexOf(taskId);
+      const rangeIds = withRange && anchorIndex !== -1 && index !== -1
+        ? orderedIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        : [taskId];
+
+      const next = new Set(prev);
+      rangeIds.forEach(id => (select ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  }, [orderedIds]);
+
+  const isAllSelected = orderedIds.length > 0 && orderedIds.every(id => selectedIds.has(id));
+
+  // Чекбокс в заголовке: выбрать все видимые строки или снять выбор
+  const toggleAll = useCallback(() => {
+    setSelectedIds(isAllSelected ? new Set() : new Set(orderedIds));
+  }, [isAllSelected, orderedIds]);
+
+  const selectIds = useCallback((taskIds: string[]) => {
+    setSelectedIds(new Set(taskIds));
+  }, []);
+
+  const clear = useCallback(() => {
+    anchorIdRef.current = null;
+    setSelectedIds(new Set());
+  }, []);
+
+  return {
+    selectedIds,
+    isAllSelected,
+    isSomeSelected: selectedIds.size > 0 && !isAllSelected,
+    toggle,
+    toggleAll,
+    selectIds,
+    clear,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Account utilities
+ * Email change confirmation and account deletion
+ *
+ * Deleting an account:
+ * - is refused while the user owns projects with other members (ownership must be transferred first)
+ * - deletes the user's personal tasks and the projects only they belong to
+ * - keeps the tasks they created in other projects, the project owner becomes their creator
+ * - keeps their comments and activity entries without an author (onDelete: SetNull)
+ */
+
+import crypto from 'crypto';
+import prisma from './prisma';
+import { getAttachmentUrls, getProjectFileUrls, removeStoredFiles } from './attachments';
+
+export const EMAIL_CHANGE_TTL = 24 * 60 * 60 * 1000; // Email change links are valid for 24 hours
+export const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isValidEmail(email: unknown): email is string {
+  return typeof email === 'string' && email.length <= 254 && EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Start an email change: the new address is stored as pending until confirmed by the link sent to it
+ * Returns the raw token for the confirmation link
+ */
+export async function createEmailChangeRequest(userId: string, newEmail: string): Promise<string> {
+  const email = newEmail.trim();
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    throw new Error(existing.id === userId ? 'This is already your email' : 'Email is already in use');
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      pendingEmail: email,
+      emailChangeToken: hashToken(token),
+      emailChangeExpires: new Date(Date.now() + EMAIL_CHANGE_TTL),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Apply a pending email change by its confirmation token
+ * The new address counts as verified since the link was opened from it
+ */
+export async function confirmEmailChange(token: string) {
+  const user = await prisma.user.findFirst({
+    where: {
+      emailChangeToken: hashToken(token),
+      emailChangeExpires: { gt: new Date() },
+    },
+  });
+  if (!user || !user.pendingEmail) {
+    throw new Error('Invalid or expired email change link');
+  }
+
+  // The address could have been taken while the change was pending
+  const taken = await prisma.user.findUnique({ where: { email: user.pendingEmail } });
+  if (taken) {
+    throw new Error('Email is already in use');
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      email: user.pendingEmail,
+      emailVerified: true,
+      emailVerificationToken: null,
+      emailVerificationExpires: null,
+      pendingEmail: null,
+      emailChangeToken: null,
+      emailChangeExpires: null,
+    },
+  });
+
+  return { user: updated, previousEmail: user.email };
+}
+
+/**
+ * Projects owned by the user that other people are members of
+ * These block account deletion until ownership is transferred
+ */
+export async function getSharedOwnedProjects(userId: string): Promise<{ id: string; name: string }[]> {
+  return prisma.project.findMany({
+    where: {
+      ownerId: userId,
+      members: { some: { userId: { not: userId } } },
+    },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Delete an account together with its personal data
+ */
+export async function deleteAccount(userId: string): Promise<void> {
+  const sharedProjects = await getSharedOwnedProjects(userId);
+  if (sharedProjects.length > 0) {
+    throw new Error('Transfer ownership of your shared projects before deleting the account');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { avatarUrl: true, ownedProjects: { select: { id: true } } },
+  });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  // Files of everything removed by the cascade
+  const fileUrls = [
+    ...(await getAttachmentUrls({ task: { creatorId: userId, projectId: null } })),
+    ...(await Promise.all(user.ownedProjects.map((p) => getProjectFileUrls(p.id)))).flat(),
+    ...(user.avatarUrl ? [user.avatarUrl] : []),
+  ];
+
+  // Tasks created in other people's projects stay there, owned by the project owner
+  const foreignTasks = await prisma.task.findMany({
+    where: { creatorId: userId, project: { ownerId: { not: userId } } },
+    select: { projectId: true, project: { select: { ownerId: true } } },
+    distinct: ['projectId'],
+  });
+
+  await prisma.$transaction([
+    ...foreignTasks.map((task) =>
+      prisma.task.updateMany({
+        where: { creatorId: userId, projectId: task.projectId },
+        data: { creatorId: task.project!.ownerId },
+      })
+    ),
+    // Project categories stay with their projects, personal ones go (their tasks are left without a category)
+    prisma.category.deleteMany({ where: { ownerId: userId, projectId: null } }),
+    prisma.user.delete({ where: { id: userId } }),
+  ]);
+
+  await removeStoredFiles(fileUrls);
+}
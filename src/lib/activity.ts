@@ -0,0 +1,186 @@
+/**
+ * Activity / audit log
+ * Records who changed what (with old and new values) for tasks, projects,
+ * members and invitations, and serves task/project timelines
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+export type ActivityEntityType = 'task' | 'project' | 'member' | 'invitation' | 'attachment' | 'comment' | 'checklist' | 'dependency';
+
+export type ActivityChanges = Record<string, { from: any; to: any }>;
+
+export interface ActivityInput {
+  action: string;
+  entityType: ActivityEntityType;
+  entityId: string;
+  actorId: string | null;
+  projectId?: string | null;
+  taskId?: string | null;
+  changes?: ActivityChanges | null;
+  metadata?: Record<string, any> | null;
+}
+
+/**
+ * Task fields tracked in the history
+ * orderKey is left out: reordering inside a column is not interesting for the timeline
+ */
+export const TASK_TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'category',
+  'tags',
+  'dueDate',
+  'assigneeId',
+  'projectId',
+  'parentTaskId',
+  'creatorId',
+] as const;
+
+// Archiving is logged separately as project.archived / project.restored
+export const PROJECT_TRACKED_FIELDS = ['name', 'description', 'color', 'dependencyMode', 'requireTwoFactor'] as const;
+
+const ACTIVITY_PAGE_SIZE = 50;
+const MAX_ACTIVITY_PAGE_SIZE = 200;
+
+function toComparable(value: any): any {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === undefined) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Build a { field: { from, to } } map of the fields that actually changed
+ * Returns null when nothing changed
+ */
+export function diffFields(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  fields: readonly string[]
+): ActivityChanges | null {
+  const changes: ActivityChanges = {};
+
+  for (const field of fields) {
+    const from = toComparable(before[field]);
+    const to = toComparable(after[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Write an activity record
+ * Never throws: a failed audit write must not fail the user's request
+ */
+export async function logActivity(input: ActivityInput): Promise<void> {
+  try {
+    await prisma.activityLog.create({
+      data: {
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        actorId: input.actorId,
+        projectId: input.projectId ?? null,
+        taskId: input.taskId ?? null,
+        changes: (input.changes ?? undefined) as Prisma.InputJsonValue | undefined,
+        metadata: (input.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to write activity log:', error);
+  }
+}
+
+/**
+ * Log a task update only if tracked fields changed
+ */
+export async function logTaskUpdate(
+  before: Record<string, any>,
+  after: { id: string; projectId: string | null; title: string } & Record<string, any>,
+  actorId: string,
+  metadata?: Record<string, any>
+): Promise<void> {
+  const changes = diffFields(before, after, TASK_TRACKED_FIELDS);
+  if (!changes) {
+    return;
+  }
+
+  await logActivity({
+    action: 'task.updated',
+    entityType: 'task',
+    entityId: after.id,
+    actorId,
+    projectId: after.projectId,
+    taskId: after.id,
+    changes,
+    metadata: { title: after.title, ...metadata },
+  });
+}
+
+function parsePageOptions(options: { limit?: any; before?: any }) {
+  const limit = Math.min(
+    Math.max(parseInt(options.limit, 10) || ACTIVITY_PAGE_SIZE, 1),
+    MAX_ACTIVITY_PAGE_SIZE
+  );
+  const before = options.before ? new Date(options.before) : null;
+  return {
+    take: limit,
+    createdAt: before && !isNaN(before.getTime()) ? { lt: before } : undefined,
+  };
+}
+
+const activityInclude = {
+  actor: {
+    select: { id: true, name: true, email: true, avatarUrl: true },
+  },
+} as const;
+
+/**
+ * Get the history of a task (newest first)
+ */
+export async function getTaskActivity(
+  taskId: string,
+  options: { limit?: any; before?: any } = {}
+) {
+  const { take, createdAt } = parsePageOptions(options);
+
+  return prisma.activityLog.findMany({
+    where: { taskId, createdAt },
+    include: activityInclude,
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
+
+/**
+ * Get the history of a project including its tasks (newest first)
+ * Pass visibleTaskIds to hide task events the user is not allowed to see (members)
+ */
+export async function getProjectActivity(
+  projectId: string,
+  options: { limit?: any; before?: any; visibleTaskIds?: string[] } = {}
+) {
+  const { take, createdAt } = parsePageOptions(options);
+
+  const where: Prisma.ActivityLogWhereInput = { projectId, createdAt };
+  if (options.visibleTaskIds) {
+    where.OR = [{ taskId: null }, { taskId: { in: options.visibleTaskIds } }];
+  }
+
+  return prisma.activityLog.findMany({
+    where,
+    include: activityInclude,
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
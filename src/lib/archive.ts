@@ -0,0 +1,108 @@
+/**
+ * Project archive utilities
+ * Archived projects are read-only: their tasks, files, links and workflow cannot change
+ * until the owner restores the project
+ */
+
+import prisma from './prisma';
+
+export const ARCHIVED_PROJECT_ERROR = 'Project is archived. Restore it to make changes';
+
+// Projects with no activity for this many days are archived automatically (0 or unset disables)
+export const PROJECT_AUTO_ARCHIVE_DAYS = parseInt(process.env.PROJECT_AUTO_ARCHIVE_DAYS || '0', 10) || 0;
+
+/**
+ * Check if a project is archived
+ * Personal tasks (no project) are never frozen
+ */
+export async function isProjectArchived(projectId: string | null | undefined): Promise<boolean> {
+  if (!projectId) {
+    return false;
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { archived: true },
+  });
+
+  return project?.archived === true;
+}
+
+/**
+ * Reject changes to an archived project
+ */
+export async function assertProjectNotArchived(projectId: string | null | undefined): Promise<void> {
+  if (await isProjectArchived(projectId)) {
+    throw new Error(ARCHIVED_PROJECT_ERROR);
+  }
+}
+
+/**
+ * Reject changes to a task of an archived project
+ */
+export async function assertTaskNotArchived(taskId: string): Promise<void> {
+  const task = await prisma.task.findUnique({ where: { id: taskId }, select: { projectId: true } });
+  await assertProjectNotArchived(task?.projectId);
+}
+
+/**
+ * Fields that archive or restore a project
+ * archivedById is null for projects archived automatically
+ */
+export function buildArchiveData(archived: boolean, userId: string | null) {
+  return archived
+    ? { archived: true, archivedAt: new Date(), archivedById: userId }
+    : { archived: false, archivedAt: null, archivedById: null };
+}
+
+/**
+ * Find active projects without any activity, task change or project change in the last `days` days
+ */
+export async function findInactiveProjects(days: number): Promise<{ id: string; name: string }[]> {
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const candidates = await prisma.project.findMany({
+    where: {
+      archived: false,
+      updatedAt: { lt: cutoff },
+      tasks: { none: { updatedAt: { gte: cutoff } } },
+    },
+    select: { id: true, name: true },
+  });
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  // Activity log entries are not linked by a relation, so recent ones are looked up separately
+  const recentActivity = await prisma.activityLog.findMany({
+    where: {
+      projectId: { in: candidates.map((p) => p.id) },
+      createdAt: { gte: cutoff },
+    },
+    select: { projectId: true },
+    distinct: ['projectId'],
+  });
+  const activeIds = new Set(recentActivity.map((entry) => entry.projectId));
+
+  return candidates.filter((project) => !activeIds.has(project.id));
+}
+
+/**
+ * Archive projects that have been inactive for PROJECT_AUTO_ARCHIVE_DAYS days
+ * Returns the archived projects
+ */
+export async function autoArchiveInactiveProjects(): Promise<{ id: string; name: string }[]> {
+  if (PROJECT_AUTO_ARCHIVE_DAYS <= 0) {
+    return [];
+  }
+
+  const projects = await findInactiveProjects(PROJECT_AUTO_ARCHIVE_DAYS);
+  for (const project of projects) {
+    await prisma.project.update({
+      where: { id: project.id },
+      data: buildArchiveData(true, null),
+    });
+  }
+
+  return projects;
+}
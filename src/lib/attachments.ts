@@ -0,0 +1,282 @@
+/**
+ * Attachment utilities (task and project files)
+ * Access checks, per-project storage quotas and cleanup of stored files
+ */
+
+import type { Attachment, Prisma, ProjectAttachment } from '@prisma/client';
+import prisma from './prisma';
+import { canEditProject, canEditTask, canViewProject, canViewTask } from './permissions';
+import { assertProjectNotArchived } from './archive';
+import { getStorage, getStorageKey, getStorageUrl } from './storage';
+
+const DEFAULT_PROJECT_QUOTA_MB = 500;
+
+// Files younger than this are never collected: an upload may not have its row yet
+const ORPHAN_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+// Mime types the preview endpoint serves inline
+const PREVIEW_MIME_PATTERN = /^(image\/(png|jpe?g|gif|webp|bmp|avif)|application\/pdf)$/;
+
+export interface ProjectStorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  attachmentCount: number;
+}
+
+/**
+ * Check whether an attachment can be shown inline (images and PDFs)
+ */
+export function isPreviewable(mimeType: string): boolean {
+  return PREVIEW_MIME_PATTERN.test(mimeType);
+}
+
+/**
+ * Storage quota of a project in bytes
+ * Project.storageQuotaMb overrides the PROJECT_STORAGE_QUOTA_MB default
+ */
+async function getProjectQuotaBytes(projectId: string): Promise<number> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { storageQuotaMb: true },
+  });
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  const defaultQuota = parseInt(process.env.PROJECT_STORAGE_QUOTA_MB || '', 10) || DEFAULT_PROJECT_QUOTA_MB;
+  return (project.storageQuotaMb ?? defaultQuota) * 1024 * 1024;
+}
+
+/**
+ * Total size of the project files and the attachments of all its tasks
+ */
+export async function getProjectStorageUsage(projectId: string): Promise<ProjectStorageUsage> {
+  const quotaBytes = await getProjectQuotaBytes(projectId);
+  const [taskUsage, projectUsage] = await Promise.all([
+    prisma.attachment.aggregate({
+      where: { task: { projectId } },
+      _sum: { size: true },
+      _count: true,
+    }),
+    prisma.projectAttachment.aggregate({
+      where: { projectId },
+      _sum: { size: true },
+      _count: true,
+    }),
+  ]);
+
+  return {
+    usedBytes: (taskUsage._sum.size || 0) + (projectUsage._sum.size || 0),
+    quotaBytes,
+    attachmentCount: taskUsage._count + projectUsage._count,
+  };
+}
+
+/**
+ * Reject an upload that would exceed the project quota
+ * Personal tasks have no quota
+ */
+export async function assertStorageAvailable(projectId: string | null, size: number): Promise<void> {
+  if (!projectId) {
+    return;
+  }
+
+  const { usedBytes, quotaBytes } = await getProjectStorageUsage(projectId);
+  if (usedBytes + size > quotaBytes) {
+    throw new Error('Project storage quota exceeded');
+  }
+}
+
+/**
+ * Get an attachment the user is allowed to see (same rule as its task)
+ */
+export async function getAttachmentForUser(userId: string, sessionId: string, attachmentId: string): Promise<Attachment> {
+  const attachment = await prisma.attachment.findUnique({ where: { id: attachmentId } });
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  if (!(await canViewTask(userId, attachment.taskId, sessionId))) {
+    throw new Error('You do not have permission to view this attachment');
+  }
+
+  return attachment;
+}
+
+/**
+ * Delete an attachment together with its file
+ */
+export async function deleteAttachment(
+  userId: string,
+  sessionId: string,
+  attachmentId: string
+): Promise<Attachment & { task: { id: string; title: string; projectId: string | null } }> {
+  const attachment = await prisma.attachment.findUnique({
+    where: { id: attachmentId },
+    include: { task: { select: { id: true, title: true, projectId: true } } },
+  });
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  await assertProjectNotArchived(attachment.task.projectId);
+
+  if (!(await canEditTask(userId, attachment.taskId, sessionId))) {
+    throw new Error('You do not have permission to delete attachments of this task');
+  }
+
+  await prisma.attachment.delete({ where: { id: attachmentId } });
+  await removeStoredFiles([attachment.url]);
+
+  return attachment;
+}
+
+/**
+ * Get a project file the user is allowed to see (any project member)
+ */
+export async function getProjectAttachmentForUser(
+  userId: string,
+  sessionId: string,
+  projectId: string,
+  attachmentId: string
+): Promise<ProjectAttachment> {
+  if (!(await canViewProject(userId, projectId, sessionId))) {
+    throw new Error('You do not have permission to view files of this project');
+  }
+
+  const attachment = await prisma.projectAttachment.findFirst({ where: { id: attachmentId, projectId } });
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  return attachment;
+}
+
+/**
+ * Delete a project file together with its stored file (Owner and Collaborator)
+ */
+export async function deleteProjectAttachment(
+  userId: string,
+  sessionId: string,
+  projectId: string,
+  attachmentId: string
+): Promise<ProjectAttachment> {
+  await assertProjectNotArchived(projectId);
+
+  if (!(await canEditProject(userId, projectId, sessionId))) {
+    throw new Error('You do not have permission to delete files of this project');
+  }
+
+  const attachment = await prisma.projectAttachment.findFirst({ where: { id: attachmentId, projectId } });
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  await prisma.projectAttachment.delete({ where: { id: attachmentId } });
+  await removeStoredFiles([attachment.url]);
+
+  return attachment;
+}
+
+/**
+ * Urls of the project files and task attachments of a project (collected before the project is deleted)
+ */
+export async function getProjectFileUrls(projectId: string): Promise<string[]> {
+  const [taskUrls, projectFiles] = await Promise.all([
+    getAttachmentUrls({ task: { projectId } }),
+    prisma.projectAttachment.findMany({ where: { projectId }, select: { url: true } }),
+  ]);
+  return [...taskUrls, ...projectFiles.map((a) => a.url)];
+}
+
+/**
+ * Urls of the attachments matching a filter
+ * Collected before a cascade delete so the files can be removed right after it
+ */
+export async function getAttachmentUrls(where: Prisma.AttachmentWhereInput): Promise<string[]> {
+  const attachments = await prisma.attachment.findMany({ where, select: { url: true } });
+  return attachments.map((a) => a.url);
+}
+
+/**
+ * References (of the given ones) still used by a task or project attachment or an avatar
+ * Deduplicated uploads share one stored file, so a file is only removed with its last reference
+ */
+async function findReferencedUrls(urls: string[]): Promise<Set<string>> {
+  const [attachments, projectAttachments, users] = await Promise.all([
+    prisma.attachment.findMany({ where: { url: { in: urls } }, select: { url: true } }),
+    prisma.projectAttachment.findMany({ where: { url: { in: urls } }, select: { url: true } }),
+    prisma.user.findMany({ where: { avatarUrl: { in: urls } }, select: { avatarUrl: true } }),
+  ]);
+  return new Set([
+    ...attachments.map((a) => a.url),
+    ...projectAttachments.map((a) => a.url),
+    ...users.map((u) => u.avatarUrl!),
+  ]);
+}
+
+/**
+ * Remove stored files that are no longer referenced by an attachment or an avatar
+ * Never throws: a leftover file is picked up by collectOrphanedFiles later
+ */
+export async function removeStoredFiles(urls: string[]): Promise<void> {
+  if (urls.length === 0) {
+    return;
+  }
+
+  try {
+    const stillUsed = await findReferencedUrls(urls);
+
+    for (const url of new Set(urls)) {
+      const key = getStorageKey(url);
+      if (!key || stillUsed.has(url)) continue;
+
+      await getStorage().delete(key);
+    }
+  } catch (error) {
+    console.error('Failed to remove stored files:', error);
+  }
+}
+
+/**
+ * Delete stored files that nothing references any more
+ * (task and project attachments cascade deleted with their tasks or projects, replaced avatars)
+ * Returns the number of removed files
+ */
+export async function collectOrphanedFiles(): Promise<number> {
+  const [attachments, projectAttachments, users] = await Promise.all([
+    prisma.attachment.findMany({ select: { url: true } }),
+    prisma.projectAttachment.findMany({ select: { url: true } }),
+    prisma.user.findMany({ where: { avatarUrl: { not: null } }, select: { avatarUrl: true } }),
+  ]);
+  const referenced = new Set([
+    ...attachments.map((a) => a.url),
+    ...projectAttachments.map((a) => a.url),
+    ...users.map((u) => u.avatarUrl!),
+  ]);
+
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD;
+  const candidates: string[] = [];
+
+  for await (const object of getStorage().list()) {
+    const url = getStorageUrl(object.key);
+    if (!referenced.has(url) && object.lastModified.getTime() < cutoff) {
+      candidates.push(url);
+    }
+  }
+
+  // A deduplicated upload may have started using a candidate while the storage was listed
+  const stillUsed = candidates.length > 0 ? await findReferencedUrls(candidates) : new Set<string>();
+  let removed = 0;
+
+  for (const url of candidates) {
+    if (stillUsed.has(url)) continue;
+
+    await getStorage().delete(getStorageKey(url)!).catch((error) => {
+      console.error(`Failed to remove orphaned file ${url}:`, error);
+    });
+    removed++;
+  }
+
+  return removed;
+}
@@ -2,11 +2,14 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this-in-production';
-const JWT_EXPIRES_IN = '7d'; // Token expires in 7 days
+const JWT_EXPIRES_IN = '15m'; // Access tokens are short-lived, clients renew them with a refresh token
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m'; // Time to enter the second factor after the password
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'two-factor-challenge';
 
 export interface JwtPayload {
   sub: string; // user id
   email: string;
+  sid: string; // session id, checked on every request so revoked sessions stop working
   iat?: number;
   exp?: number;
 }
@@ -26,12 +29,13 @@ export async function comparePassword(password: string, hashedPassword: string):
 }
 
 /**
- * Generate a JWT token for a user
+ * Generate a JWT access token for a user session
  */
-export function generateToken(userId: string, email: string): string {
+export function generateToken(userId: string, email: string, sessionId: string): string {
   const payload: JwtPayload = {
     sub: userId,
     email,
+    sid: sessionId,
   };
   return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
 }
@@ -46,3 +50,29 @@ export function verifyToken(token: string): JwtPayload {
     throw new Error('Invalid or expired token');
   }
 }
+
+/**
+ * Generate a token proving the password step of a sign-in with 2FA
+ * It has no session id, so it cannot be used as an access token
+ */
+export function generateTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ sub: userId }, JWT_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+    audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+  });
+}
+
+/**
+ * Verify a 2FA challenge token and return the user id
+ */
+export function verifyTwoFactorChallenge(token: string): string {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, { audience: TWO_FACTOR_CHALLENGE_AUDIENCE }) as jwt.JwtPayload;
+    if (!payload.sub) {
+      throw new Error('Missing subject');
+    }
+    return payload.sub;
+  } catch (error) {
+    throw new Error('Invalid or expired two-factor challenge');
+  }
+}
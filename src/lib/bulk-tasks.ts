@@ -0,0 +1,455 @@
+/**
+ * Bulk task operations
+ * Every task of a batch is checked like a single edit or delete (permissions, workflow,
+ * blockers); the tasks that pass are written in one transaction and the rest are reported
+ * back with the reason
+ */
+
+import type { Category, Prisma, Task } from '@prisma/client';
+import prisma from './prisma';
+import {
+  canChangeTaskAssignee,
+  canCreateTask,
+  canDeleteTask,
+  canEditTask,
+  getUserRoleInProject,
+} from './permissions';
+import { ARCHIVED_PROJECT_ERROR, isProjectArchived } from './archive';
+import { isCategoryAllowedForTask } from './categories';
+import {
+  getCompletedStatus,
+  getDefaultStatus,
+  getProjectWorkflow,
+  isDoneStatus,
+  validateStatusChange,
+} from './workflows';
+import { getOpenBlockers } from './dependencies';
+import { getSubtaskTreeIds } from './subtasks';
+import type { BulkTaskUpdate } from '../server/types';
+
+export const TASK_BLOCKED_ERROR = 'Task is blocked by unfinished tasks';
+export const TASK_CONFLICT_ERROR = 'Task was modified by another user';
+
+const MAX_TAGS = 50;
+const BULK_TRANSACTION_TIMEOUT = 30 * 1000; // Up to MAX_BULK_TASKS updates in one transaction
+
+// Statuses every personal board has; other statuses do not survive a move to personal tasks
+const PERSONAL_STATUSES = ['todo', 'in_progress', 'review', 'done'];
+
+export interface BulkTaskFailure {
+  id: string;
+  error: string;
+  code?: 'VERSION_CONFLICT' | 'TASK_BLOCKED';
+}
+
+export interface PlannedTaskUpdate {
+  task: Task; // As it was before the batch
+  data: Prisma.TaskUncheckedUpdateManyInput;
+  previous: BulkTaskUpdate; // Changed fields as they were (undoes this update)
+  checkVersion: boolean; // Subtasks that follow a moved parent are written unconditionally
+}
+
+function toFailure(id: string, error: any): BulkTaskFailure {
+  const message = error?.message || 'Failed to update task';
+  if (message === TASK_BLOCKED_ERROR) return { id, error: message, code: 'TASK_BLOCKED' };
+  if (message === TASK_CONFLICT_ERROR) return { id, error: message, code: 'VERSION_CONFLICT' };
+  return { id, error: message };
+}
+
+/**
+ * Caches shared by the checks of one batch, and the tasks it moves into each status
+ * so that a batch cannot overfill a status with a WIP limit
+ */
+function createBatchContext(userId: string, sessionId: string) {
+  const categories = new Map<string, Category | null>();
+  const statusCounts = new Map<string, number>();
+
+  return {
+    userId,
+    sessionId,
+
+    async getCategory(categoryId: string) {
+      if (!categories.has(categoryId)) {
+        categories.set(categoryId, await prisma.category.findUnique({ where: { id: categoryId } }));
+      }
+      return categories.get(categoryId) ?? null;
+    },
+
+    async reserveStatus(projectId: string, status: string) {
+      const target = (await getProjectWorkflow(projectId)).find((s) => s.key === status);
+      if (!target || target.wipLimit === null) {
+        return;
+      }
+
+      const key = `${projectId}:${status}`;
+      const count = statusCounts.get(key) ?? (await prisma.task.count({ where: { projectId, status } }));
+      if (count >= target.wipLimit) {
+        throw new Error(`Status "${target.name}" has reached its WIP limit (${target.wipLimit})`);
+      }
+      statusCounts.set(key, count + 1);
+    },
+  };
+}
+
+type BatchContext = ReturnType<typeof createBatchContext>;
+
+/**
+ * Status a task gets when it moves to another project (or to personal tasks) without a new one:
+ * the same status when the target has it, otherwise its first open or first done status
+ */
+async function mapStatus(task: Task, targetProjectId: string | null): Promise<string> {
+  const isDone = await isDoneStatus(task.projectId, task.status);
+
+  if (!targetProjectId) {
+    if (PERSONAL_STATUSES.includes(task.status)) return task.status;
+    return isDone ? 'done' : 'todo';
+  }
+
+  const statuses = await getProjectWorkflow(targetProjectId);
+  if (statuses.some((s) => s.key === task.status)) return task.status;
+  return isDone ? getCompletedStatus(targetProjectId) : getDefaultStatus(targetProjectId);
+}
+
+/**
+ * Moving a task out of a project removes it from there, so it takes the delete permission
+ */
+async function assertCanMove(userId: string, sessionId: string, task: Task, targetProjectId: string | null) {
+  if (!(await canDeleteTask(userId, task.id, sessionId))) {
+    throw new Error('You do not have permission to move this task');
+  }
+  if (targetProjectId) {
+    if (await isProjectArchived(targetProjectId)) {
+      throw new Error(ARCHIVED_PROJECT_ERROR);
+    }
+    if (!(await getUserRoleInProject(userId, targetProjectId, sessionId))) {
+      throw new Error('Project not found');
+    }
+  }
+}
+
+/**
+ * Whether the task's last change of creator was a move out of `projectId` that took the
+ * task away from `creatorId` (only then may an undo give it back)
+ */
+async function isRecordedPreviousCreator(task: Task, creatorId: string, projectId: string): Promise<boolean> {
+  const entry = await prisma.activityLog.findFirst({
+    where: {
+      taskId: task.id,
+      action: 'task.updated',
+      changes: { path: ['creatorId', 'to'], equals: task.creatorId },
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { changes: true },
+  });
+  const changes = entry?.changes as Record<string, { from: unknown; to: unknown }> | null | undefined;
+
+  return changes?.creatorId?.from === creatorId && changes.projectId?.from === projectId;
+}
+
+/**
+ * Changes of one task, checked the way PATCH /api/tasks/:id checks them
+ * `moveTo` is set when the task (or its parent) moves to another project
+ */
+async function planTaskUpdate(
+  ctx: BatchContext,
+  task: Task,
+  changes: Partial<BulkTaskUpdate>,
+  moveTo: string | null | undefined
+): Promise<PlannedTaskUpdate | null> {
+  const { userId, sessionId } = ctx;
+  const isMove = moveTo !== undefined;
+  const projectId = isMove ? moveTo : task.projectId;
+  const data: Prisma.TaskUncheckedUpdateManyInput = {};
+
+  if (isMove) {
+    data.projectId = projectId;
+    // Personal tasks belong to their creator, so the task becomes the mover's
+    if (!projectId) {
+      data.creatorId = userId;
+    } else if (changes.creatorId && changes.creatorId !== task.creatorId) {
+      // Undoing a move to personal tasks gives the task back to its creator
+      if (!(await isRecordedPreviousCreator(task, changes.creatorId, projectId))) {
+        throw new Error('Creator can only be restored when undoing a move to personal tasks');
+      }
+      if (!(await getUserRoleInProject(changes.creatorId, projectId))) {
+        throw new Error('Creator is not a member of this project');
+      }
+      data.creatorId = changes.creatorId;
+    }
+  }
+
+  if (changes.priority !== undefined && changes.priority !== task.priority) {
+    data.priority = changes.priority;
+  }
+
+  if (changes.dueDate !== undefined) {
+    const dueDate = changes.dueDate ? new Date(changes.dueDate) : null;
+    if (dueDate?.getTime() !== task.dueDate?.getTime()) data.dueDate = dueDate;
+  }
+
+  if (changes.tags !== undefined || changes.addTags || changes.removeTags) {
+    const removeTags = changes.removeTags ?? [];
+    const tags = Array.from(new Set([...(changes.tags ?? task.tags), ...(changes.addTags ?? [])]))
+      .filter((tag) => !removeTags.includes(tag));
+    if (tags.length > MAX_TAGS) {
+      throw new Error(`Too many tags (max ${MAX_TAGS})`);
+    }
+    if (tags.join('\n') !== task.tags.join('\n')) data.tags = tags;
+  }
+
+  // Assignee: must belong to the project; a move drops assignees the target project does not have
+  let assigneeId = changes.assigneeId !== undefined ? changes.assigneeId || null : task.assigneeId;
+  if (changes.assigneeId !== undefined && assigneeId !== task.assigneeId && !isMove) {
+    if (!(await canChangeTaskAssignee(userId, task.id, assigneeId, sessionId))) {
+      throw new Error('You do not have permission to change the assignee of this task');
+    }
+  }
+  if (assigneeId && (changes.assigneeId !== undefined || isMove)) {
+    const isValidAssignee = projectId
+      ? !!(await getUserRoleInProject(assigneeId, projectId))
+      : assigneeId === (isMove ? userId : task.creatorId);
+    if (!isValidAssignee) {
+      if (changes.assigneeId !== undefined) {
+        throw new Error(projectId ? 'Assignee is not a member of this project' : 'Personal tasks can only be assigned to yourself');
+      }
+      assigneeId = null;
+    }
+  }
+  if (assigneeId !== task.assigneeId) data.assigneeId = assigneeId;
+
+  // The mover must be allowed to create the task in the target project
+  if (isMove && !task.parentTaskId && !(await canCreateTask(userId, projectId, assigneeId, sessionId))) {
+    throw new Error('You do not have permission to move tasks to this project');
+  }
+
+  // Category: project categories only apply to the tasks of their project
+  let category = changes.category !== undefined ? changes.category || null : task.category;
+  if (category) {
+    const existing = await ctx.getCategory(category);
+    if (changes.category !== undefined) {
+      if (!existing) throw new Error('Category not found');
+      if (!isCategoryAllowedForTask(existing, projectId)) throw new Error('Category belongs to another project');
+    } else if (existing && !isCategoryAllowedForTask(existing, projectId)) {
+      category = null;
+    }
+  }
+  if (category !== task.category) data.category = category;
+
+  // Status: checked against the workflow of the (target) project, a move maps it when not given
+  const status = changes.status !== undefined ? changes.status : isMove ? await mapStatus(task, projectId) : task.status;
+  if (projectId && (status !== task.status || isMove)) {
+    if (changes.status !== undefined) {
+      await validateStatusChange(projectId, isMove ? null : task.status, status, task.id);
+    }
+    await ctx.reserveStatus(projectId, status);
+  }
+  if (status !== task.status) {
+    data.status = status;
+    const wasDone = await isDoneStatus(task.projectId, task.status);
+    if (!wasDone && (await isDoneStatus(projectId, status)) && (await getOpenBlockers(task.id, userId, sessionId)).length > 0) {
+      throw new Error(TASK_BLOCKED_ERROR);
+    }
+  }
+
+  if (Object.keys(data).length === 0) {
+    return null;
+  }
+
+  const previous: BulkTaskUpdate = { id: task.id, version: task.version + 1 };
+  if (data.projectId !== undefined) previous.projectId = task.projectId;
+  if (data.creatorId !== undefined) previous.creatorId = task.creatorId;
+  if (data.status !== undefined) previous.status = task.status;
+  if (data.priority !== undefined) previous.priority = task.priority as BulkTaskUpdate['priority'];
+  if (data.assigneeId !== undefined) previous.assigneeId = task.assigneeId;
+  if (data.category !== undefined) previous.category = task.category;
+  if (data.dueDate !== undefined) previous.dueDate = task.dueDate ? task.dueDate.toISOString() : null;
+  if (data.tags !== undefined) previous.tags = task.tags;
+
+  return { task, data, previous, checkVersion: true };
+}
+
+/**
+ * Check every change of an update batch
+ * A task moved to another project takes its subtasks along; subtasks cannot move on their own
+ */
+export async function planBulkUpdate(
+  userId: string,
+  sessionId: string,
+  items: BulkTaskUpdate[]
+): Promise<{ planned: PlannedTaskUpdate[]; failed: BulkTaskFailure[] }> {
+  const ctx = createBatchContext(userId, sessionId);
+  const failed: BulkTaskFailure[] = [];
+
+  // Only the first change of a task counts
+  const seen = new Set<string>();
+  const uniqueItems = items.filter((item) => !seen.has(item.id) && seen.add(item.id));
+
+  const tasks = await prisma.task.findMany({ where: { id: { in: uniqueItems.map((item) => item.id) } } });
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+  const accepted: BulkTaskUpdate[] = [];
+  for (const item of uniqueItems) {
+    const task = tasksById.get(item.id);
+    if (!task) {
+      failed.push({ id: item.id, error: 'Task not found' });
+    } else if (await isProjectArchived(task.projectId)) {
+      failed.push({ id: item.id, error: ARCHIVED_PROJECT_ERROR });
+    } else if (!(await canEditTask(userId, task.id, sessionId))) {
+      failed.push({ id: item.id, error: 'You do not have permission to edit this task' });
+    } else if (item.version !== undefined && item.version !== task.version) {
+      failed.push(toFailure(item.id, new Error(TASK_CONFLICT_ERROR)));
+    } else {
+      accepted.push(item);
+    }
+  }
+
+  // Moves: top-level tasks and the subtask trees that follow them (task id -> target project)
+  const moveTargets = new Map<string, string | null>();
+  const moveGroups = new Map<string, string[]>(); // Moved task -> its subtasks
+  const rejected = new Set<string>();
+  for (const item of accepted) {
+    const task = tasksById.get(item.id)!;
+    if (item.projectId === undefined || (item.projectId || null) === task.projectId || task.parentTaskId) {
+      continue;
+    }
+    const target = item.projectId || null;
+    try {
+      await assertCanMove(userId, sessionId, task, target);
+    } catch (error: any) {
+      failed.push(toFailure(task.id, error));
+      rejected.add(task.id);
+      continue;
+    }
+    const subtaskIds = await getSubtaskTreeIds(task.id);
+    moveTargets.set(task.id, target);
+    subtaskIds.forEach((subtaskId) => moveTargets.set(subtaskId, target));
+    moveGroups.set(task.id, subtaskIds);
+  }
+
+  const missingSubtaskIds = Array.from(moveTargets.keys()).filter((taskId) => !tasksById.has(taskId));
+  if (missingSubtaskIds.length > 0) {
+    const subtasks = await prisma.task.findMany({ where: { id: { in: missingSubtaskIds } } });
+    subtasks.forEach((subtask) => tasksById.set(subtask.id, subtask));
+  }
+
+  const itemsById = new Map(accepted.filter((item) => !rejected.has(item.id)).map((item) => [item.id, item]));
+  const planned: PlannedTaskUpdate[] = [];
+  const plannedIds = new Set<string>();
+
+  // A moved task and its subtasks succeed or fail together
+  for (const [rootId, subtaskIds] of moveGroups) {
+    const group: PlannedTaskUpdate[] = [];
+    try {
+      for (const taskId of [rootId, ...subtaskIds]) {
+        const task = tasksById.get(taskId);
+        if (!task) continue;
+        const item = itemsById.get(taskId);
+        const { projectId: _projectId, ...changes } = item ?? { id: taskId };
+        const plan = await planTaskUpdate(ctx, task, changes, moveTargets.get(taskId));
+        if (plan) group.push({ ...plan, checkVersion: !!item });
+      }
+    } catch (error: any) {
+      for (const taskId of [rootId, ...subtaskIds].filter((id) => itemsById.has(id))) {
+        failed.push(toFailure(taskId, error));
+        plannedIds.add(taskId);
+      }
+      continue;
+    }
+    planned.push(...group);
+    [rootId, ...subtaskIds].forEach((taskId) => plannedIds.add(taskId));
+  }
+
+  for (const item of itemsById.values()) {
+    if (plannedIds.has(item.id)) continue;
+    const task = tasksById.get(item.id)!;
+    if (item.projectId !== undefined && (item.projectId || null) !== task.projectId) {
+      failed.push({ id: item.id, error: 'Subtasks move together with their parent task' });
+      continue;
+    }
+    try {
+      const plan = await planTaskUpdate(ctx, task, item, undefined);
+      if (plan) planned.push(plan);
+    } catch (error: any) {
+      failed.push(toFailure(item.id, error));
+    }
+  }
+
+  return { planned, failed };
+}
+
+/**
+ * Write the planned updates in one transaction
+ * Tasks changed by someone else since they were checked are skipped and returned as conflicts
+ */
+export async function applyBulkUpdate(
+  planned: PlannedTaskUpdate[]
+): Promise<{ appliedIds: string[]; conflictIds: string[] }> {
+  return prisma.$transaction(
+    async (tx) => {
+      const appliedIds: string[] = [];
+      const conflictIds: string[] = [];
+      for (const { task, data, checkVersion } of planned) {
+        const { count } = await tx.task.updateMany({
+          where: checkVersion ? { id: task.id, version: task.version } : { id: task.id },
+          data: { ...data, version: { increment: 1 } },
+        });
+        (count > 0 ? appliedIds : conflictIds).push(task.id);
+      }
+      return { appliedIds, conflictIds };
+    },
+    { timeout: BULK_TRANSACTION_TIMEOUT }
+  );
+}
+
+/**
+ * Check every task of a delete batch
+ * Subtasks are deleted with their parent, so tasks inside another selected task's tree are
+ * not deleted separately
+ * @returns Top-level deleted tasks and all their subtasks
+ */
+export async function planBulkDelete(
+  userId: string,
+  sessionId: string,
+  taskIds: string[]
+): Promise<{ tasks: Task[]; subtasks: Task[]; failed: BulkTaskFailure[] }> {
+  const failed: BulkTaskFailure[] = [];
+  const uniqueIds = Array.from(new Set(taskIds));
+  const tasks = await prisma.task.findMany({ where: { id: { in: uniqueIds } } });
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+  const accepted: Task[] = [];
+  for (const taskId of uniqueIds) {
+    const task = tasksById.get(taskId);
+    if (!task) {
+      failed.push({ id: taskId, error: 'Task not found' });
+    } else if (await isProjectArchived(task.projectId)) {
+      failed.push({ id: taskId, error: ARCHIVED_PROJECT_ERROR });
+    } else if (!(await canDeleteTask(userId, task.id, sessionId))) {
+      failed.push({ id: taskId, error: 'You do not have permission to delete this task' });
+    } else {
+      accepted.push(task);
+    }
+  }
+
+  const subtreeIds = new Set<string>();
+  for (const task of accepted) {
+    (await getSubtaskTreeIds(task.id)).forEach((subtaskId) => subtreeIds.add(subtaskId));
+  }
+
+  const subtasks = subtreeIds.size > 0
+    ? await prisma.task.findMany({ where: { id: { in: Array.from(subtreeIds) } } })
+    : [];
+
+  return {
+    tasks: accepted.filter((task) => !subtreeIds.has(task.id)),
+    subtasks,
+    failed,
+  };
+}
+
+/**
+ * Delete tasks (attachments, checklist items, dependencies and subtasks are cascade deleted)
+ */
+export async function applyBulkDelete(taskIds: string[]): Promise<void> {
+  await prisma.task.deleteMany({ where: { id: { in: taskIds } } });
+}
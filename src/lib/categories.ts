@@ -0,0 +1,215 @@
+/**
+ * Category utilities
+ * Task categories are either personal (visible to their author only) or shared with the
+ * members of a project; Task.category references the category (cleared when it is deleted)
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { canEditProject, canViewProject } from './permissions';
+import { isSessionTwoFactorVerified } from './two-factor';
+
+export const MAX_CATEGORIES = 100; // Per user, personal and shared
+
+export const DEFAULT_CATEGORY_COLOR = 'bg-purple-500';
+
+const CATEGORY_INCLUDE = {
+  project: { select: { id: true, name: true, color: true } },
+} satisfies Prisma.CategoryInclude;
+
+export interface CategoryInput {
+  name?: string;
+  color?: string;
+  description?: string | null;
+  projectId?: string | null;
+}
+
+/**
+ * Categories visible to the user: personal ones and the ones of their projects
+ */
+function visibleCategoriesWhere(userId: string, twoFactorVerified: boolean): Prisma.CategoryWhereInput {
+  const projectFilter: Prisma.ProjectWhereInput = twoFactorVerified
+    ? { members: { some: { userId } } }
+    : { members: { some: { userId } }, requireTwoFactor: false };
+
+  return {
+    OR: [
+      { ownerId: userId, projectId: null },
+      { project: projectFilter },
+    ],
+  };
+}
+
+/**
+ * Personal categories of the user and the categories of their projects
+ */
+export async function getCategories(userId: string, sessionId: string | undefined) {
+  return prisma.category.findMany({
+    where: visibleCategoriesWhere(userId, await isSessionTwoFactorVerified(sessionId)),
+    include: CATEGORY_INCLUDE,
+    orderBy: [{ name: 'asc' }],
+  });
+}
+
+/**
+ * Project categories only apply to the tasks of their project (projectId null - personal task)
+ */
+export function isCategoryAllowedForTask(category: { projectId: string | null }, projectId: string | null): boolean {
+  return !category.projectId || category.projectId === projectId;
+}
+
+/**
+ * Check the category given for a new or edited task, same rule as bulk edits
+ */
+export async function assertTaskCategory(categoryId: string, projectId: string | null): Promise<void> {
+  const category = await prisma.category.findUnique({ where: { id: categoryId }, select: { projectId: true } });
+  if (!category) {
+    throw new Error('Category not found');
+  }
+  if (!isCategoryAllowedForTask(category, projectId)) {
+    throw new Error('Category belongs to another project');
+  }
+}
+
+async function assertCanShareWith(userId: string, sessionId: string, projectId: string) {
+  if (!(await canEditProject(userId, projectId, sessionId))) {
+    throw new Error('You do not have permission to manage categories of this project');
+  }
+}
+
+/**
+ * The author manages a personal category; a project category is managed by whoever edits the project
+ */
+async function getEditableCategory(userId: string, sessionId: string, categoryId: string) {
+  const category = await prisma.category.findUnique({ where: { id: categoryId } });
+  if (!category) {
+    throw new Error('Category not found');
+  }
+  if (category.projectId) {
+    if (await canEditProject(userId, category.projectId, sessionId)) {
+      return category;
+    }
+    if (await canViewProject(userId, category.projectId, sessionId)) {
+      throw new Error('You do not have permission to change this category');
+    }
+  } else if (category.ownerId === userId) {
+    return category;
+  }
+  throw new Error('Category not found');
+}
+
+/**
+ * Create a category for the user, optionally shared with one of their projects
+ */
+export async function createCategory(userId: string, sessionId: string, input: CategoryInput & { name: string }) {
+  if (input.projectId) {
+    await assertCanShareWith(userId, sessionId, input.projectId);
+  }
+
+  const count = await prisma.category.count({ where: { ownerId: userId } });
+  if (count >= MAX_CATEGORIES) {
+    throw new Error(`You cannot have more than ${MAX_CATEGORIES} categories`);
+  }
+
+  return prisma.category.create({
+    data: {
+      name: input.name,
+      color: input.color || DEFAULT_CATEGORY_COLOR,
+      description: input.description || null,
+      ownerId: userId,
+      projectId: input.projectId || null,
+    },
+    include: CATEGORY_INCLUDE,
+  });
+}
+
+/**
+ * Rename, recolor or re-share a category
+ */
+export async function updateCategory(userId: string, sessionId: string, categoryId: string, input: CategoryInput) {
+  const category = await getEditableCategory(userId, sessionId, categoryId);
+
+  if (input.projectId !== undefined && (input.projectId || null) !== category.projectId) {
+    if (input.projectId) {
+      await assertCanShareWith(userId, sessionId, input.projectId);
+    } else if (category.ownerId !== userId) {
+      // A project category can only become personal for its author
+      throw new Error('You do not have permission to change this category');
+    }
+
+    // A category cannot be taken away from the tasks using it (the project's members would lose it)
+    const tasksOutsideScope = await prisma.task.count({
+      where: {
+        category: categoryId,
+        ...(input.projectId ? { OR: [{ projectId: null }, { projectId: { not: input.projectId } }] } : { projectId: { not: null } }),
+      },
+    });
+    if (tasksOutsideScope > 0) {
+      throw new Error(`Category is still used by ${tasksOutsideScope} task(s) it would no longer apply to`);
+    }
+  }
+
+  return prisma.category.update({
+    where: { id: categoryId },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.color !== undefined ? { color: input.color || DEFAULT_CATEGORY_COLOR } : {}),
+      ...(input.description !== undefined ? { description: input.description || null } : {}),
+      ...(input.projectId !== undefined ? { projectId: input.projectId || null } : {}),
+    },
+    include: CATEGORY_INCLUDE,
+  });
+}
+
+/**
+ * Delete a category; its tasks are moved to reassignTo or left without a category
+ * Tasks can only be moved to a project category if they all belong to that project
+ * @returns Number of tasks that were reassigned or cleared
+ */
+export async function deleteCategory(
+  userId: string,
+  sessionId: string,
+  categoryId: string,
+  reassignTo?: string
+): Promise<number> {
+  const category = await getEditableCategory(userId, sessionId, categoryId);
+
+  if (reassignTo) {
+    if (reassignTo === categoryId) {
+      throw new Error('Cannot reassign tasks to the category being deleted');
+    }
+    const target = await prisma.category.findFirst({
+      where: {
+        AND: [{ id: reassignTo }, visibleCategoriesWhere(userId, await isSessionTwoFactorVerified(sessionId))],
+      },
+    });
+    if (!target) {
+      throw new Error('Target category not found');
+    }
+    if (category.projectId && target.projectId !== category.projectId) {
+      throw new Error('Tasks of a project category can only be moved to a category of the same project');
+    }
+    // A personal category may be used in any project; a project category only in its own
+    if (target.projectId) {
+      const outsideTasks = await prisma.task.count({
+        where: {
+          category: categoryId,
+          OR: [{ projectId: null }, { projectId: { not: target.projectId } }],
+        },
+      });
+      if (outsideTasks > 0) {
+        throw new Error('Tasks outside the project of the target category cannot be moved to it');
+      }
+    }
+  }
+
+  const [{ count }] = await prisma.$transaction([
+    prisma.task.updateMany({
+      where: { category: categoryId },
+      data: { category: reassignTo || null, version: { increment: 1 } },
+    }),
+    prisma.category.delete({ where: { id: categoryId } }),
+  ]);
+
+  return count;
+}
@@ -0,0 +1,269 @@
+/**
+ * Task comment utilities
+ * Handles threaded comments, @mentions and their permission checks
+ */
+
+import prisma from './prisma';
+import { canEditTask, canViewTask } from './permissions';
+import { assertTaskNotArchived } from './archive';
+
+export const MAX_COMMENT_LENGTH = 10000;
+
+const authorSelect = {
+  select: { id: true, name: true, email: true, avatarUrl: true },
+} as const;
+
+export interface MentionCandidate {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Get users that can be mentioned in comments of a task
+ * Project tasks: project owner and members; personal tasks: creator and assignee
+ */
+export async function getMentionCandidates(taskId: string): Promise<MentionCandidate[]> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      creator: { select: { id: true, name: true, email: true } },
+      assignee: { select: { id: true, name: true, email: true } },
+      project: {
+        include: {
+          owner: { select: { id: true, name: true, email: true } },
+          members: {
+            include: {
+              user: { select: { id: true, name: true, email: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!task) {
+    return [];
+  }
+
+  const users = task.project
+    ? [task.project.owner, ...task.project.members.map((m) => m.user)]
+    : [task.creator, ...(task.assignee ? [task.assignee] : [])];
+
+  const unique = new Map<string, MentionCandidate>();
+  users.forEach((user) => unique.set(user.id, user));
+  return Array.from(unique.values());
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find mentioned users in comment text
+ * Supports `@Full Name` and `@emailname` (part of the email before @)
+ * Longer names are matched first so "@Анна Петрова" wins over "@Анна"
+ */
+export function resolveMentions(content: string, candidates: MentionCandidate[]): string[] {
+  const mentioned = new Set<string>();
+  let remaining = content;
+
+  const patterns = candidates
+    .flatMap((user) => [
+      { userId: user.id, token: user.name },
+      { userId: user.id, token: user.email.split('@')[0] },
+    ])
+    .filter((p) => p.token)
+    .sort((a, b) => b.token.length - a.token.length);
+
+  for (const { userId, token } of patterns) {
+    // Mention must end at a non-word character (letters include Cyrillic)
+    const regex = new RegExp(`@${escapeRegExp(token)}(?![\\p{L}\\p{N}_])`, 'giu');
+    if (regex.test(remaining)) {
+      mentioned.add(userId);
+      remaining = remaining.replace(regex, ' ');
+    }
+  }
+
+  return Array.from(mentioned);
+}
+
+function validateContent(content: any): string {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('Comment text is required');
+  }
+  if (content.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comment is too long (max ${MAX_COMMENT_LENGTH} characters)`);
+  }
+  return content.trim();
+}
+
+/**
+ * Get comments of a task as threads (oldest first, replies nested under their root)
+ */
+export async function getTaskComments(taskId: string, userId: string, sessionId: string): Promise<any[]> {
+  const canView = await canViewTask(userId, taskId, sessionId);
+  if (!canView) {
+    throw new Error('You do not have permission to view this task');
+  }
+
+  return prisma.comment.findMany({
+    where: { taskId, parentId: null },
+    include: {
+      author: authorSelect,
+      replies: {
+        include: { author: authorSelect },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Create a comment or a reply
+ * Requires the same rights as editing the task (viewers can only read)
+ * Returns the comment and the ids of newly mentioned users
+ */
+export async function createComment(
+  taskId: string,
+  authorId: string,
+  sessionId: string,
+  content: any,
+  parentId?: string | null
+): Promise<{ comment: any; mentionedUserIds: string[] }> {
+  await assertTaskNotArchived(taskId);
+
+  const canComment = await canEditTask(authorId, taskId, sessionId);
+  if (!canComment) {
+    throw new Error('You do not have permission to comment on this task');
+  }
+
+  const text = validateContent(content);
+
+  // Replies to replies are attached to the root comment of the thread
+  let rootId: string | null = null;
+  if (parentId) {
+    const parent = await prisma.comment.findUnique({ where: { id: parentId } });
+    if (!parent || parent.taskId !== taskId) {
+      throw new Error('Parent comment not found');
+    }
+    rootId = parent.parentId || parent.id;
+  }
+
+  const candidates = await getMentionCandidates(taskId);
+  const mentionedUserIds = resolveMentions(text, candidates).filter((id) => id !== authorId);
+
+  const comment = await prisma.comment.create({
+    data: {
+      taskId,
+      authorId,
+      parentId: rootId,
+      content: text,
+      mentionedUserIds,
+    },
+    include: {
+      author: authorSelect,
+      replies: { include: { author: authorSelect } },
+    },
+  });
+
+  return { comment, mentionedUserIds };
+}
+
+/**
+ * Edit a comment (author only)
+ * Returns the comment and users mentioned for the first time in this edit
+ */
+export async function updateComment(
+  taskId: string,
+  commentId: string,
+  userId: string,
+  sessionId: string,
+  content: any
+): Promise<{ comment: any; mentionedUserIds: string[] }> {
+  const existing = await prisma.comment.findUnique({ where: { id: commentId } });
+
+  if (!existing || existing.deletedAt || existing.taskId !== taskId) {
+    throw new Error('Comment not found');
+  }
+
+  if (existing.authorId !== userId || !(await canViewTask(userId, taskId, sessionId))) {
+    throw new Error('You do not have permission to edit this comment');
+  }
+
+  await assertTaskNotArchived(taskId);
+
+  const text = validateContent(content);
+
+  const candidates = await getMentionCandidates(existing.taskId);
+  const allMentioned = resolveMentions(text, candidates).filter((id) => id !== userId);
+  const newlyMentioned = allMentioned.filter((id) => !existing.mentionedUserIds.includes(id));
+
+  const comment = await prisma.comment.update({
+    where: { id: commentId },
+    data: {
+      content: text,
+      mentionedUserIds: allMentioned,
+      editedAt: new Date(),
+    },
+    include: {
+      author: authorSelect,
+      replies: {
+        include: { author: authorSelect },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  return { comment, mentionedUserIds: newlyMentioned };
+}
+
+/**
+ * Delete a comment (author only)
+ * A comment with replies is soft deleted so the thread stays readable
+ */
+export async function deleteComment(
+  taskId: string,
+  commentId: string,
+  userId: string,
+  sessionId: string
+): Promise<{ comment: any; softDeleted: boolean }> {
+  const existing = await prisma.comment.findUnique({
+    where: { id: commentId },
+    include: { _count: { select: { replies: true } } },
+  });
+
+  if (!existing || existing.deletedAt || existing.taskId !== taskId) {
+    throw new Error('Comment not found');
+  }
+
+  if (existing.authorId !== userId || !(await canViewTask(userId, taskId, sessionId))) {
+    throw new Error('You do not have permission to delete this comment');
+  }
+
+  await assertTaskNotArchived(taskId);
+
+  if (existing._count.replies > 0) {
+    const comment = await prisma.comment.update({
+      where: { id: commentId },
+      data: { content: '', mentionedUserIds: [], deletedAt: new Date() },
+    });
+    return { comment, softDeleted: true };
+  }
+
+  const comment = await prisma.comment.delete({ where: { id: commentId } });
+
+  // Remove a soft-deleted root once its last reply is gone
+  if (comment.parentId) {
+    const parent = await prisma.comment.findUnique({
+      where: { id: comment.parentId },
+      include: { _count: { select: { replies: true } } },
+    });
+    if (parent?.deletedAt && parent._count.replies === 0) {
+      await prisma.comment.delete({ where: { id: parent.id } });
+    }
+  }
+
+  return { comment, softDeleted: false };
+}
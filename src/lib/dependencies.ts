@@ -0,0 +1,248 @@
+/**
+ * Task dependency utilities
+ * "Task A blocks task B" links (possibly across projects), cycle detection
+ * and the per-project rule for completing blocked tasks
+ */
+
+import prisma from './prisma';
+import { canEditTask, canViewTask } from './permissions';
+import { assertTaskNotArchived } from './archive';
+import { isDoneStatus } from './workflows';
+
+export type DependencyMode = 'warn' | 'block';
+
+export const DEPENDENCY_MODES: DependencyMode[] = ['warn', 'block'];
+
+const linkedTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  projectId: true,
+  project: { select: { id: true, name: true } },
+} as const;
+
+export interface OpenBlocker {
+  id: string;
+  title: string | null; // null when the user cannot see the blocking task
+}
+
+/**
+ * Check whether `fromTaskId` already blocks `toTaskId` directly or through other tasks
+ */
+async function blocksTransitively(fromTaskId: string, toTaskId: string): Promise<boolean> {
+  const visited = new Set<string>([fromTaskId]);
+  let level = [fromTaskId];
+
+  while (level.length > 0) {
+    const edges = await prisma.taskDependency.findMany({
+      where: { blockingTaskId: { in: level } },
+      select: { blockedTaskId: true },
+    });
+
+    const next: string[] = [];
+    for (const { blockedTaskId } of edges) {
+      if (blockedTaskId === toTaskId) {
+        return true;
+      }
+      if (!visited.has(blockedTaskId)) {
+        visited.add(blockedTaskId);
+        next.push(blockedTaskId);
+      }
+    }
+    level = next;
+  }
+
+  return false;
+}
+
+/**
+ * Get dependencies of a task
+ * Linked tasks the user cannot see are only counted, their titles are not exposed
+ */
+export async function getTaskDependencies(taskId: string, userId: string, sessionId: string) {
+  if (!(await canViewTask(userId, taskId, sessionId))) {
+    throw new Error('You do not have permission to view this task');
+  }
+
+  const [blockedBy, blocking] = await Promise.all([
+    prisma.taskDependency.findMany({
+      where: { blockedTaskId: taskId },
+      include: { blockingTask: { select: linkedTaskSelect } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.taskDependency.findMany({
+      where: { blockingTaskId: taskId },
+      include: { blockedTask: { select: linkedTaskSelect } },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const visibleBlockedBy = [];
+  for (const dependency of blockedBy) {
+    if (await canViewTask(userId, dependency.blockingTaskId, sessionId)) {
+      visibleBlockedBy.push({ id: dependency.id, task: dependency.blockingTask });
+    }
+  }
+
+  const visibleBlocking = [];
+  for (const dependency of blocking) {
+    if (await canViewTask(userId, dependency.blockedTaskId, sessionId)) {
+      visibleBlocking.push({ id: dependency.id, task: dependency.blockedTask });
+    }
+  }
+
+  return {
+    blockedBy: visibleBlockedBy,
+    blocking: visibleBlocking,
+    hiddenCount: blockedBy.length + blocking.length - visibleBlockedBy.length - visibleBlocking.length,
+  };
+}
+
+/**
+ * Create a "blockingTaskId blocks blockedTaskId" link
+ * The user must see both tasks and be able to edit the blocked one
+ */
+export async function addDependency(blockingTaskId: string, blockedTaskId: string, userId: string, sessionId: string) {
+  if (!blockingTaskId || !blockedTaskId) {
+    throw new Error('blockingTaskId and blockedTaskId are required');
+  }
+
+  if (blockingTaskId === blockedTaskId) {
+    throw new Error('A task cannot block itself');
+  }
+
+  const [blockingTask, blockedTask] = await Promise.all([
+    prisma.task.findUnique({ where: { id: blockingTaskId }, select: { id: true } }),
+    prisma.task.findUnique({ where: { id: blockedTaskId }, select: { id: true } }),
+  ]);
+  if (!blockingTask || !blockedTask) {
+    throw new Error('Task not found');
+  }
+
+  await assertTaskNotArchived(blockedTaskId);
+
+  if (!(await canViewTask(userId, blockingTaskId, sessionId)) || !(await canEditTask(userId, blockedTaskId, sessionId))) {
+    throw new Error('You do not have permission to link these tasks');
+  }
+
+  const existing = await prisma.taskDependency.findUnique({
+    where: { blockingTaskId_blockedTaskId: { blockingTaskId, blockedTaskId } },
+  });
+  if (existing) {
+    throw new Error('This dependency already exists');
+  }
+
+  // The new edge closes a cycle if the blocked task already blocks the blocking one
+  if (await blocksTransitively(blockedTaskId, blockingTaskId)) {
+    throw new Error('This dependency would create a cycle');
+  }
+
+  return prisma.taskDependency.create({
+    data: { blockingTaskId, blockedTaskId, createdById: userId },
+    include: {
+      blockingTask: { select: linkedTaskSelect },
+      blockedTask: { select: linkedTaskSelect },
+    },
+  });
+}
+
+/**
+ * Remove a dependency
+ * Allowed for users who can edit either of the linked tasks
+ */
+export async function removeDependency(taskId: string, dependencyId: string, userId: string, sessionId: string) {
+  const dependency = await prisma.taskDependency.findFirst({
+    where: {
+      id: dependencyId,
+      OR: [{ blockingTaskId: taskId }, { blockedTaskId: taskId }],
+    },
+    include: {
+      blockingTask: { select: linkedTaskSelect },
+      blockedTask: { select: linkedTaskSelect },
+    },
+  });
+  if (!dependency) {
+    throw new Error('Dependency not found');
+  }
+
+  await assertTaskNotArchived(dependency.blockedTaskId);
+
+  const canEdit =
+    (await canEditTask(userId, dependency.blockedTaskId, sessionId)) ||
+    (await canEditTask(userId, dependency.blockingTaskId, sessionId));
+  if (!canEdit) {
+    throw new Error('You do not have permission to unlink these tasks');
+  }
+
+  await prisma.taskDependency.delete({ where: { id: dependency.id } });
+
+  return dependency;
+}
+
+/**
+ * Get blocking tasks whose status is not in the "done" category of their workflow
+ */
+async function findOpenBlockingTasks(taskId: string) {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { blockedTaskId: taskId },
+    include: { blockingTask: { select: { id: true, title: true, status: true, projectId: true } } },
+  });
+
+  const open = [];
+  for (const { blockingTask } of dependencies) {
+    if (!(await isDoneStatus(blockingTask.projectId, blockingTask.status))) {
+      open.push(blockingTask);
+    }
+  }
+  return open;
+}
+
+/**
+ * Get blocking tasks that are not done yet
+ */
+export async function getOpenBlockers(taskId: string, userId: string, sessionId: string): Promise<OpenBlocker[]> {
+  const blockingTasks = await findOpenBlockingTasks(taskId);
+
+  const blockers: OpenBlocker[] = [];
+  for (const blockingTask of blockingTasks) {
+    const visible = await canViewTask(userId, blockingTask.id, sessionId);
+    blockers.push({ id: blockingTask.id, title: visible ? blockingTask.title : null });
+  }
+  return blockers;
+}
+
+/**
+ * Check whether a task has blocking tasks that are not done yet
+ */
+export async function hasOpenBlockers(taskId: string): Promise<boolean> {
+  return (await findOpenBlockingTasks(taskId)).length > 0;
+}
+
+/**
+ * How completing a blocked task is handled in a project
+ * Personal tasks only get a warning
+ */
+export async function getDependencyMode(projectId: string | null): Promise<DependencyMode> {
+  if (!projectId) {
+    return 'warn';
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { dependencyMode: true },
+  });
+
+  return project?.dependencyMode === 'block' ? 'block' : 'warn';
+}
+
+/**
+ * Get ids of tasks directly blocked by a task
+ */
+export async function getBlockedTaskIds(taskId: string): Promise<string[]> {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { blockingTaskId: taskId },
+    select: { blockedTaskId: true },
+  });
+
+  return dependencies.map((d) => d.blockedTaskId);
+}
@@ -0,0 +1,99 @@
+/**
+ * Email verification utilities
+ * Verification links are sent on signup and can be resent from the app;
+ * EMAIL_VERIFICATION_REQUIRED_FOR lists the actions unverified users cannot perform
+ */
+
+import crypto from 'crypto';
+import prisma from './prisma';
+import { hashToken } from './account';
+
+export const EMAIL_VERIFICATION_TTL = 48 * 60 * 60 * 1000; // Verification links are valid for 48 hours
+export const VERIFICATION_RESEND_COOLDOWN = 60 * 1000; // One verification email per minute
+
+export const EMAIL_VERIFICATION_REQUIRED_ERROR = 'Email verification required';
+
+export type VerificationGatedAction = 'send_invitations' | 'accept_invitations';
+
+const GATED_ACTIONS: VerificationGatedAction[] = ['send_invitations', 'accept_invitations'];
+
+// Comma-separated list of actions, e.g. "send_invitations,accept_invitations" (empty or unset disables the policy)
+const requiredFor = new Set(
+  (process.env.EMAIL_VERIFICATION_REQUIRED_FOR || '')
+    .split(',')
+    .map((action) => action.trim())
+    .filter((action): action is VerificationGatedAction => GATED_ACTIONS.includes(action as VerificationGatedAction))
+);
+
+/**
+ * Check if the policy requires a verified email for an action
+ */
+export function isVerificationRequired(action: VerificationGatedAction): boolean {
+  return requiredFor.has(action);
+}
+
+/**
+ * Create a new verification token for a user, replacing the previous one
+ * Returns the raw token for the verification link
+ */
+export async function issueVerificationToken(userId: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      emailVerificationToken: hashToken(token),
+      emailVerificationExpires: new Date(Date.now() + EMAIL_VERIFICATION_TTL),
+      emailVerificationSentAt: new Date(),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Milliseconds until the user may request another verification email (0 if allowed now)
+ */
+export function getResendDelay(sentAt: Date | null): number {
+  if (!sentAt) {
+    return 0;
+  }
+  return Math.max(0, sentAt.getTime() + VERIFICATION_RESEND_COOLDOWN - Date.now());
+}
+
+/**
+ * Mark the email of the token's owner as verified
+ */
+export async function verifyEmailToken(token: string) {
+  const user = await prisma.user.findFirst({
+    where: {
+      emailVerificationToken: hashToken(token),
+      emailVerificationExpires: { gt: new Date() },
+    },
+  });
+  if (!user) {
+    throw new Error('Invalid or expired verification link');
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      emailVerified: true,
+      emailVerificationToken: null,
+      emailVerificationExpires: null,
+    },
+  });
+}
+
+/**
+ * Reject an action gated by the verification policy for users with an unverified email
+ */
+export async function assertEmailVerified(userId: string, action: VerificationGatedAction): Promise<void> {
+  if (!isVerificationRequired(action)) {
+    return;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { emailVerified: true } });
+  if (!user?.emailVerified) {
+    throw new Error(EMAIL_VERIFICATION_REQUIRED_ERROR);
+  }
+}
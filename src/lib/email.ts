@@ -147,6 +147,56 @@ class EmailService {
     });
   }
 
+  /**
+   * Send a new email verification link (resent from the app)
+   */
+  async sendVerificationEmail(email: string, name: string, verificationToken: string): Promise<boolean> {
+    const appUrl = process.env.APP_URL || 'http://localhost:5173';
+    const verificationLink = `${appUrl}/verify-email?token=${verificationToken}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 5px 5px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #4F46E5; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Подтверждение email</h1>
+          </div>
+          <div class="content">
+            <h2>Привет, ${this.escapeHtml(name)}!</h2>
+            <p>Подтвердите email вашего аккаунта Task Manager, нажав на кнопку ниже:</p>
+            <div style="text-align: center;">
+              <a href="${verificationLink}" class="button">Подтвердить email</a>
+            </div>
+            <p style="color: #6b7280; font-size: 14px;">Или скопируйте эту ссылку в браузер:<br>${verificationLink}</p>
+            <p>Ссылка действительна 48 часов. Предыдущие ссылки больше не работают.</p>
+          </div>
+          <div class="footer">
+            <p>© 2025 Task Manager. Все права защищены.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: 'Подтвердите email - Task Manager',
+      html,
+    });
+  }
+
   /**
    * Send password reset email
    */
@@ -253,6 +303,101 @@ class EmailService {
     });
   }
 
+  /**
+   * Send the confirmation link of an email change to the new address
+   */
+  async sendEmailChangeConfirmationEmail(newEmail: string, name: string, token: string): Promise<boolean> {
+    const appUrl = process.env.APP_URL || 'http://localhost:5173';
+    const confirmLink = `${appUrl}/confirm-email-change?token=${token}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 5px 5px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #4F46E5; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Подтверждение нового email</h1>
+          </div>
+          <div class="content">
+            <h2>Привет, ${this.escapeHtml(name)}!</h2>
+            <p>Вы указали этот адрес как новый email аккаунта Task Manager. Подтвердите его, нажав на кнопку ниже:</p>
+            <div style="text-align: center;">
+              <a href="${confirmLink}" class="button">Подтвердить email</a>
+            </div>
+            <p style="color: #6b7280; font-size: 14px;">Или скопируйте эту ссылку в браузер:<br>${confirmLink}</p>
+            <p>Ссылка действительна 24 часа. Если вы не меняли email, просто проигнорируйте это письмо.</p>
+          </div>
+          <div class="footer">
+            <p>© 2025 Task Manager. Все права защищены.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: newEmail,
+      subject: 'Подтвердите новый email - Task Manager',
+      html,
+    });
+  }
+
+  /**
+   * Tell the previous address that the account email was changed
+   */
+  async sendEmailChangedEmail(previousEmail: string, name: string, newEmail: string): Promise<boolean> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #059669; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 5px 5px; }
+          .footer { text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>✓ Email аккаунта изменен</h1>
+          </div>
+          <div class="content">
+            <h2>Привет, ${this.escapeHtml(name)}!</h2>
+            <p>Email вашего аккаунта Task Manager изменен на <strong>${this.escapeHtml(newEmail)}</strong>.</p>
+
+            <p>Если это были не вы, немедленно свяжитесь с нами.</p>
+
+            <p>Дата изменения: ${new Date().toLocaleString('ru-RU')}</p>
+          </div>
+          <div class="footer">
+            <p>© 2025 Task Manager. Все права защищены.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: previousEmail,
+      subject: 'Email аккаунта изменен - Task Manager',
+      html,
+    });
+  }
+
   /**
    * Send project invitation email
    */
@@ -354,6 +499,136 @@ class EmailService {
     });
   }
 
+  /**
+   * Send notification about an @mention in a task comment
+   */
+  async sendMentionNotificationEmail(
+    email: string,
+    name: string,
+    authorName: string,
+    taskTitle: string,
+    projectName: string | null,
+    commentText: string
+  ): Promise<boolean> {
+    const appUrl = process.env.APP_URL || 'http://localhost:5173';
+    const excerpt = commentText.length > 500 ? `${commentText.slice(0, 500)}…` : commentText;
+    const safeExcerpt = this.escapeHtml(excerpt).replace(/\n/g, '<br>');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #7C3AED; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 5px 5px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #7C3AED; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .comment { background-color: white; border-left: 4px solid #7C3AED; padding: 15px; margin: 20px 0; border-radius: 5px; }
+          .footer { text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>💬 Вас упомянули в комментарии</h1>
+          </div>
+          <div class="content">
+            <h2>Привет, ${this.escapeHtml(name)}!</h2>
+            <p><strong>${this.escapeHtml(authorName)}</strong> упомянул(а) вас в задаче
+              <strong>«${this.escapeHtml(taskTitle)}»</strong>${projectName ? ` проекта <strong>${this.escapeHtml(projectName)}</strong>` : ''}:</p>
+
+            <div class="comment">${safeExcerpt}</div>
+
+            <div style="text-align: center;">
+              <a href="${appUrl}" class="button">Открыть Task Manager</a>
+            </div>
+          </div>
+          <div class="footer">
+            <p>© 2025 Task Manager. Все права защищены.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: `${authorName} упомянул(а) вас в задаче "${taskTitle}" - Task Manager`,
+      html,
+    });
+  }
+
+  /**
+   * Send a generic notification email (assignments, deadlines, role changes, ...)
+   * Used for notification types that don't have a dedicated template
+   */
+  async sendNotificationEmail(
+    email: string,
+    name: string,
+    title: string,
+    message: string
+  ): Promise<boolean> {
+    const appUrl = process.env.APP_URL || 'http://localhost:5173';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #7C3AED; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 5px 5px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #7C3AED; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔔 ${this.escapeHtml(title)}</h1>
+          </div>
+          <div class="content">
+            <h2>Привет, ${this.escapeHtml(name)}!</h2>
+            <p>${this.escapeHtml(message).replace(/\n/g, '<br>')}</p>
+
+            <div style="text-align: center;">
+              <a href="${appUrl}" class="button">Открыть Task Manager</a>
+            </div>
+
+            <p style="color: #6b7280; font-size: 14px;">
+              Настроить уведомления можно в профиле.
+            </p>
+          </div>
+          <div class="footer">
+            <p>© 2025 Task Manager. Все права защищены.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: `${title} - Task Manager`,
+      html,
+    });
+  }
+
+  /**
+   * Escape user-provided text before inserting it into HTML
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
   /**
    * Strip HTML tags from text
    */
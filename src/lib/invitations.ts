@@ -40,10 +40,11 @@ export async function createInvitation(
   projectId: string,
   email: string,
   role: 'collaborator' | 'member' | 'viewer',
-  invitedByUserId: string
+  invitedByUserId: string,
+  sessionId?: string
 ): Promise<any> {
   // Check if user can invite
-  const canInvite = await canInviteUsers(invitedByUserId, projectId);
+  const canInvite = await canInviteUsers(invitedByUserId, projectId, sessionId);
   if (!canInvite) {
     throw new Error('You do not have permission to invite users to this project');
   }
@@ -170,10 +171,11 @@ export async function getInvitationById(invitationId: string): Promise<any | nul
  */
 export async function getProjectInvitations(
   projectId: string,
-  userId: string
+  userId: string,
+  sessionId?: string
 ): Promise<any[]> {
   // Check if user can view invitations (must be owner)
-  const canView = await canInviteUsers(userId, projectId);
+  const canView = await canInviteUsers(userId, projectId, sessionId);
   if (!canView) {
     throw new Error('You do not have permission to view invitations');
   }
@@ -330,6 +332,7 @@ export async function acceptInvitation(
   return {
     member,
     project: invitation.project,
+    invitedByUserId: invitation.invitedByUserId,
   };
 }
 
@@ -338,8 +341,9 @@ export async function acceptInvitation(
  */
 export async function revokeInvitation(
   invitationId: string,
-  userId: string
-): Promise<void> {
+  userId: string,
+  sessionId?: string
+): Promise<any> {
   const invitation = await getInvitationById(invitationId);
 
   if (!invitation) {
@@ -347,7 +351,7 @@ export async function revokeInvitation(
   }
 
   // Check if user can revoke (must be owner)
-  const canRevoke = await canInviteUsers(userId, invitation.projectId);
+  const canRevoke = await canInviteUsers(userId, invitation.projectId, sessionId);
   if (!canRevoke) {
     throw new Error('You do not have permission to revoke this invitation');
   }
@@ -356,7 +360,7 @@ export async function revokeInvitation(
     throw new Error('Can only revoke pending invitations');
   }
 
-  await prisma.invitation.update({
+  return prisma.invitation.update({
     where: { id: invitationId },
     data: { status: 'revoked' },
   });
@@ -367,7 +371,8 @@ export async function revokeInvitation(
  */
 export async function resendInvitation(
   invitationId: string,
-  userId: string
+  userId: string,
+  sessionId?: string
 ): Promise<any> {
   const invitation = await getInvitationById(invitationId);
 
@@ -376,7 +381,7 @@ export async function resendInvitation(
   }
 
   // Check if user can resend (must be owner)
-  const canResend = await canInviteUsers(userId, invitation.projectId);
+  const canResend = await canInviteUsers(userId, invitation.projectId, sessionId);
   if (!canResend) {
     throw new Error('You do not have permission to resend this invitation');
   }
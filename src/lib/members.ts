@@ -0,0 +1,258 @@
+/**
+ * Project member management
+ * Role changes, removal, leaving a project and ownership transfer
+ */
+
+import prisma from './prisma';
+import { canManageMembers, getUserRoleInProject, UserRole } from './permissions';
+import { getDoneStatuses } from './workflows';
+import { assertProjectNotArchived } from './archive';
+
+export const ASSIGNABLE_MEMBER_ROLES = ['collaborator', 'member', 'viewer'] as const;
+
+export type AssignableMemberRole = (typeof ASSIGNABLE_MEMBER_ROLES)[number];
+
+const memberInclude = {
+  user: {
+    select: { id: true, name: true, email: true, avatarUrl: true },
+  },
+} as const;
+
+export interface ReassignedTask {
+  id: string;
+  title: string;
+  projectId: string | null;
+  creatorId: string;
+  assigneeId: string | null;
+}
+
+/**
+ * Find a membership by ProjectMember id or by user id
+ * The client sometimes only knows the user id (e.g. for the owner row)
+ */
+async function findMember(projectId: string, memberId: string) {
+  return prisma.projectMember.findFirst({
+    where: {
+      projectId,
+      OR: [{ id: memberId }, { userId: memberId }],
+    },
+    include: memberInclude,
+  });
+}
+
+/**
+ * Check that a user can take over tasks of a leaving member
+ * Viewers cannot work on tasks, so they are not valid assignees
+ */
+async function validateReassignTarget(
+  projectId: string,
+  reassignTo: string | null | undefined,
+  leavingUserId: string
+): Promise<string | null> {
+  if (!reassignTo) {
+    return null;
+  }
+
+  if (reassignTo === leavingUserId) {
+    throw new Error('Cannot reassign tasks to the member being removed');
+  }
+
+  const role = await getUserRoleInProject(reassignTo, projectId);
+  if (!role) {
+    throw new Error('Reassign target is not a member of this project');
+  }
+  if (role === 'viewer') {
+    throw new Error('Tasks cannot be reassigned to a viewer');
+  }
+
+  return reassignTo;
+}
+
+/**
+ * Remove a membership and hand over the member's open project tasks
+ * Tasks are reassigned to `reassignTo` or left unassigned; completed tasks keep their assignee
+ */
+async function removeMembership(
+  member: { id: string; userId: string; projectId: string },
+  reassignTo: string | null
+): Promise<ReassignedTask[]> {
+  const doneStatuses = await getDoneStatuses(member.projectId);
+
+  return prisma.$transaction(async (tx) => {
+    const tasks = await tx.task.findMany({
+      where: {
+        projectId: member.projectId,
+        assigneeId: member.userId,
+        status: { notIn: doneStatuses },
+      },
+      select: { id: true },
+    });
+    const taskIds = tasks.map((t) => t.id);
+
+    if (taskIds.length > 0) {
+      await tx.task.updateMany({
+        where: { id: { in: taskIds } },
+        data: { assigneeId: reassignTo, version: { increment: 1 } },
+      });
+    }
+
+    await tx.projectMember.delete({ where: { id: member.id } });
+
+    return tx.task.findMany({
+      where: { id: { in: taskIds } },
+      select: { id: true, title: true, projectId: true, creatorId: true, assigneeId: true },
+    });
+  });
+}
+
+/**
+ * Change a member's role (owner only)
+ * The owner's role can only change through an ownership transfer
+ */
+export async function updateMemberRole(
+  projectId: string,
+  memberId: string,
+  role: AssignableMemberRole,
+  userId: string,
+  sessionId?: string
+): Promise<{ member: any; previousRole: UserRole }> {
+  const canManage = await canManageMembers(userId, projectId, sessionId);
+  if (!canManage) {
+    throw new Error('You do not have permission to manage members');
+  }
+
+  await assertProjectNotArchived(projectId);
+
+  if (!ASSIGNABLE_MEMBER_ROLES.includes(role)) {
+    throw new Error('Invalid role. Must be collaborator, member, or viewer');
+  }
+
+  const member = await findMember(projectId, memberId);
+  if (!member) {
+    throw new Error('Member not found');
+  }
+
+  if (member.role === 'owner') {
+    throw new Error('The owner role can only be changed by transferring ownership');
+  }
+
+  const updated = await prisma.projectMember.update({
+    where: { id: member.id },
+    data: { role },
+    include: memberInclude,
+  });
+
+  return { member: updated, previousRole: member.role as UserRole };
+}
+
+/**
+ * Remove a member from a project (owner only)
+ */
+export async function removeMember(
+  projectId: string,
+  memberId: string,
+  userId: string,
+  reassignTo?: string | null,
+  sessionId?: string
+): Promise<{ member: any; reassignedTasks: ReassignedTask[] }> {
+  const canManage = await canManageMembers(userId, projectId, sessionId);
+  if (!canManage) {
+    throw new Error('You do not have permission to manage members');
+  }
+
+  await assertProjectNotArchived(projectId);
+
+  const member = await findMember(projectId, memberId);
+  if (!member) {
+    throw new Error('Member not found');
+  }
+
+  if (member.role === 'owner') {
+    throw new Error('The project owner cannot be removed; transfer ownership first');
+  }
+
+  const target = await validateReassignTarget(projectId, reassignTo, member.userId);
+  const reassignedTasks = await removeMembership(member, target);
+
+  return { member, reassignedTasks };
+}
+
+/**
+ * Leave a project
+ * The owner has to transfer ownership before leaving
+ */
+export async function leaveProject(
+  projectId: string,
+  userId: string,
+  reassignTo?: string | null,
+  sessionId?: string
+): Promise<{ member: any; reassignedTasks: ReassignedTask[] }> {
+  const role = await getUserRoleInProject(userId, projectId, sessionId);
+  if (role === 'owner') {
+    throw new Error('The project owner cannot leave; transfer ownership first');
+  }
+
+  const member = await findMember(projectId, userId);
+  if (!member) {
+    throw new Error('You are not a member of this project');
+  }
+
+  if (!role) {
+    throw new Error('You do not have permission to leave this project');
+  }
+
+  const target = await validateReassignTarget(projectId, reassignTo, userId);
+  const reassignedTasks = await removeMembership(member, target);
+
+  return { member, reassignedTasks };
+}
+
+/**
+ * Transfer project ownership to another member (owner only)
+ * The previous owner stays in the project as a collaborator
+ */
+export async function transferOwnership(
+  projectId: string,
+  newOwnerMemberId: string,
+  userId: string,
+  sessionId?: string
+): Promise<{ project: any; newOwner: any; previousOwner: any }> {
+  const canManage = await canManageMembers(userId, projectId, sessionId);
+  if (!canManage) {
+    throw new Error('Only the project owner can transfer ownership');
+  }
+
+  await assertProjectNotArchived(projectId);
+
+  const newOwner = await findMember(projectId, newOwnerMemberId);
+  if (!newOwner) {
+    throw new Error('Member not found');
+  }
+
+  if (newOwner.userId === userId) {
+    throw new Error('You already own this project');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const project = await tx.project.update({
+      where: { id: projectId },
+      data: { ownerId: newOwner.userId },
+    });
+
+    const updatedNewOwner = await tx.projectMember.update({
+      where: { id: newOwner.id },
+      data: { role: 'owner' },
+      include: memberInclude,
+    });
+
+    // Older projects may not have a member row for the owner
+    const previousOwner = await tx.projectMember.upsert({
+      where: { userId_projectId: { userId, projectId } },
+      create: { userId, projectId, role: 'collaborator' },
+      update: { role: 'collaborator' },
+      include: memberInclude,
+    });
+
+    return { project, newOwner: updatedNewOwner, previousOwner };
+  });
+}
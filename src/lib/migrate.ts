@@ -3,8 +3,20 @@
  * Migrates data from KV store to Prisma models
  */
 
+import { pathToFileURL } from 'url';
 import prisma from './prisma';
 import * as kv from '../server/kv_store';
+import { getProjectWorkflow } from './workflows';
+import { DEFAULT_CATEGORY_COLOR, isCategoryAllowedForTask } from './categories';
+import {
+  createLocalDriver,
+  getStorage,
+  getStorageKey,
+  getStorageUrl,
+  buildContentKey,
+  isContentAddressedKey,
+  UploadKind,
+} from './storage';
 
 interface KVProject {
   id: string;
@@ -36,6 +48,15 @@ interface KVTask {
   updatedAt: string;
 }
 
+interface KVCategory {
+  id: string;
+  name: string;
+  color?: string;
+  description?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 /**
  * Migrate projects from KV store to Prisma for a specific user
  */
@@ -169,6 +190,11 @@ export async function migrateUserTasks(userId: string): Promise<void> {
       
       // Create task in Prisma
       try {
+        // Categories not migrated yet are attached by migrateUserCategories
+        const category = kvTask.category
+          ? await prisma.category.findUnique({ where: { id: kvTask.category }, select: { id: true, projectId: true } })
+          : null;
+
         const task = await prisma.task.create({
           data: {
             id: kvTask.id,
@@ -176,7 +202,7 @@ export async function migrateUserTasks(userId: string): Promise<void> {
             description: kvTask.description || null,
             status: kvTask.status,
             priority: kvTask.priority || 'medium',
-            category: kvTask.category || null,
+            category: category && isCategoryAllowedForTask(category, kvTask.projectId || null) ? category.id : null,
             tags: kvTask.tags || [],
             dueDate: kvTask.dueDate ? new Date(kvTask.dueDate) : null,
             projectId: kvTask.projectId || null,
@@ -200,6 +226,217 @@ export async function migrateUserTasks(userId: string): Promise<void> {
   }
 }
 
+/**
+ * Migrate categories from KV store to Prisma for a specific user
+ * A category used on the tasks of a project becomes a category of that project, the personal
+ * one keeps its id for personal tasks; a category used in several places gets a copy per project.
+ * Tasks (migrated from KV or already in Prisma) are pointed at the category of their scope.
+ */
+export async function migrateUserCategories(userId: string): Promise<void> {
+  console.log(`Migrating categories for user ${userId}...`);
+
+  try {
+    const kvCategories: KVCategory[] = (await kv.get(`categories:${userId}`)) || [];
+    const kvTasks: KVTask[] = (await kv.get(`tasks:${userId}`)) || [];
+
+    for (const kvCategory of kvCategories) {
+      try {
+        await migrateCategory(userId, kvCategory, kvTasks);
+      } catch (error: any) {
+        console.error(`  ❌ Failed to migrate category ${kvCategory.id}:`, error.message);
+      }
+    }
+
+    console.log(`✅ Categories migration completed for user ${userId}`);
+  } catch (error) {
+    console.error(`❌ Failed to migrate categories for user ${userId}:`, error);
+    throw error;
+  }
+}
+
+async function migrateCategory(userId: string, kvCategory: KVCategory, kvTasks: KVTask[]): Promise<void> {
+  const existingCategory = await prisma.category.findUnique({
+    where: { id: kvCategory.id },
+  });
+  if (existingCategory?.projectId) {
+    console.log(`Category ${kvCategory.id} already migrated, skipping...`);
+    return;
+  }
+
+  // Tasks using the category: already pointing at it, or migrated without it (see migrateUserTasks)
+  const kvTaskIds = kvTasks.filter((kvTask) => kvTask.category === kvCategory.id).map((kvTask) => kvTask.id);
+  const tasks = await prisma.task.findMany({
+    where: { OR: [{ category: kvCategory.id }, { id: { in: kvTaskIds }, category: null }] },
+    select: { id: true, projectId: true },
+  });
+  // Task id -> project id (null - personal task)
+  const taskScopes = new Map(tasks.map((task) => [task.id, task.projectId]));
+
+  const scopes = Array.from(new Set(taskScopes.values()));
+  const projectIds = scopes.filter((projectId): projectId is string => projectId !== null);
+  const primaryProjectId = scopes.includes(null) || projectIds.length === 0 ? null : projectIds[0];
+
+  if (existingCategory) {
+    if (primaryProjectId) {
+      await prisma.category.update({ where: { id: kvCategory.id }, data: { projectId: primaryProjectId } });
+    }
+  } else {
+    await prisma.category.create({
+      data: {
+        id: kvCategory.id,
+        name: kvCategory.name,
+        color: kvCategory.color || DEFAULT_CATEGORY_COLOR,
+        description: kvCategory.description || null,
+        ownerId: userId,
+        projectId: primaryProjectId,
+        createdAt: kvCategory.createdAt ? new Date(kvCategory.createdAt) : new Date(),
+        updatedAt: kvCategory.updatedAt ? new Date(kvCategory.updatedAt) : new Date(),
+      },
+    });
+  }
+
+  for (const scope of scopes) {
+    let categoryId = kvCategory.id;
+    if (scope !== primaryProjectId) {
+      const copy =
+        (await prisma.category.findFirst({ where: { ownerId: userId, projectId: scope, name: kvCategory.name } })) ||
+        (await prisma.category.create({
+          data: {
+            name: kvCategory.name,
+            color: kvCategory.color || DEFAULT_CATEGORY_COLOR,
+            description: kvCategory.description || null,
+            ownerId: userId,
+            projectId: scope,
+          },
+        }));
+      categoryId = copy.id;
+    }
+
+    const taskIds = Array.from(taskScopes).filter(([, projectId]) => projectId === scope).map(([taskId]) => taskId);
+    await prisma.task.updateMany({
+      where: { id: { in: taskIds } },
+      data: { category: categoryId },
+    });
+  }
+
+  console.log(`✅ Migrated category: ${kvCategory.name}${projectIds.length > 0 ? ` (projects: ${projectIds.length})` : ''}`);
+}
+
+/**
+ * Create workflows for projects that do not have one yet
+ * Statuses used by existing tasks are imported from the members' per-user
+ * custom columns (KV store), so everybody sees the same board afterwards
+ */
+export async function migrateProjectWorkflows(): Promise<void> {
+  console.log('Migrating project workflows...');
+
+  const projects = await prisma.project.findMany({
+    where: { workflowStatuses: { none: {} } },
+    select: { id: true, name: true },
+  });
+
+  for (const project of projects) {
+    try {
+      const statuses = await getProjectWorkflow(project.id);
+      console.log(`✅ Migrated workflow: ${project.name} (${statuses.map((s) => s.name).join(', ')})`);
+    } catch (error: any) {
+      console.error(`  ❌ Failed to migrate workflow of project ${project.id}:`, error.message);
+    }
+  }
+
+  console.log(`✅ Workflow migration completed (${projects.length} projects)`);
+}
+
+/**
+ * Move uploaded files into the configured storage (STORAGE_DRIVER)
+ * Files are read from the local uploads directory (or the target itself), stored under
+ * content-addressed keys and Attachment.url / ProjectAttachment.url / User.avatarUrl are rewritten.
+ * Local copies are removed once moved unless keepSource is set. Safe to run repeatedly.
+ */
+export async function migrateStorage(options: { keepSource?: boolean } = {}): Promise<void> {
+  const source = createLocalDriver();
+  const target = getStorage();
+  console.log(`Migrating uploads to ${target.name} storage...`);
+
+  const [attachments, projectAttachments, users] = await Promise.all([
+    prisma.attachment.findMany({ select: { url: true, mimeType: true } }),
+    prisma.projectAttachment.findMany({ select: { url: true, mimeType: true } }),
+    prisma.user.findMany({ where: { avatarUrl: { not: null } }, select: { avatarUrl: true } }),
+  ]);
+
+  const references = new Map<string, { kind: UploadKind; contentType?: string }>();
+  for (const user of users) {
+    references.set(user.avatarUrl!, { kind: 'avatars' });
+  }
+  for (const attachment of projectAttachments) {
+    references.set(attachment.url, { kind: 'project-attachments', contentType: attachment.mimeType });
+  }
+  for (const attachment of attachments) {
+    references.set(attachment.url, { kind: 'attachments', contentType: attachment.mimeType });
+  }
+
+  let moved = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const [url, { kind, contentType }] of references) {
+    const key = getStorageKey(url);
+    if (!key) {
+      skipped++; // External avatar URLs
+      continue;
+    }
+
+    try {
+      if (isContentAddressedKey(key) && (target.name === 'local' || (await target.exists(key)))) {
+        if (target.name !== 'local' && !options.keepSource) await source.delete(key);
+        skipped++;
+        continue;
+      }
+
+      const object = (await source.get(key)) || (await target.get(key));
+      if (!object) {
+        console.error(`  ❌ File of ${url} not found`);
+        failed++;
+        continue;
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of object.stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+      const body = Buffer.concat(chunks);
+
+      const newKey = isContentAddressedKey(key) ? key : buildContentKey(kind, body, key);
+      if (!(await target.exists(newKey))) {
+        await target.put(newKey, body, contentType || object.contentType);
+      }
+
+      const newUrl = getStorageUrl(newKey);
+      if (newUrl !== url) {
+        await prisma.attachment.updateMany({ where: { url }, data: { url: newUrl } });
+        await prisma.projectAttachment.updateMany({ where: { url }, data: { url: newUrl } });
+        await prisma.user.updateMany({ where: { avatarUrl: url }, data: { avatarUrl: newUrl } });
+      }
+
+      // The old copy: a legacy name in the target, or the local file after a move to S3
+      if (newKey !== key && (target.name === 'local' || !options.keepSource)) {
+        await target.delete(key).catch(() => undefined);
+      }
+      if (target.name !== 'local' && !options.keepSource) {
+        await source.delete(key);
+      }
+
+      moved++;
+      console.log(`✅ ${url} -> ${newUrl}`);
+    } catch (error: any) {
+      console.error(`  ❌ Failed to migrate ${url}:`, error.message);
+      failed++;
+    }
+  }
+
+  console.log(`✅ Storage migration completed (${moved} moved, ${skipped} skipped, ${failed} failed)`);
+}
+
 /**
  * Migrate all data for a user
  */
@@ -208,6 +445,7 @@ export async function migrateUserData(userId: string): Promise<void> {
   
   await migrateUserProjects(userId);
   await migrateUserTasks(userId);
+  await migrateUserCategories(userId);
   
   console.log(`\n========== Migration completed for user ${userId} ==========\n`);
 }
@@ -235,6 +473,8 @@ export async function migrateAllData(): Promise<void> {
         // Continue with other users
       }
     }
+
+    await migrateProjectWorkflows();
     
     console.log('\n========== Full migration completed ==========\n');
   } catch (error) {
@@ -244,7 +484,7 @@ export async function migrateAllData(): Promise<void> {
 }
 
 // CLI interface
-if (require.main === module) {
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
   const command = process.argv[2];
   const userId = process.argv[3];
   
@@ -262,11 +502,30 @@ if (require.main === module) {
         case 'all':
           await migrateAllData();
           break;
+
+        case 'categories':
+          if (!userId) {
+            console.error('Usage: npm run migrate categories <userId>');
+            process.exit(1);
+          }
+          await migrateUserCategories(userId);
+          break;
+
+        case 'workflows':
+          await migrateProjectWorkflows();
+          break;
+
+        case 'storage':
+          await migrateStorage({ keepSource: process.argv.includes('--keep-source') });
+          break;
           
         default:
           console.log('Usage:');
           console.log('  npm run migrate user <userId>  - Migrate data for specific user');
           console.log('  npm run migrate all            - Migrate all users data');
+          console.log('  npm run migrate categories <userId> - Migrate categories of a specific user');
+          console.log('  npm run migrate workflows      - Create project workflows from custom columns');
+          console.log('  npm run migrate storage [-- --keep-source] - Move uploads to the configured storage driver');
           process.exit(1);
       }
       
@@ -281,6 +540,9 @@ if (require.main === module) {
 export default {
   migrateUserProjects,
   migrateUserTasks,
+  migrateUserCategories,
   migrateUserData,
   migrateAllData,
+  migrateProjectWorkflows,
+  migrateStorage,
 };
@@ -0,0 +1,331 @@
+/**
+ * Notification utilities
+ * Persists in-app notifications, applies per-user channel preferences
+ * (in-app / email / off) and sends deadline reminders
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import emailService from './email';
+import { canViewTask } from './permissions';
+import { publishToVerifiedUsers } from '../server/realtime';
+
+export const NOTIFICATION_TYPES = [
+  'task_assigned',
+  'task_due_soon',
+  'task_overdue',
+  'invitation_accepted',
+  'role_changed',
+  'comment',
+  'mention',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+}
+
+export type NotificationPreferences = Record<NotificationType, NotificationChannels>;
+
+/**
+ * Defaults for users who never changed their settings
+ * Email is on only for events that need a reaction
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  task_assigned: { inApp: true, email: true },
+  task_due_soon: { inApp: true, email: true },
+  task_overdue: { inApp: true, email: false },
+  invitation_accepted: { inApp: true, email: false },
+  role_changed: { inApp: true, email: true },
+  comment: { inApp: true, email: false },
+  mention: { inApp: true, email: true },
+};
+
+export interface NotifyInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  actorId?: string | null;
+  taskId?: string | null;
+  projectId?: string | null;
+  data?: Record<string, any> | null;
+  // Custom email (e.g. mention template); defaults to the generic notification email
+  sendEmail?: (user: { email: string; name: string }) => Promise<boolean>;
+}
+
+const NOTIFICATION_PAGE_SIZE = 30;
+const MAX_NOTIFICATION_PAGE_SIZE = 100;
+
+export const DUE_SOON_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const notificationInclude = {
+  actor: {
+    select: { id: true, name: true, email: true, avatarUrl: true },
+  },
+} as const;
+
+export function isNotificationType(value: any): value is NotificationType {
+  return NOTIFICATION_TYPES.includes(value);
+}
+
+/**
+ * Get a user's preferences merged with defaults
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const rows = await prisma.notificationPreference.findMany({ where: { userId } });
+
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  for (const row of rows) {
+    if (isNotificationType(row.type)) {
+      preferences[row.type] = { inApp: row.inApp, email: row.email };
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Save preferences for the given types (partial update)
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: any
+): Promise<NotificationPreferences> {
+  if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+    throw new Error('Preferences must be an object');
+  }
+
+  for (const [type, channels] of Object.entries<any>(updates)) {
+    if (!isNotificationType(type)) {
+      throw new Error(`Unknown notification type: ${type}`);
+    }
+    if (
+      !channels ||
+      typeof channels.inApp !== 'boolean' ||
+      typeof channels.email !== 'boolean'
+    ) {
+      throw new Error(`Invalid channels for ${type}: inApp and email must be booleans`);
+    }
+  }
+
+  await prisma.$transaction(
+    Object.entries<NotificationChannels>(updates).map(([type, channels]) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, inApp: channels.inApp, email: channels.email },
+        update: { inApp: channels.inApp, email: channels.email },
+      })
+    )
+  );
+
+  return getNotificationPreferences(userId);
+}
+
+/**
+ * Deliver a notification through the channels the user enabled
+ * Never throws: a failed notification must not fail the user's request
+ * Users are not notified about their own actions
+ */
+export async function notify(input: NotifyInput): Promise<void> {
+  if (input.actorId && input.actorId === input.userId) {
+    return;
+  }
+
+  try {
+    const preferences = await getNotificationPreferences(input.userId);
+    const channels = preferences[input.type];
+
+    if (channels.inApp) {
+      const notification = await prisma.notification.create({
+        data: {
+          userId: input.userId,
+          type: input.type,
+          title: input.title,
+          message: input.message,
+          actorId: input.actorId ?? null,
+          taskId: input.taskId ?? null,
+          projectId: input.projectId ?? null,
+          data: (input.data ?? undefined) as Prisma.InputJsonValue | undefined,
+        },
+        include: notificationInclude,
+      });
+
+      await publishToVerifiedUsers([input.userId], {
+        type: 'notification.created',
+        projectId: input.projectId ?? null,
+        actorId: input.actorId ?? undefined,
+        payload: notification,
+      });
+    }
+
+    if (channels.email) {
+      const user = await prisma.user.findUnique({
+        where: { id: input.userId },
+        select: { email: true, name: true },
+      });
+      if (user) {
+        if (input.sendEmail) {
+          await input.sendEmail(user);
+        } else {
+          await emailService.sendNotificationEmail(user.email, user.name, input.title, input.message);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Failed to deliver notification:', error);
+  }
+}
+
+/**
+ * Notify the new assignee of a task
+ */
+export async function notifyTaskAssigned(
+  task: { id: string; title: string; projectId: string | null; assigneeId: string | null },
+  actorId: string
+): Promise<void> {
+  if (!task.assigneeId) return;
+
+  const actor = await prisma.user.findUnique({ where: { id: actorId }, select: { name: true } });
+
+  await notify({
+    userId: task.assigneeId,
+    type: 'task_assigned',
+    title: 'Вам назначена задача',
+    message: `${actor?.name || 'Пользователь'} назначил(а) вам задачу «${task.title}»`,
+    actorId,
+    taskId: task.id,
+    projectId: task.projectId,
+  });
+}
+
+/**
+ * Get a page of the user's notifications (newest first)
+ */
+export async function getNotifications(
+  userId: string,
+  options: { limit?: any; before?: any; unreadOnly?: boolean } = {}
+) {
+  const take = Math.min(
+    Math.max(parseInt(options.limit, 10) || NOTIFICATION_PAGE_SIZE, 1),
+    MAX_NOTIFICATION_PAGE_SIZE
+  );
+  const before = options.before ? new Date(options.before) : null;
+
+  const where: Prisma.NotificationWhereInput = { userId };
+  if (before && !isNaN(before.getTime())) {
+    where.createdAt = { lt: before };
+  }
+  if (options.unreadOnly) {
+    where.readAt = null;
+  }
+
+  return prisma.notification.findMany({
+    where,
+    include: notificationInclude,
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
+
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  return prisma.notification.count({ where: { userId, readAt: null } });
+}
+
+/**
+ * Mark notifications as read; without ids marks all of them
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: {
+      userId,
+      readAt: null,
+      ...(ids ? { id: { in: ids } } : {}),
+    },
+    data: { readAt: new Date() },
+  });
+  return result.count;
+}
+
+export async function deleteNotification(userId: string, notificationId: string): Promise<void> {
+  const result = await prisma.notification.deleteMany({
+    where: { id: notificationId, userId },
+  });
+  if (result.count === 0) {
+    throw new Error('Notification not found');
+  }
+}
+
+/**
+ * Send due-soon and overdue reminders for unfinished tasks
+ * Each reminder is sent once per deadline: moving the deadline makes the task eligible again
+ * Recipient is the assignee, or the creator when nobody is assigned
+ */
+export async function sendDeadlineReminders(now: Date = new Date()): Promise<number> {
+  const dueSoonLimit = new Date(now.getTime() + DUE_SOON_WINDOW_MS);
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      status: { not: 'done' },
+      dueDate: { not: null, lte: dueSoonLimit },
+      // Tasks of archived projects are frozen
+      OR: [{ projectId: null }, { project: { archived: false } }],
+    },
+    select: {
+      id: true,
+      title: true,
+      dueDate: true,
+      projectId: true,
+      creatorId: true,
+      assigneeId: true,
+      dueSoonNotifiedAt: true,
+      overdueNotifiedAt: true,
+    },
+  });
+
+  let sent = 0;
+
+  for (const task of tasks) {
+    const dueDate = task.dueDate!;
+    const recipientId = task.assigneeId || task.creatorId;
+    const isOverdue = dueDate.getTime() <= now.getTime();
+
+    if (isOverdue) {
+      if (task.overdueNotifiedAt && task.overdueNotifiedAt >= dueDate) continue;
+    } else {
+      const windowStart = new Date(dueDate.getTime() - DUE_SOON_WINDOW_MS);
+      if (task.dueSoonNotifiedAt && task.dueSoonNotifiedAt >= windowStart) continue;
+    }
+
+    await prisma.task.update({
+      where: { id: task.id },
+      data: isOverdue ? { overdueNotifiedAt: now } : { dueSoonNotifiedAt: now },
+    });
+
+    // Assignee may have lost access to the project since the assignment
+    if (!(await canViewTask(recipientId, task.id))) continue;
+
+    const dueLabel = dueDate.toLocaleString('ru-RU', {
+      day: 'numeric',
+      month: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: 'UTC',
+    });
+
+    await notify({
+      userId: recipientId,
+      type: isOverdue ? 'task_overdue' : 'task_due_soon',
+      title: isOverdue ? 'Задача просрочена' : 'Скоро дедлайн',
+      message: isOverdue
+        ? `Срок задачи «${task.title}» истёк ${dueLabel} (UTC)`
+        : `Срок задачи «${task.title}» истекает ${dueLabel} (UTC)`,
+      taskId: task.id,
+      projectId: task.projectId,
+    });
+    sent++;
+  }
+
+  return sent;
+}
@@ -1,20 +1,38 @@
 /**
  * Permission system for role-based access control
  * Implements requirements from the access control specification
+ *
+ * Checks made for a request take the session id: projects that require 2FA give no role
+ * to sessions that have not passed it. Without a session id (notifications, realtime
+ * recipients) only the membership is checked.
  */
 
 import prisma from './prisma';
+import { isProjectArchived } from './archive';
+import { meetsProjectTwoFactorRequirement } from './two-factor';
 
 export type UserRole = 'owner' | 'collaborator' | 'member' | 'viewer';
 
 /**
  * Get user's role in a project
- * Returns null if user is not a member
+ * Returns null if user is not a member, or if the project requires 2FA the session has not passed
  */
 export async function getUserRoleInProject(
   userId: string,
-  projectId: string
+  projectId: string,
+  sessionId?: string
 ): Promise<UserRole | null> {
+  const role = await getMembershipRole(userId, projectId);
+  if (role && sessionId !== undefined && !(await meetsProjectTwoFactorRequirement(projectId, sessionId))) {
+    return null;
+  }
+  return role;
+}
+
+/**
+ * Role from project ownership or membership, without the 2FA requirement
+ */
+async function getMembershipRole(userId: string, projectId: string): Promise<UserRole | null> {
   try {
     // Check if user is project owner
     const project = await prisma.project.findFirst({
@@ -55,22 +73,27 @@ export async function getUserRoleInProject(
  */
 export async function canViewProject(
   userId: string,
-  projectId: string
+  projectId: string,
+  sessionId?: string
 ): Promise<boolean> {
-  const role = await getUserRoleInProject(userId, projectId);
+  const role = await getUserRoleInProject(userId, projectId, sessionId);
   return role !== null;
 }
 
 /**
  * Check if user can edit project details (name, description, color, etc.)
- * Only Owner and Collaborator can edit
+ * Only Owner and Collaborator can edit, and only while the project is not archived
  */
 export async function canEditProject(
   userId: string,
-  projectId: string
+  projectId: string,
+  sessionId?: string
 ): Promise<boolean> {
-  const role = await getUserRoleInProject(userId, projectId);
-  return role === 'owner' || role === 'collaborator';
+  const role = await getUserRoleInProject(userId, projectId, sessionId);
+  if (role !== 'owner' && role !== 'collaborator') {
+    return false;
+  }
+  return !(await isProjectArchived(projectId));
 }
 
 /**
@@ -103,9 +126,10 @@ export async function canArchiveProject(
  */
 export async function canManageMembers(
   userId: string,
-  projectId: string
+  projectId: string,
+  sessionId?: string
 ): Promise<boolean> {
-  const role = await getUserRoleInProject(userId, projectId);
+  const role = await getUserRoleInProject(userId, projectId, sessionId);
   return role === 'owner';
 }
 
@@ -115,9 +139,10 @@ export async function canManageMembers(
  */
 export async function canInviteUsers(
   userId: string,
-  projectId: string
+  projectId: string,
+  sessionId?: string
 ): Promise<boolean> {
-  const role = await getUserRoleInProject(userId, projectId);
+  const role = await getUserRoleInProject(userId, projectId, sessionId);
   return role === 'owner';
 }
 
@@ -128,7 +153,8 @@ export async function canInviteUsers(
  */
 export async function canViewTask(
   userId: string,
-  taskId: string
+  taskId: string,
+  sessionId?: string
 ): Promise<boolean> {
   try {
     const task = await prisma.task.findUnique({
@@ -144,7 +170,7 @@ export async function canViewTask(
       return task.creatorId === userId;
     }
 
-    const role = await getUserRoleInProject(userId, task.projectId);
+    const role = await getUserRoleInProject(userId, task.projectId, sessionId);
 
     if (!role) {
       return false;
@@ -168,18 +194,20 @@ export async function canViewTask(
  * - Personal tasks: user can only create for themselves or without assignee
  * - Owner, Collaborator, Member can create tasks in projects
  * - Member can only create tasks assigned to themselves or without assignee
+ * - Nobody can create tasks in an archived project
  */
 export async function canCreateTask(
   userId: string,
   projectId: string | null,
-  assigneeId?: string | null
+  assigneeId?: string | null,
+  sessionId?: string
 ): Promise<boolean> {
   // Personal tasks (no project) - user can only create for themselves or without assignee
   if (!projectId) {
     return !assigneeId || assigneeId === userId;
   }
 
-  const role = await getUserRoleInProject(userId, projectId);
+  const role = await getUserRoleInProject(userId, projectId, sessionId);
 
   if (!role) {
     return false;
@@ -190,6 +218,11 @@ export async function canCreateTask(
     return false;
   }
 
+  // Archived projects are read-only
+  if (await isProjectArchived(projectId)) {
+    return false;
+  }
+
   // Member can only create tasks assigned to themselves or without assignee
   if (role === 'member') {
     return assigneeId === userId || assigneeId === null;
@@ -199,15 +232,50 @@ export async function canCreateTask(
   return true;
 }
 
+/**
+ * Check if user can add a subtask to a task
+ * Subtasks always live in the parent's project, so the project role applies:
+ * - User must be able to edit the parent task
+ * - The usual task creation rules apply to the subtask assignee
+ */
+export async function canCreateSubtask(
+  userId: string,
+  parentTaskId: string,
+  assigneeId?: string | null,
+  sessionId?: string
+): Promise<boolean> {
+  try {
+    const parent = await prisma.task.findUnique({
+      where: { id: parentTaskId },
+      select: { projectId: true },
+    });
+
+    if (!parent) {
+      return false;
+    }
+
+    if (!(await canEditTask(userId, parentTaskId, sessionId))) {
+      return false;
+    }
+
+    return canCreateTask(userId, parent.projectId, assigneeId, sessionId);
+  } catch (error) {
+    console.error('Error checking subtask create permission:', error);
+    return false;
+  }
+}
+
 /**
  * Check if user can edit a task
  * - Owner and Collaborator can edit any task
  * - Member can only edit their own tasks
  * - Viewer cannot edit
+ * - Nobody can edit tasks of an archived project
  */
 export async function canEditTask(
   userId: string,
-  taskId: string
+  taskId: string,
+  sessionId?: string
 ): Promise<boolean> {
   try {
     const task = await prisma.task.findUnique({
@@ -223,7 +291,12 @@ export async function canEditTask(
       return task.creatorId === userId;
     }
 
-    const role = await getUserRoleInProject(userId, task.projectId);
+    // Tasks of archived projects are read-only
+    if (await isProjectArchived(task.projectId)) {
+      return false;
+    }
+
+    const role = await getUserRoleInProject(userId, task.projectId, sessionId);
 
     if (!role) {
       return false;
@@ -251,10 +324,12 @@ export async function canEditTask(
  * Check if user can delete a task
  * - Owner and Collaborator can delete any task
  * - Member and Viewer cannot delete tasks
+ * - Nobody can delete tasks of an archived project
  */
 export async function canDeleteTask(
   userId: string,
-  taskId: string
+  taskId: string,
+  sessionId?: string
 ): Promise<boolean> {
   try {
     const task = await prisma.task.findUnique({
@@ -270,7 +345,12 @@ export async function canDeleteTask(
       return task.creatorId === userId;
     }
 
-    const role = await getUserRoleInProject(userId, task.projectId);
+    // Tasks of archived projects are read-only
+    if (await isProjectArchived(task.projectId)) {
+      return false;
+    }
+
+    const role = await getUserRoleInProject(userId, task.projectId, sessionId);
 
     // Only Owner and Collaborator can delete
     return role === 'owner' || role === 'collaborator';
@@ -285,11 +365,13 @@ export async function canDeleteTask(
  * - Owner and Collaborator can change to any member
  * - Member can only assign to themselves
  * - Viewer cannot change assignee
+ * - Nobody can reassign tasks of an archived project
  */
 export async function canChangeTaskAssignee(
   userId: string,
   taskId: string,
-  newAssigneeId: string | null
+  newAssigneeId: string | null,
+  sessionId?: string
 ): Promise<boolean> {
   try {
     const task = await prisma.task.findUnique({
@@ -305,7 +387,12 @@ export async function canChangeTaskAssignee(
       return task.creatorId === userId;
     }
 
-    const role = await getUserRoleInProject(userId, task.projectId);
+    // Tasks of archived projects are read-only
+    if (await isProjectArchived(task.projectId)) {
+      return false;
+    }
+
+    const role = await getUserRoleInProject(userId, task.projectId, sessionId);
 
     if (!role) {
       return false;
@@ -0,0 +1,131 @@
+/**
+ * Project link utilities
+ * Named links of a project (documentation, repository, designs) shown in the project card
+ */
+
+import type { ProjectLink } from '@prisma/client';
+import prisma from './prisma';
+
+export const MAX_PROJECT_LINKS = 50;
+export const MAX_LINK_NAME_LENGTH = 100;
+export const MAX_LINK_URL_LENGTH = 2048;
+
+export interface ProjectLinkInput {
+  name: string;
+  url: string;
+}
+
+/**
+ * Validate and normalize a link; only http(s) URLs are accepted
+ */
+export function normalizeLinkInput(input: Partial<ProjectLinkInput> | undefined): ProjectLinkInput {
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  const url = typeof input?.url === 'string' ? input.url.trim() : '';
+
+  if (!name || name.length > MAX_LINK_NAME_LENGTH) {
+    throw new Error(`Link name must be 1-${MAX_LINK_NAME_LENGTH} characters long`);
+  }
+  if (!url || url.length > MAX_LINK_URL_LENGTH) {
+    throw new Error(`Link URL must be 1-${MAX_LINK_URL_LENGTH} characters long`);
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Link URL is invalid');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Link URL must start with http:// or https://');
+  }
+
+  return { name, url: parsed.toString() };
+}
+
+/**
+ * Rows for the initial links of a new project (used inside project creation transactions)
+ */
+export function buildProjectLinks(projectId: string, input: unknown): Omit<ProjectLink, 'id' | 'createdAt' | 'updatedAt'>[] {
+  if (input === undefined || input === null) {
+    return [];
+  }
+  if (!Array.isArray(input)) {
+    throw new Error('links must be an array');
+  }
+  if (input.length > MAX_PROJECT_LINKS) {
+    throw new Error(`A project cannot have more than ${MAX_PROJECT_LINKS} links`);
+  }
+
+  return input.map((link, position) => ({ projectId, position, ...normalizeLinkInput(link) }));
+}
+
+/**
+ * Get the links of a project in display order
+ */
+export async function getProjectLinks(projectId: string): Promise<ProjectLink[]> {
+  return prisma.projectLink.findMany({
+    where: { projectId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Add a link to the end of the project's list
+ */
+export async function addProjectLink(projectId: string, input: Partial<ProjectLinkInput>): Promise<ProjectLink> {
+  const data = normalizeLinkInput(input);
+
+  const count = await prisma.projectLink.count({ where: { projectId } });
+  if (count >= MAX_PROJECT_LINKS) {
+    throw new Error(`A project cannot have more than ${MAX_PROJECT_LINKS} links`);
+  }
+
+  const last = await prisma.projectLink.findFirst({
+    where: { projectId },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+
+  return prisma.projectLink.create({
+    data: { projectId, position: (last?.position ?? -1) + 1, ...data },
+  });
+}
+
+/**
+ * Update the name, URL or position of a link
+ */
+export async function updateProjectLink(
+  projectId: string,
+  linkId: string,
+  input: Partial<ProjectLinkInput> & { position?: number }
+): Promise<{ link: ProjectLink; previous: ProjectLink }> {
+  const previous = await prisma.projectLink.findFirst({ where: { id: linkId, projectId } });
+  if (!previous) {
+    throw new Error('Link not found');
+  }
+
+  const data = normalizeLinkInput({ name: input.name ?? previous.name, url: input.url ?? previous.url });
+  if (input.position !== undefined && (!Number.isInteger(input.position) || input.position < 0)) {
+    throw new Error('Position must be a non-negative integer');
+  }
+
+  const link = await prisma.projectLink.update({
+    where: { id: linkId },
+    data: { ...data, ...(input.position !== undefined ? { position: input.position } : {}) },
+  });
+
+  return { link, previous };
+}
+
+/**
+ * Delete a link of a project
+ */
+export async function deleteProjectLink(projectId: string, linkId: string): Promise<ProjectLink> {
+  const link = await prisma.projectLink.findFirst({ where: { id: linkId, projectId } });
+  if (!link) {
+    throw new Error('Link not found');
+  }
+
+  await prisma.projectLink.delete({ where: { id: linkId } });
+  return link;
+}
@@ -0,0 +1,243 @@
+/**
+ * Rate limiting and brute-force protection
+ * Requests are counted in fixed windows per bucket and key (client IP, account, recipient email).
+ * Failed sign-ins lock the account progressively: every lockout within a day doubles the next one.
+ *
+ * Counters live in a RateLimitStore. The default in-memory store only works for a single
+ * server instance; several instances need a shared store (e.g. Redis) set with setRateLimitStore.
+ *
+ * Limits are configured with RATE_LIMIT_<BUCKET>="<max>/<window>" (window: 30s, 15m, 1h),
+ * RATE_LIMIT_ENABLED=false turns limiting off (lockouts included).
+ */
+
+export interface RateLimitEntry {
+  count: number;
+  resetAt: number; // ms timestamp when the entry expires
+}
+
+export interface RateLimitStore {
+  /**
+   * Count a hit for key; a new window of windowMs starts with the first hit
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  get(key: string): Promise<RateLimitEntry | null>;
+  set(key: string, entry: RateLimitEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type RateLimitBucket =
+  | 'signin_ip'
+  | 'signup_ip'
+  | 'two_factor_ip'
+  | 'password_reset_ip'
+  | 'password_reset_account'
+  | 'invitation_lookup_ip'
+  | 'invitation_lookup_user'
+  | 'invitation_send_user'
+  | 'invitation_recipient';
+
+export interface RateLimitRule {
+  max: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const DEFAULT_RULES: Record<RateLimitBucket, RateLimitRule> = {
+  signin_ip: { max: 30, windowMs: 15 * MINUTE },
+  signup_ip: { max: 10, windowMs: HOUR },
+  two_factor_ip: { max: 30, windowMs: 15 * MINUTE },
+  password_reset_ip: { max: 10, windowMs: HOUR },
+  password_reset_account: { max: 3, windowMs: HOUR },
+  invitation_lookup_ip: { max: 60, windowMs: 15 * MINUTE },
+  invitation_lookup_user: { max: 30, windowMs: 15 * MINUTE },
+  invitation_send_user: { max: 50, windowMs: HOUR },
+  invitation_recipient: { max: 5, windowMs: HOUR },
+};
+
+export const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== 'false';
+
+// Progressive lockout after failed sign-ins (password or second factor)
+export const LOGIN_LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5;
+const LOGIN_FAILURE_WINDOW = 15 * MINUTE; // Failures older than this are forgotten
+const LOGIN_LOCKOUT_BASE = (Number(process.env.LOGIN_LOCKOUT_BASE_MINUTES) || 1) * MINUTE;
+const LOGIN_LOCKOUT_MAX = (Number(process.env.LOGIN_LOCKOUT_MAX_MINUTES) || 60) * MINUTE;
+const LOGIN_LOCKOUT_MEMORY = 24 * HOUR; // Lockouts within this period make the next one longer
+
+const MEMORY_STORE_SWEEP_SIZE = 10000; // Drop expired entries once the store grows this large
+
+/**
+ * Parse "<max>/<window>", e.g. "10/15m"; returns null for malformed values
+ */
+export function parseRateLimitRule(value: string): RateLimitRule | null {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*(s|m|h)\s*$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const unit = { s: 1000, m: MINUTE, h: HOUR }[match[3].toLowerCase() as 's' | 'm' | 'h'];
+  const rule = { max: Number(match[1]), windowMs: Number(match[2]) * unit };
+  return rule.max > 0 && rule.windowMs > 0 ? rule : null;
+}
+
+function loadRules(): Record<RateLimitBucket, RateLimitRule> {
+  const rules = { ...DEFAULT_RULES };
+
+  for (const bucket of Object.keys(rules) as RateLimitBucket[]) {
+    const envName = `RATE_LIMIT_${bucket.toUpperCase()}`;
+    const value = process.env[envName];
+    if (!value) continue;
+
+    const rule = parseRateLimitRule(value);
+    if (rule) {
+      rules[bucket] = rule;
+    } else {
+      console.warn(`Ignoring malformed ${envName}="${value}" (expected "<max>/<window>", e.g. "10/15m")`);
+    }
+  }
+
+  return rules;
+}
+
+const rules = loadRules();
+
+export function getRateLimitRule(bucket: RateLimitBucket): RateLimitRule {
+  return rules[bucket];
+}
+
+// ========== STORES ==========
+
+/**
+ * Counters in process memory, lost on restart
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+
+  const read = (key: string): RateLimitEntry | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.resetAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const sweep = () => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= now) entries.delete(key);
+    }
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const current = read(key);
+      const entry = current
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: Date.now() + windowMs };
+      entries.set(key, entry);
+      if (entries.size > MEMORY_STORE_SWEEP_SIZE) {
+        sweep();
+      }
+      return entry;
+    },
+    async get(key) {
+      return read(key);
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replace the counter store, e.g. with one shared by all server instances
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+// ========== LIMITS ==========
+
+/**
+ * Count a request in a bucket; the request is not allowed once the bucket's limit is exceeded
+ */
+export async function consumeRateLimit(bucket: RateLimitBucket, key: string): Promise<RateLimitResult> {
+  const rule = rules[bucket];
+  if (!RATE_LIMIT_ENABLED) {
+    return { allowed: true, remaining: rule.max, retryAfterMs: 0 };
+  }
+
+  const entry = await store.increment(`${bucket}:${key}`, rule.windowMs);
+  const allowed = entry.count <= rule.max;
+
+  return {
+    allowed,
+    remaining: Math.max(0, rule.max - entry.count),
+    retryAfterMs: allowed ? 0 : Math.max(0, entry.resetAt - Date.now()),
+  };
+}
+
+// ========== LOGIN LOCKOUT ==========
+
+function normalizeAccount(account: string): string {
+  return account.trim().toLowerCase();
+}
+
+/**
+ * Time left in ms until a locked account may sign in again, 0 if it is not locked
+ */
+export async function getLoginLockout(account: string): Promise<number> {
+  if (!RATE_LIMIT_ENABLED) {
+    return 0;
+  }
+
+  const lock = await store.get(`login_lock:${normalizeAccount(account)}`);
+  return lock ? Math.max(0, lock.resetAt - Date.now()) : 0;
+}
+
+/**
+ * Count a failed sign-in; after LOGIN_LOCKOUT_THRESHOLD failures the account is locked
+ * Returns the lockout duration in ms when this failure locked the account, otherwise 0
+ */
+export async function registerLoginFailure(account: string): Promise<number> {
+  if (!RATE_LIMIT_ENABLED) {
+    return 0;
+  }
+
+  const key = normalizeAccount(account);
+  const failures = await store.increment(`login_fail:${key}`, LOGIN_FAILURE_WINDOW);
+  if (failures.count < LOGIN_LOCKOUT_THRESHOLD) {
+    return 0;
+  }
+
+  const lockouts = await store.increment(`login_lockouts:${key}`, LOGIN_LOCKOUT_MEMORY);
+  const duration = Math.min(LOGIN_LOCKOUT_BASE * 2 ** (lockouts.count - 1), LOGIN_LOCKOUT_MAX);
+
+  await store.set(`login_lock:${key}`, { count: lockouts.count, resetAt: Date.now() + duration });
+  await store.delete(`login_fail:${key}`);
+
+  return duration;
+}
+
+/**
+ * Forget failed sign-ins after a successful one
+ */
+export async function clearLoginFailures(account: string): Promise<void> {
+  const key = normalizeAccount(account);
+  await store.delete(`login_fail:${key}`);
+  await store.delete(`login_lockouts:${key}`);
+}
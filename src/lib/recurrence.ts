@@ -0,0 +1,378 @@
+/**
+ * Recurring task utilities
+ * Handles recurrence rules, next occurrence generation and
+ * "edit this / all future" semantics for task series
+ */
+
+import { addDays, addMonths, addWeeks } from 'date-fns';
+import type { RecurrenceRule, Task } from '@prisma/client';
+import prisma from './prisma';
+import { getDefaultStatus, getDoneStatuses } from './workflows';
+import { canChangeTaskAssignee, canDeleteTask, canEditTask } from './permissions';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+export type RecurrenceScope = 'this' | 'future';
+
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'custom'];
+
+export interface RecurrenceInput {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate: Date | null;
+  maxOccurrences: number | null;
+}
+
+/**
+ * Fields that "all future" edits copy to the remaining open occurrences
+ * Status, position and due date always stay per occurrence
+ */
+const SERIES_FIELDS = ['title', 'description', 'priority', 'category', 'tags', 'assigneeId'] as const;
+
+/**
+ * Parse recurrence settings from a request body
+ * Accepts either `recurrence: { frequency, interval, startDate, endDate, count }`
+ * or the legacy front-end fields `isRecurring`, `recurringStartDate`, `recurringIntervalDays`
+ *
+ * Returns undefined when the body does not touch recurrence, null to remove it
+ */
+export function parseRecurrenceInput(body: any): RecurrenceInput | null | undefined {
+  let raw = body.recurrence;
+
+  if (raw === undefined) {
+    if (body.isRecurring === undefined) {
+      return undefined;
+    }
+    if (!body.isRecurring) {
+      return null;
+    }
+    raw = {
+      frequency: 'custom',
+      interval: body.recurringIntervalDays,
+      startDate: body.recurringStartDate,
+    };
+  }
+
+  if (raw === null) {
+    return null;
+  }
+
+  const frequency = raw.frequency || 'custom';
+  if (!FREQUENCIES.includes(frequency)) {
+    throw new Error('Invalid recurrence frequency. Must be daily, weekly, monthly, or custom');
+  }
+
+  const interval = raw.interval === undefined ? 1 : parseInt(raw.interval, 10);
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error('Recurrence interval must be a positive integer');
+  }
+
+  const startDate = raw.startDate ? new Date(raw.startDate) : new Date();
+  if (isNaN(startDate.getTime())) {
+    throw new Error('Invalid recurrence start date');
+  }
+
+  let endDate: Date | null = null;
+  if (raw.endDate) {
+    endDate = new Date(raw.endDate);
+    if (isNaN(endDate.getTime()) || endDate < startDate) {
+      throw new Error('Recurrence end date must be after the start date');
+    }
+  }
+
+  let maxOccurrences: number | null = null;
+  const count = raw.count ?? raw.maxOccurrences;
+  if (count !== undefined && count !== null) {
+    maxOccurrences = parseInt(count, 10);
+    if (!Number.isInteger(maxOccurrences) || maxOccurrences < 1) {
+      throw new Error('Recurrence count must be a positive integer');
+    }
+  }
+
+  return { frequency, interval, startDate, endDate, maxOccurrences };
+}
+
+/**
+ * Add one recurrence step to a date
+ */
+export function addRecurrenceStep(
+  date: Date,
+  rule: Pick<RecurrenceRule, 'frequency' | 'interval'>
+): Date {
+  switch (rule.frequency) {
+    case 'daily':
+    case 'custom':
+      return addDays(date, rule.interval);
+    case 'weekly':
+      return addWeeks(date, rule.interval);
+    case 'monthly':
+      return addMonths(date, rule.interval);
+    default:
+      return addDays(date, rule.interval);
+  }
+}
+
+/**
+ * Calculate the due date of the next occurrence
+ * Starts from the current due date (or the completion time if there is none)
+ * and skips occurrences that are already in the past.
+ * Returns null when the rule has ended.
+ */
+export function computeNextOccurrence(
+  rule: RecurrenceRule,
+  currentDueDate: Date | null,
+  now: Date = new Date()
+): Date | null {
+  if (rule.maxOccurrences !== null && rule.occurrenceCount >= rule.maxOccurrences) {
+    return null;
+  }
+
+  let next = addRecurrenceStep(currentDueDate || now, rule);
+  while (next <= now) {
+    next = addRecurrenceStep(next, rule);
+  }
+
+  if (rule.endDate && next > rule.endDate) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Generate the next occurrence of a recurring task after it was completed
+ * Returns null if the task is not recurring, the series has ended,
+ * or the next occurrence was already generated
+ */
+export async function spawnNextOccurrence(task: Task): Promise<Task | null> {
+  if (!task.recurrenceRuleId) {
+    return null;
+  }
+
+  // The next occurrence starts in the first open status of the project workflow
+  const initialStatus = task.projectId ? await getDefaultStatus(task.projectId) : 'todo';
+
+  return prisma.$transaction(async (tx) => {
+    // Completing, reopening and completing again must not produce duplicates
+    const existingNext = await tx.task.findFirst({
+      where: { parentRecurringTaskId: task.id },
+    });
+    if (existingNext) {
+      return null;
+    }
+
+    const rule = await tx.recurrenceRule.findUnique({
+      where: { id: task.recurrenceRuleId! },
+    });
+    if (!rule) {
+      return null;
+    }
+
+    const nextDueDate = computeNextOccurrence(rule, task.dueDate);
+    if (!nextDueDate) {
+      return null;
+    }
+
+    await tx.recurrenceRule.update({
+      where: { id: rule.id },
+      data: { occurrenceCount: { increment: 1 } },
+    });
+
+    return tx.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        status: initialStatus,
+        priority: task.priority,
+        category: task.category,
+        tags: task.tags,
+        dueDate: nextDueDate,
+        projectId: task.projectId,
+        creatorId: task.creatorId,
+        assigneeId: task.assigneeId,
+        orderKey: task.orderKey,
+        recurrenceRuleId: rule.id,
+        parentRecurringTaskId: task.id,
+      },
+    });
+  });
+}
+
+/**
+ * Create a recurrence rule for a new task
+ */
+export async function createRecurrenceRule(input: RecurrenceInput): Promise<RecurrenceRule> {
+  return prisma.recurrenceRule.create({
+    data: {
+      frequency: input.frequency,
+      interval: input.interval,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      maxOccurrences: input.maxOccurrences,
+    },
+  });
+}
+
+/**
+ * Find open occurrences of the series created after the given task that the user may edit or delete
+ * Occurrences the user has no permission for (e.g. a member's task reassigned to someone else) are left out
+ */
+export async function getFutureOccurrences(
+  task: Task,
+  userId: string,
+  sessionId: string,
+  action: 'edit' | 'delete'
+): Promise<Task[]> {
+  if (!task.recurrenceRuleId) {
+    return [];
+  }
+
+  const occurrences = await prisma.task.findMany({
+    where: {
+      recurrenceRuleId: task.recurrenceRuleId,
+      id: { not: task.id },
+      status: { notIn: await getDoneStatuses(task.projectId) },
+      createdAt: { gte: task.createdAt },
+    },
+  });
+
+  const hasPermission = action === 'edit' ? canEditTask : canDeleteTask;
+  const allowed: Task[] = [];
+  for (const occurrence of occurrences) {
+    if (await hasPermission(userId, occurrence.id, sessionId)) {
+      allowed.push(occurrence);
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Apply a recurrence change to a task
+ * - scope 'this': only this occurrence is split off / detached from the series
+ * - scope 'future': the shared rule is updated (or stopped) for this and later occurrences
+ */
+export async function applyRecurrenceChange(
+  task: Task,
+  input: RecurrenceInput | null,
+  scope: RecurrenceScope,
+  userId: string,
+  sessionId: string
+): Promise<void> {
+  // Stop recurrence
+  if (input === null) {
+    if (!task.recurrenceRuleId) {
+      return;
+    }
+    const ids = scope === 'future'
+      ? [task.id, ...(await getFutureOccurrences(task, userId, sessionId, 'edit')).map((t) => t.id)]
+      : [task.id];
+    await prisma.task.updateMany({
+      where: { id: { in: ids } },
+      data: { recurrenceRuleId: null },
+    });
+    return;
+  }
+
+  // Update the shared rule
+  if (task.recurrenceRuleId && scope === 'future') {
+    await prisma.recurrenceRule.update({
+      where: { id: task.recurrenceRuleId },
+      data: {
+        frequency: input.frequency,
+        interval: input.interval,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        maxOccurrences: input.maxOccurrences,
+      },
+    });
+    return;
+  }
+
+  // Start a new series (task was not recurring, or only this occurrence changes)
+  const rule = await createRecurrenceRule(input);
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { recurrenceRuleId: rule.id },
+  });
+}
+
+/**
+ * Copy series-level field changes to the remaining open occurrences the user may edit
+ * Returns the changed occurrences as they were before the change
+ */
+export async function applyToFutureOccurrences(
+  task: Task,
+  updateData: Record<string, any>,
+  userId: string,
+  sessionId: string
+): Promise<Task[]> {
+  const seriesData: Record<string, any> = {};
+  for (const field of SERIES_FIELDS) {
+    if (updateData[field] !== undefined) {
+      seriesData[field] = updateData[field];
+    }
+  }
+
+  if (Object.keys(seriesData).length === 0) {
+    return [];
+  }
+
+  let occurrences = await getFutureOccurrences(task, userId, sessionId, 'edit');
+  // Members may only assign their own tasks to themselves, the same check as for a single task
+  if (seriesData.assigneeId !== undefined) {
+    const assignable: Task[] = [];
+    for (const occurrence of occurrences) {
+      if (await canChangeTaskAssignee(userId, occurrence.id, seriesData.assigneeId, sessionId)) {
+        assignable.push(occurrence);
+      }
+    }
+    occurrences = assignable;
+  }
+
+  if (occurrences.length === 0) {
+    return [];
+  }
+
+  await prisma.task.updateMany({
+    where: { id: { in: occurrences.map((t) => t.id) } },
+    data: { ...seriesData, version: { increment: 1 } },
+  });
+
+  return occurrences;
+}
+
+/**
+ * Delete the given occurrences (this one and the later ones from getFutureOccurrences)
+ * and stop the series; subtasks are cascade deleted
+ */
+export async function deleteFutureOccurrences(task: Task, ids: string[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.task.deleteMany({ where: { id: { in: ids } } }),
+    ...(task.recurrenceRuleId
+      ? [
+          prisma.recurrenceRule.update({
+            where: { id: task.recurrenceRuleId },
+            data: { endDate: new Date() },
+          }),
+        ]
+      : []),
+  ]);
+}
+
+/**
+ * Add the legacy recurrence fields the front-end Task type expects
+ */
+export function withRecurrenceFields<T extends { recurrenceRule?: RecurrenceRule | null }>(task: T) {
+  const rule = task.recurrenceRule;
+  if (!rule) {
+    return { ...task, isRecurring: false };
+  }
+
+  const daysPerStep: Record<string, number> = { daily: 1, custom: 1, weekly: 7, monthly: 30 };
+  return {
+    ...task,
+    isRecurring: true,
+    recurringStartDate: rule.startDate,
+    recurringIntervalDays: rule.interval * (daysPerStep[rule.frequency] || 1),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Saved view utilities
+ * Named dashboard presets (filters, search, sorting, view mode, calendar range), either personal
+ * or shared with the members of a project; pinned views are listed in the sidebar
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { canEditProject, canViewProject } from './permissions';
+import { isSessionTwoFactorVerified } from './two-factor';
+import type { BoardState } from '../server/types';
+
+export const MAX_SAVED_VIEWS = 100; // Per user, personal and shared
+
+const SAVED_VIEW_INCLUDE = {
+  owner: { select: { id: true, name: true } },
+  project: { select: { id: true, name: true, color: true } },
+} satisfies Prisma.SavedViewInclude;
+
+export interface SavedViewInput {
+  name?: string;
+  projectId?: string | null;
+  pinned?: boolean;
+  state?: BoardState;
+}
+
+/**
+ * Personal views of the user and the views shared with their projects, pinned first
+ */
+export async function getSavedViews(userId: string, sessionId: string | undefined) {
+  const projectFilter: Prisma.ProjectWhereInput = (await isSessionTwoFactorVerified(sessionId))
+    ? { members: { some: { userId } } }
+    : { members: { some: { userId } }, requireTwoFactor: false };
+
+  return prisma.savedView.findMany({
+    where: {
+      OR: [
+        { ownerId: userId, projectId: null },
+        { project: projectFilter },
+      ],
+    },
+    include: SAVED_VIEW_INCLUDE,
+    orderBy: [{ pinned: 'desc' }, { name: 'asc' }],
+  });
+}
+
+async function assertCanShareWith(userId: string, sessionId: string, projectId: string) {
+  if (!(await canViewProject(userId, projectId, sessionId))) {
+    throw new Error('You do not have permission to share views with this project');
+  }
+}
+
+/**
+ * The author can change a view; a shared view can also be changed by whoever edits the project
+ */
+async function getEditableView(userId: string, sessionId: string, viewId: string) {
+  const view = await prisma.savedView.findUnique({ where: { id: viewId } });
+  if (!view) {
+    throw new Error('Saved view not found');
+  }
+  if (view.ownerId === userId) {
+    return view;
+  }
+  if (view.projectId && (await canViewProject(userId, view.projectId, sessionId))) {
+    if (await canEditProject(userId, view.projectId, sessionId)) {
+      return view;
+    }
+    throw new Error('You do not have permission to change this view');
+  }
+  throw new Error('Saved view not found');
+}
+
+/**
+ * Save a view for the user, optionally shared with one of their projects
+ */
+export async function createSavedView(userId: string, sessionId: string, input: SavedViewInput & { name: string; state: BoardState }) {
+  if (input.projectId) {
+    await assertCanShareWith(userId, sessionId, input.projectId);
+  }
+
+  const count = await prisma.savedView.count({ where: { ownerId: userId } });
+  if (count >= MAX_SAVED_VIEWS) {
+    throw new Error(`You cannot have more than ${MAX_SAVED_VIEWS} saved views`);
+  }
+
+  return prisma.savedView.create({
+    data: {
+      name: input.name,
+      state: input.state,
+      pinned: input.pinned ?? false,
+      ownerId: userId,
+      projectId: input.projectId || null,
+    },
+    include: SAVED_VIEW_INCLUDE,
+  });
+}
+
+/**
+ * Rename, pin, re-share or overwrite the state of a view
+ */
+export async function updateSavedView(userId: string, sessionId: string, viewId: string, input: SavedViewInput) {
+  const view = await getEditableView(userId, sessionId, viewId);
+
+  // Only the author decides who the view is shared with
+  if (input.projectId !== undefined && (input.projectId || null) !== view.projectId) {
+    if (view.ownerId !== userId) {
+      throw new Error('You do not have permission to change this view');
+    }
+    if (input.projectId) {
+      await assertCanShareWith(userId, sessionId, input.projectId);
+    }
+  }
+
+  return prisma.savedView.update({
+    where: { id: viewId },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.state !== undefined ? { state: input.state } : {}),
+      ...(input.pinned !== undefined ? { pinned: input.pinned } : {}),
+      ...(input.projectId !== undefined ? { projectId: input.projectId || null } : {}),
+    },
+    include: SAVED_VIEW_INCLUDE,
+  });
+}
+
+/**
+ * Delete a view
+ */
+export async function deleteSavedView(userId: string, sessionId: string, viewId: string) {
+  await getEditableView(userId, sessionId, viewId);
+  await prisma.savedView.delete({ where: { id: viewId } });
+}
@@ -0,0 +1,177 @@
+/**
+ * Full-text search over tasks and projects (PostgreSQL tsvector)
+ *
+ * A task's document is its title, tags, description, attachment names, comments and project
+ * name, weighted in that order of importance. Every word of the query is matched as a prefix,
+ * so results show up while the user is still typing.
+ *
+ * Tasks, projects, attachments and comments keep their part of the document in a generated
+ * "searchVector" column with a GIN index (migration 20261019120000_search_vectors): candidates
+ * are found through the indexes, the full document is put together only for them.
+ *
+ * Visibility follows the task list rules (see buildTaskVisibilityWhere in ./task-query).
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { isSessionTwoFactorVerified } from './two-factor';
+
+export const SEARCH_DEFAULT_LIMIT = 20;
+
+// Matched words in highlights are wrapped in these markers
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+const SNIPPET_OPTIONS = `${HEADLINE_OPTIONS}, MaxWords=20, MinWords=8, MaxFragments=1, FragmentDelimiter=" … "`;
+
+export interface TaskSearchResult {
+  id: string;
+  title: string;
+  status: string;
+  projectId: string | null;
+  projectName: string | null;
+  rank: number;
+  titleHighlight: string;
+  snippet: string | null; // Matching fragment of the description, attachments or comments
+}
+
+export interface ProjectSearchResult {
+  id: string;
+  name: string;
+  color: string;
+  rank: number;
+  nameHighlight: string;
+}
+
+/**
+ * Prefix tsquery of the words of the search text ('отчет за кв' -> 'отчет:* & за:* & кв:*')
+ * With '|' any of the words matches. Returns null when there is nothing to search for
+ */
+export function toPrefixTsQuery(text: string, operator: '&' | '|' = '&'): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  return words.slice(0, 10).map((word) => `${word}:*`).join(` ${operator} `);
+}
+
+async function searchTasks(
+  userId: string,
+  tsQuery: string,
+  anyWordTsQuery: string,
+  twoFactorVerified: boolean,
+  limit: number
+): Promise<TaskSearchResult[]> {
+  const twoFactorCondition = twoFactorVerified
+    ? Prisma.empty
+    : Prisma.sql`AND (t."projectId" IS NULL OR p."requireTwoFactor" = false)`;
+
+  // Words of the query may be spread over the title, comments and the project name, so the
+  // candidates are tasks where any part of the document has any of the words
+  return prisma.$queryRaw<TaskSearchResult[]>`
+    WITH query AS (
+      SELECT to_tsquery('simple', ${tsQuery}) AS q, to_tsquery('simple', ${anyWordTsQuery}) AS "anyWord"
+    ),
+    candidates AS (
+      SELECT t.id FROM tasks t, query WHERE t."searchVector" @@ query."anyWord"
+      UNION
+      SELECT a."taskId" FROM attachments a, query WHERE a."searchVector" @@ query."anyWord"
+      UNION
+      SELECT c."taskId" FROM comments c, query WHERE c."searchVector" @@ query."anyWord" AND c."deletedAt" IS NULL
+      UNION
+      SELECT t.id FROM tasks t
+      JOIN projects p ON p.id = t."projectId"
+      CROSS JOIN query
+      WHERE p."searchVector" @@ query."anyWord"
+    ),
+    documents AS (
+      SELECT
+        t.id, t.title, t.status, t."projectId", p.name AS "projectName",
+        concat_ws(' ', t.description, a.names, c.contents) AS body,
+        t."searchVector" ||
+        setweight(to_tsvector('simple', coalesce(a.names, '')), 'C') ||
+        setweight(to_tsvector('simple', coalesce(c.contents, '')), 'D') ||
+        setweight(to_tsvector('simple', coalesce(p.name, '')), 'D') AS document
+      FROM tasks t
+      JOIN candidates ON candidates.id = t.id
+      LEFT JOIN projects p ON p.id = t."projectId"
+      LEFT JOIN LATERAL (
+        SELECT string_agg(name, ' ') AS names FROM attachments WHERE "taskId" = t.id
+      ) a ON true
+      LEFT JOIN LATERAL (
+        SELECT string_agg(content, ' ') AS contents FROM comments WHERE "taskId" = t.id AND "deletedAt" IS NULL
+      ) c ON true
+      WHERE (
+        t."creatorId" = ${userId}
+        OR t."assigneeId" = ${userId}
+        OR EXISTS (
+          SELECT 1 FROM project_members m
+          WHERE m."projectId" = t."projectId" AND m."userId" = ${userId} AND m.role <> 'member'
+        )
+      )
+      ${twoFactorCondition}
+    ),
+    ranked AS (
+      SELECT d.*, ts_rank(d.document, query.q) AS rank
+      FROM documents d, query
+      WHERE d.document @@ query.q
+      ORDER BY rank DESC, d.title ASC
+      LIMIT ${limit}
+    )
+    SELECT
+      r.id, r.title, r.status, r."projectId", r."projectName", r.rank,
+      ts_headline('simple', r.title, query.q, ${`${HEADLINE_OPTIONS}, HighlightAll=true`}) AS "titleHighlight",
+      CASE WHEN to_tsvector('simple', r.body) @@ query.q
+        THEN ts_headline('simple', r.body, query.q, ${SNIPPET_OPTIONS})
+      END AS snippet
+    FROM ranked r, query
+    ORDER BY r.rank DESC, r.title ASC
+  `;
+}
+
+async function searchProjects(
+  userId: string,
+  tsQuery: string,
+  twoFactorVerified: boolean,
+  limit: number
+): Promise<ProjectSearchResult[]> {
+  const twoFactorCondition = twoFactorVerified ? Prisma.empty : Prisma.sql`AND p."requireTwoFactor" = false`;
+
+  return prisma.$queryRaw<ProjectSearchResult[]>`
+    WITH query AS (SELECT to_tsquery('simple', ${tsQuery}) AS q)
+    SELECT
+      p.id, p.name, p.color,
+      ts_rank(p."searchVector", query.q) AS rank,
+      ts_headline('simple', p.name, query.q, ${`${HEADLINE_OPTIONS}, HighlightAll=true`}) AS "nameHighlight"
+    FROM projects p, query
+    WHERE p.archived = false
+      AND EXISTS (SELECT 1 FROM project_members m WHERE m."projectId" = p.id AND m."userId" = ${userId})
+      AND p."searchVector" @@ query.q
+      ${twoFactorCondition}
+    ORDER BY rank DESC, p.name ASC
+    LIMIT ${limit}
+  `;
+}
+
+/**
+ * Tasks and projects visible to the user that match the search text, best matches first
+ */
+export async function search(
+  userId: string,
+  sessionId: string | undefined,
+  text: string,
+  limit = SEARCH_DEFAULT_LIMIT
+): Promise<{ tasks: TaskSearchResult[]; projects: ProjectSearchResult[] }> {
+  const tsQuery = toPrefixTsQuery(text);
+  const anyWordTsQuery = toPrefixTsQuery(text, '|');
+  if (!tsQuery || !anyWordTsQuery) {
+    return { tasks: [], projects: [] };
+  }
+
+  const twoFactorVerified = await isSessionTwoFactorVerified(sessionId);
+  const [tasks, projects] = await Promise.all([
+    searchTasks(userId, tsQuery, anyWordTsQuery, twoFactorVerified, limit),
+    searchProjects(userId, tsQuery, twoFactorVerified, limit),
+  ]);
+
+  return { tasks, projects };
+}
@@ -0,0 +1,209 @@
+/**
+ * Login sessions (devices)
+ * Every sign-in creates a session with a rotating refresh token; access tokens carry the
+ * session id so revoking a session takes effect on the next request.
+ *
+ * Refresh tokens are single-use: each refresh replaces the token. Presenting an already
+ * replaced token after REFRESH_REUSE_GRACE means it was copied, so the session is revoked;
+ * within it the caller is told to pick up the token the parallel refresh received.
+ */
+
+import crypto from 'crypto';
+import prisma from './prisma';
+import { hashToken } from './account';
+
+export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // Sessions expire after 30 days without use
+const REFRESH_REUSE_GRACE = 30 * 1000; // Parallel refreshes from several tabs of the same browser
+const REVOKED_SESSION_RETENTION = 30 * 24 * 60 * 60 * 1000; // Keep revoked sessions for a while before cleanup
+
+// A parallel request (another tab) rotated the token within REFRESH_REUSE_GRACE: not an ended session
+export const REFRESH_RACE_ERROR = 'Refresh token was just rotated by another request';
+
+export interface SessionClient {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('hex');
+}
+
+/**
+ * Create a session for a user that has just signed in
+ * Returns the raw refresh token, only its hash is stored
+ */
+export async function createSession(userId: string, client: SessionClient, twoFactorVerified = false) {
+  const refreshToken = generateRefreshToken();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: client.userAgent?.slice(0, 512) || null,
+      ipAddress: client.ipAddress || null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL),
+      twoFactorVerified,
+    },
+  });
+
+  return { session, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one, extending the session
+ */
+export async function rotateSession(refreshToken: string, client: SessionClient) {
+  const tokenHash = hashToken(refreshToken);
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash },
+    include: { user: { select: { id: true, email: true } } },
+  });
+
+  if (!session) {
+    const replaced = await prisma.session.findFirst({
+      where: { previousTokenHash: tokenHash, revokedAt: null },
+    });
+    if (replaced) {
+      if (replaced.rotatedAt && Date.now() - replaced.rotatedAt.getTime() < REFRESH_REUSE_GRACE) {
+        throw new Error(REFRESH_RACE_ERROR);
+      }
+      await prisma.session.update({ where: { id: replaced.id }, data: { revokedAt: new Date() } });
+      throw new Error('Refresh token reuse detected, session revoked');
+    }
+    throw new Error('Invalid refresh token');
+  }
+
+  if (session.revokedAt || session.expiresAt < new Date()) {
+    throw new Error('Session has expired or was revoked');
+  }
+
+  const nextToken = generateRefreshToken();
+  const now = new Date();
+
+  // Conditional update: only one of two concurrent refreshes with the same token wins
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash },
+    data: {
+      refreshTokenHash: hashToken(nextToken),
+      previousTokenHash: tokenHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL),
+      ...(client.userAgent ? { userAgent: client.userAgent.slice(0, 512) } : {}),
+      ...(client.ipAddress ? { ipAddress: client.ipAddress } : {}),
+    },
+  });
+  if (count === 0) {
+    throw new Error(REFRESH_RACE_ERROR);
+  }
+
+  return { session, user: session.user, refreshToken: nextToken };
+}
+
+/**
+ * Check that a session exists, is not revoked and has not expired
+ */
+export async function isSessionActive(sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) {
+    return false;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+}
+
+/**
+ * Active sessions of a user, most recently used first
+ */
+export async function getActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+      twoFactorVerified: true,
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
+
+/**
+ * Revoke one session of a user
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new Error('Session not found');
+  }
+}
+
+/**
+ * Revoke the session a refresh token belongs to (sign out)
+ * Returns the revoked session or null for an unknown token
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string) {
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) },
+  });
+  if (!session || session.revokedAt) {
+    return null;
+  }
+
+  return prisma.session.update({
+    where: { id: session.id },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke all sessions of a user, optionally keeping the current one
+ * Returns the ids of the revoked sessions
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<string[]> {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    select: { id: true },
+  });
+  if (sessions.length === 0) {
+    return [];
+  }
+
+  const ids = sessions.map((session) => session.id);
+  await prisma.session.updateMany({
+    where: { id: { in: ids } },
+    data: { revokedAt: new Date() },
+  });
+
+  return ids;
+}
+
+/**
+ * Delete expired sessions and sessions revoked long ago
+ * Returns the number of deleted sessions
+ */
+export async function deleteStaleSessions(): Promise<number> {
+  const { count } = await prisma.session.deleteMany({
+    where: {
+      OR: [
+        { expiresAt: { lt: new Date() } },
+        { revokedAt: { lt: new Date(Date.now() - REVOKED_SESSION_RETENTION) } },
+      ],
+    },
+  });
+
+  return count;
+}
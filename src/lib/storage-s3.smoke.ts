@@ -0,0 +1,95 @@
+/**
+ * Smoke test of the S3 storage driver against a real S3-compatible server
+ * Runs every driver operation on a throwaway key and removes it afterwards.
+ *
+ * With the MinIO service from docker-compose:
+ *   docker-compose --profile s3 up -d
+ *   S3_ENDPOINT=http://localhost:9000 S3_BUCKET=taskmanager-uploads \
+ *   S3_ACCESS_KEY_ID=minioadmin S3_SECRET_ACCESS_KEY=minioadmin \
+ *   npm run storage:smoke
+ *
+ * The same S3_* variables as the server are used (see storage-s3.ts), so it can
+ * also be pointed at the bucket of a deployment before switching STORAGE_DRIVER=s3.
+ */
+
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import type { Readable } from 'stream';
+import { createS3Driver } from './storage-s3';
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function main() {
+  const driver = createS3Driver();
+  const body = crypto.randomBytes(64 * 1024);
+  // Legacy uploads keep their original names: spaces and non-latin characters must survive signing
+  const key = `smoke/${Date.now()}-проверка файла (1).bin`;
+
+  const step = async (name: string, action: () => Promise<void>) => {
+    await action();
+    console.log(`✓ ${name}`);
+  };
+
+  try {
+    await step('put', () => driver.put(key, body, 'application/octet-stream'));
+
+    await step('exists', async () => {
+      assert.equal(await driver.exists(key), true);
+      assert.equal(await driver.exists(`${key}.missing`), false);
+    });
+
+    await step('get', async () => {
+      const object = await driver.get(key);
+      assert.ok(object, 'uploaded object not found');
+      assert.equal(object.size, body.length);
+      assert.equal(object.contentType, 'application/octet-stream');
+      assert.ok((await readAll(object.stream)).equals(body), 'downloaded content differs');
+      assert.equal(await driver.get(`${key}.missing`), null);
+    });
+
+    await step('list', async () => {
+      let found = false;
+      for await (const item of driver.list()) {
+        if (item.key === key) {
+          found = true;
+          assert.ok(item.lastModified instanceof Date && !isNaN(item.lastModified.getTime()));
+        }
+      }
+      assert.ok(found, 'uploaded object missing from listing');
+    });
+
+    await step('signed url', async () => {
+      const url = await driver.getSignedUrl(key, { fileName: 'отчёт.bin', disposition: 'attachment', expiresIn: 60 });
+      const response = await fetch(url);
+      assert.equal(response.status, 200, `signed url rejected: ${await response.clone().text()}`);
+      assert.match(response.headers.get('content-disposition') || '', /^attachment;/);
+      assert.ok(Buffer.from(await response.arrayBuffer()).equals(body), 'signed url content differs');
+
+      const tampered = url.replace(/X-Amz-Expires=\d+/, 'X-Amz-Expires=3600');
+      assert.equal((await fetch(tampered)).status, 403, 'tampered signed url accepted');
+    });
+
+    await step('delete', async () => {
+      await driver.delete(key);
+      assert.equal(await driver.exists(key), false);
+      // Deleting a missing object succeeds
+      await driver.delete(key);
+    });
+
+    console.log('S3 storage smoke test passed');
+  } catch (error) {
+    await driver.delete(key).catch(() => {});
+    throw error;
+  }
+}
+
+main().catch((error) => {
+  console.error('S3 storage smoke test failed:', error);
+  process.exit(1);
+});
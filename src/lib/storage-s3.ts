@@ -0,0 +1,241 @@
+/**
+ * S3-compatible storage driver (AWS S3, MinIO, ...)
+ * Requests are signed with AWS Signature V4; signed URLs are presigned GET requests
+ *
+ * Configuration:
+ *   S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY - required
+ *   S3_REGION          - default us-east-1
+ *   S3_ENDPOINT        - e.g. http://localhost:9000 for MinIO (default: AWS endpoint of the region)
+ *   S3_FORCE_PATH_STYLE - 'true' for http://host/bucket/key URLs (default when S3_ENDPOINT is set)
+ *   S3_PUBLIC_ENDPOINT - endpoint browsers use for signed URLs, if it differs from S3_ENDPOINT
+ */
+
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import type { StorageDriver, StoredObjectInfo } from './storage';
+import { DEFAULT_SIGNED_URL_TTL } from './storage';
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint: URL;
+  publicEndpoint: URL;
+  forcePathStyle: boolean;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+function readConfig(): S3Config {
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set for STORAGE_DRIVER=s3');
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = new URL(process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`);
+  const publicEndpoint = process.env.S3_PUBLIC_ENDPOINT ? new URL(process.env.S3_PUBLIC_ENDPOINT) : endpoint;
+  const forcePathStyle = process.env.S3_FORCE_PATH_STYLE
+    ? process.env.S3_FORCE_PATH_STYLE === 'true'
+    : !!process.env.S3_ENDPOINT;
+
+  return { bucket, region, accessKeyId, secretAccessKey, endpoint, publicEndpoint, forcePathStyle };
+}
+
+// RFC 3986 encoding required by Signature V4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+function sha256Hex(value: string | Buffer): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+export function createS3Driver(config: S3Config = readConfig()): StorageDriver {
+  const objectLocation = (endpoint: URL, key: string) => {
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    return config.forcePathStyle
+      ? { host: endpoint.host, path: `${endpoint.pathname.replace(/\/$/, '')}/${config.bucket}${key ? `/${encodedKey}` : ''}` }
+      : { host: `${config.bucket}.${endpoint.host}`, path: `${endpoint.pathname.replace(/\/$/, '')}/${encodedKey}` };
+  };
+
+  const canonicalQuery = (query: Record<string, string>) =>
+    Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+  const credentialScope = (date: string) => `${date}/${config.region}/s3/aws4_request`;
+
+  const sign = (amzDate: string, canonicalRequest: string) => {
+    const date = amzDate.slice(0, 8);
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope(date), sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region), 's3'), 'aws4_request');
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  };
+
+  const amzTimestamp = () => new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+  /**
+   * Send a signed request to the bucket
+   */
+  async function request(
+    method: 'GET' | 'PUT' | 'HEAD' | 'DELETE',
+    key: string,
+    options: { query?: Record<string, string>; body?: Buffer; contentType?: string } = {}
+  ): Promise<Response> {
+    const { host, path } = objectLocation(config.endpoint, key);
+    const query = options.query || {};
+    const amzDate = amzTimestamp();
+    const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD_HASH;
+
+    const headers: Record<string, string> = {
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (options.contentType) {
+      headers['content-type'] = options.contentType;
+    }
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      canonicalQuery(query),
+      signedHeaders.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const authorization =
+      `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${credentialScope(amzDate.slice(0, 8))}, ` +
+      `SignedHeaders=${signedHeaders.join(';')}, Signature=${sign(amzDate, canonicalRequest)}`;
+
+    const queryString = canonicalQuery(query);
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(`${config.endpoint.protocol}//${host}${path}${queryString ? `?${queryString}` : ''}`, {
+      method,
+      headers: { ...requestHeaders, authorization },
+      body: options.body ? new Uint8Array(options.body) : undefined,
+    });
+  }
+
+  async function assertOk(response: Response, action: string): Promise<void> {
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`S3 ${action} failed with status ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`);
+    }
+  }
+
+  async function* listObjects(): AsyncIterable<StoredObjectInfo> {
+    let continuationToken: string | undefined;
+    do {
+      const query: Record<string, string> = { 'list-type': '2' };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const response = await request('GET', '', { query });
+      await assertOk(response, 'list');
+      const xml = await response.text();
+
+      for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = contents.match(/<Key>([\s\S]*?)<\/Key>/)?.[1];
+        const lastModified = contents.match(/<LastModified>([\s\S]*?)<\/LastModified>/)?.[1];
+        if (key && lastModified) {
+          yield { key: decodeXml(key), lastModified: new Date(lastModified) };
+        }
+      }
+
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      continuationToken = truncated
+        ? decodeXml(xml.match(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/)?.[1] || '')
+        : undefined;
+    } while (continuationToken);
+  }
+
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      const response = await request('PUT', key, { body, contentType: contentType || 'application/octet-stream' });
+      await assertOk(response, 'upload');
+    },
+
+    async get(key) {
+      const response = await request('GET', key);
+      if (response.status === 404) {
+        return null;
+      }
+      await assertOk(response, 'download');
+
+      const size = Number(response.headers.get('content-length'));
+      return {
+        stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+        contentType: response.headers.get('content-type') || undefined,
+        size: Number.isFinite(size) ? size : undefined,
+      };
+    },
+
+    async exists(key) {
+      const response = await request('HEAD', key);
+      if (response.status === 404) {
+        return false;
+      }
+      await assertOk(response, 'head');
+      return true;
+    },
+
+    async delete(key) {
+      // Deleting a missing object succeeds in S3
+      const response = await request('DELETE', key);
+      await assertOk(response, 'delete');
+    },
+
+    list() {
+      return listObjects();
+    },
+
+    async getSignedUrl(key, options = {}) {
+      const { host, path } = objectLocation(config.publicEndpoint, key);
+      const amzDate = amzTimestamp();
+
+      const query: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${config.accessKeyId}/${credentialScope(amzDate.slice(0, 8))}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(options.expiresIn ?? DEFAULT_SIGNED_URL_TTL),
+        'X-Amz-SignedHeaders': 'host',
+      };
+      if (options.disposition || options.fileName) {
+        query['response-content-disposition'] = `${options.disposition || 'attachment'}; filename*=UTF-8''${encodeRfc3986(
+          options.fileName || key.split('/').pop()!
+        )}`;
+      }
+      if (options.contentType) {
+        query['response-content-type'] = options.contentType;
+      }
+
+      const canonicalRequest = ['GET', path, canonicalQuery(query), `host:${host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+      const signature = sign(amzDate, canonicalRequest);
+
+      return `${config.publicEndpoint.protocol}//${host}${path}?${canonicalQuery(query)}&X-Amz-Signature=${signature}`;
+    },
+  };
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,270 @@
+/**
+ * File storage for uploads (avatars, task and project attachments)
+ * A driver stores objects by key: the local filesystem (default) or an S3-compatible
+ * bucket (STORAGE_DRIVER=s3), so several server instances can share the same files.
+ * Uploads are content-addressed (<kind>/<sha256><ext>): identical files are stored once.
+ * Stored references keep the /uploads/<key> form used before drivers existed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { createS3Driver } from './storage-s3';
+
+export const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+export const UPLOADS_URL_PREFIX = '/uploads/';
+
+export type UploadKind = 'avatars' | 'attachments' | 'project-attachments';
+
+export interface StoredObject {
+  stream: Readable;
+  contentType?: string;
+  size?: number;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  lastModified: Date;
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number; // seconds
+  fileName?: string;
+  contentType?: string;
+  disposition?: 'inline' | 'attachment';
+}
+
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  put(key: string, body: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(): AsyncIterable<StoredObjectInfo>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+export const DEFAULT_SIGNED_URL_TTL = 15 * 60;
+
+const CONTENT_ADDRESSED_KEY = /^(avatars|attachments|project-attachments)\/[0-9a-f]{64}(\.[a-z0-9]{1,10})?$/;
+
+/**
+ * Storage key of a stored reference (/uploads/<key>)
+ * Returns null for references outside the storage or malformed keys
+ */
+export function getStorageKey(url: string): string | null {
+  if (!url.startsWith(UPLOADS_URL_PREFIX)) {
+    return null;
+  }
+
+  const key = url.slice(UPLOADS_URL_PREFIX.length);
+  return isValidKey(key) ? key : null;
+}
+
+/**
+ * Stored reference of a storage key
+ */
+export function getStorageUrl(key: string): string {
+  return `${UPLOADS_URL_PREFIX}${key}`;
+}
+
+/**
+ * Keys are relative slash-separated paths; legacy uploads are plain file names
+ * that may contain spaces and non-latin characters
+ */
+export function isValidKey(key: string): boolean {
+  return (
+    key.length > 0 &&
+    !/[\\\0]/.test(key) &&
+    !key.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')
+  );
+}
+
+/**
+ * Check whether a key already has the content-addressed form (legacy uploads do not)
+ */
+export function isContentAddressedKey(key: string): boolean {
+  return CONTENT_ADDRESSED_KEY.test(key);
+}
+
+/**
+ * Content-addressed key of a file: <kind>/<sha256><ext>
+ */
+export function buildContentKey(kind: UploadKind, body: Buffer, fileName: string): string {
+  const hash = crypto.createHash('sha256').update(body).digest('hex');
+  const ext = path.extname(fileName).toLowerCase();
+  return `${kind}/${hash}${/^\.[a-z0-9]{1,10}$/.test(ext) ? ext : ''}`;
+}
+
+// ========== SIGNED URLS (LOCAL DRIVER) ==========
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET must be set to sign file URLs');
+  }
+  return secret;
+}
+
+// Everything that affects how the file is served is signed, not only the key
+function signFileRequest(key: string, expires: number, disposition: string, fileName: string, contentType: string): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update([key, expires, disposition, fileName, contentType].join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Verify the query of a signed /api/files/<key> URL
+ * Returns how to serve the file, or null for invalid and expired URLs
+ */
+export function verifySignedFileRequest(
+  key: string,
+  query: Record<string, unknown>
+): Required<Pick<SignedUrlOptions, 'disposition' | 'fileName'>> & { contentType?: string } | null {
+  const str = (value: unknown) => (typeof value === 'string' ? value : '');
+  const expires = Number(query.expires);
+  const disposition = str(query.disposition);
+  const fileName = str(query.name);
+  const contentType = str(query.type);
+  const signature = str(query.signature);
+
+  if (
+    !Number.isFinite(expires) ||
+    expires * 1000 < Date.now() ||
+    (disposition !== 'inline' && disposition !== 'attachment') ||
+    !/^[0-9a-f]{64}$/.test(signature)
+  ) {
+    return null;
+  }
+
+  const expected = signFileRequest(key, expires, disposition, fileName, contentType);
+  if (!crypto.timingSafeEqual(Buffer.from(signature, 'hex'), Buffer.from(expected, 'hex'))) {
+    return null;
+  }
+
+  return { disposition, fileName, contentType: contentType || undefined };
+}
+
+// ========== LOCAL DRIVER ==========
+
+/**
+ * Files in a directory on this server (uploads/ by default)
+ * Signed URLs point to GET /api/files/<key> of this server
+ */
+export function createLocalDriver(rootDir: string = UPLOADS_DIR): StorageDriver {
+  const resolve = (key: string) => {
+    if (!isValidKey(key)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return path.join(rootDir, key);
+  };
+
+  async function* walk(dir: string, prefix: string): AsyncIterable<StoredObjectInfo> {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        yield* walk(fullPath, key);
+      } else if (entry.isFile()) {
+        const stats = await fs.promises.stat(fullPath).catch(() => null);
+        if (stats) yield { key, lastModified: stats.mtime };
+      }
+    }
+  }
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const filePath = resolve(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temporary file first so readers never see a partial file
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.promises.writeFile(tempPath, body);
+      await fs.promises.rename(tempPath, filePath);
+    },
+
+    async get(key) {
+      const filePath = resolve(key);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      if (!stats?.isFile()) {
+        return null;
+      }
+      return { stream: fs.createReadStream(filePath), size: stats.size };
+    },
+
+    async exists(key) {
+      const stats = await fs.promises.stat(resolve(key)).catch(() => null);
+      return !!stats?.isFile();
+    },
+
+    async delete(key) {
+      await fs.promises.unlink(resolve(key)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    },
+
+    list() {
+      return walk(rootDir, '');
+    },
+
+    async getSignedUrl(key, options = {}) {
+      const expires = Math.floor(Date.now() / 1000) + (options.expiresIn ?? DEFAULT_SIGNED_URL_TTL);
+      const disposition = options.disposition || 'attachment';
+      const fileName = options.fileName || path.basename(key);
+      const contentType = options.contentType || '';
+      const params = new URLSearchParams({
+        expires: String(expires),
+        disposition,
+        name: fileName,
+        type: contentType,
+        signature: signFileRequest(key, expires, disposition, fileName, contentType),
+      });
+      return `/api/files/${key.split('/').map(encodeURIComponent).join('/')}?${params.toString()}`;
+    },
+  };
+}
+
+// ========== DRIVER SELECTION ==========
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Driver configured by STORAGE_DRIVER ('local' or 's3')
+ */
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+    if (driver === 's3') {
+      storage = createS3Driver();
+    } else if (driver === 'local') {
+      storage = createLocalDriver();
+    } else {
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "local" or "s3")`);
+    }
+  }
+  return storage;
+}
+
+/**
+ * Store an uploaded file and return its reference (/uploads/<key>)
+ * Files with the same content and extension share one stored object
+ */
+export async function storeUpload(
+  kind: UploadKind,
+  file: { buffer: Buffer; originalname: string; mimetype: string }
+): Promise<{ url: string; key: string; deduplicated: boolean }> {
+  const driver = getStorage();
+  const key = buildContentKey(kind, file.buffer, file.originalname);
+
+  const deduplicated = await driver.exists(key);
+  if (!deduplicated) {
+    await driver.put(key, file.buffer, file.mimetype);
+  }
+
+  return { url: getStorageUrl(key), key, deduplicated };
+}
@@ -0,0 +1,235 @@
+/**
+ * Subtask and checklist utilities
+ * Subtasks are regular tasks with a parentTaskId; checklist items are
+ * lightweight to-do entries stored on the task itself
+ */
+
+import type { Task } from '@prisma/client';
+import prisma from './prisma';
+import { canEditTask, canViewTask } from './permissions';
+import { assertProjectNotArchived } from './archive';
+import { getCompletedStatus, isDoneStatus } from './workflows';
+import { hasOpenBlockers } from './dependencies';
+
+export const MAX_CHECKLIST_ITEM_LENGTH = 500;
+
+/**
+ * Check that `parentTaskId` can become the parent of `taskId`
+ * The parent must exist, be in the same project and must not be the task itself or one of its subtasks
+ */
+export async function validateSubtaskParent(
+  taskId: string,
+  projectId: string | null,
+  parentTaskId: string
+): Promise<Task> {
+  const parent = await prisma.task.findUnique({ where: { id: parentTaskId } });
+  if (!parent) {
+    throw new Error('Parent task not found');
+  }
+
+  if (parent.projectId !== projectId) {
+    throw new Error('A subtask must belong to the same project as its parent');
+  }
+
+  // Walk up from the new parent: reaching the task itself means a cycle
+  let ancestorId: string | null = parent.id;
+  const visited = new Set<string>();
+  while (ancestorId && !visited.has(ancestorId)) {
+    if (ancestorId === taskId) {
+      throw new Error('A task cannot be a subtask of itself or of its own subtask');
+    }
+    visited.add(ancestorId);
+    const ancestor: { parentTaskId: string | null } | null = await prisma.task.findUnique({
+      where: { id: ancestorId },
+      select: { parentTaskId: true },
+    });
+    ancestorId = ancestor?.parentTaskId ?? null;
+  }
+
+  return parent;
+}
+
+/**
+ * Get ids of all subtasks of a task, including nested ones
+ */
+export async function getSubtaskTreeIds(taskId: string): Promise<string[]> {
+  const ids: string[] = [];
+  let level = [taskId];
+
+  while (level.length > 0) {
+    const children = await prisma.task.findMany({
+      where: { parentTaskId: { in: level } },
+      select: { id: true },
+    });
+    level = children.map((c) => c.id).filter((id) => !ids.includes(id));
+    ids.push(...level);
+  }
+
+  return ids;
+}
+
+/**
+ * Mark a task as done when it has auto-completion enabled and all its subtasks are done
+ * Returns the task as it was before completion, or null when nothing changed
+ */
+export async function completeParentIfFinished(parentTaskId: string): Promise<Task | null> {
+  const parent = await prisma.task.findUnique({
+    where: { id: parentTaskId },
+    include: { subtasks: { select: { status: true } } },
+  });
+
+  if (!parent || !parent.completeWithSubtasks || (await isDoneStatus(parent.projectId, parent.status))) {
+    return null;
+  }
+
+  // Subtasks live in the parent's project, so they share its workflow
+  if (parent.subtasks.length === 0) {
+    return null;
+  }
+  for (const subtask of parent.subtasks) {
+    if (!(await isDoneStatus(parent.projectId, subtask.status))) {
+      return null;
+    }
+  }
+
+  // Automatic completion never overrides unfinished blocking tasks
+  if (await hasOpenBlockers(parent.id)) {
+    return null;
+  }
+
+  // Compare-and-set on version so a concurrent edit of the parent wins
+  const { count } = await prisma.task.updateMany({
+    where: { id: parent.id, version: parent.version },
+    data: { status: await getCompletedStatus(parent.projectId), version: { increment: 1 } },
+  });
+
+  const { subtasks: _subtasks, ...previous } = parent;
+  return count > 0 ? previous : null;
+}
+
+/**
+ * Bump updatedAt of a task whose derived data (subtask progress, checklist) changed
+ * The version is left alone: these changes must not conflict with edits of the task itself
+ */
+export async function touchTask(taskId: string): Promise<void> {
+  await prisma.task.updateMany({
+    where: { id: taskId },
+    data: { updatedAt: new Date() },
+  });
+}
+
+async function assertCanEditChecklist(taskId: string, userId: string, sessionId: string): Promise<void> {
+  const task = await prisma.task.findUnique({ where: { id: taskId }, select: { id: true, projectId: true } });
+  if (!task) {
+    throw new Error('Task not found');
+  }
+
+  await assertProjectNotArchived(task.projectId);
+
+  if (!(await canEditTask(userId, taskId, sessionId))) {
+    throw new Error('You do not have permission to edit the checklist of this task');
+  }
+}
+
+function parseItemTitle(title: any): string {
+  const trimmed = typeof title === 'string' ? title.trim() : '';
+  if (!trimmed) {
+    throw new Error('Checklist item title is required');
+  }
+  if (trimmed.length > MAX_CHECKLIST_ITEM_LENGTH) {
+    throw new Error(`Checklist item is too long (max ${MAX_CHECKLIST_ITEM_LENGTH} characters)`);
+  }
+  return trimmed;
+}
+
+/**
+ * Get checklist items of a task in display order
+ */
+export async function getChecklist(taskId: string, userId: string, sessionId: string) {
+  if (!(await canViewTask(userId, taskId, sessionId))) {
+    throw new Error('You do not have permission to view this task');
+  }
+
+  return prisma.checklistItem.findMany({
+    where: { taskId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Append an item to the end of a task checklist
+ */
+export async function addChecklistItem(taskId: string, title: any, userId: string, sessionId: string) {
+  await assertCanEditChecklist(taskId, userId, sessionId);
+  const itemTitle = parseItemTitle(title);
+
+  const last = await prisma.checklistItem.findFirst({
+    where: { taskId },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+
+  return prisma.checklistItem.create({
+    data: {
+      taskId,
+      title: itemTitle,
+      position: last ? last.position + 1 : 0,
+    },
+  });
+}
+
+/**
+ * Update an item: rename, check/uncheck or move it
+ */
+export async function updateChecklistItem(
+  taskId: string,
+  itemId: string,
+  updates: { title?: any; done?: any; position?: any },
+  userId: string,
+  sessionId: string
+) {
+  await assertCanEditChecklist(taskId, userId, sessionId);
+
+  const item = await prisma.checklistItem.findFirst({ where: { id: itemId, taskId } });
+  if (!item) {
+    throw new Error('Checklist item not found');
+  }
+
+  const data: { title?: string; done?: boolean; position?: number } = {};
+  if (updates.title !== undefined) data.title = parseItemTitle(updates.title);
+  if (updates.done !== undefined) {
+    if (typeof updates.done !== 'boolean') {
+      throw new Error('done must be a boolean');
+    }
+    data.done = updates.done;
+  }
+  if (updates.position !== undefined) {
+    if (!Number.isInteger(updates.position) || updates.position < 0) {
+      throw new Error('position must be a non-negative integer');
+    }
+    data.position = updates.position;
+  }
+
+  const updated = await prisma.checklistItem.update({
+    where: { id: itemId },
+    data,
+  });
+
+  return { item: updated, previous: item };
+}
+
+/**
+ * Delete a checklist item
+ */
+export async function deleteChecklistItem(taskId: string, itemId: string, userId: string, sessionId: string) {
+  await assertCanEditChecklist(taskId, userId, sessionId);
+
+  const item = await prisma.checklistItem.findFirst({ where: { id: itemId, taskId } });
+  if (!item) {
+    throw new Error('Checklist item not found');
+  }
+
+  await prisma.checklistItem.delete({ where: { id: itemId } });
+
+  return item;
+}
@@ -0,0 +1,68 @@
+/**
+ * Optimistic concurrency helpers for tasks
+ * A write is accepted only when the client's `version` matches the stored one;
+ * otherwise the client receives the current server copy and a field-level diff
+ */
+
+export interface TaskFieldConflict {
+  field: string;
+  yours: any;
+  theirs: any;
+}
+
+// Task fields that hold dates; the client may send them as ISO strings in any precision
+const DATE_FIELDS = new Set(['dueDate', 'recurringStartDate']);
+
+function normalizeValue(value: any): any {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === undefined) {
+    return null;
+  }
+  return value;
+}
+
+function isSameValue(field: string, a: any, b: any): boolean {
+  const left = normalizeValue(a);
+  const right = normalizeValue(b);
+
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  // Dates may arrive from the client as ISO strings
+  if (
+    DATE_FIELDS.has(field) &&
+    typeof left === 'string' &&
+    typeof right === 'string' &&
+    !isNaN(Date.parse(left)) &&
+    !isNaN(Date.parse(right))
+  ) {
+    return left === right || new Date(left).getTime() === new Date(right).getTime();
+  }
+  return left === right;
+}
+
+/**
+ * Compare the fields a client tried to write with the current server copy
+ * Returns only the fields whose stored value differs from the submitted one
+ */
+export function diffTaskFields(
+  currentTask: Record<string, any>,
+  updateData: Record<string, any>
+): TaskFieldConflict[] {
+  const conflicts: TaskFieldConflict[] = [];
+
+  for (const [field, yours] of Object.entries(updateData)) {
+    const theirs = currentTask[field];
+    if (!isSameValue(field, yours, theirs)) {
+      conflicts.push({
+        field,
+        yours: normalizeValue(yours),
+        theirs: normalizeValue(theirs),
+      });
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,248 @@
+/**
+ * Task list queries: visibility, filters, sorting and cursor pagination in a single SQL query
+ *
+ * A user sees their own tasks (created or assigned) and the tasks of projects they belong to;
+ * a project "member" only sees their own tasks there. Projects that require 2FA are hidden
+ * from sessions that did not pass it.
+ *
+ * Pages are keyset-paginated: the cursor holds the sort values and id of the last task of the
+ * previous page, so tasks created or moved while paging do not shift the following pages.
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { isSessionTwoFactorVerified } from './two-factor';
+
+export type TaskSort = 'position' | 'dueDate' | 'createdAt' | 'updatedAt' | 'title'; // position: board order
+
+export interface TaskListOptions {
+  status?: string[];
+  priority?: string[];
+  assignee?: string[]; // User ids, 'me' or 'none' (unassigned)
+  project?: string[]; // Project ids or 'personal' (no project)
+  category?: string[]; // Category ids or 'none'
+  tags?: string[]; // Tasks with at least one of the tags
+  dueFrom?: string;
+  dueTo?: string;
+  q?: string; // Text in the title or description
+  sort?: TaskSort;
+  order?: 'asc' | 'desc';
+  limit?: number; // Page size; without it all matching tasks are returned
+  cursor?: string;
+}
+
+type SortField = 'status' | 'orderKey' | 'dueDate' | 'createdAt' | 'updatedAt' | 'title' | 'id';
+
+interface SortKey {
+  field: SortField;
+  nullable?: boolean; // Nulls go last in both directions
+  date?: boolean;
+}
+
+// The id is appended to every sort so the order (and the cursor) is unambiguous
+const SORT_KEYS: Record<TaskSort, SortKey[]> = {
+  position: [{ field: 'status' }, { field: 'orderKey', nullable: true }],
+  dueDate: [{ field: 'dueDate', nullable: true, date: true }],
+  createdAt: [{ field: 'createdAt', date: true }],
+  updatedAt: [{ field: 'updatedAt', date: true }],
+  title: [{ field: 'title' }],
+};
+
+const ID_KEY: SortKey = { field: 'id' };
+
+const TASK_LIST_INCLUDE = {
+  project: true,
+  creator: {
+    select: { id: true, name: true, email: true, avatarUrl: true },
+  },
+  assignee: {
+    select: { id: true, name: true, email: true, avatarUrl: true },
+  },
+  attachments: true,
+  recurrenceRule: true,
+  subtasks: { select: { id: true, status: true } },
+  checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+  blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
+} satisfies Prisma.TaskInclude;
+
+/**
+ * Tasks the user may see from the given session
+ */
+export async function buildTaskVisibilityWhere(
+  userId: string,
+  sessionId: string | undefined
+): Promise<Prisma.TaskWhereInput> {
+  const conditions: Prisma.TaskWhereInput[] = [
+    {
+      OR: [
+        { creatorId: userId },
+        { assigneeId: userId },
+        { project: { members: { some: { userId, role: { not: 'member' } } } } },
+      ],
+    },
+  ];
+
+  if (!(await isSessionTwoFactorVerified(sessionId))) {
+    conditions.push({ OR: [{ projectId: null }, { project: { requireTwoFactor: false } }] });
+  }
+
+  return { AND: conditions };
+}
+
+/**
+ * Match any of the values; nullValue (e.g. 'none') stands for an empty field
+ */
+function matchAny(field: 'assigneeId' | 'projectId' | 'category', values: string[], nullValue: string): Prisma.TaskWhereInput {
+  const ids = values.filter((value) => value !== nullValue);
+  const branches: Prisma.TaskWhereInput[] = [];
+  if (ids.length > 0) branches.push({ [field]: { in: ids } });
+  if (ids.length < values.length) branches.push({ [field]: null });
+  return { OR: branches };
+}
+
+/**
+ * Filters of a task list query
+ */
+export function buildTaskFilterWhere(userId: string, options: TaskListOptions): Prisma.TaskWhereInput {
+  const conditions: Prisma.TaskWhereInput[] = [];
+
+  if (options.status?.length) {
+    conditions.push({ status: { in: options.status } });
+  }
+  if (options.priority?.length) {
+    conditions.push({ priority: { in: options.priority } });
+  }
+  if (options.assignee?.length) {
+    const assignees = options.assignee.map((id) => (id === 'me' ? userId : id));
+    conditions.push(matchAny('assigneeId', assignees, 'none'));
+  }
+  if (options.project?.length) {
+    conditions.push(matchAny('projectId', options.project, 'personal'));
+  }
+  if (options.category?.length) {
+    conditions.push(matchAny('category', options.category, 'none'));
+  }
+  if (options.tags?.length) {
+    conditions.push({ tags: { hasSome: options.tags } });
+  }
+  if (options.dueFrom || options.dueTo) {
+    conditions.push({
+      dueDate: {
+        ...(options.dueFrom ? { gte: new Date(options.dueFrom) } : {}),
+        ...(options.dueTo ? { lte: new Date(options.dueTo) } : {}),
+      },
+    });
+  }
+  if (options.q) {
+    conditions.push({
+      OR: [
+        { title: { contains: options.q, mode: 'insensitive' } },
+        { description: { contains: options.q, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  return { AND: conditions };
+}
+
+function getSortKeys(sort: TaskSort = 'position'): SortKey[] {
+  return [...SORT_KEYS[sort], ID_KEY];
+}
+
+function buildOrderBy(keys: SortKey[], order: 'asc' | 'desc'): Prisma.TaskOrderByWithRelationInput[] {
+  return keys.map((key) => ({
+    [key.field]: key.nullable ? { sort: order, nulls: 'last' } : order,
+  }));
+}
+
+function encodeCursor(keys: SortKey[], task: Record<string, any>): string {
+  const values = keys.map((key) => {
+    const value = task[key.field];
+    return value instanceof Date ? value.toISOString() : value ?? null;
+  });
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+function decodeCursor(keys: SortKey[], cursor: string): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    throw new Error('Invalid cursor');
+  }
+
+  return keys.map((key, index) => {
+    const value = values[index];
+    if (value === null && key.nullable) return null;
+    if (typeof value !== 'string') throw new Error('Invalid cursor');
+    if (!key.date) return value;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new Error('Invalid cursor');
+    return date;
+  });
+}
+
+/**
+ * Tasks that come after the cursor position in the sort order (nulls last)
+ */
+function buildAfterCursor(keys: SortKey[], values: unknown[], order: 'asc' | 'desc'): Prisma.TaskWhereInput {
+  const [key, ...rest] = keys;
+  const [value, ...restValues] = values;
+  const beyond = order === 'asc' ? 'gt' : 'lt';
+
+  if (rest.length === 0) {
+    return { [key.field]: { [beyond]: value } };
+  }
+
+  const tail = buildAfterCursor(rest, restValues, order);
+  if (value === null) {
+    return { AND: [{ [key.field]: null }, tail] };
+  }
+
+  const branches: Prisma.TaskWhereInput[] = [
+    { [key.field]: { [beyond]: value } },
+    { AND: [{ [key.field]: value }, tail] },
+  ];
+  if (key.nullable) {
+    branches.push({ [key.field]: null });
+  }
+  return { OR: branches };
+}
+
+/**
+ * Tasks visible to the user that match the query
+ * With a limit, returns one page with the total number of matching tasks and the next page's cursor
+ */
+export async function listTasks(userId: string, sessionId: string | undefined, options: TaskListOptions) {
+  const keys = getSortKeys(options.sort);
+  const order = options.order || 'asc';
+  const where: Prisma.TaskWhereInput = {
+    AND: [await buildTaskVisibilityWhere(userId, sessionId), buildTaskFilterWhere(userId, options)],
+  };
+  const cursorWhere = options.cursor
+    ? buildAfterCursor(keys, decodeCursor(keys, options.cursor), order)
+    : undefined;
+
+  const [tasks, total] = await Promise.all([
+    prisma.task.findMany({
+      where: cursorWhere ? { AND: [where, cursorWhere] } : where,
+      include: TASK_LIST_INCLUDE,
+      orderBy: buildOrderBy(keys, order),
+      ...(options.limit ? { take: options.limit + 1 } : {}),
+    }),
+    options.limit ? prisma.task.count({ where }) : Promise.resolve(null),
+  ]);
+
+  const hasMore = !!options.limit && tasks.length > options.limit;
+  const page = hasMore ? tasks.slice(0, options.limit) : tasks;
+
+  return {
+    tasks: page,
+    total: total ?? page.length,
+    nextCursor: hasMore ? encodeCursor(keys, page[page.length - 1]) : null,
+  };
+}
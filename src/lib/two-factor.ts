@@ -0,0 +1,326 @@
+/**
+ * Two-factor authentication utilities
+ * TOTP (RFC 6238: SHA-1, 6 digits, 30 second steps) with one-time backup codes.
+ *
+ * Sessions remember whether they passed the second factor: projects that require 2FA
+ * are only available to such sessions.
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import prisma from './prisma';
+import { hashToken } from './account';
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept codes one step before and after the current one (clock drift)
+const BACKUP_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Task Manager';
+export const TWO_FACTOR_REQUIRED_ERROR = 'Two-factor authentication is required for this project';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Find the time step a TOTP code belongs to
+ * Steps up to lastUsedStep are rejected so an intercepted code cannot be replayed
+ */
+function matchTotpStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+function normalizeBackupCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function generateBackupCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map((code) => hashToken(normalizeBackupCode(code))) };
+}
+
+/**
+ * Start 2FA enrollment: a new secret is kept as pending until confirmed with a code from the app
+ * Returns the secret for manual entry, the otpauth:// URL and a QR code of it (data URL)
+ */
+export async function startTwoFactorSetup(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabled: true },
+  });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorPendingSecret: secret },
+  });
+
+  const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${user.email}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TWO_FACTOR_ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+/**
+ * Finish enrollment with a code generated from the pending secret
+ * Marks the current session as verified and returns the backup codes (shown once)
+ */
+export async function enableTwoFactor(userId: string, sessionId: string, code: string): Promise<string[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorPendingSecret: true },
+  });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+  if (!user.twoFactorPendingSecret) {
+    throw new Error('Start two-factor setup first');
+  }
+
+  const step = matchTotpStep(user.twoFactorPendingSecret, code.trim(), null);
+  if (step === null) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  const { codes, hashes } = generateBackupCodes();
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorBackupCodes: hashes,
+        twoFactorLastStep: step,
+      },
+    }),
+    prisma.session.update({ where: { id: sessionId }, data: { twoFactorVerified: true } }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Check a second factor: a TOTP code or an unused backup code (which is consumed)
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string
+): Promise<{ method: 'totp' | 'backup_code'; backupCodesRemaining: number }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorBackupCodes: true, twoFactorLastStep: true },
+  });
+  if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+
+  const trimmed = code.trim();
+  const step = matchTotpStep(user.twoFactorSecret, trimmed, user.twoFactorLastStep);
+  if (step !== null) {
+    // Conditional update: the same code cannot be used twice, even concurrently
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    if (count === 0) {
+      throw new Error('Invalid two-factor code');
+    }
+    return { method: 'totp', backupCodesRemaining: user.twoFactorBackupCodes.length };
+  }
+
+  const backupHash = hashToken(normalizeBackupCode(trimmed));
+  if (!user.twoFactorBackupCodes.includes(backupHash)) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  const remaining = user.twoFactorBackupCodes.filter((hash) => hash !== backupHash);
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, twoFactorBackupCodes: { has: backupHash } },
+    data: { twoFactorBackupCodes: remaining },
+  });
+  if (count === 0) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  return { method: 'backup_code', backupCodesRemaining: remaining.length };
+}
+
+/**
+ * Replace the backup codes with a new set (the old ones stop working)
+ */
+export async function regenerateBackupCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateBackupCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorBackupCodes: hashes },
+  });
+
+  return codes;
+}
+
+/**
+ * Turn 2FA off; sessions lose access to projects that require it
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorPendingSecret: null,
+        twoFactorBackupCodes: [],
+        twoFactorLastStep: null,
+      },
+    }),
+    prisma.session.updateMany({ where: { userId }, data: { twoFactorVerified: false } }),
+  ]);
+}
+
+/**
+ * Check if a session passed the second factor
+ */
+export async function isSessionTwoFactorVerified(sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) {
+    return false;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { twoFactorVerified: true },
+  });
+
+  return session?.twoFactorVerified === true;
+}
+
+/**
+ * Sessions among sessionIds that passed the second factor
+ */
+export async function getTwoFactorVerifiedSessionIds(sessionIds: string[]): Promise<Set<string>> {
+  if (sessionIds.length === 0) {
+    return new Set();
+  }
+
+  const sessions = await prisma.session.findMany({
+    where: { id: { in: sessionIds }, twoFactorVerified: true },
+    select: { id: true },
+  });
+
+  return new Set(sessions.map((session) => session.id));
+}
+
+/**
+ * Projects among projectIds that require 2FA the session has not passed
+ */
+export async function getTwoFactorRestrictedProjectIds(
+  projectIds: string[],
+  sessionId: string | undefined
+): Promise<Set<string>> {
+  if (projectIds.length === 0 || (await isSessionTwoFactorVerified(sessionId))) {
+    return new Set();
+  }
+
+  const restricted = await prisma.project.findMany({
+    where: { id: { in: projectIds }, requireTwoFactor: true },
+    select: { id: true },
+  });
+
+  return new Set(restricted.map((project) => project.id));
+}
+
+/**
+ * Check the project's 2FA requirement for a session
+ */
+export async function meetsProjectTwoFactorRequirement(
+  projectId: string,
+  sessionId: string | undefined
+): Promise<boolean> {
+  const restricted = await getTwoFactorRestrictedProjectIds([projectId], sessionId);
+  return !restricted.has(projectId);
+}
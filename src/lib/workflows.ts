@@ -0,0 +1,291 @@
+/**
+ * Project workflow utilities
+ * Ordered task statuses (board columns) of a project with colors, WIP limits,
+ * a "done" category and allowed transitions; Task.status stores the status key
+ */
+
+import type { WorkflowStatus } from '@prisma/client';
+import prisma from './prisma';
+import * as kv from '../server/kv_store';
+
+export const MAX_WORKFLOW_STATUSES = 20;
+export const MAX_STATUS_NAME_LENGTH = 50;
+
+const STATUS_KEY_PATTERN = /^[a-z0-9_-]{1,64}$/;
+
+export interface WorkflowStatusInput {
+  key: string;
+  name: string;
+  color?: string;
+  wipLimit?: number | null;
+  isDone?: boolean;
+  allowedTransitions?: string[];
+}
+
+/**
+ * Statuses every new project starts with (the former hardcoded columns)
+ */
+export const DEFAULT_WORKFLOW: WorkflowStatusInput[] = [
+  { key: 'todo', name: 'К выполнению', color: 'bg-gray-500' },
+  { key: 'in_progress', name: 'В работе', color: 'bg-blue-500' },
+  { key: 'review', name: 'На проверке', color: 'bg-yellow-500' },
+  { key: 'done', name: 'Готово', color: 'bg-green-500', isDone: true },
+];
+
+const LEGACY_COLUMN_COLORS = ['bg-purple-500', 'bg-pink-500', 'bg-orange-500', 'bg-teal-500', 'bg-indigo-500'];
+
+/**
+ * Rows for the default workflow of a project (used inside project creation transactions)
+ */
+export function buildDefaultWorkflow(projectId: string) {
+  return DEFAULT_WORKFLOW.map((status, position) => ({
+    projectId,
+    key: status.key,
+    name: status.name,
+    color: status.color || 'bg-gray-500',
+    position,
+    isDone: status.isDone === true,
+  }));
+}
+
+/**
+ * Get the workflow of a project, creating it on first access
+ * Projects created before workflows existed get the default statuses plus every
+ * other status their tasks use; names and colors of those come from the per-user
+ * custom columns (KV store) of the project members
+ */
+export async function getProjectWorkflow(projectId: string): Promise<WorkflowStatus[]> {
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { projectId },
+    orderBy: { position: 'asc' },
+  });
+  if (statuses.length > 0) {
+    return statuses;
+  }
+
+  const defaults = buildDefaultWorkflow(projectId);
+  const defaultKeys = new Set(defaults.map((s) => s.key));
+
+  const usedStatuses = await prisma.task.findMany({
+    where: { projectId, status: { notIn: [...defaultKeys] } },
+    select: { status: true },
+    distinct: ['status'],
+  });
+
+  const legacyColumns = new Map<string, { title?: string; color?: string }>();
+  if (usedStatuses.length > 0) {
+    const members = await prisma.projectMember.findMany({
+      where: { projectId },
+      select: { userId: true, role: true },
+    });
+    // The owner's columns win over other members' columns with the same id
+    members.sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'));
+    for (const member of members) {
+      const columns = (await kv.get(`custom_columns:${member.userId}`)) || [];
+      for (const column of Array.isArray(columns) ? columns : []) {
+        if (column?.id && !legacyColumns.has(column.id)) {
+          legacyColumns.set(column.id, column);
+        }
+      }
+    }
+  }
+
+  // Imported statuses go between the open defaults and "done"
+  const doneStatus = defaults.pop()!;
+  usedStatuses.forEach(({ status }, index) => {
+    const column = legacyColumns.get(status);
+    defaults.push({
+      projectId,
+      key: status,
+      name: (column?.title || status).slice(0, MAX_STATUS_NAME_LENGTH),
+      color: column?.color || LEGACY_COLUMN_COLORS[index % LEGACY_COLUMN_COLORS.length],
+      position: 0,
+      isDone: false,
+    });
+  });
+  defaults.push(doneStatus);
+
+  // skipDuplicates: concurrent first requests may seed the same project
+  await prisma.workflowStatus.createMany({
+    data: defaults.map((status, position) => ({ ...status, position })),
+    skipDuplicates: true,
+  });
+
+  return prisma.workflowStatus.findMany({
+    where: { projectId },
+    orderBy: { position: 'asc' },
+  });
+}
+
+/**
+ * Status new tasks of a project get when none is given (first non-done status)
+ */
+export async function getDefaultStatus(projectId: string): Promise<string> {
+  const statuses = await getProjectWorkflow(projectId);
+  return (statuses.find((s) => !s.isDone) || statuses[0]).key;
+}
+
+/**
+ * Status a task is moved to when it is completed automatically (first "done" status)
+ */
+export async function getCompletedStatus(projectId: string | null): Promise<string> {
+  if (!projectId) {
+    return 'done';
+  }
+
+  const statuses = await getProjectWorkflow(projectId);
+  return statuses.find((s) => s.isDone)?.key || 'done';
+}
+
+/**
+ * Check whether a status belongs to the "done" category
+ * Personal tasks have no workflow, only 'done' completes them
+ */
+export async function isDoneStatus(projectId: string | null, status: string): Promise<boolean> {
+  if (!projectId) {
+    return status === 'done';
+  }
+
+  const statuses = await getProjectWorkflow(projectId);
+  return statuses.some((s) => s.key === status && s.isDone);
+}
+
+/**
+ * Keys of the "done" category statuses, for selecting open tasks in queries
+ */
+export async function getDoneStatuses(projectId: string | null): Promise<string[]> {
+  if (!projectId) {
+    return ['done'];
+  }
+
+  const statuses = await getProjectWorkflow(projectId);
+  return statuses.filter((s) => s.isDone).map((s) => s.key);
+}
+
+/**
+ * Validate moving a project task into a status
+ * fromStatus is null for new tasks; throws on unknown statuses, forbidden
+ * transitions and full statuses (WIP limit)
+ */
+export async function validateStatusChange(
+  projectId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  taskId?: string
+): Promise<void> {
+  const statuses = await getProjectWorkflow(projectId);
+
+  const target = statuses.find((s) => s.key === toStatus);
+  if (!target) {
+    throw new Error(`Unknown status "${toStatus}" for this project`);
+  }
+
+  if (fromStatus === toStatus) {
+    return;
+  }
+
+  const source = fromStatus ? statuses.find((s) => s.key === fromStatus) : undefined;
+  if (source && source.allowedTransitions.length > 0 && !source.allowedTransitions.includes(toStatus)) {
+    throw new Error(`Transition from "${source.name}" to "${target.name}" is not allowed`);
+  }
+
+  if (target.wipLimit !== null) {
+    const count = await prisma.task.count({
+      where: { projectId, status: toStatus, ...(taskId ? { id: { not: taskId } } : {}) },
+    });
+    if (count >= target.wipLimit) {
+      throw new Error(`Status "${target.name}" has reached its WIP limit (${target.wipLimit})`);
+    }
+  }
+}
+
+/**
+ * Replace the workflow of a project
+ * Statuses are matched by key; removing a status that still has tasks is rejected
+ */
+export async function updateProjectWorkflow(
+  projectId: string,
+  input: WorkflowStatusInput[]
+): Promise<{ statuses: WorkflowStatus[]; previous: WorkflowStatus[] }> {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('Workflow must contain at least one status');
+  }
+  if (input.length > MAX_WORKFLOW_STATUSES) {
+    throw new Error(`Workflow cannot contain more than ${MAX_WORKFLOW_STATUSES} statuses`);
+  }
+
+  const keys = new Set<string>();
+  for (const status of input) {
+    if (typeof status?.key !== 'string' || !STATUS_KEY_PATTERN.test(status.key)) {
+      throw new Error('Status key must contain only lowercase letters, digits, "-" and "_"');
+    }
+    if (keys.has(status.key)) {
+      throw new Error(`Duplicate status key "${status.key}"`);
+    }
+    keys.add(status.key);
+
+    const name = typeof status.name === 'string' ? status.name.trim() : '';
+    if (!name || name.length > MAX_STATUS_NAME_LENGTH) {
+      throw new Error(`Status name must be 1-${MAX_STATUS_NAME_LENGTH} characters long`);
+    }
+    if (
+      status.wipLimit !== undefined &&
+      status.wipLimit !== null &&
+      (!Number.isInteger(status.wipLimit) || status.wipLimit < 1)
+    ) {
+      throw new Error('WIP limit must be a positive integer');
+    }
+    if (status.allowedTransitions !== undefined && !Array.isArray(status.allowedTransitions)) {
+      throw new Error('allowedTransitions must be an array of status keys');
+    }
+  }
+
+  if (!input.some((status) => status.isDone === true)) {
+    throw new Error('Workflow must contain at least one "done" status');
+  }
+
+  for (const status of input) {
+    const unknown = (status.allowedTransitions || []).find((key) => !keys.has(key));
+    if (unknown) {
+      throw new Error(`Unknown status "${unknown}" in allowed transitions`);
+    }
+  }
+
+  const previous = await getProjectWorkflow(projectId);
+
+  const removed = previous.filter((status) => !keys.has(status.key));
+  for (const status of removed) {
+    const taskCount = await prisma.task.count({ where: { projectId, status: status.key } });
+    if (taskCount > 0) {
+      throw new Error(`Cannot remove status "${status.name}": ${taskCount} task(s) still use it`);
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.workflowStatus.deleteMany({
+      where: { projectId, key: { in: removed.map((s) => s.key) } },
+    }),
+    ...input.map((status, position) => {
+      const data = {
+        name: status.name.trim(),
+        color: status.color || 'bg-gray-500',
+        position,
+        wipLimit: status.wipLimit ?? null,
+        isDone: status.isDone === true,
+        allowedTransitions: (status.allowedTransitions || []).filter((key) => key !== status.key),
+      };
+      return prisma.workflowStatus.upsert({
+        where: { projectId_key: { projectId, key: status.key } },
+        create: { projectId, key: status.key, ...data },
+        update: data,
+      });
+    }),
+  ]);
+
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { projectId },
+    orderBy: { position: 'asc' },
+  });
+
+  return { statuses, previous };
+}
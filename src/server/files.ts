@@ -0,0 +1,52 @@
+/**
+ * Streaming stored files (see lib/storage) to HTTP responses
+ */
+
+import { Response } from 'express';
+import path from 'path';
+import { getStorage } from '../lib/storage';
+
+export interface SendFileOptions {
+  contentType?: string;
+  fileName?: string;
+  disposition?: 'inline' | 'attachment';
+  cacheControl?: string;
+}
+
+/**
+ * Send a stored file; responds 404 when the file is missing
+ */
+export async function sendStoredFile(res: Response, key: string, options: SendFileOptions = {}): Promise<void> {
+  const object = await getStorage().get(key);
+  if (!object) {
+    res.status(404).json({ error: 'File not found' });
+    return;
+  }
+
+  const fileName = options.fileName || path.basename(key);
+  const contentType = options.contentType || object.contentType;
+  if (contentType) {
+    res.setHeader('Content-Type', contentType);
+  } else {
+    // Local files have no stored type, guess it from the extension
+    res.type(path.extname(key) || 'application/octet-stream');
+  }
+  res.setHeader('Content-Disposition', `${options.disposition || 'inline'}; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  if (object.size !== undefined) {
+    res.setHeader('Content-Length', String(object.size));
+  }
+  if (options.cacheControl) {
+    res.setHeader('Cache-Control', options.cacheControl);
+  }
+
+  object.stream.on('error', (error) => {
+    console.error(`Stream stored file ${key} error:`, error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to read file' });
+    } else {
+      res.destroy(error);
+    }
+  });
+  object.stream.pipe(res);
+}
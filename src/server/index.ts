@@ -5,48 +5,255 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
 import crypto from 'crypto';
+import type { Task, User } from '@prisma/client';
 import prisma from '../lib/prisma';
-import { hashPassword, comparePassword, generateToken, verifyToken, JwtPayload } from '../lib/auth';
+import {
+  hashPassword,
+  comparePassword,
+  generateToken,
+  verifyToken,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  JwtPayload,
+} from '../lib/auth';
 import emailService from '../lib/email';
 import invitationRoutes from './routes/invitations.js';
+import commentRoutes from './routes/comments.js';
+import notificationRoutes from './routes/notifications.js';
+import savedViewRoutes from './routes/saved-views.js';
+import categoryRoutes from './routes/categories.js';
+import memberRoutes from './routes/members.js';
+import checklistRoutes from './routes/checklists.js';
+import dependencyRoutes from './routes/dependencies.js';
+import workflowRoutes from './routes/workflows.js';
+import attachmentRoutes from './routes/attachments.js';
+import projectLinkRoutes from './routes/project-links.js';
+import projectAttachmentRoutes from './routes/project-attachments.js';
+import * as realtime from './realtime.js';
+import {
+  parseRecurrenceInput,
+  createRecurrenceRule,
+  applyRecurrenceChange,
+  applyToFutureOccurrences,
+  spawnNextOccurrence,
+  deleteFutureOccurrences,
+  getFutureOccurrences,
+  withRecurrenceFields,
+  RecurrenceInput,
+  RecurrenceScope,
+} from '../lib/recurrence';
+import { diffTaskFields } from '../lib/task-conflicts';
+import { listTasks, TaskListOptions } from '../lib/task-query';
+import { search } from '../lib/search';
+import { assertTaskCategory } from '../lib/categories';
+import {
+  applyBulkDelete,
+  applyBulkUpdate,
+  planBulkDelete,
+  planBulkUpdate,
+  TASK_CONFLICT_ERROR,
+} from '../lib/bulk-tasks';
+import {
+  logActivity,
+  logTaskUpdate,
+  diffFields,
+  getTaskActivity,
+  getProjectActivity,
+  PROJECT_TRACKED_FIELDS,
+} from '../lib/activity';
+import { notifyTaskAssigned, sendDeadlineReminders } from '../lib/notifications';
+import {
+  validateSubtaskParent,
+  getSubtaskTreeIds,
+  completeParentIfFinished,
+} from '../lib/subtasks';
+import {
+  getOpenBlockers,
+  getDependencyMode,
+  getBlockedTaskIds,
+} from '../lib/dependencies';
+import {
+  buildDefaultWorkflow,
+  getProjectWorkflow,
+  getDefaultStatus,
+  isDoneStatus,
+  validateStatusChange,
+} from '../lib/workflows';
+import {
+  assertStorageAvailable,
+  getProjectStorageUsage,
+  getAttachmentUrls,
+  getProjectFileUrls,
+  removeStoredFiles,
+  collectOrphanedFiles,
+} from '../lib/attachments';
+import {
+  UPLOADS_DIR,
+  getStorage,
+  getStorageKey,
+  storeUpload,
+  verifySignedFileRequest,
+} from '../lib/storage';
+import { buildProjectLinks } from '../lib/project-links';
+import {
+  confirmEmailChange,
+  createEmailChangeRequest,
+  deleteAccount,
+  getSharedOwnedProjects,
+} from '../lib/account';
+import {
+  ARCHIVED_PROJECT_ERROR,
+  PROJECT_AUTO_ARCHIVE_DAYS,
+  autoArchiveInactiveProjects,
+  buildArchiveData,
+  isProjectArchived,
+} from '../lib/archive';
+import {
+  EMAIL_VERIFICATION_REQUIRED_ERROR,
+  assertEmailVerified,
+  getResendDelay,
+  issueVerificationToken,
+  verifyEmailToken,
+} from '../lib/email-verification';
+import {
+  REFRESH_RACE_ERROR,
+  createSession,
+  deleteStaleSessions,
+  getActiveSessions,
+  isSessionActive,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeUserSessions,
+  rotateSession,
+} from '../lib/sessions';
+import {
+  TWO_FACTOR_REQUIRED_ERROR,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorRestrictedProjectIds,
+  isSessionTwoFactorVerified,
+  meetsProjectTwoFactorRequirement,
+  regenerateBackupCodes,
+  startTwoFactorSetup,
+  verifySecondFactor,
+} from '../lib/two-factor';
+import { clearLoginFailures, getLoginLockout, registerLoginFailure } from '../lib/rate-limit';
+import { sendStoredFile } from './files.js';
+import { byBodyEmail, byUser, rateLimit, sendLoginLocked } from './rate-limit.js';
+import { validateBody, validateQuery } from './validation.js';
+import {
+  BulkTaskRequest,
+  CreateProjectRequest,
+  CreateTaskRequest,
+  UpdateProjectRequest,
+  UpdateTaskRequest,
+  bulkTaskSchema,
+  changeEmailSchema,
+  changePasswordSchema,
+  createProjectSchema,
+  createTaskSchema,
+  customColumnsSchema,
+  deleteAccountSchema,
+  disableTwoFactorSchema,
+  forgotPasswordSchema,
+  invitationEmailSchema,
+  logoutSchema,
+  refreshTokenSchema,
+  resetPasswordSchema,
+  searchQuerySchema,
+  signInSchema,
+  signUpSchema,
+  taskListQuerySchema,
+  taskPermissionSchema,
+  taskPermissionsSchema,
+  tokenSchema,
+  twoFactorCodeSchema,
+  twoFactorSignInSchema,
+  updateProfileSchema,
+  updateProjectSchema,
+  updateTaskSchema,
+} from './types';
 import { 
   getUserRoleInProject as getUserRoleInProjectFromDB,
   canEditTask as canEditTaskFromDB,
   canDeleteTask as canDeleteTaskFromDB,
   canViewTask as canViewTaskFromDB,
-  canCreateTask as canCreateTaskFromDB
+  canEditProject as canEditProjectFromDB,
+  canCreateTask as canCreateTaskFromDB,
+  canCreateSubtask as canCreateSubtaskFromDB
 } from '../lib/permissions';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
-
-// Create uploads directory if it doesn't exist
-const uploadsDir = path.join(process.cwd(), 'uploads');
-if (!fs.existsSync(uploadsDir)) {
+const DEADLINE_REMINDER_INTERVAL = 15 * 60 * 1000; // How often to look for due-soon/overdue tasks
+const ORPHANED_FILES_INTERVAL = 6 * 60 * 60 * 1000; // How often to remove files nothing references
+const AUTO_ARCHIVE_INTERVAL = 24 * 60 * 60 * 1000; // How often to archive inactive projects (PROJECT_AUTO_ARCHIVE_DAYS)
+const SESSION_CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // How often to delete expired and long-revoked sessions
+
+// Create uploads directory if it doesn't exist (local storage driver)
+const uploadsDir = UPLOADS_DIR;
+if (getStorage().name === 'local' && !fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
+// Behind a reverse proxy req.ip (used for rate limits and sessions) must come from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy);
+}
+
 // Middleware
 app.use(cors());
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Serve static files from uploads directory
-app.use('/uploads', express.static(uploadsDir));
+// Serve public files (avatars) from storage
+// Only avatar keys and legacy flat avatar files referenced by a user are public;
+// everything else is served through endpoints that check access or signed /api/files URLs
+app.get('/uploads/*', async (req: Request, res: Response) => {
+  try {
+    const url = `/uploads/${req.params[0]}`;
+    const key = getStorageKey(url);
+    const isAvatar = key && (
+      key.startsWith('avatars/') ||
+      await prisma.user.findFirst({ where: { avatarUrl: url }, select: { id: true } })
+    );
+    if (!key || !isAvatar) {
+      return res.status(404).json({ error: 'File not found' });
+    }
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, uploadsDir);
-  },
-  filename: (_req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-    cb(null, uniqueSuffix + '-' + file.originalname);
-  },
+    // Only images are rendered inline, anything else is downloaded
+    const isImage = /\.(png|jpe?g|gif|webp|bmp|avif)$/i.test(key);
+    await sendStoredFile(res, key, {
+      disposition: isImage ? 'inline' : 'attachment',
+      cacheControl: 'public, max-age=86400',
+    });
+  } catch (error: any) {
+    console.error('Serve upload error:', error);
+    res.status(500).json({ error: 'Failed to get file' });
+  }
 });
 
+// Signed, time-limited file URLs of the local storage driver (see lib/storage)
+app.get('/api/files/*', async (req: Request, res: Response) => {
+  try {
+    const key = req.params[0];
+    const signed = verifySignedFileRequest(key, req.query);
+    if (!signed) {
+      return res.status(403).json({ error: 'Invalid or expired file link' });
+    }
+
+    await sendStoredFile(res, key, { ...signed, cacheControl: 'private, max-age=300' });
+  } catch (error: any) {
+    console.error('Serve signed file error:', error);
+    res.status(500).json({ error: 'Failed to get file' });
+  }
+});
+
+// Configure multer for file uploads
+// Files are kept in memory and written to the storage driver by the upload endpoints
 const upload = multer({
-  storage,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB limit
   },
@@ -70,6 +277,11 @@ async function authenticate(req: AuthRequest, res: Response, next: NextFunction)
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
     const payload = verifyToken(token);
+
+    // Signed-out and revoked sessions stop working before their access tokens expire
+    if (!(await isSessionActive(payload.sid))) {
+      return res.status(401).json({ error: 'Session has expired or was revoked' });
+    }
     
     req.user = payload;
     next();
@@ -102,7 +314,12 @@ async function canAccessProject(req: AuthRequest, res: Response, next: NextFunct
       return res.status(403).json({ error: 'Forbidden: You are not a member of this project.' });
     }
 
-    // 5. Enrich request object with role information for use in route handlers
+    // 5. Projects that require 2FA are only available to sessions that passed it
+    if (!(await meetsProjectTwoFactorRequirement(projectId, req.user!.sid))) {
+      return res.status(403).json({ error: TWO_FACTOR_REQUIRED_ERROR, code: 'TWO_FACTOR_REQUIRED' });
+    }
+
+    // 6. Enrich request object with role information for use in route handlers
     req.user!.roleInProject = role;
     next();
   } catch (error: any) {
@@ -119,8 +336,8 @@ type UserRole = 'owner' | 'admin' | 'collaborator' | 'member' | 'viewer' | null;
  * Get user's role in a project
  * Uses Prisma to query database directly as single source of truth
  */
-async function getUserRoleInProject(userId: string, projectId: string): Promise<UserRole> {
-  return await getUserRoleInProjectFromDB(userId, projectId);
+async function getUserRoleInProject(userId: string, projectId: string, sessionId?: string): Promise<UserRole> {
+  return await getUserRoleInProjectFromDB(userId, projectId, sessionId);
 }
 
 /**
@@ -209,31 +426,96 @@ async function canViewTask(userId: string, task: any): Promise<boolean> {
 
 // Health check endpoint (both /health and /api/health for compatibility)
 const healthHandler = (_req: Request, res: Response) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    realtimeConnections: realtime.getConnectionCount(),
+  });
 };
 
 app.get('/health', healthHandler);
 app.get('/api/health', healthHandler);
 
+// ========== REALTIME (SSE) ==========
+
+/**
+ * POST /api/realtime/ticket
+ * Single-use ticket for opening the event stream (valid for a few seconds)
+ */
+app.post('/api/realtime/ticket', authenticate, (req: AuthRequest, res: Response) => {
+  res.json({ ticket: realtime.issueStreamTicket(req.user!.sub, req.user!.sid) });
+});
+
+/**
+ * GET /api/realtime/events
+ * Server-Sent Events stream with task/project/member changes
+ * EventSource cannot send custom headers, so it opens the stream with ?ticket= from
+ * POST /api/realtime/ticket; the access token never goes into the URL
+ */
+app.get('/api/realtime/events', async (req: Request, res: Response) => {
+  const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : '';
+  if (!ticket) {
+    return res.status(401).json({ error: 'Missing stream ticket' });
+  }
+
+  const owner = realtime.redeemStreamTicket(ticket);
+  if (!owner) {
+    return res.status(401).json({ error: 'Invalid or expired stream ticket' });
+  }
+
+  try {
+    if (!(await isSessionActive(owner.sessionId))) {
+      return res.status(401).json({ error: 'Session has expired or was revoked' });
+    }
+  } catch (error) {
+    console.error('Realtime session check error:', error);
+    return res.status(500).json({ error: 'Failed to open realtime stream' });
+  }
+
+  realtime.subscribe(owner.userId, res, owner.sessionId);
+});
+
 // ========== AUTH ENDPOINTS ==========
 
+/**
+ * Profile fields of the current user returned by the auth endpoints
+ */
+function toProfile(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    avatarUrl: user.avatarUrl,
+    emailVerified: user.emailVerified,
+    pendingEmail: user.pendingEmail,
+    passwordChangedAt: user.passwordChangedAt,
+    twoFactorEnabled: user.twoFactorEnabled,
+    backupCodesRemaining: user.twoFactorBackupCodes.length,
+    createdAt: user.createdAt,
+  };
+}
+
+/**
+ * Start a login session: short-lived access token plus a refresh token bound to this device
+ */
+async function startSession(user: User, req: Request, twoFactorVerified = false) {
+  const { session, refreshToken } = await createSession(
+    user.id,
+    { userAgent: req.get('user-agent'), ipAddress: req.ip },
+    twoFactorVerified
+  );
+
+  return { token: generateToken(user.id, user.email, session.id), refreshToken };
+}
+
 /**
  * POST /api/auth/signup
  * Register a new user
  */
-app.post('/api/auth/signup', async (req: Request, res: Response) => {
+app.post('/api/auth/signup', rateLimit('signup_ip'), validateBody(signUpSchema), async (req: Request, res: Response) => {
   try {
     const { email, password, name } = req.body;
 
-    if (!email || !password || !name) {
-      return res.status(400).json({ error: 'Email, password, and name are required' });
-    }
-
-    // Validate password length
-    if (password.length < 8) {
-      return res.status(400).json({ error: 'Пароль должен содержать минимум 8 символов' });
-    }
-
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({ where: { email } });
     if (existingUser) {
@@ -250,13 +532,13 @@ app.post('/api/auth/signup', async (req: Request, res: Response) => {
       },
     });
 
-    // Send welcome email (async, don't wait for it)
-    emailService.sendWelcomeEmail(user.email, user.name).catch(err => {
+    // Send welcome email with the verification link (async, don't wait for it)
+    const verificationToken = await issueVerificationToken(user.id);
+    emailService.sendWelcomeEmail(user.email, user.name, verificationToken).catch(err => {
       console.error('Failed to send welcome email:', err);
     });
 
-    // Generate token
-    const token = generateToken(user.id, user.email);
+    const { token, refreshToken } = await startSession(user, req);
 
     res.status(201).json({
       user: {
@@ -264,8 +546,10 @@ app.post('/api/auth/signup', async (req: Request, res: Response) => {
         email: user.email,
         name: user.name,
         avatarUrl: user.avatarUrl,
+        emailVerified: user.emailVerified,
       },
       token,
+      refreshToken,
     });
   } catch (error: any) {
     console.error('Signup error:', error);
@@ -279,75 +563,684 @@ app.post('/api/auth/signup', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Lockout key for second factor codes: guessing codes locks 2FA separately from the password
+ */
+function twoFactorAccount(userId: string): string {
+  return `two_factor:${userId}`;
+}
+
+/**
+ * Respond to a wrong password or code: 401, or 429 when this failure locked the account
+ */
+async function rejectLoginAttempt(res: Response, account: string, error: string) {
+  const lockout = await registerLoginFailure(account);
+  if (lockout > 0) {
+    return sendLoginLocked(res, lockout);
+  }
+  return res.status(401).json({ error });
+}
+
 /**
  * POST /api/auth/signin
  * Sign in a user
+ * Failed attempts lock the account progressively (429 with retryAfter while locked)
  */
-app.post('/api/auth/signin', async (req: Request, res: Response) => {
+app.post('/api/auth/signin', rateLimit('signin_ip'), validateBody(signInSchema), async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Необходимо указать email и пароль' });
+    // Checked before the password so a locked account gives no hint whether a guess was right
+    const lockout = await getLoginLockout(email);
+    if (lockout > 0) {
+      return sendLoginLocked(res, lockout);
+    }
+
+    // Find user
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      return rejectLoginAttempt(res, email, 'Неверный email или пароль');
+    }
+
+    // Verify password
+    const isValid = await comparePassword(password, user.password);
+    if (!isValid) {
+      return rejectLoginAttempt(res, email, 'Неверный email или пароль');
+    }
+
+    await clearLoginFailures(email);
+
+    // Second step: the session is created by /api/auth/signin/2fa once the code is checked
+    if (user.twoFactorEnabled) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallenge(user.id),
+      });
+    }
+
+    const { token, refreshToken } = await startSession(user, req);
+
+    res.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        avatarUrl: user.avatarUrl,
+      },
+      token,
+      refreshToken,
+    });
+  } catch (error: any) {
+    console.error('Signin error:', error);
+    res.status(500).json({ error: 'Ошибка входа в систему' });
+  }
+});
+
+/**
+ * POST /api/auth/signin/2fa
+ * Second step of signing in with 2FA
+ * Body: { challengeToken, code } - code is a TOTP code or a backup code
+ */
+app.post('/api/auth/signin/2fa', rateLimit('two_factor_ip'), validateBody(twoFactorSignInSchema), async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    let userId: string;
+    try {
+      userId = verifyTwoFactorChallenge(challengeToken);
+    } catch {
+      return res.status(401).json({ error: 'Время на ввод кода истекло. Войдите снова' });
+    }
+
+    const lockout = await getLoginLockout(twoFactorAccount(userId));
+    if (lockout > 0) {
+      return sendLoginLocked(res, lockout);
+    }
+
+    let result: Awaited<ReturnType<typeof verifySecondFactor>>;
+    try {
+      result = await verifySecondFactor(userId, code);
+    } catch {
+      return rejectLoginAttempt(res, twoFactorAccount(userId), 'Неверный код подтверждения');
+    }
+    await clearLoginFailures(twoFactorAccount(userId));
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(401).json({ error: 'Неверный код подтверждения' });
+    }
+
+    const { token, refreshToken } = await startSession(user, req, true);
+
+    res.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        avatarUrl: user.avatarUrl,
+      },
+      token,
+      refreshToken,
+      usedBackupCode: result.method === 'backup_code',
+      backupCodesRemaining: result.backupCodesRemaining,
+    });
+  } catch (error: any) {
+    console.error('Two-factor signin error:', error);
+    res.status(500).json({ error: 'Ошибка входа в систему' });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token and a new refresh token
+ * Body: { refreshToken }
+ * Responds 409 REFRESH_RACE when a parallel request has just rotated the same token
+ */
+app.post('/api/auth/refresh', validateBody(refreshTokenSchema), async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    let result: Awaited<ReturnType<typeof rotateSession>>;
+    try {
+      result = await rotateSession(refreshToken, { userAgent: req.get('user-agent'), ipAddress: req.ip });
+    } catch (rotateError: any) {
+      // Several tabs refreshed at once: the client picks up the token of the one that won
+      if (rotateError.message === REFRESH_RACE_ERROR) {
+        return res.status(409).json({ error: rotateError.message, code: 'REFRESH_RACE' });
+      }
+      return res.status(401).json({ error: rotateError.message || 'Invalid refresh token' });
+    }
+
+    res.json({
+      token: generateToken(result.user.id, result.user.email, result.session.id),
+      refreshToken: result.refreshToken,
+    });
+  } catch (error: any) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Sign out: revoke the session of the refresh token (works with an expired access token)
+ * Body: { refreshToken }
+ */
+app.post('/api/auth/logout', validateBody(logoutSchema), async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (refreshToken) {
+      const session = await revokeSessionByRefreshToken(refreshToken);
+      if (session) {
+        realtime.disconnectSessions([session.id]);
+      }
+    }
+
+    res.json({ message: 'Signed out successfully' });
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to sign out' });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * Active sessions (devices) of the current user, the one making the request is marked as current
+ */
+app.get('/api/auth/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await getActiveSessions(req.user!.sub);
+
+    res.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === req.user!.sid })),
+    });
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Revoke one session of the current user
+ */
+app.delete('/api/auth/sessions/:sessionId', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+
+    try {
+      await revokeSession(req.user!.sub, sessionId);
+    } catch {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    realtime.disconnectSessions([sessionId]);
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions
+ * Sign out everywhere except the current session
+ */
+app.delete('/api/auth/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const revokedIds = await revokeUserSessions(req.user!.sub, req.user!.sid);
+    realtime.disconnectSessions(revokedIds);
+
+    res.json({ message: 'Other sessions revoked successfully', revoked: revokedIds.length });
+  } catch (error: any) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get current user
+ */
+app.get('/api/auth/me', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ user: toProfile(user) });
+  } catch (error: any) {
+    console.error('Get user error:', error);
+    res.status(500).json({ error: 'Failed to get user' });
+  }
+});
+
+/**
+ * PATCH /api/auth/me
+ * Update the current user's profile
+ * Body: { name?, avatarUrl?: null } - a new avatar is uploaded via /api/upload-avatar, null removes it
+ */
+app.patch('/api/auth/me', authenticate, validateBody(updateProfileSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const updateData: { name?: string; avatarUrl?: null } = req.body;
+
+    const previous = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarUrl: true },
+    });
+    if (!previous) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: updateData,
+    });
+
+    if (updateData.avatarUrl === null && previous.avatarUrl) {
+      await removeStoredFiles([previous.avatarUrl]);
+    }
+
+    res.json({ user: toProfile(user) });
+  } catch (error: any) {
+    console.error('Update profile error:', error);
+    res.status(500).json({ error: 'Не удалось сохранить профиль' });
+  }
+});
+
+/**
+ * POST /api/auth/change-email
+ * Start an email change: a confirmation link is sent to the new address
+ * Body: { email, password, code? } - code (TOTP or backup code) is required when 2FA is enabled
+ */
+app.post('/api/auth/change-email', authenticate, validateBody(changeEmailSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const { email, password, code } = req.body;
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await comparePassword(password, user.password))) {
+      return res.status(401).json({ error: 'Неверный пароль' });
     }
 
-    // Find user
-    const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) {
-      return res.status(401).json({ error: 'Неверный email или пароль' });
+    // The email is the recovery channel: with 2FA on, changing it takes the second factor too
+    if (user.twoFactorEnabled) {
+      if (!code) {
+        return res.status(400).json({ error: 'Необходимо указать код подтверждения', code: 'TWO_FACTOR_CODE_REQUIRED' });
+      }
+
+      const account = twoFactorAccount(userId);
+      const lockout = await getLoginLockout(account);
+      if (lockout > 0) {
+        return sendLoginLocked(res, lockout);
+      }
+
+      try {
+        await verifySecondFactor(userId, code);
+      } catch {
+        return rejectLoginAttempt(res, account, 'Неверный код подтверждения');
+      }
+      await clearLoginFailures(account);
+    }
+
+    let token: string;
+    try {
+      token = await createEmailChangeRequest(userId, email);
+    } catch (requestError: any) {
+      return res.status(400).json({
+        error: requestError.message === 'This is already your email'
+          ? 'Это ваш текущий email'
+          : 'Пользователь с таким e-mail уже существует',
+      });
+    }
+
+    await emailService.sendEmailChangeConfirmationEmail(email, user.name, token);
+
+    res.json({
+      pendingEmail: email,
+      message: 'A confirmation link has been sent to the new email',
+    });
+  } catch (error: any) {
+    console.error('Change email error:', error);
+    res.status(500).json({ error: 'Не удалось изменить email' });
+  }
+});
+
+/**
+ * POST /api/auth/confirm-email-change
+ * Confirm an email change with the token from the link (no auth: the link may be opened anywhere)
+ * Body: { token }
+ */
+app.post('/api/auth/confirm-email-change', validateBody(tokenSchema), async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    let result: Awaited<ReturnType<typeof confirmEmailChange>>;
+    try {
+      result = await confirmEmailChange(token);
+    } catch (confirmError: any) {
+      return res.status(400).json({
+        error: confirmError.message.includes('in use')
+          ? 'Пользователь с таким e-mail уже существует'
+          : 'Ссылка недействительна или устарела',
+      });
+    }
+
+    emailService.sendEmailChangedEmail(result.previousEmail, result.user.name, result.user.email).catch(err => {
+      console.error('Failed to send email changed email:', err);
+    });
+
+    res.json({ user: toProfile(result.user), message: 'Email has been changed successfully' });
+  } catch (error: any) {
+    console.error('Confirm email change error:', error);
+    res.status(500).json({ error: 'Не удалось подтвердить email' });
+  }
+});
+
+/**
+ * GET /api/auth/verify-email?token=
+ * Redirect an old-style verification link to the app page, which POSTs the token
+ * The token is not used here: mail scanners and link prefetchers would consume it
+ */
+app.get('/api/auth/verify-email', (req: Request, res: Response) => {
+  const appUrl = process.env.APP_URL || 'http://localhost:5173';
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  res.redirect(`${appUrl}/verify-email?token=${encodeURIComponent(token)}`);
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Verify an email with the token from the link (no auth: the link may be opened anywhere)
+ * Body: { token }
+ */
+app.post('/api/auth/verify-email', validateBody(tokenSchema), async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    let user: User;
+    try {
+      user = await verifyEmailToken(token);
+    } catch {
+      return res.status(400).json({ error: 'Ссылка недействительна или устарела' });
+    }
+
+    res.json({ user: toProfile(user), message: 'Email has been verified successfully' });
+  } catch (error: any) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'Не удалось подтвердить email' });
+  }
+});
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new verification link to the current user (at most once a minute)
+ */
+app.post('/api/auth/resend-verification', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.emailVerified) {
+      return res.status(400).json({ error: 'Email уже подтвержден' });
+    }
+
+    const delay = getResendDelay(user.emailVerificationSentAt);
+    if (delay > 0) {
+      const retryAfter = Math.ceil(delay / 1000);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        error: `Письмо уже отправлено. Повторить можно через ${retryAfter} сек.`,
+        retryAfter,
+      });
+    }
+
+    const token = await issueVerificationToken(user.id);
+    const sent = await emailService.sendVerificationEmail(user.email, user.name, token);
+
+    res.json({
+      message: sent ? 'Verification email sent' : 'Verification link created (email service not configured)',
+      emailSent: sent,
+    });
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ error: 'Не удалось отправить письмо' });
+  }
+});
+
+/**
+ * POST /api/auth/change-password
+ * Change the password of the current user
+ * Body: { currentPassword, newPassword }
+ */
+app.post('/api/auth/change-password', authenticate, validateBody(changePasswordSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await comparePassword(currentPassword, user.password))) {
+      return res.status(401).json({ error: 'Неверный текущий пароль' });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: await hashPassword(newPassword),
+        passwordChangedAt: new Date(),
+        // A password reset link requested before the change must not work anymore
+        resetPasswordToken: null,
+        resetPasswordExpires: null,
+      },
+    });
+
+    // Sign out every other device: whoever knew the old password may still hold a session
+    realtime.disconnectSessions(await revokeUserSessions(userId, req.user!.sid));
+
+    emailService.sendPasswordChangedEmail(user.email, user.name).catch(err => {
+      console.error('Failed to send password changed email:', err);
+    });
+
+    res.json({ user: toProfile(updated), message: 'Password has been changed successfully' });
+  } catch (error: any) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Не удалось изменить пароль' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start enabling 2FA: returns a new secret with its QR code for the authenticator app
+ */
+app.post('/api/auth/2fa/setup', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const setup = await startTwoFactorSetup(req.user!.sub);
+
+    res.json(setup);
+  } catch (error: any) {
+    if (error.message?.includes('already enabled')) {
+      return res.status(409).json({ error: 'Двухфакторная аутентификация уже включена' });
+    }
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Не удалось начать настройку 2FA' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm the setup with a code from the app; responds with the backup codes (shown only once)
+ * Body: { code }
+ */
+app.post('/api/auth/2fa/enable', authenticate, validateBody(twoFactorCodeSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    const account = twoFactorAccount(req.user!.sub);
+    const lockout = await getLoginLockout(account);
+    if (lockout > 0) {
+      return sendLoginLocked(res, lockout);
+    }
+
+    let backupCodes: string[];
+    try {
+      backupCodes = await enableTwoFactor(req.user!.sub, req.user!.sid, code);
+    } catch (enableError: any) {
+      if (enableError.message === 'Invalid two-factor code') {
+        const lockedFor = await registerLoginFailure(account);
+        if (lockedFor > 0) {
+          return sendLoginLocked(res, lockedFor);
+        }
+        return res.status(400).json({ error: 'Неверный код подтверждения' });
+      }
+      return res.status(400).json({ error: enableError.message });
+    }
+    await clearLoginFailures(account);
+
+    res.json({ backupCodes, message: 'Two-factor authentication enabled' });
+  } catch (error: any) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ error: 'Не удалось включить 2FA' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn 2FA off
+ * Body: { password, code }
+ */
+app.post('/api/auth/2fa/disable', authenticate, validateBody(disableTwoFactorSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const { password, code } = req.body;
+
+    const account = twoFactorAccount(userId);
+    const lockout = await getLoginLockout(account);
+    if (lockout > 0) {
+      return sendLoginLocked(res, lockout);
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await comparePassword(password, user.password))) {
+      return rejectLoginAttempt(res, account, 'Неверный пароль');
+    }
+
+    try {
+      await verifySecondFactor(userId, code);
+    } catch {
+      return rejectLoginAttempt(res, account, 'Неверный код подтверждения');
+    }
+    await clearLoginFailures(account);
+
+    await disableTwoFactor(userId);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error: any) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ error: 'Не удалось отключить 2FA' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/backup-codes
+ * Replace the backup codes with a new set
+ * Body: { code }
+ */
+app.post('/api/auth/2fa/backup-codes', authenticate, validateBody(twoFactorCodeSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const { code } = req.body;
+
+    const account = twoFactorAccount(userId);
+    const lockout = await getLoginLockout(account);
+    if (lockout > 0) {
+      return sendLoginLocked(res, lockout);
     }
 
-    // Verify password
-    const isValid = await comparePassword(password, user.password);
-    if (!isValid) {
-      return res.status(401).json({ error: 'Неверный email или пароль' });
+    try {
+      await verifySecondFactor(userId, code);
+    } catch {
+      return rejectLoginAttempt(res, account, 'Неверный код подтверждения');
     }
+    await clearLoginFailures(account);
 
-    // Generate token
-    const token = generateToken(user.id, user.email);
+    const backupCodes = await regenerateBackupCodes(userId);
 
-    res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        avatarUrl: user.avatarUrl,
-      },
-      token,
-    });
+    res.json({ backupCodes });
   } catch (error: any) {
-    console.error('Signin error:', error);
-    res.status(500).json({ error: 'Ошибка входа в систему' });
+    console.error('Regenerate backup codes error:', error);
+    res.status(500).json({ error: 'Не удалось создать резервные коды' });
   }
 });
 
 /**
- * GET /api/auth/me
- * Get current user
+ * DELETE /api/auth/me
+ * Delete the current user's account (see src/lib/account.ts for what happens to their data)
+ * Body: { password }
+ * Responds 409 with the projects whose ownership must be transferred first
  */
-app.get('/api/auth/me', authenticate, async (req: AuthRequest, res: Response) => {
+app.delete('/api/auth/me', authenticate, validateBody(deleteAccountSchema), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.sub;
-    
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-    });
+    const { password } = req.body;
 
+    const user = await prisma.user.findUnique({ where: { id: userId } });
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        avatarUrl: user.avatarUrl,
-      },
+    if (!(await comparePassword(password, user.password))) {
+      return res.status(401).json({ error: 'Неверный пароль' });
+    }
+
+    const sharedProjects = await getSharedOwnedProjects(userId);
+    if (sharedProjects.length > 0) {
+      return res.status(409).json({
+        error: 'Передайте владение общими проектами или удалите их перед удалением аккаунта',
+        projects: sharedProjects,
+      });
+    }
+
+    // Memberships are removed by the cascade, so the audience is collected first
+    const memberships = await prisma.projectMember.findMany({
+      where: { userId },
+      select: { projectId: true },
     });
+
+    await deleteAccount(userId);
+
+    for (const { projectId } of memberships) {
+      realtime.publishProjectEvent('member.removed', projectId, { userId }, userId);
+    }
+
+    res.json({ message: 'Account deleted successfully' });
   } catch (error: any) {
-    console.error('Get user error:', error);
-    res.status(500).json({ error: 'Failed to get user' });
+    console.error('Delete account error:', error);
+    res.status(500).json({ error: 'Не удалось удалить аккаунт' });
   }
 });
 
@@ -355,14 +1248,10 @@ app.get('/api/auth/me', authenticate, async (req: AuthRequest, res: Response) =>
  * POST /api/auth/forgot-password
  * Request password reset
  */
-app.post('/api/auth/forgot-password', async (req: Request, res: Response) => {
+app.post('/api/auth/forgot-password', rateLimit('password_reset_ip'), validateBody(forgotPasswordSchema), rateLimit('password_reset_account', byBodyEmail), async (req: Request, res: Response) => {
   try {
     const { email } = req.body;
 
-    if (!email) {
-      return res.status(400).json({ error: 'Email is required' });
-    }
-
     // Find user
     const user = await prisma.user.findUnique({ where: { email } });
     
@@ -404,18 +1293,10 @@ app.post('/api/auth/forgot-password', async (req: Request, res: Response) => {
  * POST /api/auth/reset-password
  * Reset password using token
  */
-app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
+app.post('/api/auth/reset-password', rateLimit('password_reset_ip'), validateBody(resetPasswordSchema), async (req: Request, res: Response) => {
   try {
     const { token, password } = req.body;
 
-    if (!token || !password) {
-      return res.status(400).json({ error: 'Token and new password are required' });
-    }
-
-    if (password.length < 6) {
-      return res.status(400).json({ error: 'Password must be at least 6 characters' });
-    }
-
     // Hash the token to compare with stored hash
     const resetTokenHash = crypto.createHash('sha256').update(token).digest('hex');
 
@@ -441,11 +1322,15 @@ app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
       where: { id: user.id },
       data: {
         password: hashedPassword,
+        passwordChangedAt: new Date(),
         resetPasswordToken: null,
         resetPasswordExpires: null,
       },
     });
 
+    // Sign out everywhere, the account may have been taken over
+    realtime.disconnectSessions(await revokeUserSessions(user.id));
+
     // Send confirmation email
     emailService.sendPasswordChangedEmail(user.email, user.name).catch(err => {
       console.error('Failed to send password changed email:', err);
@@ -464,13 +1349,17 @@ app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
  * POST /api/projects
  * Create a new project (any authenticated user can create)
  */
-app.post('/api/projects', authenticate, async (req: AuthRequest, res: Response) => {
+app.post('/api/projects', authenticate, validateBody(createProjectSchema), async (req: AuthRequest, res: Response) => {
   try {
-    const { name, description, color } = req.body;
+    const { name, description, color, dependencyMode, links } = req.body as CreateProjectRequest;
     const ownerId = req.user!.sub;
 
-    if (!name) {
-      return res.status(400).json({ error: 'Project name is required' });
+    // Initial links are validated up front; later changes go through /api/projects/:projectId/links
+    let initialLinks: ReturnType<typeof buildProjectLinks>;
+    try {
+      initialLinks = buildProjectLinks('', links);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
     }
 
     // Use transaction to ensure both project and project member are created together
@@ -482,6 +1371,7 @@ app.post('/api/projects', authenticate, async (req: AuthRequest, res: Response)
           name,
           description: description || null,
           color: color || '#3b82f6',
+          dependencyMode: dependencyMode || 'warn',
           ownerId: ownerId,
         },
       });
@@ -496,9 +1386,30 @@ app.post('/api/projects', authenticate, async (req: AuthRequest, res: Response)
         },
       });
 
+      // Step 3: Default workflow (board columns shared by all members)
+      await tx.workflowStatus.createMany({
+        data: buildDefaultWorkflow(newProject.id),
+      });
+
+      // Step 4: Links entered in the creation form
+      if (initialLinks.length > 0) {
+        await tx.projectLink.createMany({
+          data: initialLinks.map((link) => ({ ...link, projectId: newProject.id })),
+        });
+      }
+
       return newProject;
     });
 
+    await logActivity({
+      action: 'project.created',
+      entityType: 'project',
+      entityId: project.id,
+      actorId: ownerId,
+      projectId: project.id,
+      metadata: { name: project.name },
+    });
+
     res.status(201).json(project);
   } catch (error: any) {
     console.error('Failed to create project or project member entry:', error);
@@ -509,6 +1420,7 @@ app.post('/api/projects', authenticate, async (req: AuthRequest, res: Response)
 /**
  * GET /api/projects
  * Get all projects accessible to the user (owned + member of)
+ * Projects that require 2FA are left out for sessions that have not passed it
  */
 app.get('/api/projects', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -531,6 +1443,9 @@ app.get('/api/projects', authenticate, async (req: AuthRequest, res: Response) =
             },
           },
         },
+        workflowStatuses: { orderBy: { position: 'asc' } },
+        links: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        attachments: { orderBy: { createdAt: 'asc' } },
       },
     });
 
@@ -558,11 +1473,26 @@ app.get('/api/projects', authenticate, async (req: AuthRequest, res: Response) =
             },
           },
         },
+        workflowStatuses: { orderBy: { position: 'asc' } },
+        links: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        attachments: { orderBy: { createdAt: 'asc' } },
       },
     });
 
-    // Combine and return all projects
-    const allProjects = [...ownedProjects, ...memberProjects];
+    // Combine all projects, without those that require 2FA the session has not passed
+    const restricted = await getTwoFactorRestrictedProjectIds(
+      [...ownedProjects, ...memberProjects].map((project) => project.id),
+      req.user!.sid
+    );
+    const allProjects = [...ownedProjects, ...memberProjects].filter((project) => !restricted.has(project.id));
+
+    // Projects created before workflows existed get theirs on first load
+    for (const project of allProjects) {
+      if (project.workflowStatuses.length === 0) {
+        project.workflowStatuses = await getProjectWorkflow(project.id);
+      }
+    }
+
     res.json(allProjects);
   } catch (error: any) {
     console.error('Get projects error:', error);
@@ -570,6 +1500,53 @@ app.get('/api/projects', authenticate, async (req: AuthRequest, res: Response) =
   }
 });
 
+/**
+ * GET /api/projects/archived
+ * Get archived projects the user owns or is a member of (most recently archived first)
+ */
+app.get('/api/projects/archived', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+
+    const projects = await prisma.project.findMany({
+      where: {
+        archived: true,
+        OR: [
+          { ownerId: userId },
+          { members: { some: { userId } } },
+        ],
+      },
+      include: {
+        owner: {
+          select: { id: true, name: true, email: true, avatarUrl: true },
+        },
+        archivedBy: {
+          select: { id: true, name: true, email: true, avatarUrl: true },
+        },
+        members: {
+          include: {
+            user: {
+              select: { id: true, name: true, email: true, avatarUrl: true },
+            },
+          },
+        },
+        workflowStatuses: { orderBy: { position: 'asc' } },
+        links: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        attachments: { orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { archivedAt: 'desc' },
+    });
+
+    // Projects that require 2FA are only listed for sessions that passed it
+    const restricted = await getTwoFactorRestrictedProjectIds(projects.map((project) => project.id), req.user!.sid);
+
+    res.json(projects.filter((project) => !restricted.has(project.id)));
+  } catch (error: any) {
+    console.error('Get archived projects error:', error);
+    res.status(500).json({ error: 'Failed to fetch archived projects' });
+  }
+});
+
 /**
  * GET /api/projects/:id
  * Get a specific project by ID
@@ -580,7 +1557,7 @@ app.get('/api/projects/:id', authenticate, async (req: AuthRequest, res: Respons
     const projectId = req.params.id;
 
     // Check if user has access to the project
-    const role = await getUserRoleInProject(userId, projectId);
+    const role = await getUserRoleInProject(userId, projectId, req.user!.sid);
     if (!role) {
       return res.status(403).json({ error: 'You do not have access to this project' });
     }
@@ -598,6 +1575,9 @@ app.get('/api/projects/:id', authenticate, async (req: AuthRequest, res: Respons
             },
           },
         },
+        workflowStatuses: { orderBy: { position: 'asc' } },
+        links: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        attachments: { orderBy: { createdAt: 'asc' } },
       },
     });
 
@@ -605,6 +1585,10 @@ app.get('/api/projects/:id', authenticate, async (req: AuthRequest, res: Respons
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    if (project.workflowStatuses.length === 0) {
+      project.workflowStatuses = await getProjectWorkflow(project.id);
+    }
+
     res.json(project);
   } catch (error: any) {
     console.error('Get project error:', error);
@@ -616,24 +1600,58 @@ app.get('/api/projects/:id', authenticate, async (req: AuthRequest, res: Respons
  * PATCH /api/projects/:id
  * Update a project (only Owner and Collaborator can edit)
  */
-app.patch('/api/projects/:id', authenticate, async (req: AuthRequest, res: Response) => {
+app.patch('/api/projects/:id', authenticate, validateBody(updateProjectSchema), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.sub;
     const projectId = req.params.id;
 
     // Check edit permission
-    const role = await getUserRoleInProject(userId, projectId);
+    const role = await getUserRoleInProject(userId, projectId, req.user!.sid);
     if (role !== 'owner' && role !== 'collaborator') {
       return res.status(403).json({ error: 'You do not have permission to edit this project' });
     }
 
-    const { name, description, color, archived } = req.body;
+    const { name, description, color, archived, dependencyMode, requireTwoFactor } = req.body as UpdateProjectRequest;
+
+    const existingProject = await prisma.project.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!existingProject) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Only owner can archive and restore
+    const archiveChanged = archived !== undefined && archived !== existingProject.archived;
+    if (archiveChanged && role !== 'owner') {
+      return res.status(403).json({ error: 'Only the project owner can archive or restore the project' });
+    }
+
+    // Only owner can require 2FA, and only from a session that passed it (so they keep access)
+    const twoFactorChanged = requireTwoFactor !== undefined && requireTwoFactor !== existingProject.requireTwoFactor;
+    if (twoFactorChanged && role !== 'owner') {
+      return res.status(403).json({ error: 'Only the project owner can change the two-factor requirement' });
+    }
+    if (twoFactorChanged && requireTwoFactor && !(await isSessionTwoFactorVerified(req.user!.sid))) {
+      return res.status(403).json({
+        error: 'Enable two-factor authentication and sign in with it before requiring it for the project',
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+    }
+
+    // An archived project is read-only: the only allowed change is restoring it
+    const otherChanges = [name, description, color, dependencyMode, requireTwoFactor].some((value) => value !== undefined);
+    if (existingProject.archived && (otherChanges || !archiveChanged)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
 
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
     if (description !== undefined) updateData.description = description;
     if (color !== undefined) updateData.color = color;
-    if (archived !== undefined && role === 'owner') updateData.archived = archived; // Only owner can archive
+    if (dependencyMode !== undefined) updateData.dependencyMode = dependencyMode;
+    if (twoFactorChanged) updateData.requireTwoFactor = requireTwoFactor;
+    if (archiveChanged) Object.assign(updateData, buildArchiveData(archived === true, userId));
 
     const updatedProject = await prisma.project.update({
       where: { id: projectId },
@@ -649,9 +1667,38 @@ app.patch('/api/projects/:id', authenticate, async (req: AuthRequest, res: Respo
             },
           },
         },
+        workflowStatuses: { orderBy: { position: 'asc' } },
+        links: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        attachments: { orderBy: { createdAt: 'asc' } },
       },
     });
 
+    if (archiveChanged) {
+      await logActivity({
+        action: updatedProject.archived ? 'project.archived' : 'project.restored',
+        entityType: 'project',
+        entityId: projectId,
+        actorId: userId,
+        projectId,
+        metadata: { name: updatedProject.name },
+      });
+    }
+
+    const projectChanges = diffFields(existingProject, updatedProject, PROJECT_TRACKED_FIELDS);
+    if (projectChanges) {
+      await logActivity({
+        action: 'project.updated',
+        entityType: 'project',
+        entityId: projectId,
+        actorId: userId,
+        projectId,
+        changes: projectChanges,
+        metadata: { name: updatedProject.name },
+      });
+    }
+
+    realtime.publishProjectEvent('project.updated', projectId, updatedProject, userId);
+
     res.json(updatedProject);
   } catch (error: any) {
     console.error('Update project error:', error);
@@ -669,15 +1716,36 @@ app.delete('/api/projects/:id', authenticate, async (req: AuthRequest, res: Resp
     const projectId = req.params.id;
 
     // Check delete permission
-    const role = await getUserRoleInProject(userId, projectId);
+    const role = await getUserRoleInProject(userId, projectId, req.user!.sid);
     if (role !== 'owner') {
       return res.status(403).json({ error: 'Only the project owner can delete the project' });
     }
 
+    // Collect the audience and attachment files before members and tasks are cascade deleted
+    const audience = await realtime.getProjectAudience(projectId);
+    const attachmentUrls = await getProjectFileUrls(projectId);
+
     // Delete project (members and tasks will be cascade deleted)
-    await prisma.project.delete({
+    const deletedProject = await prisma.project.delete({
       where: { id: projectId },
     });
+    await removeStoredFiles(attachmentUrls);
+
+    await logActivity({
+      action: 'project.deleted',
+      entityType: 'project',
+      entityId: projectId,
+      actorId: userId,
+      projectId,
+      metadata: { name: deletedProject.name },
+    });
+
+    realtime.publishToUsers(audience.map((m) => m.userId), {
+      type: 'project.deleted',
+      projectId,
+      actorId: userId,
+      payload: { id: projectId },
+    });
 
     res.json({ message: 'Project deleted successfully' });
   } catch (error: any) {
@@ -719,6 +1787,10 @@ app.get('/api/projects/:projectId/tasks', authenticate, canAccessProject, async
           select: { id: true, name: true, email: true, avatarUrl: true },
         },
         attachments: true,
+        recurrenceRule: true,
+        subtasks: { select: { id: true, status: true } },
+        checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
       },
       orderBy: [
         { status: 'asc' },
@@ -726,7 +1798,7 @@ app.get('/api/projects/:projectId/tasks', authenticate, canAccessProject, async
       ],
     });
 
-    res.json(tasks);
+    res.json(tasks.map(withRecurrenceFields));
   } catch (error: any) {
     console.error('Get project tasks error:', error);
     res.status(500).json({ error: 'Failed to fetch project tasks' });
@@ -758,11 +1830,67 @@ app.get('/api/projects/:projectId/members', authenticate, canAccessProject, asyn
   }
 });
 
+// ========== MEMBER MANAGEMENT ROUTES ==========
+// Mount member routes (handles /api/projects/:projectId/members/:memberId, /leave, /transfer-ownership)
+app.use('/api/projects', authenticate, memberRoutes);
+
 // ========== INVITATION ROUTES ==========
 // Mount invitation routes (handles /api/invitations/* and /api/projects/:projectId/invitations)
 app.use('/api/invitations', authenticate, invitationRoutes);
 app.use('/api/projects', authenticate, invitationRoutes);
 
+// ========== COMMENT ROUTES ==========
+// Mount comment routes (handles /api/tasks/:taskId/comments/*)
+app.use('/api/tasks', authenticate, commentRoutes);
+
+// ========== CHECKLIST ROUTES ==========
+// Mount checklist routes (handles /api/tasks/:taskId/checklist/*)
+app.use('/api/tasks', authenticate, checklistRoutes);
+
+// ========== DEPENDENCY ROUTES ==========
+// Mount dependency routes (handles /api/tasks/:taskId/dependencies/*)
+app.use('/api/tasks', authenticate, dependencyRoutes);
+
+// ========== ATTACHMENT ROUTES ==========
+// Mount attachment routes (handles /api/attachments/:attachmentId/*)
+app.use('/api/attachments', authenticate, attachmentRoutes);
+
+/**
+ * GET /api/projects/:projectId/storage
+ * Get attachment storage usage and quota of a project
+ */
+app.get('/api/projects/:projectId/storage', authenticate, canAccessProject, async (req: AuthRequest, res: Response) => {
+  try {
+    const usage = await getProjectStorageUsage(req.params.projectId);
+    res.json(usage);
+  } catch (error: any) {
+    console.error('Get project storage error:', error);
+    res.status(500).json({ error: 'Failed to get project storage usage' });
+  }
+});
+
+// ========== PROJECT LINK AND FILE ROUTES ==========
+// Mount project link routes (handles /api/projects/:projectId/links/*)
+app.use('/api/projects', authenticate, projectLinkRoutes);
+// Mount project file routes (handles /api/projects/:projectId/attachments/*)
+app.use('/api/projects', authenticate, projectAttachmentRoutes);
+
+// ========== WORKFLOW ROUTES ==========
+// Mount workflow routes (handles /api/projects/:projectId/workflow)
+app.use('/api/projects', authenticate, workflowRoutes);
+
+// ========== NOTIFICATION ROUTES ==========
+// Mount notification routes (handles /api/notifications/*)
+app.use('/api/notifications', authenticate, notificationRoutes);
+
+// ========== SAVED VIEW ROUTES ==========
+// Mount saved view routes (handles /api/saved-views/*)
+app.use('/api/saved-views', authenticate, savedViewRoutes);
+
+// ========== CATEGORY ROUTES ==========
+// Mount category routes (handles /api/categories/*)
+app.use('/api/categories', authenticate, categoryRoutes);
+
 // ========== FILE UPLOAD ENDPOINTS ==========
 
 /**
@@ -775,8 +1903,17 @@ app.post('/api/upload-avatar', authenticate, upload.single('avatar'), async (req
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
+    if (!req.file.mimetype.startsWith('image/')) {
+      return res.status(400).json({ error: 'Avatar must be an image' });
+    }
+
     const userId = req.user!.sub;
-    const avatarUrl = `/uploads/${req.file.filename}`;
+    const { url: avatarUrl } = await storeUpload('avatars', req.file);
+
+    const previous = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarUrl: true },
+    });
 
     // Update user avatar
     const user = await prisma.user.update({
@@ -784,6 +1921,10 @@ app.post('/api/upload-avatar', authenticate, upload.single('avatar'), async (req
       data: { avatarUrl },
     });
 
+    if (previous?.avatarUrl && previous.avatarUrl !== avatarUrl) {
+      await removeStoredFiles([previous.avatarUrl]);
+    }
+
     res.json({
       avatarUrl: user.avatarUrl,
       message: 'Avatar uploaded successfully',
@@ -817,19 +1958,27 @@ app.post('/api/upload-attachment', authenticate, upload.single('file'), async (r
     });
 
     if (!task) {
-      // Clean up uploaded file
-      fs.unlinkSync(req.file.path);
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    const canEdit = await canEditTaskFromDB(userId, taskId);
+    // Archived projects are read-only until the owner restores them
+    if (await isProjectArchived(task.projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
+    const canEdit = await canEditTaskFromDB(userId, taskId, req.user!.sid);
     if (!canEdit) {
-      // Clean up uploaded file
-      fs.unlinkSync(req.file.path);
       return res.status(403).json({ error: 'You do not have permission to add attachments to this task' });
     }
 
-    const fileUrl = `/uploads/${req.file.filename}`;
+    try {
+      await assertStorageAvailable(task.projectId, req.file.size);
+    } catch (quotaError: any) {
+      return res.status(413).json({ error: quotaError.message });
+    }
+
+    // Stored once per content; an identical file already in storage is reused
+    const { url: fileUrl } = await storeUpload('attachments', req.file);
 
     // Create attachment in database using Prisma
     const attachment = await prisma.attachment.create({
@@ -842,23 +1991,31 @@ app.post('/api/upload-attachment', authenticate, upload.single('file'), async (r
       },
     });
 
+    await logActivity({
+      action: 'attachment.added',
+      entityType: 'attachment',
+      entityId: attachment.id,
+      actorId: userId,
+      projectId: task.projectId,
+      taskId,
+      metadata: { name: attachment.name, size: attachment.size, title: task.title },
+    });
+
+    await realtime.publishTaskRefresh(taskId, userId);
+
     res.json({
       attachment,
       message: 'Attachment uploaded successfully',
     });
   } catch (error: any) {
     console.error('Upload attachment error:', error);
-    // Clean up file if it exists
-    if (req.file && fs.existsSync(req.file.path)) {
-      fs.unlinkSync(req.file.path);
-    }
     res.status(500).json({ error: 'Failed to upload attachment' });
   }
 });
 
 /**
  * POST /api/upload-project-attachment
- * Upload project attachment
+ * Upload a project file (only Owner and Collaborator)
  */
 app.post('/api/upload-project-attachment', authenticate, upload.single('file'), async (req: AuthRequest, res: Response) => {
   try {
@@ -867,21 +2024,50 @@ app.post('/api/upload-project-attachment', authenticate, upload.single('file'),
     }
 
     const { projectId } = req.body;
+    const userId = req.user!.sub;
+
     if (!projectId) {
       return res.status(400).json({ error: 'Project ID is required' });
     }
 
-    const fileUrl = `/uploads/${req.file.filename}`;
-    const attachmentId = `proj_attachment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Archived projects are read-only until the owner restores them
+    if (await isProjectArchived(projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
+    const canEdit = await canEditProjectFromDB(userId, projectId, req.user!.sid);
+    if (!canEdit) {
+      return res.status(403).json({ error: 'You do not have permission to add files to this project' });
+    }
+
+    try {
+      await assertStorageAvailable(projectId, req.file.size);
+    } catch (quotaError: any) {
+      return res.status(413).json({ error: quotaError.message });
+    }
+
+    const { url: fileUrl } = await storeUpload('project-attachments', req.file);
+
+    const attachment = await prisma.projectAttachment.create({
+      data: {
+        projectId,
+        name: req.file.originalname,
+        url: fileUrl,
+        size: req.file.size,
+        mimeType: req.file.mimetype,
+      },
+    });
+
+    await logActivity({
+      action: 'project.attachment_added',
+      entityType: 'attachment',
+      entityId: attachment.id,
+      actorId: userId,
+      projectId,
+      metadata: { name: attachment.name, size: attachment.size },
+    });
 
-    // Return attachment metadata
-    const attachment = {
-      id: attachmentId,
-      name: req.file.originalname,
-      size: `${(req.file.size / 1024 / 1024).toFixed(2)} MB`,
-      url: fileUrl,
-      uploadedAt: new Date().toISOString(),
-    };
+    realtime.publishProjectEvent('project.updated', projectId, { id: projectId }, userId);
 
     res.json({
       attachment,
@@ -897,7 +2083,7 @@ app.post('/api/upload-project-attachment', authenticate, upload.single('file'),
 
 /**
  * GET /api/users/:userId/custom_columns
- * Get custom status columns for a user
+ * Get custom status columns for a user (personal board; project boards use workflows)
  */
 app.get('/api/users/:userId/custom_columns', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -921,9 +2107,9 @@ app.get('/api/users/:userId/custom_columns', authenticate, async (req: AuthReque
 
 /**
  * POST /api/users/:userId/custom_columns
- * Save custom status columns for a user
+ * Save custom status columns for a user (personal board; project boards use workflows)
  */
-app.post('/api/users/:userId/custom_columns', authenticate, async (req: AuthRequest, res: Response) => {
+app.post('/api/users/:userId/custom_columns', authenticate, validateBody(customColumnsSchema), async (req: AuthRequest, res: Response) => {
   try {
     const { userId } = req.params;
     const { columns } = req.body;
@@ -944,55 +2130,6 @@ app.post('/api/users/:userId/custom_columns', authenticate, async (req: AuthRequ
   }
 });
 
-/**
- * GET /api/users/:userId/categories
- * Get task categories for a user
- */
-app.get('/api/users/:userId/categories', authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    const { userId } = req.params;
-    
-    // Ensure user is requesting their own data
-    if (req.user!.sub !== userId) {
-      return res.status(403).json({ error: 'Forbidden' });
-    }
-
-    // Use KV store for now (temporary until added to Prisma schema)
-    const kvStore = await import('./kv_store.js');
-    const categories = await kvStore.get(`categories:${userId}`) || [];
-    
-    res.json(categories);
-  } catch (error: any) {
-    console.error('Get categories error:', error);
-    res.status(500).json({ error: 'Failed to fetch categories' });
-  }
-});
-
-/**
- * POST /api/users/:userId/categories
- * Save task categories for a user
- */
-app.post('/api/users/:userId/categories', authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    const { userId } = req.params;
-    const { categories } = req.body;
-    
-    // Ensure user is updating their own data
-    if (req.user!.sub !== userId) {
-      return res.status(403).json({ error: 'Forbidden' });
-    }
-
-    // Use KV store for now (temporary until added to Prisma schema)
-    const kvStore = await import('./kv_store.js');
-    await kvStore.set(`categories:${userId}`, categories);
-    
-    res.json(categories);
-  } catch (error: any) {
-    console.error('Save categories error:', error);
-    res.status(500).json({ error: 'Failed to save categories' });
-  }
-});
-
 /**
  * GET /api/my/pending_invitations
  * Get pending invitations for the current user
@@ -1035,88 +2172,33 @@ app.get('/api/my/pending_invitations', authenticate, async (req: AuthRequest, re
 
 /**
  * GET /api/tasks
- * Get all tasks accessible to the user (personal + project tasks based on role)
+ * Tasks visible to the user (own tasks and tasks of their projects), filtered and sorted
+ * Query: status, priority, assignee (id | me | none), project (id | personal), category (id | none), tags
+ * (comma-separated lists), dueFrom, dueTo, q (title/description), sort (position | dueDate | createdAt |
+ * updatedAt | title), order (asc | desc), limit, cursor
+ * Without limit responds with all matching tasks, with limit - { tasks, total, nextCursor }
  */
-app.get('/api/tasks', authenticate, async (req: AuthRequest, res: Response) => {
+app.get('/api/tasks', authenticate, validateQuery(taskListQuerySchema), async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user!.sub;
-
-    // Get all tasks where user is creator or assignee
-    const personalTasks = await prisma.task.findMany({
-      where: {
-        OR: [
-          { creatorId: userId },
-          { assigneeId: userId },
-        ],
-      },
-      include: {
-        project: true,
-        creator: {
-          select: { id: true, name: true, email: true, avatarUrl: true },
-        },
-        assignee: {
-          select: { id: true, name: true, email: true, avatarUrl: true },
-        },
-        attachments: true,
-      },
-      orderBy: [
-        { status: 'asc' },
-        { orderKey: 'asc' },
-      ],
-    });
-
-    // Get project memberships
-    const projectMemberships = await prisma.projectMember.findMany({
-      where: { userId },
-      select: { projectId: true, role: true },
-    });
-
-    // Get tasks from projects where user is a member
-    const projectIds = projectMemberships.map((m) => m.projectId);
-    const projectTasks = await prisma.task.findMany({
-      where: {
-        projectId: { in: projectIds },
-      },
-      include: {
-        project: true,
-        creator: {
-          select: { id: true, name: true, email: true, avatarUrl: true },
-        },
-        assignee: {
-          select: { id: true, name: true, email: true, avatarUrl: true },
-        },
-        attachments: true,
-      },
-      orderBy: [
-        { status: 'asc' },
-        { orderKey: 'asc' },
-      ],
-    });
-
-    // Filter project tasks based on role (Member only sees their own)
-    const filteredProjectTasks = await Promise.all(
-      projectTasks.map(async (task) => {
-        if (task.projectId) {
-          const role = await getUserRoleInProject(userId, task.projectId);
-          if (role === 'member') {
-            // Member can only see tasks assigned to them or created by them
-            if (task.creatorId === userId || task.assigneeId === userId) {
-              return task;
-            }
-            return null;
-          }
-        }
-        return task;
-      })
-    );
+    const userId = req.user!.sub;
+    const query = req.query as TaskListOptions;
+
+    let result: Awaited<ReturnType<typeof listTasks>>;
+    try {
+      result = await listTasks(userId, req.user!.sid, query);
+    } catch (queryError: any) {
+      if (queryError.message === 'Invalid cursor') {
+        return res.status(400).json({ error: queryError.message });
+      }
+      throw queryError;
+    }
 
-    // Combine and deduplicate
-    const allTasks = [...personalTasks, ...filteredProjectTasks.filter(Boolean)];
-    const uniqueTasks = Array.from(
-      new Map(allTasks.map((task) => [task.id, task])).values()
-    );
+    const tasks = result.tasks.map(withRecurrenceFields);
+    if (query.limit === undefined) {
+      return res.json(tasks);
+    }
 
-    res.json(uniqueTasks);
+    res.json({ tasks, total: result.total, nextCursor: result.nextCursor });
   } catch (error: any) {
     console.error('Get tasks error:', error);
     res.status(500).json({ error: 'Failed to fetch tasks' });
@@ -1127,37 +2209,97 @@ app.get('/api/tasks', authenticate, async (req: AuthRequest, res: Response) => {
  * POST /api/tasks
  * Create a new task with permission validation
  */
-app.post('/api/tasks', authenticate, async (req: AuthRequest, res: Response) => {
+app.post('/api/tasks', authenticate, validateBody(createTaskSchema), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.sub;
-    const { title, description, status, priority, category, tags, dueDate, projectId, assigneeId, orderKey } = req.body;
+    const { title, description, status, priority, category, tags, dueDate, assigneeId, orderKey, parentTaskId, completeWithSubtasks } = req.body as CreateTaskRequest;
+    let { projectId } = req.body as CreateTaskRequest;
+
+    // Subtasks inherit the parent's project and its permissions
+    if (parentTaskId) {
+      const parentTask = await prisma.task.findUnique({
+        where: { id: parentTaskId },
+        select: { projectId: true },
+      });
+      if (!parentTask) {
+        return res.status(404).json({ error: 'Parent task not found' });
+      }
+      if (projectId && projectId !== parentTask.projectId) {
+        return res.status(400).json({ error: 'A subtask must belong to the same project as its parent' });
+      }
+      projectId = parentTask.projectId;
+    }
+
+    // Archived projects are read-only until the owner restores them
+    if (await isProjectArchived(projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
+    if (parentTaskId) {
+      const canCreateSubtask = await canCreateSubtaskFromDB(userId, parentTaskId, assigneeId || null, req.user!.sid);
+      if (!canCreateSubtask) {
+        return res.status(403).json({
+          error: 'You do not have permission to add subtasks to this task.'
+        });
+      }
+    }
 
-    if (!title) {
-      return res.status(400).json({ error: 'Title is required' });
+    let recurrence: RecurrenceInput | null | undefined;
+    try {
+      recurrence = parseRecurrenceInput(req.body);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
     }
 
     // Check permissions
-    const canCreate = await canCreateTaskFromDB(userId, projectId || null, assigneeId);
+    const canCreate = await canCreateTaskFromDB(userId, projectId || null, assigneeId, req.user!.sid);
     if (!canCreate) {
       return res.status(403).json({ 
         error: 'You do not have permission to create this task. Members can only create tasks assigned to themselves.' 
       });
     }
 
+    // Project categories only apply to the tasks of their project
+    if (category) {
+      try {
+        await assertTaskCategory(category, projectId || null);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
+
+    // Project tasks start in a status of the project workflow (first open status by default)
+    let taskStatus = status || 'todo';
+    if (projectId) {
+      taskStatus = status || (await getDefaultStatus(projectId));
+      try {
+        await validateStatusChange(projectId, null, taskStatus);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
+
+    // Recurring task: the first occurrence is due on the start date unless a due date is given
+    const recurrenceRule = recurrence ? await createRecurrenceRule(recurrence) : null;
+    const firstDueDate = dueDate ? new Date(dueDate) : recurrence ? recurrence.startDate : null;
+
     // Create task in database
     const task = await prisma.task.create({
       data: {
         title,
         description: description || null,
-        status: status || 'todo',
+        status: taskStatus,
         priority: priority || 'medium',
         category: category || null,
         tags: tags || [],
-        dueDate: dueDate ? new Date(dueDate) : null,
+        dueDate: firstDueDate,
         projectId: projectId || null,
         creatorId: userId,
         assigneeId: assigneeId || null,
         orderKey: orderKey || 'n',
+        recurrenceRuleId: recurrenceRule?.id || null,
+        parentTaskId: parentTaskId || null,
+        completeWithSubtasks: completeWithSubtasks === true,
       },
       include: {
         project: true,
@@ -1168,21 +2310,148 @@ app.post('/api/tasks', authenticate, async (req: AuthRequest, res: Response) =>
           select: { id: true, name: true, email: true, avatarUrl: true },
         },
         attachments: true,
+        recurrenceRule: true,
+        subtasks: { select: { id: true, status: true } },
+        checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
       },
     });
 
-    res.status(201).json(task);
+    await logActivity({
+      action: 'task.created',
+      entityType: 'task',
+      entityId: task.id,
+      actorId: userId,
+      projectId: task.projectId,
+      taskId: task.id,
+      metadata: { title: task.title, status: task.status, assigneeId: task.assigneeId, parentTaskId: task.parentTaskId },
+    });
+
+    notifyTaskAssigned(task, userId);
+
+    const serializedTask = withRecurrenceFields(task);
+    realtime.publishTaskEvent('task.created', task, userId, serializedTask);
+
+    // Parent progress changed
+    await syncParentTask(task.parentTaskId, userId);
+
+    res.status(201).json(serializedTask);
   } catch (error: any) {
     console.error('Create task error:', error);
     res.status(500).json({ error: 'Failed to create task' });
   }
 });
 
+/**
+ * Build a 409 response body for a stale task write
+ * Contains the current server copy and the fields that differ from the submitted ones
+ */
+async function buildTaskConflict(taskId: string, updateData: Record<string, any>) {
+  const currentTask = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      project: true,
+      creator: {
+        select: { id: true, name: true, email: true, avatarUrl: true },
+      },
+      assignee: {
+        select: { id: true, name: true, email: true, avatarUrl: true },
+      },
+      attachments: true,
+      recurrenceRule: true,
+      subtasks: { select: { id: true, status: true } },
+      checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+      blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
+    },
+  });
+
+  return {
+    error: 'Task was modified by another user',
+    code: 'VERSION_CONFLICT',
+    currentTask: currentTask ? withRecurrenceFields(currentTask) : null,
+    diff: currentTask ? diffTaskFields(currentTask, updateData) : [],
+  };
+}
+
+/**
+ * Generate, log and publish the next occurrence of a completed recurring task
+ */
+async function createNextOccurrence(task: Task, userId: string) {
+  const nextOccurrence = await spawnNextOccurrence(task);
+  if (!nextOccurrence) {
+    return;
+  }
+
+  const fullNextOccurrence = await prisma.task.findUnique({
+    where: { id: nextOccurrence.id },
+    include: {
+      project: true,
+      creator: {
+        select: { id: true, name: true, email: true, avatarUrl: true },
+      },
+      assignee: {
+        select: { id: true, name: true, email: true, avatarUrl: true },
+      },
+      attachments: true,
+      recurrenceRule: true,
+      subtasks: { select: { id: true, status: true } },
+      checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+      blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
+    },
+  });
+  if (fullNextOccurrence) {
+    await logActivity({
+      action: 'task.created',
+      entityType: 'task',
+      entityId: fullNextOccurrence.id,
+      actorId: userId,
+      projectId: fullNextOccurrence.projectId,
+      taskId: fullNextOccurrence.id,
+      metadata: { title: fullNextOccurrence.title, recurringFromTaskId: task.id },
+    });
+    realtime.publishTaskEvent('task.created', fullNextOccurrence, userId, withRecurrenceFields(fullNextOccurrence));
+  }
+}
+
+/**
+ * Refresh a parent task after its subtasks changed
+ * Completes the parent when auto-completion is on and every subtask is done
+ * (walking further up the tree), then publishes the new progress
+ */
+async function syncParentTask(parentTaskId: string | null, userId: string): Promise<void> {
+  if (!parentTaskId) {
+    return;
+  }
+
+  const previous = await completeParentIfFinished(parentTaskId);
+  const parentTask = await realtime.publishTaskRefresh(parentTaskId, userId);
+
+  if (parentTask && previous) {
+    await logTaskUpdate(previous, parentTask, userId, { reason: 'subtasks_completed' });
+    if (parentTask.recurrenceRuleId) {
+      await createNextOccurrence(parentTask, userId);
+    }
+    await syncParentTask(parentTask.parentTaskId, userId);
+  }
+}
+
+/**
+ * Re-publish tasks blocked by a task whose completion state changed
+ */
+async function publishBlockedTasks(taskId: string, userId: string): Promise<void> {
+  const blockedTaskIds = await getBlockedTaskIds(taskId);
+  for (const blockedTaskId of blockedTaskIds) {
+    await realtime.publishTaskRefresh(blockedTaskId, userId);
+  }
+}
+
 /**
  * PATCH /api/tasks/:id
  * Update a task with permission validation
+ * Optimistic concurrency: if `version` is sent it must match the stored version,
+ * otherwise 409 is returned with the current task and a field-level diff
  */
-app.patch('/api/tasks/:id', authenticate, async (req: AuthRequest, res: Response) => {
+app.patch('/api/tasks/:id', authenticate, validateBody(updateTaskSchema), async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.sub;
     const taskId = req.params.id;
@@ -1196,8 +2465,13 @@ app.patch('/api/tasks/:id', authenticate, async (req: AuthRequest, res: Response
       return res.status(404).json({ error: 'Task not found' });
     }
 
+    // Archived projects are read-only until the owner restores them
+    if (await isProjectArchived(existingTask.projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
     // Check edit permission
-    const canEdit = await canEditTaskFromDB(userId, taskId);
+    const canEdit = await canEditTaskFromDB(userId, taskId, req.user!.sid);
     if (!canEdit) {
       return res.status(403).json({ 
         error: 'You do not have permission to edit this task.' 
@@ -1205,23 +2479,110 @@ app.patch('/api/tasks/:id', authenticate, async (req: AuthRequest, res: Response
     }
 
     // Update task
-    const { title, description, status, priority, category, tags, dueDate, assigneeId, orderKey, version } = req.body;
+    const { title, description, status, priority, category, tags, dueDate, assigneeId, orderKey, version, parentTaskId, completeWithSubtasks, ignoreBlockers } = req.body as UpdateTaskRequest;
     
     const updateData: any = {};
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
     if (status !== undefined) updateData.status = status;
     if (priority !== undefined) updateData.priority = priority;
-    if (category !== undefined) updateData.category = category;
+    if (category !== undefined) updateData.category = category || null;
     if (tags !== undefined) updateData.tags = tags;
     if (dueDate !== undefined) updateData.dueDate = dueDate ? new Date(dueDate) : null;
     if (assigneeId !== undefined) updateData.assigneeId = assigneeId;
     if (orderKey !== undefined) updateData.orderKey = orderKey;
-    if (version !== undefined) updateData.version = version;
+    if (completeWithSubtasks !== undefined) updateData.completeWithSubtasks = completeWithSubtasks;
+
+    // Project categories only apply to the tasks of their project
+    if (category && category !== existingTask.category) {
+      try {
+        await assertTaskCategory(category, existingTask.projectId);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
 
-    const updatedTask = await prisma.task.update({
+    // Moving a task under another parent (null detaches it)
+    if (parentTaskId !== undefined && parentTaskId !== existingTask.parentTaskId) {
+      if (parentTaskId) {
+        try {
+          await validateSubtaskParent(taskId, existingTask.projectId, parentTaskId);
+        } catch (validationError: any) {
+          return res.status(validationError.message.includes('not found') ? 404 : 400).json({
+            error: validationError.message,
+          });
+        }
+        const canEditParent = await canEditTaskFromDB(userId, parentTaskId, req.user!.sid);
+        if (!canEditParent) {
+          return res.status(403).json({
+            error: 'You do not have permission to add subtasks to this task.'
+          });
+        }
+      }
+      updateData.parentTaskId = parentTaskId || null;
+    }
+
+    // Reject stale writes (client edited an older version of the task)
+    if (version !== undefined && version !== existingTask.version) {
+      return res.status(409).json(await buildTaskConflict(taskId, updateData));
+    }
+
+    // Project tasks: the status must exist in the workflow, the transition must be allowed
+    // and the target status must be below its WIP limit
+    if (status !== undefined && status !== existingTask.status && existingTask.projectId) {
+      try {
+        await validateStatusChange(existingTask.projectId, existingTask.status, status, taskId);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
+
+    // Completion is defined by the "done" category of the workflow, not by a fixed status
+    const wasDone = await isDoneStatus(existingTask.projectId, existingTask.status);
+    const isDone = status !== undefined ? await isDoneStatus(existingTask.projectId, status) : wasDone;
+
+    // Completing a task with open blockers: hard stop or a warning the client may override
+    if (isDone && !wasDone) {
+      const blockers = await getOpenBlockers(taskId, userId, req.user!.sid);
+      if (blockers.length > 0) {
+        const dependencyMode = await getDependencyMode(existingTask.projectId);
+        if (dependencyMode === 'block' || ignoreBlockers !== true) {
+          return res.status(422).json({
+            error: 'Task is blocked by unfinished tasks',
+            code: 'TASK_BLOCKED',
+            dependencyMode,
+            canOverride: dependencyMode === 'warn',
+            blockers,
+          });
+        }
+      }
+    }
+
+    // Recurrence changes and "edit this / all future" scope for recurring tasks
+    const recurrenceScope: RecurrenceScope = req.body.recurrenceScope || 'this';
+    let recurrence: RecurrenceInput | null | undefined;
+    try {
+      recurrence = parseRecurrenceInput(req.body);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    // Compare-and-set on version so concurrent writes between the check above and here also conflict
+    const { count } = await prisma.task.updateMany({
+      where: { id: taskId, version: existingTask.version },
+      data: { ...updateData, version: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      return res.status(409).json(await buildTaskConflict(taskId, updateData));
+    }
+
+    if (recurrence !== undefined) {
+      await applyRecurrenceChange(existingTask, recurrence, recurrenceScope, userId, req.user!.sid);
+    }
+
+    const updatedTask = await prisma.task.findUniqueOrThrow({
       where: { id: taskId },
-      data: updateData,
       include: {
         project: true,
         creator: {
@@ -1231,10 +2592,100 @@ app.patch('/api/tasks/:id', authenticate, async (req: AuthRequest, res: Response
           select: { id: true, name: true, email: true, avatarUrl: true },
         },
         attachments: true,
+        recurrenceRule: true,
+        subtasks: { select: { id: true, status: true } },
+        checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
       },
     });
 
-    res.json(updatedTask);
+    await logTaskUpdate(existingTask, updatedTask, userId);
+
+    if (updatedTask.assigneeId !== existingTask.assigneeId) {
+      notifyTaskAssigned(updatedTask, userId);
+    }
+
+    const serializedTask = withRecurrenceFields(updatedTask);
+
+    // Pure position changes (drag and drop) are published as reorder events
+    const isReorder = orderKey !== undefined &&
+      Object.keys(updateData).every((key) => ['orderKey', 'status'].includes(key));
+    realtime.publishTaskEvent(isReorder ? 'task.reordered' : 'task.updated', updatedTask, userId, serializedTask, existingTask);
+
+    // "All future" edits are copied to the remaining open occurrences of the series the user may edit
+    if (recurrenceScope === 'future' && existingTask.recurrenceRuleId) {
+      const previousOccurrences = await applyToFutureOccurrences(existingTask, updateData, userId, req.user!.sid);
+      if (previousOccurrences.length > 0) {
+        const affectedTasks = await prisma.task.findMany({
+          where: { id: { in: previousOccurrences.map((t) => t.id) } },
+          include: {
+            project: true,
+            creator: {
+              select: { id: true, name: true, email: true, avatarUrl: true },
+            },
+            assignee: {
+              select: { id: true, name: true, email: true, avatarUrl: true },
+            },
+            attachments: true,
+            recurrenceRule: true,
+            subtasks: { select: { id: true, status: true } },
+            checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+            blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
+          },
+        });
+        for (const affectedTask of affectedTasks) {
+          await logActivity({
+            action: 'task.updated',
+            entityType: 'task',
+            entityId: affectedTask.id,
+            actorId: userId,
+            projectId: affectedTask.projectId,
+            taskId: affectedTask.id,
+            metadata: {
+              title: affectedTask.title,
+              recurrenceScope: 'future',
+              sourceTaskId: existingTask.id,
+              fields: Object.keys(updateData),
+            },
+          });
+          realtime.publishTaskEvent(
+            'task.updated',
+            affectedTask,
+            userId,
+            withRecurrenceFields(affectedTask),
+            previousOccurrences.find((t) => t.id === affectedTask.id)
+          );
+        }
+      }
+    }
+
+    // Completing a recurring task generates its next occurrence
+    if (isDone && !wasDone && updatedTask.recurrenceRuleId) {
+      await createNextOccurrence(updatedTask, userId);
+    }
+
+    // Subtask moved or its status changed: update progress (and maybe auto-complete) of the parents
+    if (updatedTask.parentTaskId !== existingTask.parentTaskId) {
+      await syncParentTask(existingTask.parentTaskId, userId);
+    }
+    if (
+      updatedTask.parentTaskId !== existingTask.parentTaskId ||
+      updatedTask.status !== existingTask.status
+    ) {
+      await syncParentTask(updatedTask.parentTaskId, userId);
+    }
+
+    // Auto-completion switched on for a task whose subtasks are already done
+    if (updatedTask.completeWithSubtasks && !existingTask.completeWithSubtasks) {
+      await syncParentTask(updatedTask.id, userId);
+    }
+
+    // Tasks blocked by this one show a different badge once it is done (or reopened)
+    if (isDone !== wasDone) {
+      await publishBlockedTasks(updatedTask.id, userId);
+    }
+
+    res.json(serializedTask);
   } catch (error: any) {
     console.error('Update task error:', error);
     res.status(500).json({ error: 'Failed to update task' });
@@ -1259,40 +2710,384 @@ app.delete('/api/tasks/:id', authenticate, async (req: AuthRequest, res: Respons
       return res.status(404).json({ error: 'Task not found' });
     }
 
+    // Archived projects are read-only until the owner restores them
+    if (await isProjectArchived(existingTask.projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
     // Check delete permission
-    const canDelete = await canDeleteTaskFromDB(userId, taskId);
+    const canDelete = await canDeleteTaskFromDB(userId, taskId, req.user!.sid);
     if (!canDelete) {
       return res.status(403).json({ 
         error: 'You do not have permission to delete this task. Only Owner and Collaborator can delete tasks.' 
       });
     }
 
-    // Delete task (attachments will be cascade deleted)
+    // Recurring task: ?scope=future also deletes later open occurrences the user may delete
+    // and stops the series; their subtasks and dependency links go with them, as for a single task
+    if (req.query.scope === 'future' && existingTask.recurrenceRuleId) {
+      const occurrences = [existingTask, ...(await getFutureOccurrences(existingTask, userId, req.user!.sid, 'delete'))];
+      const deletedIds = occurrences.map((t) => t.id);
+
+      const subtasksByOccurrence = new Map<string, Task[]>();
+      const blockedTaskIds = new Set<string>();
+      for (const occurrence of occurrences) {
+        const subtaskIds = (await getSubtaskTreeIds(occurrence.id)).filter((id) => !deletedIds.includes(id));
+        subtasksByOccurrence.set(
+          occurrence.id,
+          subtaskIds.length > 0 ? await prisma.task.findMany({ where: { id: { in: subtaskIds } } }) : []
+        );
+        deletedIds.push(...subtaskIds);
+      }
+      for (const deletedId of deletedIds) {
+        (await getBlockedTaskIds(deletedId)).forEach((blockedTaskId) => blockedTaskIds.add(blockedTaskId));
+      }
+
+      const attachmentUrls = await getAttachmentUrls({ taskId: { in: deletedIds } });
+      await deleteFutureOccurrences(existingTask, occurrences.map((t) => t.id));
+      await removeStoredFiles(attachmentUrls);
+
+      for (const deletedTask of occurrences) {
+        await logActivity({
+          action: 'task.deleted',
+          entityType: 'task',
+          entityId: deletedTask.id,
+          actorId: userId,
+          projectId: deletedTask.projectId,
+          taskId: deletedTask.id,
+          metadata: { title: deletedTask.title, recurrenceScope: 'future' },
+        });
+        realtime.publishTaskEvent('task.deleted', deletedTask, userId, {
+          id: deletedTask.id,
+          projectId: deletedTask.projectId,
+        });
+
+        for (const subtask of subtasksByOccurrence.get(deletedTask.id) || []) {
+          await logActivity({
+            action: 'task.deleted',
+            entityType: 'task',
+            entityId: subtask.id,
+            actorId: userId,
+            projectId: subtask.projectId,
+            taskId: subtask.id,
+            metadata: { title: subtask.title, status: subtask.status, parentDeletedTaskId: deletedTask.id },
+          });
+          realtime.publishTaskEvent('task.deleted', subtask, userId, {
+            id: subtask.id,
+            projectId: subtask.projectId,
+          });
+        }
+      }
+
+      // Removing the last open subtasks may complete the parents
+      const parentIds = new Set(
+        occurrences.map((t) => t.parentTaskId).filter((id): id is string => !!id && !deletedIds.includes(id))
+      );
+      for (const parentId of parentIds) {
+        await syncParentTask(parentId, userId);
+      }
+      for (const blockedTaskId of blockedTaskIds) {
+        if (!deletedIds.includes(blockedTaskId)) {
+          await realtime.publishTaskRefresh(blockedTaskId, userId);
+        }
+      }
+
+      return res.json({ message: 'Task series deleted successfully', deletedIds });
+    }
+
+    // Subtasks are cascade deleted with the task, remember them for the timeline and clients
+    const subtaskIds = await getSubtaskTreeIds(taskId);
+    const subtasks = subtaskIds.length > 0
+      ? await prisma.task.findMany({ where: { id: { in: subtaskIds } } })
+      : [];
+    // Links are cascade deleted too, the tasks this one blocked lose a blocker
+    const blockedTaskIds = await getBlockedTaskIds(taskId);
+
+    const attachmentUrls = await getAttachmentUrls({ taskId: { in: [taskId, ...subtaskIds] } });
+
+    // Delete task (attachments, checklist items and subtasks will be cascade deleted)
     await prisma.task.delete({
       where: { id: taskId },
     });
+    // Files of cascade deleted attachments
+    await removeStoredFiles(attachmentUrls);
+
+    await logActivity({
+      action: 'task.deleted',
+      entityType: 'task',
+      entityId: taskId,
+      actorId: userId,
+      projectId: existingTask.projectId,
+      taskId,
+      metadata: { title: existingTask.title, status: existingTask.status },
+    });
+
+    realtime.publishTaskEvent('task.deleted', existingTask, userId, {
+      id: existingTask.id,
+      projectId: existingTask.projectId,
+    });
+
+    for (const subtask of subtasks) {
+      await logActivity({
+        action: 'task.deleted',
+        entityType: 'task',
+        entityId: subtask.id,
+        actorId: userId,
+        projectId: subtask.projectId,
+        taskId: subtask.id,
+        metadata: { title: subtask.title, status: subtask.status, parentDeletedTaskId: taskId },
+      });
+      realtime.publishTaskEvent('task.deleted', subtask, userId, {
+        id: subtask.id,
+        projectId: subtask.projectId,
+      });
+    }
 
-    res.json({ message: 'Task deleted successfully' });
+    // Removing the last open subtask may complete the parent
+    await syncParentTask(existingTask.parentTaskId, userId);
+
+    for (const blockedTaskId of blockedTaskIds.filter((id) => !subtaskIds.includes(id))) {
+      await realtime.publishTaskRefresh(blockedTaskId, userId);
+    }
+
+    res.json({ message: 'Task deleted successfully', deletedSubtaskIds: subtaskIds });
   } catch (error: any) {
     console.error('Delete task error:', error);
     res.status(500).json({ error: 'Failed to delete task' });
   }
 });
 
+/**
+ * POST /api/tasks/bulk
+ * Update or delete many tasks at once (multi-select in the task tables)
+ * Each task is checked like a single edit or delete; the ones that pass are written in one
+ * transaction, the rest are returned in `failed` with the reason
+ * Body: { action: 'update', tasks: [{ id, version?, status?, priority?, assigneeId?, category?, dueDate?, tags?, addTags?, removeTags?, projectId? }] }
+ *     | { action: 'delete', taskIds }
+ * Response: { updated, previous, deletedIds, failed }, where `previous` is an update batch that undoes this one
+ */
+app.post('/api/tasks/bulk', authenticate, validateBody(bulkTaskSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const body = req.body as BulkTaskRequest;
+
+    if (body.action === 'delete') {
+      const { tasks: deletedTasks, subtasks, failed } = await planBulkDelete(userId, req.user!.sid, body.taskIds);
+      const deletedIds = [...deletedTasks, ...subtasks].map((task) => task.id);
+
+      // Links are cascade deleted too, the tasks these ones blocked lose a blocker
+      const blockedTaskIds = new Set<string>();
+      for (const taskId of deletedIds) {
+        (await getBlockedTaskIds(taskId)).forEach((blockedTaskId) => blockedTaskIds.add(blockedTaskId));
+      }
+      const attachmentUrls = deletedIds.length > 0 ? await getAttachmentUrls({ taskId: { in: deletedIds } }) : [];
+
+      await applyBulkDelete(deletedTasks.map((task) => task.id));
+      await removeStoredFiles(attachmentUrls);
+
+      for (const task of [...deletedTasks, ...subtasks]) {
+        await logActivity({
+          action: 'task.deleted',
+          entityType: 'task',
+          entityId: task.id,
+          actorId: userId,
+          projectId: task.projectId,
+          taskId: task.id,
+          metadata: { title: task.title, status: task.status, bulk: true },
+        });
+        realtime.publishTaskEvent('task.deleted', task, userId, {
+          id: task.id,
+          projectId: task.projectId,
+        });
+      }
+
+      // Removing the last open subtasks may complete the parents
+      const parentIds = new Set(deletedTasks.map((task) => task.parentTaskId).filter((id): id is string => !!id));
+      for (const parentId of parentIds) {
+        await syncParentTask(parentId, userId);
+      }
+      for (const blockedTaskId of blockedTaskIds) {
+        if (!deletedIds.includes(blockedTaskId)) {
+          await realtime.publishTaskRefresh(blockedTaskId, userId);
+        }
+      }
+
+      return res.json({ updated: [], previous: [], deletedIds, failed });
+    }
+
+    const { planned, failed } = await planBulkUpdate(userId, req.user!.sid, body.tasks);
+    const { appliedIds, conflictIds } = await applyBulkUpdate(planned);
+    conflictIds.forEach((id) => failed.push({ id, error: TASK_CONFLICT_ERROR, code: 'VERSION_CONFLICT' }));
+
+    const updatedTasks = await prisma.task.findMany({
+      where: { id: { in: appliedIds } },
+      include: {
+        project: true,
+        creator: {
+          select: { id: true, name: true, email: true, avatarUrl: true },
+        },
+        assignee: {
+          select: { id: true, name: true, email: true, avatarUrl: true },
+        },
+        attachments: true,
+        recurrenceRule: true,
+        subtasks: { select: { id: true, status: true } },
+        checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+        blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
+      },
+    });
+    const plansById = new Map(planned.map((plan) => [plan.task.id, plan]));
+
+    const parentIds = new Set<string>();
+    for (const updatedTask of updatedTasks) {
+      const existingTask = plansById.get(updatedTask.id)!.task;
+
+      await logTaskUpdate(existingTask, updatedTask, userId, { bulk: true });
+
+      if (updatedTask.assigneeId !== existingTask.assigneeId) {
+        notifyTaskAssigned(updatedTask, userId);
+      }
+
+      // Users who lost access (moved to another project, reassigned) get a task.deleted event
+      await realtime.publishTaskEvent('task.updated', updatedTask, userId, withRecurrenceFields(updatedTask), existingTask);
+
+      const wasDone = await isDoneStatus(existingTask.projectId, existingTask.status);
+      const isDone = await isDoneStatus(updatedTask.projectId, updatedTask.status);
+      if (isDone && !wasDone && updatedTask.recurrenceRuleId) {
+        await createNextOccurrence(updatedTask, userId);
+      }
+      if (isDone !== wasDone) {
+        await publishBlockedTasks(updatedTask.id, userId);
+      }
+      if (updatedTask.parentTaskId && updatedTask.status !== existingTask.status) {
+        parentIds.add(updatedTask.parentTaskId);
+      }
+    }
+
+    // Subtask statuses changed: update progress (and maybe auto-complete) of the parents
+    for (const parentId of parentIds) {
+      await syncParentTask(parentId, userId);
+    }
+
+    res.json({
+      updated: updatedTasks.map(withRecurrenceFields),
+      previous: appliedIds.map((id) => plansById.get(id)!.previous),
+      deletedIds: [],
+      failed,
+    });
+  } catch (error: any) {
+    console.error('Bulk task operation error:', error);
+    res.status(500).json({ error: 'Failed to update tasks' });
+  }
+});
+
+// ========== SEARCH ==========
+
+/**
+ * GET /api/search
+ * Full-text search over the tasks (title, tags, description, attachment names, comments,
+ * project name) and projects visible to the user
+ * Query: q, limit (per result type)
+ */
+app.get('/api/search', authenticate, validateQuery(searchQuerySchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const { q = '', limit } = req.query as { q?: string; limit?: number };
+
+    const results = await search(userId, req.user!.sid, q, limit);
+
+    res.json(results);
+  } catch (error: any) {
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Failed to search' });
+  }
+});
+
+// ========== ACTIVITY LOG ==========
+
+/**
+ * GET /api/tasks/:id/activity
+ * Get the change history of a task (newest first)
+ * Query: limit (default 50), before (ISO date, for loading older entries)
+ */
+app.get('/api/tasks/:id/activity', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const taskId = req.params.id;
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+    });
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const canView = await canViewTaskFromDB(userId, taskId, req.user!.sid);
+    if (!canView) {
+      return res.status(403).json({ error: 'You do not have permission to view this task' });
+    }
+
+    const activity = await getTaskActivity(taskId, {
+      limit: req.query.limit,
+      before: req.query.before,
+    });
+
+    res.json({ activity });
+  } catch (error: any) {
+    console.error('Get task activity error:', error);
+    res.status(500).json({ error: 'Failed to fetch task activity' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/activity
+ * Get the change history of a project and its tasks (newest first)
+ * Members only see events of their own tasks
+ */
+app.get('/api/projects/:projectId/activity', authenticate, canAccessProject, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const { projectId } = req.params;
+    const role = req.user!.roleInProject!;
+
+    let visibleTaskIds: string[] | undefined;
+    if (role === 'member') {
+      const ownTasks = await prisma.task.findMany({
+        where: {
+          projectId,
+          OR: [{ creatorId: userId }, { assigneeId: userId }],
+        },
+        select: { id: true },
+      });
+      visibleTaskIds = ownTasks.map((t) => t.id);
+    }
+
+    const activity = await getProjectActivity(projectId, {
+      limit: req.query.limit,
+      before: req.query.before,
+      visibleTaskIds,
+    });
+
+    res.json({ activity });
+  } catch (error: any) {
+    console.error('Get project activity error:', error);
+    res.status(500).json({ error: 'Failed to fetch project activity' });
+  }
+});
+
 // ========== PROJECT INVITATION EMAIL ==========
 
 /**
  * POST /api/invitations/send-email
  * Send project invitation email
  */
-app.post('/api/invitations/send-email', authenticate, async (req: AuthRequest, res: Response) => {
+app.post('/api/invitations/send-email', authenticate, validateBody(invitationEmailSchema), rateLimit('invitation_send_user', byUser), rateLimit('invitation_recipient', byBodyEmail), async (req: AuthRequest, res: Response) => {
   try {
     const { invitationId, email, projectName, role, expiresAt } = req.body;
     
-    if (!invitationId || !email || !projectName || !role || !expiresAt) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
-    
+    await assertEmailVerified(req.user!.sub, 'send_invitations');
+
     const inviterName = req.user?.name || 'Пользователь';
     
     // Send email
@@ -1314,6 +3109,9 @@ app.post('/api/invitations/send-email', authenticate, async (req: AuthRequest, r
       emailSent: sent 
     });
   } catch (error: any) {
+    if (error.message === EMAIL_VERIFICATION_REQUIRED_ERROR) {
+      return res.status(403).json({ error: error.message });
+    }
     console.error('Send invitation email error:', error);
     res.status(500).json({ error: 'Failed to send invitation email' });
   }
@@ -1324,7 +3122,7 @@ app.post('/api/invitations/send-email', authenticate, async (req: AuthRequest, r
  * Get invitation details by token (for invite page) - REFACTORED TO USE PRISMA
  * Note: This endpoint is public (no authentication) since users need to view invitations before logging in
  */
-app.get('/api/invitations/:token', async (req: Request, res: Response) => {
+app.get('/api/invitations/:token', rateLimit('invitation_lookup_ip'), async (req: Request, res: Response) => {
   try {
     const { token } = req.params;
     
@@ -1378,15 +3176,11 @@ app.get('/api/invitations/:token', async (req: Request, res: Response) => {
  * POST /api/tasks/validate-permission
  * Validate if user has permission to perform action on task - REFACTORED TO USE PRISMA
  */
-app.post('/api/tasks/validate-permission', authenticate, async (req: AuthRequest, res: Response) => {
+app.post('/api/tasks/validate-permission', authenticate, validateBody(taskPermissionSchema), async (req: AuthRequest, res: Response) => {
   try {
     const { taskId, action } = req.body; // action: 'view', 'edit', 'delete'
     const userId = req.user!.sub;
     
-    if (!taskId || !action) {
-      return res.status(400).json({ error: 'Task ID and action are required' });
-    }
-    
     // Get task from database
     const task = await prisma.task.findUnique({
       where: { id: taskId },
@@ -1410,13 +3204,13 @@ app.post('/api/tasks/validate-permission', authenticate, async (req: AuthRequest
     
     switch (action) {
       case 'view':
-        hasPermission = await canViewTaskFromDB(userId, taskId);
+        hasPermission = await canViewTaskFromDB(userId, taskId, req.user!.sid);
         break;
       case 'edit':
-        hasPermission = await canEditTaskFromDB(userId, taskId);
+        hasPermission = await canEditTaskFromDB(userId, taskId, req.user!.sid);
         break;
       case 'delete':
-        hasPermission = await canDeleteTaskFromDB(userId, taskId);
+        hasPermission = await canDeleteTaskFromDB(userId, taskId, req.user!.sid);
         break;
       default:
         return res.status(400).json({ error: 'Invalid action' });
@@ -1438,15 +3232,11 @@ app.post('/api/tasks/validate-permission', authenticate, async (req: AuthRequest
  * POST /api/tasks/check-permissions
  * Batch check permissions for multiple tasks - REFACTORED TO USE PRISMA
  */
-app.post('/api/tasks/check-permissions', authenticate, async (req: AuthRequest, res: Response) => {
+app.post('/api/tasks/check-permissions', authenticate, validateBody(taskPermissionsSchema), async (req: AuthRequest, res: Response) => {
   try {
     const { taskIds, action } = req.body;
     const userId = req.user!.sub;
     
-    if (!taskIds || !Array.isArray(taskIds) || !action) {
-      return res.status(400).json({ error: 'Task IDs array and action are required' });
-    }
-    
     const results: Record<string, boolean> = {};
     
     // Get all tasks from database
@@ -1469,13 +3259,13 @@ app.post('/api/tasks/check-permissions', authenticate, async (req: AuthRequest,
       
       switch (action) {
         case 'view':
-          hasPermission = await canViewTaskFromDB(userId, taskId);
+          hasPermission = await canViewTaskFromDB(userId, taskId, req.user!.sid);
           break;
         case 'edit':
-          hasPermission = await canEditTaskFromDB(userId, taskId);
+          hasPermission = await canEditTaskFromDB(userId, taskId, req.user!.sid);
           break;
         case 'delete':
-          hasPermission = await canDeleteTaskFromDB(userId, taskId);
+          hasPermission = await canDeleteTaskFromDB(userId, taskId, req.user!.sid);
           break;
       }
       
@@ -1521,9 +3311,68 @@ function isMainModule(): boolean {
 if (isMainModule()) {
   const server = app.listen(PORT, () => {
     console.log(`🚀 Server running on http://localhost:${PORT}`);
-    console.log(`📁 Serving uploads from: ${uploadsDir}`);
+    console.log(`📁 Storing uploads in: ${getStorage().name === 'local' ? uploadsDir : 'S3 bucket ' + process.env.S3_BUCKET}`);
+    console.log(`📡 Realtime events available at /api/realtime/events`);
   });
 
+  // Due-soon and overdue reminders
+  const runDeadlineReminders = () => {
+    sendDeadlineReminders()
+      .then((sent) => {
+        if (sent > 0) console.log(`⏰ Sent ${sent} deadline reminder(s)`);
+      })
+      .catch((error) => console.error('Deadline reminders error:', error));
+  };
+  runDeadlineReminders();
+  const deadlineReminderTimer = setInterval(runDeadlineReminders, DEADLINE_REMINDER_INTERVAL);
+
+  // Files left behind by cascade deletes and replaced avatars
+  const runOrphanedFilesCleanup = () => {
+    collectOrphanedFiles()
+      .then((removed) => {
+        if (removed > 0) console.log(`🧹 Removed ${removed} orphaned upload(s)`);
+      })
+      .catch((error) => console.error('Orphaned files cleanup error:', error));
+  };
+  runOrphanedFilesCleanup();
+  const orphanedFilesTimer = setInterval(runOrphanedFilesCleanup, ORPHANED_FILES_INTERVAL);
+
+  // Projects without activity for PROJECT_AUTO_ARCHIVE_DAYS days (disabled when unset)
+  const runAutoArchive = () => {
+    autoArchiveInactiveProjects()
+      .then(async (projects) => {
+        for (const project of projects) {
+          await logActivity({
+            action: 'project.archived',
+            entityType: 'project',
+            entityId: project.id,
+            actorId: null,
+            projectId: project.id,
+            metadata: { name: project.name, automatic: true, inactiveDays: PROJECT_AUTO_ARCHIVE_DAYS },
+          });
+          realtime.publishProjectEvent('project.updated', project.id, { id: project.id, archived: true });
+        }
+        if (projects.length > 0) console.log(`📦 Archived ${projects.length} inactive project(s)`);
+      })
+      .catch((error) => console.error('Auto-archive error:', error));
+  };
+  let autoArchiveTimer: NodeJS.Timeout | undefined;
+  if (PROJECT_AUTO_ARCHIVE_DAYS > 0) {
+    runAutoArchive();
+    autoArchiveTimer = setInterval(runAutoArchive, AUTO_ARCHIVE_INTERVAL);
+  }
+
+  // Expired and long-revoked login sessions
+  const runSessionCleanup = () => {
+    deleteStaleSessions()
+      .then((removed) => {
+        if (removed > 0) console.log(`🔑 Removed ${removed} stale session(s)`);
+      })
+      .catch((error) => console.error('Session cleanup error:', error));
+  };
+  runSessionCleanup();
+  const sessionCleanupTimer = setInterval(runSessionCleanup, SESSION_CLEANUP_INTERVAL);
+
   server.on('error', (error: NodeJS.ErrnoException) => {
     if (error.code === 'EADDRINUSE') {
       console.error(`❌ Error: Port ${PORT} is already in use`);
@@ -1540,6 +3389,10 @@ if (isMainModule()) {
   // Graceful shutdown
   process.on('SIGTERM', () => {
     console.log('SIGTERM signal received: closing HTTP server');
+    clearInterval(deadlineReminderTimer);
+    clearInterval(orphanedFilesTimer);
+    clearInterval(autoArchiveTimer);
+    clearInterval(sessionCleanupTimer);
     server.close(() => {
       console.log('HTTP server closed');
       process.exit(0);
@@ -0,0 +1,68 @@
+/**
+ * Rate limiting for routes (see lib/rate-limit): limit middleware and 429 responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from './types';
+import { consumeRateLimit, RateLimitBucket } from '../lib/rate-limit';
+
+export type RateLimitKey = (req: Request) => string | null | undefined;
+
+export const byIp: RateLimitKey = (req) => req.ip;
+export const byUser: RateLimitKey = (req) => (req as AuthRequest).user?.sub;
+export const byBodyEmail: RateLimitKey = (req) =>
+  typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : null;
+
+function formatRetryAfter(seconds: number): string {
+  return seconds < 60 ? `${seconds} сек.` : `${Math.ceil(seconds / 60)} мин.`;
+}
+
+/**
+ * Respond 429 with Retry-After (seconds), also returned as retryAfter in the body
+ */
+export function sendTooManyRequests(res: Response, retryAfterMs: number, message?: string) {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    error: message || `Слишком много запросов. Повторите через ${formatRetryAfter(retryAfter)}`,
+    code: 'RATE_LIMITED',
+    retryAfter,
+  });
+}
+
+/**
+ * Respond 429 for a sign-in attempt on a locked account
+ */
+export function sendLoginLocked(res: Response, retryAfterMs: number) {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return sendTooManyRequests(
+    res,
+    retryAfterMs,
+    `Слишком много неудачных попыток входа. Повторите через ${formatRetryAfter(retryAfter)}`
+  );
+}
+
+/**
+ * Count requests in a bucket, keyed by client IP by default
+ * Requests without a key (e.g. no email in the body) are left to the route's validation
+ */
+export function rateLimit(bucket: RateLimitBucket, key: RateLimitKey = byIp) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const value = key(req);
+    if (!value) {
+      return next();
+    }
+
+    try {
+      const result = await consumeRateLimit(bucket, value);
+      if (!result.allowed) {
+        return sendTooManyRequests(res, result.retryAfterMs);
+      }
+    } catch (error) {
+      // An unavailable shared store must not take sign-in down
+      console.error(`Rate limit error (${bucket}):`, error);
+    }
+
+    next();
+  };
+}
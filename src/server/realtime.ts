@@ -0,0 +1,319 @@
+import crypto from 'crypto';
+import { Response } from 'express';
+import prisma from '../lib/prisma';
+import { withRecurrenceFields } from '../lib/recurrence';
+import { touchTask } from '../lib/subtasks';
+import { getTwoFactorVerifiedSessionIds } from '../lib/two-factor';
+
+/**
+ * Realtime event hub (Server-Sent Events)
+ * Replaces client-side polling: route handlers publish task/project/member
+ * changes here and every connected client receives only the events for
+ * projects (and personal tasks) it can access.
+ */
+
+export type RealtimeEventType =
+  | 'task.created'
+  | 'task.updated'
+  | 'task.reordered'
+  | 'task.deleted'
+  | 'project.updated'
+  | 'project.deleted'
+  | 'member.added'
+  | 'member.updated'
+  | 'member.removed'
+  | 'notification.created';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  projectId: string | null;
+  actorId?: string;
+  payload: any;
+}
+
+const HEARTBEAT_INTERVAL = 25 * 1000; // Keep proxies (nginx) from closing idle connections
+const STREAM_TICKET_TTL = 30 * 1000; // A ticket only has to last until EventSource connects
+
+// userId -> open SSE responses (one per browser tab)
+const clients = new Map<string, Set<Response>>();
+// open SSE response -> login session it was opened with
+const connectionSessions = new Map<Response, string>();
+// stream ticket -> user and login session it was issued to
+const streamTickets = new Map<string, { userId: string; sessionId: string; expiresAt: number }>();
+
+/**
+ * Issue a single-use ticket for opening the event stream
+ * EventSource cannot send headers, so the stream URL carries this ticket instead of the
+ * access token; it ends up in access logs but is worthless once the stream is open
+ */
+export function issueStreamTicket(userId: string, sessionId: string): string {
+  const now = Date.now();
+  streamTickets.forEach((entry, ticket) => {
+    if (entry.expiresAt <= now) {
+      streamTickets.delete(ticket);
+    }
+  });
+
+  const ticket = crypto.randomBytes(32).toString('hex');
+  streamTickets.set(ticket, { userId, sessionId, expiresAt: now + STREAM_TICKET_TTL });
+  return ticket;
+}
+
+/**
+ * Exchange a stream ticket for the user and session it was issued to
+ * Returns null for unknown, used or expired tickets
+ */
+export function redeemStreamTicket(ticket: string): { userId: string; sessionId: string } | null {
+  const entry = streamTickets.get(ticket);
+  if (!entry) {
+    return null;
+  }
+
+  streamTickets.delete(ticket);
+  return entry.expiresAt > Date.now() ? { userId: entry.userId, sessionId: entry.sessionId } : null;
+}
+
+/**
+ * Register an SSE connection for a user
+ * Sets up the stream headers, heartbeat and cleanup on disconnect
+ */
+export function subscribe(userId: string, res: Response, sessionId: string): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering for this response
+  res.flushHeaders();
+
+  // Tell EventSource how long to wait before reconnecting
+  res.write('retry: 3000\n\n');
+  writeEvent(res, 'connected', { userId, timestamp: new Date().toISOString() });
+
+  let userClients = clients.get(userId);
+  if (!userClients) {
+    userClients = new Set();
+    clients.set(userId, userClients);
+  }
+  userClients.add(res);
+  connectionSessions.set(res, sessionId);
+
+  const heartbeat = setInterval(() => {
+    res.write(`: heartbeat ${Date.now()}\n\n`);
+  }, HEARTBEAT_INTERVAL);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    connectionSessions.delete(res);
+    const set = clients.get(userId);
+    if (set) {
+      set.delete(res);
+      if (set.size === 0) {
+        clients.delete(userId);
+      }
+    }
+  });
+}
+
+/**
+ * Close the streams of revoked sessions
+ * The browser reconnects with its used ticket and gets 401, so the client has to request a new one or sign in again
+ */
+export function disconnectSessions(sessionIds: string[]): void {
+  if (sessionIds.length === 0) {
+    return;
+  }
+
+  const revoked = new Set(sessionIds);
+  connectionSessions.forEach((sessionId, res) => {
+    if (revoked.has(sessionId)) {
+      res.end();
+    }
+  });
+}
+
+/**
+ * Number of open connections (used by health check)
+ */
+export function getConnectionCount(): number {
+  let count = 0;
+  clients.forEach((set) => {
+    count += set.size;
+  });
+  return count;
+}
+
+function writeEvent(res: Response, eventName: string, data: any): void {
+  res.write(`event: ${eventName}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Send an event to specific users (all of their open connections)
+ */
+export function publishToUsers(userIds: string[], event: RealtimeEvent): void {
+  const uniqueIds = Array.from(new Set(userIds));
+  for (const userId of uniqueIds) {
+    const userClients = clients.get(userId);
+    if (!userClients) continue;
+    userClients.forEach((res) => writeEvent(res, 'change', event));
+  }
+}
+
+/**
+ * Send an event about a project's content (tasks, notifications) to specific users
+ * Events of projects that require 2FA only reach connections whose session passed it
+ */
+export async function publishToVerifiedUsers(userIds: string[], event: RealtimeEvent): Promise<void> {
+  const project = event.projectId
+    ? await prisma.project.findUnique({ where: { id: event.projectId }, select: { requireTwoFactor: true } })
+    : null;
+  if (!project?.requireTwoFactor) {
+    publishToUsers(userIds, event);
+    return;
+  }
+
+  const connections = Array.from(new Set(userIds)).flatMap((userId) => Array.from(clients.get(userId) ?? []));
+  const verified = await getTwoFactorVerifiedSessionIds(connections.map((res) => connectionSessions.get(res)!));
+  connections.forEach((res) => {
+    if (verified.has(connectionSessions.get(res)!)) {
+      writeEvent(res, 'change', event);
+    }
+  });
+}
+
+/**
+ * Get everyone who can see a project together with their role
+ */
+export async function getProjectAudience(
+  projectId: string
+): Promise<{ userId: string; role: string }[]> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      ownerId: true,
+      members: { select: { userId: true, role: true } },
+    },
+  });
+
+  if (!project) {
+    return [];
+  }
+
+  const audience = project.members.map((m) => ({ userId: m.userId, role: m.role }));
+  if (!audience.some((m) => m.userId === project.ownerId)) {
+    audience.push({ userId: project.ownerId, role: 'owner' });
+  }
+  return audience;
+}
+
+type TaskAudienceFields = { id: string; projectId: string | null; creatorId: string; assigneeId: string | null };
+
+/**
+ * Users who can see a task, by the same rules as canViewTask:
+ * - personal tasks go to the creator (and assignee)
+ * - members only receive tasks they created or are assigned to
+ */
+async function getTaskRecipients(task: TaskAudienceFields): Promise<string[]> {
+  if (!task.projectId) {
+    return task.assigneeId ? [task.creatorId, task.assigneeId] : [task.creatorId];
+  }
+
+  const audience = await getProjectAudience(task.projectId);
+  return audience
+    .filter((m) => m.role !== 'member' || m.userId === task.creatorId || m.userId === task.assigneeId)
+    .map((m) => m.userId);
+}
+
+/**
+ * Publish a task change to everyone who can see the task
+ * Pass the task as it was before the change as `previous`: users who could see it and no longer can
+ * (assignee changed away from a member, moved to another project or to personal tasks)
+ * get a task.deleted event instead
+ * Tasks of projects that require 2FA only reach sessions that passed it
+ */
+export async function publishTaskEvent(
+  type: 'task.created' | 'task.updated' | 'task.reordered' | 'task.deleted',
+  task: TaskAudienceFields,
+  actorId?: string,
+  payload?: any,
+  previous?: TaskAudienceFields
+): Promise<void> {
+  if (clients.size === 0) return;
+
+  try {
+    const recipients = await getTaskRecipients(task);
+    await publishToVerifiedUsers(recipients, {
+      type,
+      projectId: task.projectId,
+      actorId,
+      payload: payload ?? task,
+    });
+
+    if (previous && type !== 'task.deleted') {
+      const lostAccess = (await getTaskRecipients(previous)).filter((userId) => !recipients.includes(userId));
+      publishToUsers(lostAccess, {
+        type: 'task.deleted',
+        projectId: previous.projectId,
+        actorId,
+        payload: { id: previous.id, projectId: previous.projectId },
+      });
+    }
+  } catch (error) {
+    console.error('Failed to publish task event:', error);
+  }
+}
+
+/**
+ * Re-publish a task whose derived data changed (checklist, subtask progress, dependencies)
+ * Bumps updatedAt first so clients don't drop the event as an echo of their own write
+ * Returns the refreshed task, or null if it no longer exists
+ */
+export async function publishTaskRefresh(taskId: string, actorId?: string) {
+  await touchTask(taskId);
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      project: true,
+      creator: {
+        select: { id: true, name: true, email: true, avatarUrl: true },
+      },
+      assignee: {
+        select: { id: true, name: true, email: true, avatarUrl: true },
+      },
+      attachments: true,
+      recurrenceRule: true,
+      subtasks: { select: { id: true, status: true } },
+      checklistItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+      blockedBy: { select: { id: true, blockingTaskId: true, blockingTask: { select: { status: true } } } },
+    },
+  });
+
+  if (task) {
+    await publishTaskEvent('task.updated', task, actorId, withRecurrenceFields(task));
+  }
+  return task;
+}
+
+/**
+ * Publish a project-level change (project or membership) to all project members
+ * Pass extraRecipients for users that are no longer members (e.g. removed member);
+ * they get the event regardless of the project's 2FA requirement
+ */
+export async function publishProjectEvent(
+  type: Exclude<RealtimeEventType, 'task.created' | 'task.updated' | 'task.reordered' | 'task.deleted'>,
+  projectId: string,
+  payload: any,
+  actorId?: string,
+  extraRecipients: string[] = []
+): Promise<void> {
+  if (clients.size === 0) return;
+
+  try {
+    const audience = await getProjectAudience(projectId);
+    const event: RealtimeEvent = { type, projectId, actorId, payload };
+    await publishToVerifiedUsers(audience.map((m) => m.userId), event);
+    publishToUsers(extraRecipients, event);
+  } catch (error) {
+    console.error('Failed to publish project event:', error);
+  }
+}
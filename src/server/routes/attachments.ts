@@ -0,0 +1,143 @@
+/**
+ * Task attachment endpoints
+ * Authenticated download, inline preview, signed URLs and deletion; mounted at /api/attachments
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  getAttachmentForUser,
+  deleteAttachment,
+  isPreviewable,
+} from '../../lib/attachments';
+import { getStorage, getStorageKey } from '../../lib/storage';
+import { logActivity } from '../../lib/activity';
+import { publishTaskRefresh } from '../realtime.js';
+import { sendStoredFile } from '../files.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('archived')) return 409;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+const MAX_SIGNED_URL_TTL = 24 * 60 * 60;
+
+/**
+ * GET /api/attachments/:attachmentId/download
+ * Download an attachment (anyone who can view its task)
+ */
+router.get('/:attachmentId/download', async (req: AuthRequest, res: Response) => {
+  try {
+    const attachment = await getAttachmentForUser(req.user!.sub, req.user!.sid, req.params.attachmentId);
+
+    const key = getStorageKey(attachment.url);
+    if (!key) {
+      return res.status(404).json({ error: 'Attachment file not found' });
+    }
+
+    await sendStoredFile(res, key, {
+      contentType: attachment.mimeType,
+      fileName: attachment.name,
+      disposition: 'attachment',
+    });
+  } catch (error: any) {
+    console.error('Download attachment error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to download attachment' });
+  }
+});
+
+/**
+ * GET /api/attachments/:attachmentId/preview
+ * Serve an image or PDF attachment inline for thumbnails
+ */
+router.get('/:attachmentId/preview', async (req: AuthRequest, res: Response) => {
+  try {
+    const attachment = await getAttachmentForUser(req.user!.sub, req.user!.sid, req.params.attachmentId);
+
+    if (!isPreviewable(attachment.mimeType)) {
+      return res.status(415).json({ error: 'Preview is not available for this file type' });
+    }
+
+    const key = getStorageKey(attachment.url);
+    if (!key) {
+      return res.status(404).json({ error: 'Attachment file not found' });
+    }
+
+    await sendStoredFile(res, key, {
+      contentType: attachment.mimeType,
+      fileName: attachment.name,
+      disposition: 'inline',
+      cacheControl: 'private, max-age=3600',
+    });
+  } catch (error: any) {
+    console.error('Preview attachment error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to preview attachment' });
+  }
+});
+
+/**
+ * GET /api/attachments/:attachmentId/url
+ * Get a time-limited URL of an attachment that works without the auth header
+ * (for <img> tags, new tabs and direct downloads from S3)
+ * Query: disposition ('attachment' | 'inline', inline only for images and PDFs), expiresIn (seconds)
+ */
+router.get('/:attachmentId/url', async (req: AuthRequest, res: Response) => {
+  try {
+    const attachment = await getAttachmentForUser(req.user!.sub, req.user!.sid, req.params.attachmentId);
+
+    const key = getStorageKey(attachment.url);
+    if (!key) {
+      return res.status(404).json({ error: 'Attachment file not found' });
+    }
+
+    // Other files are never rendered by the browser from our origin
+    const disposition = req.query.disposition === 'inline' && isPreviewable(attachment.mimeType) ? 'inline' : 'attachment';
+    const expiresIn = Math.min(Math.max(parseInt(req.query.expiresIn as string, 10) || 15 * 60, 60), MAX_SIGNED_URL_TTL);
+
+    const url = await getStorage().getSignedUrl(key, {
+      expiresIn,
+      fileName: attachment.name,
+      contentType: disposition === 'inline' ? attachment.mimeType : 'application/octet-stream',
+      disposition,
+    });
+
+    res.json({ url, expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() });
+  } catch (error: any) {
+    console.error('Get attachment url error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to get attachment url' });
+  }
+});
+
+/**
+ * DELETE /api/attachments/:attachmentId
+ * Delete an attachment and its file (anyone who can edit its task)
+ */
+router.delete('/:attachmentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const attachment = await deleteAttachment(userId, req.user!.sid, req.params.attachmentId);
+
+    await logActivity({
+      action: 'attachment.deleted',
+      entityType: 'attachment',
+      entityId: attachment.id,
+      actorId: userId,
+      projectId: attachment.task.projectId,
+      taskId: attachment.taskId,
+      metadata: { name: attachment.name, size: attachment.size, title: attachment.task.title },
+    });
+
+    await publishTaskRefresh(attachment.taskId, userId);
+
+    res.json({ message: 'Attachment deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete attachment error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to delete attachment' });
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+/**
+ * Category endpoints
+ * Personal task categories of the current user and the ones shared with their projects
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, categorySchema, deleteCategoryQuerySchema, updateCategorySchema } from '../types';
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from '../../lib/categories';
+import { validateBody, validateQuery } from '../validation.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+/**
+ * GET /api/categories
+ * Get the personal and project categories of the current user
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const categories = await getCategories(req.user!.sub, req.user!.sid);
+
+    res.json({ categories });
+  } catch (error: any) {
+    console.error('Get categories error:', error);
+    res.status(500).json({ error: 'Failed to get categories' });
+  }
+});
+
+/**
+ * POST /api/categories
+ * Create a category (project categories: Owner and Collaborator)
+ * Body: { name, color?, description?, projectId? }
+ */
+router.post('/', validateBody(categorySchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const category = await createCategory(req.user!.sub, req.user!.sid, req.body);
+
+    res.status(201).json({ category });
+  } catch (error: any) {
+    console.error('Create category error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to create category' });
+  }
+});
+
+/**
+ * PATCH /api/categories/:categoryId
+ * Update a category (its author, or Owner and Collaborator of its project)
+ * Body: { name?, color?, description?, projectId? }
+ */
+router.patch('/:categoryId', validateBody(updateCategorySchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const category = await updateCategory(req.user!.sub, req.user!.sid, req.params.categoryId, req.body);
+
+    res.json({ category });
+  } catch (error: any) {
+    console.error('Update category error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to update category' });
+  }
+});
+
+/**
+ * DELETE /api/categories/:categoryId
+ * Delete a category (same permissions as updating it)
+ * Query: reassignTo - move its tasks to this category; otherwise they are left without a category
+ */
+router.delete('/:categoryId', validateQuery(deleteCategoryQuerySchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { reassignTo } = req.query as { reassignTo?: string };
+    const affectedTasks = await deleteCategory(req.user!.sub, req.user!.sid, req.params.categoryId, reassignTo);
+
+    res.json({ message: 'Category deleted successfully', affectedTasks });
+  } catch (error: any) {
+    console.error('Delete category error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to delete category' });
+  }
+});
+
+export default router;
@@ -0,0 +1,146 @@
+/**
+ * Task checklist endpoints
+ * Lightweight to-do items inside a task; mounted at /api/tasks
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, checklistItemSchema, updateChecklistItemSchema } from '../types';
+import {
+  getChecklist,
+  addChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+} from '../../lib/subtasks';
+import { logActivity } from '../../lib/activity';
+import { publishTaskRefresh } from '../realtime.js';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('archived')) return 409;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+/**
+ * GET /api/tasks/:taskId/checklist
+ * Get checklist items of a task
+ */
+router.get('/:taskId/checklist', async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = req.user!.sub;
+
+    const items = await getChecklist(taskId, userId, req.user!.sid);
+
+    res.json({ items });
+  } catch (error: any) {
+    console.error('Get checklist error:', error);
+    res.status(error.message?.includes('permission') ? 403 : 500).json({
+      error: error.message || 'Failed to get checklist',
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/:taskId/checklist
+ * Add an item to the end of the checklist
+ * Body: { title: string }
+ */
+router.post('/:taskId/checklist', validateBody(checklistItemSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = req.user!.sub;
+
+    const item = await addChecklistItem(taskId, req.body.title, userId, req.user!.sid);
+    const task = await publishTaskRefresh(taskId, userId);
+
+    await logActivity({
+      action: 'checklist.item_added',
+      entityType: 'checklist',
+      entityId: item.id,
+      actorId: userId,
+      projectId: task?.projectId,
+      taskId,
+      metadata: { title: item.title },
+    });
+
+    res.status(201).json({ item });
+  } catch (error: any) {
+    console.error('Add checklist item error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to add checklist item',
+    });
+  }
+});
+
+/**
+ * PATCH /api/tasks/:taskId/checklist/:itemId
+ * Rename, check/uncheck or move a checklist item
+ * Body: { title?: string, done?: boolean, position?: number }
+ */
+router.patch('/:taskId/checklist/:itemId', validateBody(updateChecklistItemSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId, itemId } = req.params;
+    const { title, done, position } = req.body;
+    const userId = req.user!.sub;
+
+    const { item, previous } = await updateChecklistItem(taskId, itemId, { title, done, position }, userId, req.user!.sid);
+    const task = await publishTaskRefresh(taskId, userId);
+
+    // Only checking items off is interesting for the timeline
+    if (item.done !== previous.done) {
+      await logActivity({
+        action: item.done ? 'checklist.item_completed' : 'checklist.item_reopened',
+        entityType: 'checklist',
+        entityId: item.id,
+        actorId: userId,
+        projectId: task?.projectId,
+        taskId,
+        metadata: { title: item.title },
+      });
+    }
+
+    res.json({ item });
+  } catch (error: any) {
+    console.error('Update checklist item error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to update checklist item',
+    });
+  }
+});
+
+/**
+ * DELETE /api/tasks/:taskId/checklist/:itemId
+ * Delete a checklist item
+ */
+router.delete('/:taskId/checklist/:itemId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId, itemId } = req.params;
+    const userId = req.user!.sub;
+
+    const item = await deleteChecklistItem(taskId, itemId, userId, req.user!.sid);
+    const task = await publishTaskRefresh(taskId, userId);
+
+    await logActivity({
+      action: 'checklist.item_deleted',
+      entityType: 'checklist',
+      entityId: item.id,
+      actorId: userId,
+      projectId: task?.projectId,
+      taskId,
+      metadata: { title: item.title },
+    });
+
+    res.json({ message: 'Checklist item deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete checklist item error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to delete checklist item',
+    });
+  }
+});
+
+export default router;
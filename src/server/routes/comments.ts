@@ -0,0 +1,243 @@
+/**
+ * Task comment endpoints
+ * Threaded comments with @mentions; mounted at /api/tasks
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, commentSchema, updateCommentSchema } from '../types';
+import {
+  getTaskComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  getMentionCandidates,
+} from '../../lib/comments';
+import { canViewTask } from '../../lib/permissions';
+import { logActivity } from '../../lib/activity';
+import { notify } from '../../lib/notifications';
+import emailService from '../../lib/email';
+import prisma from '../../lib/prisma';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('archived')) return 409;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+async function getTaskProjectId(taskId: string): Promise<string | null> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { projectId: true },
+  });
+  return task?.projectId ?? null;
+}
+
+/**
+ * Notify users about a new comment
+ * Mentioned users get a 'mention' notification, the task creator and assignee a 'comment' one
+ * Users who cannot see the task (e.g. members on someone else's task) are skipped
+ */
+async function notifyCommentRecipients(
+  taskId: string,
+  authorId: string,
+  sessionId: string,
+  mentionedUserIds: string[],
+  comment: { id: string; content: string },
+  notifyParticipants: boolean
+): Promise<void> {
+  try {
+    const [task, author] = await Promise.all([
+      prisma.task.findUnique({
+        where: { id: taskId },
+        include: { project: { select: { name: true } } },
+      }),
+      prisma.user.findUnique({ where: { id: authorId }, select: { name: true } }),
+    ]);
+
+    if (!task) return;
+
+    const authorName = author?.name || 'Пользователь';
+    const excerpt = comment.content.length > 200 ? `${comment.content.slice(0, 200)}…` : comment.content;
+
+    for (const userId of mentionedUserIds) {
+      if (!(await canViewTask(userId, taskId, sessionId))) continue;
+
+      await notify({
+        userId,
+        type: 'mention',
+        title: 'Вас упомянули в комментарии',
+        message: `${authorName} упомянул(а) вас в задаче «${task.title}»: ${excerpt}`,
+        actorId: authorId,
+        taskId,
+        projectId: task.projectId,
+        data: { commentId: comment.id },
+        sendEmail: (user) =>
+          emailService.sendMentionNotificationEmail(
+            user.email,
+            user.name,
+            authorName,
+            task.title,
+            task.project?.name || null,
+            comment.content
+          ),
+      });
+    }
+
+    if (!notifyParticipants) return;
+
+    const participants = new Set([task.creatorId, ...(task.assigneeId ? [task.assigneeId] : [])]);
+    for (const userId of participants) {
+      if (mentionedUserIds.includes(userId)) continue;
+      if (!(await canViewTask(userId, taskId, sessionId))) continue;
+
+      await notify({
+        userId,
+        type: 'comment',
+        title: 'Новый комментарий',
+        message: `${authorName} прокомментировал(а) задачу «${task.title}»: ${excerpt}`,
+        actorId: authorId,
+        taskId,
+        projectId: task.projectId,
+        data: { commentId: comment.id },
+      });
+    }
+  } catch (error) {
+    console.error('Failed to send comment notifications:', error);
+  }
+}
+
+/**
+ * GET /api/tasks/:taskId/comments
+ * Get comment threads of a task
+ */
+router.get('/:taskId/comments', async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = req.user!.sub;
+
+    const comments = await getTaskComments(taskId, userId, req.user!.sid);
+
+    res.json({ comments });
+  } catch (error: any) {
+    console.error('Get comments error:', error);
+    res.status(error.message?.includes('permission') ? 403 : 500).json({
+      error: error.message || 'Failed to get comments',
+    });
+  }
+});
+
+/**
+ * GET /api/tasks/:taskId/comments/mentions
+ * Get users that can be @mentioned in comments of a task
+ */
+router.get('/:taskId/comments/mentions', async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = req.user!.sub;
+
+    const canView = await canViewTask(userId, taskId, req.user!.sid);
+    if (!canView) {
+      return res.status(403).json({ error: 'You do not have permission to view this task' });
+    }
+
+    const users = await getMentionCandidates(taskId);
+
+    res.json({ users });
+  } catch (error: any) {
+    console.error('Get mention candidates error:', error);
+    res.status(500).json({ error: 'Failed to get mention candidates' });
+  }
+});
+
+/**
+ * POST /api/tasks/:taskId/comments
+ * Add a comment or a reply (parentId)
+ */
+router.post('/:taskId/comments', validateBody(commentSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { content, parentId } = req.body;
+    const userId = req.user!.sub;
+
+    const { comment, mentionedUserIds } = await createComment(taskId, userId, req.user!.sid, content, parentId);
+
+    await logActivity({
+      action: 'comment.created',
+      entityType: 'comment',
+      entityId: comment.id,
+      actorId: userId,
+      projectId: await getTaskProjectId(taskId),
+      taskId,
+      metadata: { parentId: comment.parentId, mentionedUserIds },
+    });
+
+    // Don't make the author wait for SMTP
+    notifyCommentRecipients(taskId, userId, req.user!.sid, mentionedUserIds, comment, true);
+
+    res.status(201).json({ comment });
+  } catch (error: any) {
+    console.error('Create comment error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to create comment',
+    });
+  }
+});
+
+/**
+ * PATCH /api/tasks/:taskId/comments/:commentId
+ * Edit a comment (author only)
+ */
+router.patch('/:taskId/comments/:commentId', validateBody(updateCommentSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId, commentId } = req.params;
+    const { content } = req.body;
+    const userId = req.user!.sub;
+
+    const { comment, mentionedUserIds } = await updateComment(taskId, commentId, userId, req.user!.sid, content);
+
+    // Edits only notify users mentioned for the first time
+    notifyCommentRecipients(taskId, userId, req.user!.sid, mentionedUserIds, comment, false);
+
+    res.json({ comment });
+  } catch (error: any) {
+    console.error('Update comment error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to update comment',
+    });
+  }
+});
+
+/**
+ * DELETE /api/tasks/:taskId/comments/:commentId
+ * Delete a comment (author only)
+ */
+router.delete('/:taskId/comments/:commentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId, commentId } = req.params;
+    const userId = req.user!.sub;
+
+    const { softDeleted } = await deleteComment(taskId, commentId, userId, req.user!.sid);
+
+    await logActivity({
+      action: 'comment.deleted',
+      entityType: 'comment',
+      entityId: commentId,
+      actorId: userId,
+      projectId: await getTaskProjectId(taskId),
+      taskId,
+    });
+
+    res.json({ message: 'Comment deleted successfully', softDeleted });
+  } catch (error: any) {
+    console.error('Delete comment error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to delete comment',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+/**
+ * Task dependency endpoints
+ * "Blocks / blocked by" links between tasks; mounted at /api/tasks
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, dependencySchema } from '../types';
+import { getTaskDependencies, addDependency, removeDependency } from '../../lib/dependencies';
+import { logActivity } from '../../lib/activity';
+import { publishTaskRefresh } from '../realtime.js';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('archived')) return 409;
+  if (error.message?.includes('not found')) return 404;
+  if (error.message?.includes('already exists') || error.message?.includes('cycle')) return 409;
+  return 400;
+}
+
+/**
+ * Record a link change on both tasks and push the blocked task (its badge changes)
+ */
+async function recordDependencyChange(
+  action: 'dependency.added' | 'dependency.removed',
+  dependency: {
+    id: string;
+    blockingTask: { id: string; title: string; projectId: string | null };
+    blockedTask: { id: string; title: string; projectId: string | null };
+  },
+  userId: string
+): Promise<void> {
+  const { blockingTask, blockedTask } = dependency;
+
+  await logActivity({
+    action,
+    entityType: 'dependency',
+    entityId: dependency.id,
+    actorId: userId,
+    projectId: blockedTask.projectId,
+    taskId: blockedTask.id,
+    metadata: { direction: 'blocked_by', otherTaskId: blockingTask.id, otherTaskTitle: blockingTask.title },
+  });
+  await logActivity({
+    action,
+    entityType: 'dependency',
+    entityId: dependency.id,
+    actorId: userId,
+    projectId: blockingTask.projectId,
+    taskId: blockingTask.id,
+    metadata: { direction: 'blocks', otherTaskId: blockedTask.id, otherTaskTitle: blockedTask.title },
+  });
+
+  await publishTaskRefresh(blockedTask.id, userId);
+}
+
+/**
+ * GET /api/tasks/:taskId/dependencies
+ * Get tasks that block this task and tasks it blocks
+ */
+router.get('/:taskId/dependencies', async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = req.user!.sub;
+
+    const dependencies = await getTaskDependencies(taskId, userId, req.user!.sid);
+
+    res.json(dependencies);
+  } catch (error: any) {
+    console.error('Get dependencies error:', error);
+    res.status(error.message?.includes('permission') ? 403 : 500).json({
+      error: error.message || 'Failed to get dependencies',
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/:taskId/dependencies
+ * Link this task to another one
+ * Body: { blockingTaskId } - this task is blocked by it, or { blockedTaskId } - this task blocks it
+ * Returns 409 if the link exists or would create a cycle
+ */
+router.post('/:taskId/dependencies', validateBody(dependencySchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { blockingTaskId, blockedTaskId } = req.body;
+    const userId = req.user!.sub;
+
+    const dependency = blockingTaskId
+      ? await addDependency(blockingTaskId, taskId, userId, req.user!.sid)
+      : await addDependency(taskId, blockedTaskId!, userId, req.user!.sid);
+
+    await recordDependencyChange('dependency.added', dependency, userId);
+
+    res.status(201).json({ dependency });
+  } catch (error: any) {
+    console.error('Add dependency error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to add dependency',
+    });
+  }
+});
+
+/**
+ * DELETE /api/tasks/:taskId/dependencies/:dependencyId
+ * Remove a link of this task
+ */
+router.delete('/:taskId/dependencies/:dependencyId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { taskId, dependencyId } = req.params;
+    const userId = req.user!.sub;
+
+    const dependency = await removeDependency(taskId, dependencyId, userId, req.user!.sid);
+
+    await recordDependencyChange('dependency.removed', dependency, userId);
+
+    res.json({ message: 'Dependency removed successfully' });
+  } catch (error: any) {
+    console.error('Remove dependency error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to remove dependency',
+    });
+  }
+});
+
+export default router;
@@ -4,7 +4,7 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { AuthRequest } from '../types';
+import { AuthRequest, createInvitationSchema } from '../types';
 import {
   createInvitation,
   getInvitationByToken,
@@ -16,32 +16,44 @@ import {
 } from '../../lib/invitations';
 import emailService from '../../lib/email';
 import prisma from '../../lib/prisma';
+import { publishProjectEvent } from '../realtime.js';
+import { byBodyEmail, byUser, rateLimit } from '../rate-limit.js';
+import { logActivity } from '../../lib/activity';
+import { notify } from '../../lib/notifications';
+import { assertEmailVerified, EMAIL_VERIFICATION_REQUIRED_ERROR } from '../../lib/email-verification';
+import { validateBody } from '../validation.js';
 
 const router = Router();
 
+function getErrorStatus(error: any, fallback = 400): number {
+  if (error.message === EMAIL_VERIFICATION_REQUIRED_ERROR) return 403;
+  if (error.message?.includes('permission')) return 403;
+  return fallback;
+}
+
 /**
  * POST /api/projects/:projectId/invitations
  * Create a new invitation (Owner only)
  */
-router.post('/:projectId/invitations', async (req: AuthRequest, res: Response) => {
+router.post('/:projectId/invitations', validateBody(createInvitationSchema), rateLimit('invitation_send_user', byUser), rateLimit('invitation_recipient', byBodyEmail), async (req: AuthRequest, res: Response) => {
   try {
     const { projectId } = req.params;
     const { email, role } = req.body;
     const userId = req.user!.sub;
 
-    if (!email || !role) {
-      return res.status(400).json({ error: 'Email and role are required' });
-    }
-
-    // Validate role
-    if (!['collaborator', 'member', 'viewer'].includes(role)) {
-      return res.status(400).json({ 
-        error: 'Invalid role. Must be collaborator, member, or viewer' 
-      });
-    }
+    await assertEmailVerified(userId, 'send_invitations');
 
     // Create invitation
-    const invitation = await createInvitation(projectId, email, role, userId);
+    const invitation = await createInvitation(projectId, email, role, userId, req.user!.sid);
+
+    await logActivity({
+      action: 'invitation.created',
+      entityType: 'invitation',
+      entityId: invitation.id,
+      actorId: userId,
+      projectId,
+      metadata: { email: invitation.email, role: invitation.role },
+    });
 
     // Generate invitation link
     const appUrl = process.env.APP_URL || 'http://localhost:5173';
@@ -75,7 +87,7 @@ router.post('/:projectId/invitations', async (req: AuthRequest, res: Response) =
     });
   } catch (error: any) {
     console.error('Create invitation error:', error);
-    res.status(error.message.includes('permission') ? 403 : 400).json({ 
+    res.status(getErrorStatus(error)).json({ 
       error: error.message || 'Failed to create invitation' 
     });
   }
@@ -90,7 +102,7 @@ router.get('/:projectId/invitations', async (req: AuthRequest, res: Response) =>
     const { projectId } = req.params;
     const userId = req.user!.sub;
 
-    const invitations = await getProjectInvitations(projectId, userId);
+    const invitations = await getProjectInvitations(projectId, userId, req.user!.sid);
 
     // Add invitation links
     const appUrl = process.env.APP_URL || 'http://localhost:5173';
@@ -146,7 +158,7 @@ router.get('/my-invitations', async (req: AuthRequest, res: Response) => {
  * GET /api/invitations/token/:token
  * Get invitation details by token (for invite acceptance page)
  */
-router.get('/token/:token', async (req: Request, res: Response) => {
+router.get('/token/:token', rateLimit('invitation_lookup_ip'), rateLimit('invitation_lookup_user', byUser), async (req: Request, res: Response) => {
   try {
     const { token } = req.params;
 
@@ -201,7 +213,7 @@ router.get('/token/:token', async (req: Request, res: Response) => {
  * POST /api/invitations/:token/accept
  * Accept an invitation
  */
-router.post('/:token/accept', async (req: AuthRequest, res: Response) => {
+router.post('/:token/accept', rateLimit('invitation_lookup_ip'), rateLimit('invitation_lookup_user', byUser), async (req: AuthRequest, res: Response) => {
   try {
     const { token } = req.params;
     const userId = req.user!.sub;
@@ -209,15 +221,38 @@ router.post('/:token/accept', async (req: AuthRequest, res: Response) => {
     // Get user email
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { email: true },
+      select: { email: true, name: true },
     });
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    await assertEmailVerified(userId, 'accept_invitations');
+
     const result = await acceptInvitation(token, userId, user.email);
 
+    await logActivity({
+      action: 'member.added',
+      entityType: 'member',
+      entityId: result.member.id,
+      actorId: userId,
+      projectId: result.project.id,
+      metadata: { userId, email: user.email, role: result.member.role, via: 'invitation' },
+    });
+
+    publishProjectEvent('member.added', result.project.id, result.member, userId);
+
+    // Tell whoever sent the invitation (or the owner if that user is gone)
+    notify({
+      userId: result.invitedByUserId || result.project.ownerId,
+      type: 'invitation_accepted',
+      title: 'Приглашение принято',
+      message: `${user.name} (${user.email}) присоединился(ась) к проекту «${result.project.name}»`,
+      actorId: userId,
+      projectId: result.project.id,
+    });
+
     res.json({
       message: 'Invitation accepted successfully',
       project: {
@@ -231,7 +266,7 @@ router.post('/:token/accept', async (req: AuthRequest, res: Response) => {
     });
   } catch (error: any) {
     console.error('Accept invitation error:', error);
-    res.status(400).json({ error: error.message || 'Failed to accept invitation' });
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to accept invitation' });
   }
 });
 
@@ -244,7 +279,16 @@ router.delete('/:invitationId', async (req: AuthRequest, res: Response) => {
     const { invitationId } = req.params;
     const userId = req.user!.sub;
 
-    await revokeInvitation(invitationId, userId);
+    const invitation = await revokeInvitation(invitationId, userId, req.user!.sid);
+
+    await logActivity({
+      action: 'invitation.revoked',
+      entityType: 'invitation',
+      entityId: invitationId,
+      actorId: userId,
+      projectId: invitation.projectId,
+      metadata: { email: invitation.email, role: invitation.role },
+    });
 
     res.json({ message: 'Invitation revoked successfully' });
   } catch (error: any) {
@@ -259,12 +303,23 @@ router.delete('/:invitationId', async (req: AuthRequest, res: Response) => {
  * POST /api/invitations/:invitationId/resend
  * Resend an invitation (Owner only)
  */
-router.post('/:invitationId/resend', async (req: AuthRequest, res: Response) => {
+router.post('/:invitationId/resend', rateLimit('invitation_send_user', byUser), async (req: AuthRequest, res: Response) => {
   try {
     const { invitationId } = req.params;
     const userId = req.user!.sub;
 
-    const invitation = await resendInvitation(invitationId, userId);
+    await assertEmailVerified(userId, 'send_invitations');
+
+    const invitation = await resendInvitation(invitationId, userId, req.user!.sid);
+
+    await logActivity({
+      action: 'invitation.resent',
+      entityType: 'invitation',
+      entityId: invitationId,
+      actorId: userId,
+      projectId: invitation.projectId,
+      metadata: { email: invitation.email, role: invitation.role },
+    });
 
     // Generate new invitation link
     const appUrl = process.env.APP_URL || 'http://localhost:5173';
@@ -297,7 +352,7 @@ router.post('/:invitationId/resend', async (req: AuthRequest, res: Response) =>
     });
   } catch (error: any) {
     console.error('Resend invitation error:', error);
-    res.status(error.message.includes('permission') ? 403 : 400).json({ 
+    res.status(getErrorStatus(error)).json({ 
       error: error.message || 'Failed to resend invitation' 
     });
   }
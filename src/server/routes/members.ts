@@ -0,0 +1,249 @@
+/**
+ * Project member management endpoints
+ * Role changes, removal, leaving and ownership transfer; mounted at /api/projects
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, removeMemberSchema, transferOwnershipSchema, updateMemberRoleSchema } from '../types';
+import {
+  updateMemberRole,
+  removeMember,
+  leaveProject,
+  transferOwnership,
+  ReassignedTask,
+} from '../../lib/members';
+import { logActivity } from '../../lib/activity';
+import { notify, notifyTaskAssigned } from '../../lib/notifications';
+import { publishProjectEvent } from '../realtime.js';
+import prisma from '../../lib/prisma';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Владелец',
+  collaborator: 'Участник с правами',
+  member: 'Участник',
+  viewer: 'Наблюдатель',
+};
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission') || error.message?.includes('Only the project owner')) return 403;
+  if (error.message?.includes('archived')) return 409;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+async function getProjectName(projectId: string): Promise<string> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { name: true },
+  });
+  return project?.name || 'Проект';
+}
+
+/**
+ * Record the new assignee of tasks handed over from a removed member
+ */
+async function handleReassignedTasks(
+  tasks: ReassignedTask[],
+  previousAssigneeId: string,
+  actorId: string
+): Promise<void> {
+  for (const task of tasks) {
+    await logActivity({
+      action: 'task.updated',
+      entityType: 'task',
+      entityId: task.id,
+      actorId,
+      projectId: task.projectId,
+      taskId: task.id,
+      changes: { assigneeId: { from: previousAssigneeId, to: task.assigneeId } },
+      metadata: { title: task.title, reason: 'member_removed' },
+    });
+    notifyTaskAssigned(task, actorId);
+  }
+}
+
+/**
+ * PUT /api/projects/:projectId/members/:memberId
+ * Change a member's role (owner only)
+ * memberId may be a membership id or a user id
+ */
+router.put('/:projectId/members/:memberId', validateBody(updateMemberRoleSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, memberId } = req.params;
+    const { role } = req.body;
+    const userId = req.user!.sub;
+
+    const { member, previousRole } = await updateMemberRole(projectId, memberId, role, userId, req.user!.sid);
+
+    if (previousRole !== member.role) {
+      await logActivity({
+        action: 'member.role_changed',
+        entityType: 'member',
+        entityId: member.id,
+        actorId: userId,
+        projectId,
+        changes: { role: { from: previousRole, to: member.role } },
+        metadata: { userId: member.userId, email: member.user.email, name: member.user.name },
+      });
+
+      publishProjectEvent('member.updated', projectId, member, userId);
+
+      notify({
+        userId: member.userId,
+        type: 'role_changed',
+        title: 'Ваша роль изменена',
+        message: `Ваша роль в проекте «${await getProjectName(projectId)}»: ${ROLE_LABELS[member.role] || member.role}`,
+        actorId: userId,
+        projectId,
+      });
+    }
+
+    res.json({ member });
+  } catch (error: any) {
+    console.error('Update member role error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to update member role',
+    });
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/members/:memberId
+ * Remove a member (owner only)
+ * Body or query: reassignTo (user id) - who takes over the member's open tasks;
+ * without it the tasks become unassigned
+ */
+router.delete('/:projectId/members/:memberId', validateBody(removeMemberSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, memberId } = req.params;
+    const reassignTo = (req.body.reassignTo || req.query.reassignTo || null) as string | null;
+    const userId = req.user!.sub;
+
+    const { member, reassignedTasks } = await removeMember(projectId, memberId, userId, reassignTo, req.user!.sid);
+
+    await logActivity({
+      action: 'member.removed',
+      entityType: 'member',
+      entityId: member.id,
+      actorId: userId,
+      projectId,
+      metadata: {
+        userId: member.userId,
+        email: member.user.email,
+        name: member.user.name,
+        role: member.role,
+        reassignTo,
+        reassignedTaskCount: reassignedTasks.length,
+      },
+    });
+
+    await handleReassignedTasks(reassignedTasks, member.userId, userId);
+
+    // The removed user is no longer in the audience but must drop the project
+    publishProjectEvent('member.removed', projectId, { id: member.id, userId: member.userId }, userId, [member.userId]);
+
+    res.json({
+      message: 'Member removed successfully',
+      reassignedTaskCount: reassignedTasks.length,
+    });
+  } catch (error: any) {
+    console.error('Remove member error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to remove member',
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/leave
+ * Leave a project (any member except the owner)
+ * Body: { reassignTo?: string } - who takes over the open tasks
+ */
+router.post('/:projectId/leave', validateBody(removeMemberSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const reassignTo = req.body.reassignTo || null;
+    const userId = req.user!.sub;
+
+    const { member, reassignedTasks } = await leaveProject(projectId, userId, reassignTo, req.user!.sid);
+
+    await logActivity({
+      action: 'member.left',
+      entityType: 'member',
+      entityId: member.id,
+      actorId: userId,
+      projectId,
+      metadata: {
+        userId,
+        email: member.user.email,
+        name: member.user.name,
+        role: member.role,
+        reassignTo,
+        reassignedTaskCount: reassignedTasks.length,
+      },
+    });
+
+    await handleReassignedTasks(reassignedTasks, userId, userId);
+
+    publishProjectEvent('member.removed', projectId, { id: member.id, userId }, userId, [userId]);
+
+    res.json({
+      message: 'You have left the project',
+      reassignedTaskCount: reassignedTasks.length,
+    });
+  } catch (error: any) {
+    console.error('Leave project error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to leave project',
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/transfer-ownership
+ * Make another member the owner (owner only); the previous owner becomes a collaborator
+ * Body: { memberId: string } - membership id or user id
+ */
+router.post('/:projectId/transfer-ownership', validateBody(transferOwnershipSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { memberId } = req.body;
+    const userId = req.user!.sub;
+
+    const { project, newOwner, previousOwner } = await transferOwnership(projectId, memberId, userId, req.user!.sid);
+
+    await logActivity({
+      action: 'project.ownership_transferred',
+      entityType: 'project',
+      entityId: projectId,
+      actorId: userId,
+      projectId,
+      changes: { ownerId: { from: userId, to: newOwner.userId } },
+      metadata: { name: project.name, newOwnerName: newOwner.user.name, newOwnerEmail: newOwner.user.email },
+    });
+
+    publishProjectEvent('member.updated', projectId, newOwner, userId);
+    publishProjectEvent('member.updated', projectId, previousOwner, userId);
+
+    notify({
+      userId: newOwner.userId,
+      type: 'role_changed',
+      title: 'Вы стали владельцем проекта',
+      message: `${previousOwner.user.name} передал(а) вам владение проектом «${project.name}»`,
+      actorId: userId,
+      projectId,
+    });
+
+    res.json({ project, newOwner, previousOwner });
+  } catch (error: any) {
+    console.error('Transfer ownership error:', error);
+    res.status(getErrorStatus(error)).json({
+      error: error.message || 'Failed to transfer ownership',
+    });
+  }
+});
+
+export default router;
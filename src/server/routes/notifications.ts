@@ -0,0 +1,119 @@
+/**
+ * Notification center endpoints
+ * Inbox of the current user and per-type delivery preferences
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, markNotificationsReadSchema, notificationPreferencesSchema } from '../types';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationsRead,
+  deleteNotification,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../../lib/notifications';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+/**
+ * GET /api/notifications
+ * Get notifications of the current user (newest first) and the unread count
+ * Query: before (ISO date), limit, unread=true
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+
+    const [notifications, unreadCount] = await Promise.all([
+      getNotifications(userId, {
+        before: req.query.before,
+        limit: req.query.limit,
+        unreadOnly: req.query.unread === 'true',
+      }),
+      getUnreadNotificationCount(userId),
+    ]);
+
+    res.json({ notifications, unreadCount });
+  } catch (error: any) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Failed to get notifications' });
+  }
+});
+
+/**
+ * POST /api/notifications/read
+ * Mark notifications as read
+ * Body: { ids?: string[] } - without ids marks all notifications as read
+ */
+router.post('/read', validateBody(markNotificationsReadSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+    const { ids } = req.body;
+
+    const updated = await markNotificationsRead(userId, ids);
+    const unreadCount = await getUnreadNotificationCount(userId);
+
+    res.json({ updated, unreadCount });
+  } catch (error: any) {
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+/**
+ * GET /api/notifications/preferences
+ * Get delivery preferences of the current user (defaults included)
+ */
+router.get('/preferences', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+
+    const preferences = await getNotificationPreferences(userId);
+
+    res.json({ preferences });
+  } catch (error: any) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to get notification preferences' });
+  }
+});
+
+/**
+ * PUT /api/notifications/preferences
+ * Update delivery preferences
+ * Body: { preferences: { [type]: { inApp: boolean, email: boolean } } }
+ */
+router.put('/preferences', validateBody(notificationPreferencesSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+
+    const preferences = await updateNotificationPreferences(userId, req.body.preferences);
+
+    res.json({ preferences });
+  } catch (error: any) {
+    console.error('Update notification preferences error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update notification preferences' });
+  }
+});
+
+/**
+ * DELETE /api/notifications/:id
+ * Delete a notification from the inbox
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.sub;
+
+    await deleteNotification(userId, req.params.id);
+
+    res.json({ message: 'Notification deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete notification error:', error);
+    res.status(error.message?.includes('not found') ? 404 : 500).json({
+      error: error.message || 'Failed to delete notification',
+    });
+  }
+});
+
+export default router;
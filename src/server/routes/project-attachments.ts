@@ -0,0 +1,172 @@
+/**
+ * Project file endpoints
+ * Listing, authenticated download, preview, signed URLs and deletion of project files;
+ * mounted at /api/projects (uploads go through POST /api/upload-project-attachment)
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest } from '../types';
+import prisma from '../../lib/prisma';
+import {
+  getProjectAttachmentForUser,
+  deleteProjectAttachment,
+  isPreviewable,
+} from '../../lib/attachments';
+import { getStorage, getStorageKey } from '../../lib/storage';
+import { canViewProject } from '../../lib/permissions';
+import { logActivity } from '../../lib/activity';
+import * as realtime from '../realtime.js';
+import { sendStoredFile } from '../files.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('archived')) return 409;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+const MAX_SIGNED_URL_TTL = 24 * 60 * 60;
+
+/**
+ * GET /api/projects/:projectId/attachments
+ * Get the files of a project
+ */
+router.get('/:projectId/attachments', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!(await canViewProject(req.user!.sub, projectId, req.user!.sid))) {
+      return res.status(403).json({ error: 'You do not have access to this project' });
+    }
+
+    const attachments = await prisma.projectAttachment.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ attachments });
+  } catch (error: any) {
+    console.error('Get project attachments error:', error);
+    res.status(500).json({ error: 'Failed to get project attachments' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/attachments/:attachmentId/download
+ * Download a project file (any project member)
+ */
+router.get('/:projectId/attachments/:attachmentId/download', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, attachmentId } = req.params;
+    const attachment = await getProjectAttachmentForUser(req.user!.sub, req.user!.sid, projectId, attachmentId);
+
+    const key = getStorageKey(attachment.url);
+    if (!key) {
+      return res.status(404).json({ error: 'Attachment file not found' });
+    }
+
+    await sendStoredFile(res, key, {
+      contentType: attachment.mimeType,
+      fileName: attachment.name,
+      disposition: 'attachment',
+    });
+  } catch (error: any) {
+    console.error('Download project attachment error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to download attachment' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/attachments/:attachmentId/preview
+ * Serve an image or PDF project file inline
+ */
+router.get('/:projectId/attachments/:attachmentId/preview', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, attachmentId } = req.params;
+    const attachment = await getProjectAttachmentForUser(req.user!.sub, req.user!.sid, projectId, attachmentId);
+
+    if (!isPreviewable(attachment.mimeType)) {
+      return res.status(415).json({ error: 'Preview is not available for this file type' });
+    }
+
+    const key = getStorageKey(attachment.url);
+    if (!key) {
+      return res.status(404).json({ error: 'Attachment file not found' });
+    }
+
+    await sendStoredFile(res, key, {
+      contentType: attachment.mimeType,
+      fileName: attachment.name,
+      disposition: 'inline',
+      cacheControl: 'private, max-age=3600',
+    });
+  } catch (error: any) {
+    console.error('Preview project attachment error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to preview attachment' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/attachments/:attachmentId/url
+ * Get a time-limited URL of a project file that works without the auth header
+ * Query: disposition ('attachment' | 'inline', inline only for images and PDFs), expiresIn (seconds)
+ */
+router.get('/:projectId/attachments/:attachmentId/url', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, attachmentId } = req.params;
+    const attachment = await getProjectAttachmentForUser(req.user!.sub, req.user!.sid, projectId, attachmentId);
+
+    const key = getStorageKey(attachment.url);
+    if (!key) {
+      return res.status(404).json({ error: 'Attachment file not found' });
+    }
+
+    const disposition = req.query.disposition === 'inline' && isPreviewable(attachment.mimeType) ? 'inline' : 'attachment';
+    const expiresIn = Math.min(Math.max(parseInt(req.query.expiresIn as string, 10) || 15 * 60, 60), MAX_SIGNED_URL_TTL);
+
+    const url = await getStorage().getSignedUrl(key, {
+      expiresIn,
+      fileName: attachment.name,
+      contentType: disposition === 'inline' ? attachment.mimeType : 'application/octet-stream',
+      disposition,
+    });
+
+    res.json({ url, expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() });
+  } catch (error: any) {
+    console.error('Get project attachment url error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to get attachment url' });
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/attachments/:attachmentId
+ * Delete a project file (only Owner and Collaborator)
+ */
+router.delete('/:projectId/attachments/:attachmentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, attachmentId } = req.params;
+    const userId = req.user!.sub;
+
+    const attachment = await deleteProjectAttachment(userId, req.user!.sid, projectId, attachmentId);
+
+    await logActivity({
+      action: 'project.attachment_deleted',
+      entityType: 'attachment',
+      entityId: attachment.id,
+      actorId: userId,
+      projectId,
+      metadata: { name: attachment.name, size: attachment.size },
+    });
+
+    realtime.publishProjectEvent('project.updated', projectId, { id: projectId }, userId);
+
+    res.json({ message: 'Attachment deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete project attachment error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to delete attachment' });
+  }
+});
+
+export default router;
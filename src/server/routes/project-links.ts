@@ -0,0 +1,168 @@
+/**
+ * Project link endpoints
+ * Named links shown in the project card; mounted at /api/projects
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, projectLinkSchema, updateProjectLinkSchema } from '../types';
+import {
+  getProjectLinks,
+  addProjectLink,
+  updateProjectLink,
+  deleteProjectLink,
+} from '../../lib/project-links';
+import { canEditProject, canViewProject } from '../../lib/permissions';
+import { isProjectArchived, ARCHIVED_PROJECT_ERROR } from '../../lib/archive';
+import { logActivity } from '../../lib/activity';
+import * as realtime from '../realtime.js';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+/**
+ * GET /api/projects/:projectId/links
+ * Get the links of a project
+ */
+router.get('/:projectId/links', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!(await canViewProject(req.user!.sub, projectId, req.user!.sid))) {
+      return res.status(403).json({ error: 'You do not have access to this project' });
+    }
+
+    const links = await getProjectLinks(projectId);
+
+    res.json({ links });
+  } catch (error: any) {
+    console.error('Get project links error:', error);
+    res.status(500).json({ error: 'Failed to get project links' });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/links
+ * Add a link to a project (only Owner and Collaborator)
+ * Body: { name, url }
+ */
+router.post('/:projectId/links', validateBody(projectLinkSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user!.sub;
+
+    if (await isProjectArchived(projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
+    if (!(await canEditProject(userId, projectId, req.user!.sid))) {
+      return res.status(403).json({ error: 'You do not have permission to edit this project' });
+    }
+
+    const link = await addProjectLink(projectId, req.body);
+
+    await logActivity({
+      action: 'project.link_added',
+      entityType: 'project',
+      entityId: projectId,
+      actorId: userId,
+      projectId,
+      metadata: { linkId: link.id, name: link.name, url: link.url },
+    });
+
+    realtime.publishProjectEvent('project.updated', projectId, { id: projectId }, userId);
+
+    res.status(201).json({ link });
+  } catch (error: any) {
+    console.error('Add project link error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to add project link' });
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId/links/:linkId
+ * Update a link (only Owner and Collaborator)
+ * Body: { name?, url?, position? }
+ */
+router.patch('/:projectId/links/:linkId', validateBody(updateProjectLinkSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, linkId } = req.params;
+    const userId = req.user!.sub;
+
+    if (await isProjectArchived(projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
+    if (!(await canEditProject(userId, projectId, req.user!.sid))) {
+      return res.status(403).json({ error: 'You do not have permission to edit this project' });
+    }
+
+    const { link, previous } = await updateProjectLink(projectId, linkId, req.body);
+
+    if (link.name !== previous.name || link.url !== previous.url) {
+      await logActivity({
+        action: 'project.link_updated',
+        entityType: 'project',
+        entityId: projectId,
+        actorId: userId,
+        projectId,
+        changes: {
+          ...(link.name !== previous.name ? { linkName: { from: previous.name, to: link.name } } : {}),
+          ...(link.url !== previous.url ? { linkUrl: { from: previous.url, to: link.url } } : {}),
+        },
+        metadata: { linkId: link.id, name: link.name },
+      });
+    }
+
+    realtime.publishProjectEvent('project.updated', projectId, { id: projectId }, userId);
+
+    res.json({ link });
+  } catch (error: any) {
+    console.error('Update project link error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to update project link' });
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/links/:linkId
+ * Delete a link (only Owner and Collaborator)
+ */
+router.delete('/:projectId/links/:linkId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId, linkId } = req.params;
+    const userId = req.user!.sub;
+
+    if (await isProjectArchived(projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
+    if (!(await canEditProject(userId, projectId, req.user!.sid))) {
+      return res.status(403).json({ error: 'You do not have permission to edit this project' });
+    }
+
+    const link = await deleteProjectLink(projectId, linkId);
+
+    await logActivity({
+      action: 'project.link_removed',
+      entityType: 'project',
+      entityId: projectId,
+      actorId: userId,
+      projectId,
+      metadata: { linkId: link.id, name: link.name, url: link.url },
+    });
+
+    realtime.publishProjectEvent('project.updated', projectId, { id: projectId }, userId);
+
+    res.json({ message: 'Link deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete project link error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to delete project link' });
+  }
+});
+
+export default router;
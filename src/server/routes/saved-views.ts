@@ -0,0 +1,86 @@
+/**
+ * Saved view endpoints
+ * Dashboard presets of the current user and the ones shared with their projects
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, savedViewSchema, updateSavedViewSchema } from '../types';
+import {
+  getSavedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+} from '../../lib/saved-views';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+function getErrorStatus(error: any): number {
+  if (error.message?.includes('permission')) return 403;
+  if (error.message?.includes('not found')) return 404;
+  return 400;
+}
+
+/**
+ * GET /api/saved-views
+ * Get the personal and shared views of the current user (pinned first)
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const views = await getSavedViews(req.user!.sub, req.user!.sid);
+
+    res.json({ views });
+  } catch (error: any) {
+    console.error('Get saved views error:', error);
+    res.status(500).json({ error: 'Failed to get saved views' });
+  }
+});
+
+/**
+ * POST /api/saved-views
+ * Save a view
+ * Body: { name, projectId?, pinned?, state }
+ */
+router.post('/', validateBody(savedViewSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const view = await createSavedView(req.user!.sub, req.user!.sid, req.body);
+
+    res.status(201).json({ view });
+  } catch (error: any) {
+    console.error('Create saved view error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to save view' });
+  }
+});
+
+/**
+ * PATCH /api/saved-views/:viewId
+ * Update a view (its author, or Owner and Collaborator of the project it is shared with)
+ * Body: { name?, projectId?, pinned?, state? }
+ */
+router.patch('/:viewId', validateBody(updateSavedViewSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const view = await updateSavedView(req.user!.sub, req.user!.sid, req.params.viewId, req.body);
+
+    res.json({ view });
+  } catch (error: any) {
+    console.error('Update saved view error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to update view' });
+  }
+});
+
+/**
+ * DELETE /api/saved-views/:viewId
+ * Delete a view (same permissions as updating it)
+ */
+router.delete('/:viewId', async (req: AuthRequest, res: Response) => {
+  try {
+    await deleteSavedView(req.user!.sub, req.user!.sid, req.params.viewId);
+
+    res.json({ message: 'View deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete saved view error:', error);
+    res.status(getErrorStatus(error)).json({ error: error.message || 'Failed to delete view' });
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+/**
+ * Project workflow endpoints
+ * Statuses (board columns) shared by all members of a project; mounted at /api/projects
+ */
+
+import { Router, Response } from 'express';
+import { AuthRequest, workflowSchema } from '../types';
+import { getProjectWorkflow, updateProjectWorkflow } from '../../lib/workflows';
+import { canEditProject, canViewProject } from '../../lib/permissions';
+import { isProjectArchived, ARCHIVED_PROJECT_ERROR } from '../../lib/archive';
+import { logActivity } from '../../lib/activity';
+import * as realtime from '../realtime.js';
+import { validateBody } from '../validation.js';
+
+const router = Router();
+
+/**
+ * GET /api/projects/:projectId/workflow
+ * Get the ordered statuses of a project
+ */
+router.get('/:projectId/workflow', async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user!.sub;
+
+    if (!(await canViewProject(userId, projectId, req.user!.sid))) {
+      return res.status(403).json({ error: 'You do not have access to this project' });
+    }
+
+    const statuses = await getProjectWorkflow(projectId);
+
+    res.json({ statuses });
+  } catch (error: any) {
+    console.error('Get workflow error:', error);
+    res.status(500).json({ error: 'Failed to get workflow' });
+  }
+});
+
+/**
+ * PUT /api/projects/:projectId/workflow
+ * Replace the workflow of a project (only Owner and Collaborator)
+ * Body: { statuses: [{ key, name, color?, wipLimit?, isDone?, allowedTransitions? }] }
+ */
+router.put('/:projectId/workflow', validateBody(workflowSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user!.sub;
+
+    if (await isProjectArchived(projectId)) {
+      return res.status(409).json({ error: ARCHIVED_PROJECT_ERROR });
+    }
+
+    if (!(await canEditProject(userId, projectId, req.user!.sid))) {
+      return res.status(403).json({ error: 'You do not have permission to edit this project' });
+    }
+
+    const { statuses, previous } = await updateProjectWorkflow(projectId, req.body.statuses);
+
+    await logActivity({
+      action: 'project.workflow_updated',
+      entityType: 'project',
+      entityId: projectId,
+      actorId: userId,
+      projectId,
+      changes: {
+        workflow: {
+          from: previous.map((s) => s.name),
+          to: statuses.map((s) => s.name),
+        },
+      },
+    });
+
+    // Clients refetch projects (and their workflows) on project.updated
+    realtime.publishProjectEvent('project.updated', projectId, { id: projectId, workflowStatuses: statuses }, userId);
+
+    res.json({ statuses });
+  } catch (error: any) {
+    console.error('Update workflow error:', error);
+    res.status(400).json({ error: error.message || 'Failed to update workflow' });
+  }
+});
+
+export default router;
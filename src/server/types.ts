@@ -1,7 +1,507 @@
 // Type definitions for server
-import { Request } from 'express';
-import { JwtPayload } from '../lib/auth';
+// Request body schemas are shared with the client (utils/api-client): keep this module free of server-only runtime imports
+import type { Request } from 'express';
+import { z } from 'zod';
+import type { JwtPayload } from '../lib/auth';
 
 export interface AuthRequest extends Request {
   user?: JwtPayload;
 }
+
+// ========== VALIDATION ==========
+
+export interface FieldError {
+  field: string; // Dot-separated path in the body, '' for the body itself
+  message: string;
+}
+
+/**
+ * 400 response body for a request that does not match its schema
+ */
+export interface ValidationErrorResponse {
+  error: string; // Message of the first field error
+  code: 'VALIDATION_ERROR';
+  fields: FieldError[];
+}
+
+export function getFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({ field: issue.path.join('.'), message: issue.message }));
+}
+
+/**
+ * Thrown by parseRequest; carries the same field errors as a 400 response
+ */
+export class RequestValidationError extends Error {
+  fields: FieldError[];
+
+  constructor(fields: FieldError[]) {
+    super(fields[0]?.message || 'Invalid request');
+    this.name = 'RequestValidationError';
+    this.fields = fields;
+  }
+}
+
+/**
+ * Validate data against a request schema before sending it (unknown fields are dropped)
+ */
+export function parseRequest<T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new RequestValidationError(getFieldErrors(result.error));
+  }
+  return result.data;
+}
+
+// ========== SHARED FIELDS ==========
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const id = z.string().min(1).max(100);
+const dateString = (message: string) => z.string().refine((value) => !isNaN(Date.parse(value)), { message });
+const integerLike = z.union([z.number().int(), z.string().regex(/^\d+$/)]);
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+const DEPENDENCY_MODES = ['warn', 'block'] as const;
+const PROJECT_ROLES = ['collaborator', 'member', 'viewer'] as const;
+const TASK_PERMISSION_ACTIONS = ['view', 'edit', 'delete'] as const;
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+// ========== AUTH ==========
+
+export const signUpSchema = z.object({
+  email: z.string({ required_error: 'Email, password, and name are required' }).trim().email('Укажите корректный email'),
+  password: z
+    .string({ required_error: 'Email, password, and name are required' })
+    .min(MIN_PASSWORD_LENGTH, `Пароль должен содержать минимум ${MIN_PASSWORD_LENGTH} символов`),
+  name: z
+    .string({ required_error: 'Email, password, and name are required' })
+    .trim()
+    .min(1, 'Email, password, and name are required')
+    .max(100, 'Имя должно содержать от 1 до 100 символов'),
+});
+
+export const signInSchema = z.object({
+  email: z.string({ required_error: 'Необходимо указать email и пароль' }).min(1, 'Необходимо указать email и пароль'),
+  password: z.string({ required_error: 'Необходимо указать email и пароль' }).min(1, 'Необходимо указать email и пароль'),
+});
+
+const twoFactorCode = z
+  .string({ required_error: 'Необходимо указать код подтверждения' })
+  .trim()
+  .min(1, 'Необходимо указать код подтверждения')
+  .max(32, 'Неверный код подтверждения');
+
+export const twoFactorSignInSchema = z.object({
+  challengeToken: z.string({ required_error: 'Необходимо указать код подтверждения' }).min(1),
+  code: twoFactorCode,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode,
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string({ required_error: 'Укажите пароль и код подтверждения' }).min(1, 'Укажите пароль и код подтверждения'),
+  code: twoFactorCode,
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string({ required_error: 'Refresh token is required' }).min(1, 'Refresh token is required'),
+});
+
+export const logoutSchema = z.object({
+  refreshToken: z.string().optional(),
+});
+
+export const updateProfileSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Имя должно содержать от 1 до 100 символов').max(100, 'Имя должно содержать от 1 до 100 символов'),
+    avatarUrl: z.null({ invalid_type_error: 'Use /api/upload-avatar to change the avatar' }),
+  })
+  .partial()
+  .refine((body) => body.name !== undefined || body.avatarUrl !== undefined, { message: 'Nothing to update' });
+
+export const changeEmailSchema = z.object({
+  email: z.string({ required_error: 'Укажите корректный email' }).trim().email('Укажите корректный email').max(254, 'Укажите корректный email'),
+  password: z.string({ required_error: 'Для смены email нужен текущий пароль' }).min(1, 'Для смены email нужен текущий пароль'),
+  // Required when the account has 2FA enabled
+  code: twoFactorCode.optional(),
+});
+
+export const tokenSchema = z.object({
+  token: z.string({ required_error: 'Token is required' }).min(1, 'Token is required'),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string({ required_error: 'Укажите текущий и новый пароль' }).min(1, 'Укажите текущий и новый пароль'),
+  newPassword: z
+    .string({ required_error: 'Укажите текущий и новый пароль' })
+    .min(MIN_PASSWORD_LENGTH, `Пароль должен содержать минимум ${MIN_PASSWORD_LENGTH} символов`),
+});
+
+export const deleteAccountSchema = z.object({
+  password: z.string({ required_error: 'Для удаления аккаунта нужен текущий пароль' }).min(1, 'Для удаления аккаунта нужен текущий пароль'),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string({ required_error: 'Email is required' }).trim().min(1, 'Email is required'),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string({ required_error: 'Token and new password are required' }).min(1, 'Token and new password are required'),
+  password: z.string({ required_error: 'Token and new password are required' }).min(6, 'Password must be at least 6 characters'),
+});
+
+// ========== PROJECTS ==========
+
+const projectLinkInput = z.object({
+  name: z.string(),
+  url: z.string(),
+});
+
+export const createProjectSchema = z.object({
+  name: z.string({ required_error: 'Project name is required' }).trim().min(1, 'Project name is required').max(200, 'Project name is too long (max 200 characters)'),
+  description: z.string().max(5000, 'Description is too long (max 5000 characters)').nullish(),
+  color: z.string().max(50).optional(),
+  dependencyMode: z.enum(DEPENDENCY_MODES, { message: 'Invalid dependencyMode. Must be warn or block' }).optional(),
+  links: z.array(projectLinkInput, { message: 'links must be an array' }).optional(), // Checked further by lib/project-links
+});
+
+export const updateProjectSchema = createProjectSchema
+  .omit({ links: true })
+  .partial()
+  .extend({
+    archived: z.boolean({ message: 'archived must be a boolean' }).optional(),
+    requireTwoFactor: z.boolean({ message: 'requireTwoFactor must be a boolean' }).optional(),
+  });
+
+export type CreateProjectRequest = z.input<typeof createProjectSchema>;
+export type UpdateProjectRequest = z.input<typeof updateProjectSchema>;
+
+// ========== TASKS ==========
+
+// Checked further by lib/recurrence (positive interval, end date after start and so on)
+const recurrenceInput = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'custom'], {
+    message: 'Invalid recurrence frequency. Must be daily, weekly, monthly, or custom',
+  }).optional(),
+  interval: integerLike.optional(),
+  startDate: dateString('Invalid recurrence start date').optional(),
+  endDate: dateString('Invalid recurrence end date').nullish(),
+  count: integerLike.nullish(),
+  maxOccurrences: integerLike.nullish(),
+});
+
+const taskFields = {
+  title: z.string({ required_error: 'Title is required' }).trim().min(1, 'Title is required').max(500, 'Title is too long (max 500 characters)'),
+  description: z.string().max(20000, 'Description is too long (max 20000 characters)').nullish(),
+  status: z.string().min(1, 'Status cannot be empty').max(50),
+  priority: z.enum(TASK_PRIORITIES, { message: 'Priority must be low, medium, high or urgent' }),
+  category: z.string().max(100).nullish(),
+  tags: z.array(z.string().max(50, 'Tag is too long (max 50 characters)'), { message: 'tags must be an array of strings' }).max(50, 'Too many tags (max 50)'),
+  dueDate: dateString('Invalid due date').nullish(),
+  assigneeId: id.nullish(),
+  projectId: id.nullish(),
+  orderKey: z.string().min(1).max(200),
+  parentTaskId: id.nullish(),
+  completeWithSubtasks: z.boolean(),
+  // Recurrence: either a rule object (null removes it) or the legacy isRecurring fields
+  recurrence: recurrenceInput.nullish(),
+  isRecurring: z.boolean(),
+  recurringIntervalDays: integerLike.nullish(),
+  recurringStartDate: dateString('Invalid recurrence start date').nullish(),
+};
+
+export const createTaskSchema = z.object(taskFields).partial().required({ title: true });
+
+export const updateTaskSchema = z
+  .object(taskFields)
+  .omit({ projectId: true })
+  .partial()
+  .extend({
+    version: z.number().int().nonnegative().optional(), // Version the edit is based on (409 when stale)
+    ignoreBlockers: z.boolean().optional(), // Complete despite open blockers when the project only warns
+    recurrenceScope: z.enum(['this', 'future']).optional(),
+  });
+
+export type CreateTaskRequest = z.input<typeof createTaskSchema>;
+export type UpdateTaskRequest = z.input<typeof updateTaskSchema>;
+
+// Query string of GET /api/tasks: lists are comma-separated (status=todo,done) or repeated
+const queryList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : value.split(',')).map((item) => item.trim()).filter(Boolean))
+  .pipe(z.array(z.string().max(100)).max(100, 'Too many values in a filter (max 100)'))
+  .optional();
+
+export const TASK_LIST_SORTS = ['position', 'dueDate', 'createdAt', 'updatedAt', 'title'] as const;
+export const MAX_TASK_PAGE_SIZE = 200;
+
+export const taskListQuerySchema = z.object({
+  status: queryList,
+  priority: queryList,
+  assignee: queryList, // User ids, 'me' or 'none'
+  project: queryList, // Project ids or 'personal'
+  category: queryList, // Category ids or 'none'
+  tags: queryList,
+  dueFrom: dateString('Invalid dueFrom date').optional(),
+  dueTo: dateString('Invalid dueTo date').optional(),
+  q: z.string().trim().max(200, 'Search text is too long (max 200 characters)').optional(),
+  sort: z.enum(TASK_LIST_SORTS, { message: `sort must be one of: ${TASK_LIST_SORTS.join(', ')}` }).optional(),
+  order: z.enum(['asc', 'desc'], { message: 'order must be asc or desc' }).optional(),
+  limit: z.coerce
+    .number({ message: 'limit must be a number' })
+    .int('limit must be an integer')
+    .min(1, 'limit must be at least 1')
+    .max(MAX_TASK_PAGE_SIZE, `limit must be at most ${MAX_TASK_PAGE_SIZE}`)
+    .optional(),
+  cursor: z.string().max(2000).optional(),
+});
+
+export type TaskListQuery = z.input<typeof taskListQuerySchema>;
+
+// Query string of GET /api/search
+export const searchQuerySchema = z.object({
+  q: z
+    .string({ required_error: 'Search text is required' })
+    .trim()
+    .min(1, 'Search text is required')
+    .max(200, 'Search text is too long (max 200 characters)'),
+  limit: z.coerce
+    .number({ message: 'limit must be a number' })
+    .int('limit must be an integer')
+    .min(1, 'limit must be at least 1')
+    .max(50, 'limit must be at most 50')
+    .optional(),
+});
+
+export const taskPermissionSchema = z.object({
+  taskId: z.string({ required_error: 'Task ID and action are required' }).min(1, 'Task ID and action are required'),
+  action: z.enum(TASK_PERMISSION_ACTIONS, { message: 'Invalid action' }),
+});
+
+export const taskPermissionsSchema = z.object({
+  taskIds: z.array(id, { required_error: 'Task IDs array and action are required' }).max(1000),
+  action: z.enum(TASK_PERMISSION_ACTIONS, { message: 'Invalid action' }),
+});
+
+// Body of POST /api/tasks/bulk: the same or per-task changes for many tasks, or deleting them
+export const MAX_BULK_TASKS = 500;
+
+const bulkTaskUpdate = z.object({
+  id,
+  version: z.number().int().nonnegative().optional(), // Skipped as a conflict when stale
+  status: taskFields.status.optional(),
+  priority: taskFields.priority.optional(),
+  assigneeId: taskFields.assigneeId,
+  category: taskFields.category,
+  dueDate: taskFields.dueDate,
+  tags: taskFields.tags.optional(), // Replaces the tags
+  addTags: taskFields.tags.optional(),
+  removeTags: taskFields.tags.optional(),
+  projectId: taskFields.projectId, // Move to another project (null - personal tasks)
+  creatorId: id.optional(), // With a move into a project: undo of a move to personal tasks, only the creator the move took the task from
+});
+
+export const bulkTaskSchema = z.discriminatedUnion(
+  'action',
+  [
+    z.object({
+      action: z.literal('update'),
+      tasks: z
+        .array(bulkTaskUpdate, { message: 'tasks must be an array' })
+        .min(1, 'No tasks selected')
+        .max(MAX_BULK_TASKS, `Too many tasks (max ${MAX_BULK_TASKS})`),
+    }),
+    z.object({
+      action: z.literal('delete'),
+      taskIds: z
+        .array(id, { message: 'taskIds must be an array' })
+        .min(1, 'No tasks selected')
+        .max(MAX_BULK_TASKS, `Too many tasks (max ${MAX_BULK_TASKS})`),
+    }),
+  ],
+  { errorMap: () => ({ message: 'action must be update or delete' }) }
+);
+
+export type BulkTaskRequest = z.input<typeof bulkTaskSchema>;
+export type BulkTaskUpdate = z.input<typeof bulkTaskUpdate>;
+
+// ========== TASK DETAILS ==========
+
+export const checklistItemSchema = z.object({
+  title: z.string({ required_error: 'Checklist item title is required' }),
+});
+
+export const updateChecklistItemSchema = z.object({
+  title: z.string().optional(),
+  done: z.boolean({ message: 'done must be a boolean' }).optional(),
+  position: z.number().int().nonnegative().optional(),
+});
+
+export const commentSchema = z.object({
+  content: z.string({ required_error: 'Comment text is required' }),
+  parentId: id.nullish(),
+});
+
+export const updateCommentSchema = commentSchema.omit({ parentId: true });
+
+export const dependencySchema = z
+  .object({
+    blockingTaskId: id.optional(),
+    blockedTaskId: id.optional(),
+  })
+  .refine((body) => !!body.blockingTaskId !== !!body.blockedTaskId, {
+    message: 'Provide either blockingTaskId or blockedTaskId',
+  });
+
+// ========== MEMBERS AND INVITATIONS ==========
+
+export const createInvitationSchema = z.object({
+  email: z.string({ required_error: 'Email and role are required' }).trim().email('Invalid email'),
+  role: z.enum(PROJECT_ROLES, { message: 'Invalid role. Must be collaborator, member, or viewer' }),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(PROJECT_ROLES, { message: 'Invalid role. Must be collaborator, member, or viewer' }),
+});
+
+export const removeMemberSchema = z.object({
+  reassignTo: id.nullish(),
+});
+
+export const transferOwnershipSchema = z.object({
+  memberId: z.string({ required_error: 'memberId is required' }).min(1, 'memberId is required'),
+});
+
+export const invitationEmailSchema = z.object({
+  invitationId: z.string({ required_error: 'Missing required fields' }).min(1),
+  email: z.string({ required_error: 'Missing required fields' }).trim().email('Invalid email'),
+  projectName: z.string({ required_error: 'Missing required fields' }).min(1).max(200),
+  role: z.string({ required_error: 'Missing required fields' }).min(1).max(50),
+  expiresAt: dateString('Invalid expiresAt'),
+});
+
+// ========== PROJECT DETAILS ==========
+
+export const projectLinkSchema = projectLinkInput;
+
+export const updateProjectLinkSchema = projectLinkInput.partial().extend({
+  position: z.number().int().nonnegative().optional(),
+});
+
+// Checked further by lib/workflows (keys, names, WIP limits, transitions)
+export const workflowSchema = z.object({
+  statuses: z.array(
+    z.object({
+      key: z.string(),
+      name: z.string(),
+      color: z.string().max(50).optional(),
+      wipLimit: z.number().int().nullish(),
+      isDone: z.boolean().optional(),
+      allowedTransitions: z.array(z.string()).optional(),
+    }),
+    { message: 'Workflow must contain at least one status' }
+  ),
+});
+
+// ========== NOTIFICATIONS ==========
+
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string(), { message: 'ids must be an array of strings' }).optional(),
+});
+
+// Types and channels are checked by lib/notifications
+export const notificationPreferencesSchema = z.object({
+  preferences: z.record(z.object({ inApp: z.boolean(), email: z.boolean() }), {
+    message: 'Preferences must be an object',
+  }),
+});
+
+// ========== USER SETTINGS ==========
+
+export const customColumnsSchema = z.object({
+  columns: z
+    .array(
+      z.object({
+        id: id,
+        title: z.string().trim().min(1, 'Column title is required').max(50, 'Column title is too long (max 50 characters)'),
+        color: z.string().max(50),
+      }),
+      { message: 'columns must be an array' }
+    )
+    .max(20, 'Too many columns (max 20)'),
+});
+
+// ========== CATEGORIES ==========
+
+export const categorySchema = z.object({
+  name: z
+    .string({ required_error: 'Category name is required' })
+    .trim()
+    .min(1, 'Category name is required')
+    .max(100, 'Category name is too long (max 100 characters)'),
+  color: z.string().max(50).optional(),
+  description: z.string().max(1000).nullish(),
+  projectId: id.nullish(), // Shared with the members of a project
+});
+
+export const updateCategorySchema = categorySchema.partial();
+
+export const deleteCategoryQuerySchema = z.object({
+  reassignTo: id.optional(), // Move the tasks to this category instead of clearing it
+});
+
+export type CategoryRequest = z.input<typeof categorySchema>;
+export type UpdateCategoryRequest = z.input<typeof updateCategorySchema>;
+
+// ========== SAVED VIEWS ==========
+
+const filterValues = z.array(z.string().max(100)).max(100, 'Too many values in a filter (max 100)').default([]);
+
+export const BOARD_VIEW_MODES = ['kanban', 'table', 'calendar'] as const;
+export const BOARD_SORT_COLUMNS = ['title', 'project', 'category', 'status', 'priority', 'assignee', 'dueDate', 'updatedAt'] as const;
+export const CALENDAR_RANGES = ['1week', '2weeks', '1month', '3months'] as const;
+export const DEADLINE_FILTERS = ['all', 'overdue', 'today', '3days', 'week'] as const;
+
+// Everything that defines what the dashboard shows; stored in saved views and encoded in the URL
+export const boardStateSchema = z.object({
+  viewMode: z.enum(BOARD_VIEW_MODES).default('kanban'),
+  filters: z
+    .object({
+      projects: filterValues,
+      categories: filterValues,
+      statuses: filterValues,
+      priorities: filterValues,
+      assignees: filterValues,
+      tags: filterValues,
+      deadline: z.enum(DEADLINE_FILTERS).default('all'),
+      deadlineFrom: dateString('Invalid deadlineFrom date').optional(),
+      deadlineTo: dateString('Invalid deadlineTo date').optional(),
+    })
+    .default({}),
+  search: z.string().max(200, 'Search text is too long (max 200 characters)').default(''),
+  myTasks: z.boolean().default(false), // "Назначенные на меня"
+  sortColumn: z.enum(BOARD_SORT_COLUMNS).nullable().default(null), // Table view
+  sortDirection: z.enum(['asc', 'desc']).nullable().default(null),
+  dateRange: z.enum(CALENDAR_RANGES).default('2weeks'), // Calendar view
+});
+
+export type BoardState = z.output<typeof boardStateSchema>;
+
+export const savedViewSchema = z.object({
+  name: z
+    .string({ required_error: 'View name is required' })
+    .trim()
+    .min(1, 'View name is required')
+    .max(100, 'View name is too long (max 100 characters)'),
+  projectId: id.nullish(), // Share with the members of a project
+  pinned: z.boolean().optional(),
+  state: boardStateSchema,
+});
+
+export const updateSavedViewSchema = savedViewSchema.partial();
+
+export type SavedViewRequest = z.input<typeof savedViewSchema>;
+export type UpdateSavedViewRequest = z.input<typeof updateSavedViewSchema>;
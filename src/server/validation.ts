@@ -0,0 +1,51 @@
+/**
+ * Request body validation for routes (schemas are in ./types, shared with the client)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import type { z } from 'zod';
+import { getFieldErrors, ValidationErrorResponse } from './types';
+
+/**
+ * Respond 400 with the field errors of a body that does not match its schema
+ */
+export function sendValidationError(res: Response, error: z.ZodError) {
+  const fields = getFieldErrors(error);
+  const body: ValidationErrorResponse = {
+    error: fields[0]?.message || 'Invalid request',
+    code: 'VALIDATION_ERROR',
+    fields,
+  };
+  return res.status(400).json(body);
+}
+
+/**
+ * Validate req.body against a schema and replace it with the parsed value
+ * (strings trimmed where the schema says so, unknown fields dropped)
+ */
+export function validateBody(schema: z.ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return sendValidationError(res, result.error);
+    }
+
+    req.body = result.data;
+    next();
+  };
+}
+
+/**
+ * Validate req.query against a schema and replace it with the parsed value
+ */
+export function validateQuery(schema: z.ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.error);
+    }
+
+    req.query = result.data;
+    next();
+  };
+}
@@ -3,33 +3,65 @@
  * Replaces Supabase client with JWT-based authentication
  */
 
+import type { Category, Project, SavedView, Task } from '../contexts/app-context';
+import type { ProjectSearchResult, TaskSearchResult } from '../lib/search';
+import type { BulkTaskFailure } from '../lib/bulk-tasks';
+import {
+  RequestValidationError,
+  type BulkTaskRequest,
+  type BulkTaskUpdate,
+  type CategoryRequest,
+  type CreateProjectRequest,
+  type CreateTaskRequest,
+  type SavedViewRequest,
+  type TaskListQuery,
+  type UpdateCategoryRequest,
+  type UpdateProjectRequest,
+  type UpdateSavedViewRequest,
+  type UpdateTaskRequest,
+} from '../server/types';
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 
 // ========== TOKEN MANAGEMENT ==========
 
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const TOKEN_REFRESH_MARGIN = 60 * 1000; // Renew the access token a minute before it expires
+const REFRESH_RACE_TIMEOUT = 5 * 1000; // How long to wait for the tokens of a parallel refresh in another tab
+const REFRESH_RACE_POLL_INTERVAL = 100;
+
+/**
+ * Fired on window when the session was revoked or has expired and the user has to sign in again
+ */
+export const SESSION_ENDED_EVENT = 'auth:session-ended';
 
 export const getAuthToken = (): string | null => {
   return localStorage.getItem(TOKEN_KEY);
 };
 
-const setAuthToken = (token: string): void => {
+const setAuthToken = (token: string, refreshToken?: string): void => {
   localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  scheduleTokenRefresh();
 };
 
 const clearAuthToken = (): void => {
   localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
 };
 
 /**
- * Get user ID from JWT token
+ * Decode the JWT payload (without verifying - verification happens on server)
  */
-const getUserIdFromToken = (): string | null => {
-  const token = getAuthToken();
-  if (!token) return null;
-  
+const decodeTokenPayload = (token: string): any | null => {
   try {
-    // Decode JWT token (without verifying - verification happens on server)
     const base64Url = token.split('.')[1];
     const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
     const jsonPayload = decodeURIComponent(
@@ -38,16 +70,217 @@ const getUserIdFromToken = (): string | null => {
         .map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
         .join('')
     );
-    const payload = JSON.parse(jsonPayload);
-    return payload.sub || null;
+    return JSON.parse(jsonPayload);
   } catch (error) {
     console.error('Failed to decode token:', error);
     return null;
   }
 };
 
+/**
+ * Get user ID from JWT token
+ */
+const getUserIdFromToken = (): string | null => {
+  const token = getAuthToken();
+  if (!token) return null;
+
+  return decodeTokenPayload(token)?.sub || null;
+};
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Wait until another tab stores the tokens of the refresh that won a race
+ * Returns the new access token, or null if they do not show up in time
+ */
+const waitForRotatedToken = async (refreshToken: string): Promise<string | null> => {
+  const deadline = Date.now() + REFRESH_RACE_TIMEOUT;
+  while (Date.now() < deadline) {
+    if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+      scheduleTokenRefresh();
+      return getAuthToken();
+    }
+    await new Promise((resolve) => setTimeout(resolve, REFRESH_RACE_POLL_INTERVAL));
+  }
+  return null;
+};
+
+/**
+ * Exchange the refresh token for a new access token (one request at a time)
+ * Returns the new access token, or null if the session has ended or the server is unreachable
+ */
+export const refreshAuthToken = (): Promise<string | null> => {
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+
+  refreshPromise = (async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        // Another tab rotated the same token a moment ago; its response carries the new tokens
+        if (response.status === 409) {
+          return await waitForRotatedToken(refreshToken);
+        }
+        // Another tab may have rotated the token in the meantime
+        if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+          return getAuthToken();
+        }
+        if (response.status === 401) {
+          clearAuthToken();
+          window.dispatchEvent(new Event(SESSION_ENDED_EVENT));
+        }
+        return null;
+      }
+
+      const data = await response.json();
+      setAuthToken(data.token, data.refreshToken);
+      return data.token as string;
+    } catch (error) {
+      console.error('Refresh token error:', error);
+      return null;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+};
+
+/**
+ * Get an access token that is valid for at least another minute, refreshing it if needed
+ */
+export const ensureFreshToken = async (): Promise<string | null> => {
+  const token = getAuthToken();
+  if (!token) return null;
+
+  const exp = decodeTokenPayload(token)?.exp;
+  if (exp && exp * 1000 - Date.now() > TOKEN_REFRESH_MARGIN) {
+    return token;
+  }
+
+  return (await refreshAuthToken()) || null;
+};
+
+/**
+ * fetch with the access token of the current session
+ * The token is renewed before it expires; a request rejected with 401 (the token expired
+ * or was rotated in the meantime) is sent once more after refreshing the token
+ */
+const authFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const token = await ensureFreshToken();
+  if (!token) throw new Error('Not authenticated');
+
+  const send = (accessToken: string) =>
+    fetch(url, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+  const response = await send(token);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const refreshedToken = await refreshAuthToken();
+  return refreshedToken ? send(refreshedToken) : response;
+};
+
+/**
+ * Renew the access token shortly before it expires
+ */
+function scheduleTokenRefresh(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+
+  const token = getAuthToken();
+  const exp = token ? decodeTokenPayload(token)?.exp : null;
+  if (!exp || !localStorage.getItem(REFRESH_TOKEN_KEY)) return;
+
+  const delay = Math.max(exp * 1000 - Date.now() - TOKEN_REFRESH_MARGIN, 0);
+  refreshTimer = setTimeout(() => {
+    refreshAuthToken();
+  }, delay);
+}
+
+if (typeof window !== 'undefined') {
+  scheduleTokenRefresh();
+
+  // Timers are throttled in background tabs: check the token when the tab becomes visible again
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      ensureFreshToken();
+    }
+  });
+
+  // Tokens are shared between tabs through localStorage
+  window.addEventListener('storage', (event) => {
+    if (event.key === TOKEN_KEY) {
+      scheduleTokenRefresh();
+    }
+  });
+}
+
 // ========== AUTH API ==========
 
+/**
+ * Thrown when the server rejects a request as too frequent (429)
+ * retryAfter: seconds until the request may be repeated
+ */
+export class RateLimitError extends Error {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Error of a failed response: RateLimitError for 429, RequestValidationError (with field errors)
+ * for a body rejected by its schema, a plain Error otherwise
+ */
+const toResponseError = (response: Response, body: any, fallback: string): Error => {
+  if (response.status === 429) {
+    const retryAfter = Number(body?.retryAfter ?? response.headers.get('Retry-After')) || 60;
+    return new RateLimitError(body?.error || 'Слишком много запросов, попробуйте позже', retryAfter);
+  }
+  if (response.status === 400 && body?.code === 'VALIDATION_ERROR' && Array.isArray(body.fields)) {
+    return new RequestValidationError(body.fields);
+  }
+  return new Error(body?.error || fallback);
+};
+
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  twoFactorVerified: boolean;
+  current: boolean;
+}
+
 export const authAPI = {
   signUp: async (email: string, password: string, name: string) => {
     try {
@@ -60,12 +293,12 @@ export const authAPI = {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to sign up');
+        const error = await response.json().catch(() => ({}));
+        throw toResponseError(response, error, 'Failed to sign up');
       }
 
       const data = await response.json();
-      setAuthToken(data.token);
+      setAuthToken(data.token, data.refreshToken);
       
       return {
         user: data.user,
@@ -88,14 +321,24 @@ export const authAPI = {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to sign in');
+        const error = await response.json().catch(() => ({}));
+        throw toResponseError(response, error, 'Failed to sign in');
       }
 
       const data = await response.json();
-      setAuthToken(data.token);
+
+      // 2FA is enabled: the session is created by verifyTwoFactor
+      if (data.twoFactorRequired) {
+        return {
+          twoFactorRequired: true as const,
+          challengeToken: data.challengeToken as string,
+        };
+      }
+
+      setAuthToken(data.token, data.refreshToken);
       
       return {
+        twoFactorRequired: false as const,
         user: data.user,
         session: { access_token: data.token },
       };
@@ -105,8 +348,52 @@ export const authAPI = {
     }
   },
 
+  /**
+   * Second step of signing in with 2FA: a code from the authenticator app or a backup code
+   */
+  verifyTwoFactor: async (challengeToken: string, code: string) => {
+    const response = await fetch(`${API_BASE_URL}/api/auth/signin/2fa`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to verify code' }));
+      throw toResponseError(response, error, 'Failed to verify code');
+    }
+
+    const data = await response.json();
+    setAuthToken(data.token, data.refreshToken);
+
+    return {
+      user: data.user,
+      usedBackupCode: data.usedBackupCode as boolean,
+      backupCodesRemaining: data.backupCodesRemaining as number,
+    };
+  },
+
   signOut: async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
     clearAuthToken();
+
+    // Revoke the session on the server; signing out locally works even if this fails
+    if (refreshToken) {
+      try {
+        await fetch(`${API_BASE_URL}/api/auth/logout`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ refreshToken }),
+        });
+      } catch (error) {
+        console.error('Logout error:', error);
+      }
+    }
+
     return { error: null };
   },
 
@@ -121,8 +408,8 @@ export const authAPI = {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to send password reset email');
+        const error = await response.json().catch(() => ({}));
+        throw toResponseError(response, error, 'Failed to send password reset email');
       }
 
       const data = await response.json();
@@ -144,8 +431,8 @@ export const authAPI = {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to reset password');
+        const error = await response.json().catch(() => ({}));
+        throw toResponseError(response, error, 'Failed to reset password');
       }
 
       const data = await response.json();
@@ -157,17 +444,12 @@ export const authAPI = {
   },
 
   getCurrentUser: async () => {
-    const token = getAuthToken();
-    if (!token) {
+    if (!getAuthToken()) {
       return null;
     }
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api/auth/me`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const response = await authFetch(`${API_BASE_URL}/api/auth/me`);
 
       if (!response.ok) {
         clearAuthToken();
@@ -183,353 +465,1296 @@ export const authAPI = {
     }
   },
 
-  updateProfile: async (updates: any) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    // TODO: Implement profile update endpoint
-    console.warn('Profile update endpoint not yet implemented');
-    return updates;
-  },
-
-  uploadAvatar: async (file: File) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const formData = new FormData();
-    formData.append('avatar', file);
-
-    const response = await fetch(`${API_BASE_URL}/api/upload-avatar`, {
-      method: 'POST',
+  /**
+   * Update the current user's profile (name)
+   */
+  updateProfile: async (updates: { name?: string }) => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/me`, {
+      method: 'PATCH',
       headers: {
-        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
       },
-      body: formData,
+      body: JSON.stringify(updates),
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to upload avatar');
+      const error = await response.json().catch(() => ({ error: 'Failed to update profile' }));
+      throw new Error(error.error || 'Failed to update profile');
     }
 
     const data = await response.json();
-    return data.avatarUrl;
-  },
-
-  deleteAvatar: async () => {
-    // TODO: Implement avatar delete endpoint
-    console.warn('Avatar delete endpoint not yet implemented');
-    return true;
+    return data.user;
   },
 
-  onAuthStateChange: (callback: (user: any) => void) => {
-    // Simple implementation - check for user on mount
-    authAPI.getCurrentUser().then(callback);
-    
-    // Return unsubscribe function
-    return {
-      data: {
-        subscription: {
-          unsubscribe: () => {},
-        },
+  /**
+   * Request an email change; the new address becomes active after the link sent to it is opened
+   */
+  changeEmail: async (email: string, password: string, code?: string): Promise<{ pendingEmail: string }> => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/change-email`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
       },
-    };
-  },
-};
+      body: JSON.stringify({ email, password, code: code || undefined }),
+    });
 
-// ========== TASKS API ==========
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to change email' }));
+      throw new Error(error.error || 'Failed to change email');
+    }
 
-export const tasksAPI = {
-  getAll: async () => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
+    return response.json();
+  },
 
-    // Use new Prisma-based endpoint
-    const response = await fetch(`${API_BASE_URL}/api/tasks`, {
+  /**
+   * Confirm an email change with the token from the confirmation link
+   */
+  confirmEmailChange: async (confirmationToken: string) => {
+    const response = await fetch(`${API_BASE_URL}/api/auth/confirm-email-change`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ token: confirmationToken }),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch tasks' }));
-      throw new Error(errorData.error || 'Failed to fetch tasks');
+      const error = await response.json().catch(() => ({ error: 'Failed to confirm email' }));
+      throw new Error(error.error || 'Failed to confirm email');
     }
 
-    const tasks = await response.json();
-    return tasks;
+    const data = await response.json();
+    return data.user;
   },
 
-  create: async (taskData: any) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    // Use new Prisma-based endpoint
-    const response = await fetch(`${API_BASE_URL}/api/tasks`, {
+  /**
+   * Verify the email with the token from the verification link (no auth needed)
+   */
+  verifyEmail: async (verificationToken: string) => {
+    const response = await fetch(`${API_BASE_URL}/api/auth/verify-email`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
-      body: JSON.stringify(taskData),
+      body: JSON.stringify({ token: verificationToken }),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to create task' }));
-      throw new Error(errorData.error || `Failed to create task: ${response.status} ${response.statusText}`);
+      const error = await response.json().catch(() => ({ error: 'Failed to verify email' }));
+      throw new Error(error.error || 'Failed to verify email');
     }
 
-    const newTask = await response.json();
-    return newTask;
+    const data = await response.json();
+    return data.user;
   },
 
-  update: async (taskId: string, updates: any) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
+  /**
+   * Send a new verification link to the current user's email
+   */
+  resendVerification: async () => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/resend-verification`, {
+      method: 'POST',
+    });
 
-    // Use new Prisma-based endpoint
-    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}`, {
-      method: 'PATCH',
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to resend verification email' }));
+      throw new Error(error.error || 'Failed to resend verification email');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Change the password (requires the current one)
+   */
+  changePassword: async (currentPassword: string, newPassword: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/change-password`, {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
-      body: JSON.stringify(updates),
+      body: JSON.stringify({ currentPassword, newPassword }),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to update task' }));
-      throw new Error(errorData.error || `Failed to update task: ${response.status} ${response.statusText}`);
+      const error = await response.json().catch(() => ({ error: 'Failed to change password' }));
+      throw new Error(error.error || 'Failed to change password');
     }
 
-    const updatedTask = await response.json();
-    return updatedTask;
+    const data = await response.json();
+    return data.user;
   },
 
-  delete: async (taskId: string) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    // Use new Prisma-based endpoint
-    const response = await fetch(`${API_BASE_URL}/api/tasks/${taskId}`, {
+  /**
+   * Delete the current user's account
+   * Fails with the list of shared projects whose ownership must be transferred first
+   */
+  deleteAccount: async (password: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/me`, {
       method: 'DELETE',
       headers: {
-        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ password }),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to delete task' }));
-      throw new Error(errorData.error || `Failed to delete task: ${response.status} ${response.statusText}`);
+      const error = await response.json().catch(() => ({ error: 'Failed to delete account' }));
+      const projectNames = (error.projects || []).map((p: { name: string }) => `«${p.name}»`).join(', ');
+      throw new Error(projectNames ? `${error.error}: ${projectNames}` : error.error || 'Failed to delete account');
     }
 
+    clearAuthToken();
     return true;
   },
 
-  uploadAttachment: async (taskId: string, file: File) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('taskId', taskId);
-
-    const response = await fetch(`${API_BASE_URL}/api/upload-attachment`, {
+  /**
+   * Start enabling 2FA: returns the secret and its QR code for the authenticator app
+   */
+  setupTwoFactor: async (): Promise<{ secret: string; otpauthUrl: string; qrCodeDataUrl: string }> => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/2fa/setup`, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-      body: formData,
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to upload attachment');
+      const error = await response.json().catch(() => ({ error: 'Failed to start two-factor setup' }));
+      throw new Error(error.error || 'Failed to start two-factor setup');
     }
 
-    const data = await response.json();
-    return data.attachment;
-  },
-
-  deleteAttachment: async (taskId: string, attachmentId: string) => {
-    // TODO: Implement attachment delete
-    console.warn('Attachment delete not yet implemented');
-    return true;
+    return response.json();
   },
-};
-
-// ========== PROJECTS API ==========
 
-export const projectsAPI = {
   /**
-   * Get all projects accessible to the user (owned + member of)
+   * Confirm 2FA setup with a code from the app, returns the backup codes
    */
-  getAll: async () => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/projects`, {
+  enableTwoFactor: async (code: string): Promise<string[]> => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/2fa/enable`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ code }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch projects');
+      const error = await response.json().catch(() => ({ error: 'Failed to enable two-factor authentication' }));
+      throw new Error(error.error || 'Failed to enable two-factor authentication');
     }
 
-    const projects = await response.json();
-    return projects;
+    const data = await response.json();
+    return data.backupCodes;
   },
 
   /**
-   * Create a new project
+   * Turn 2FA off (requires the password and a code)
    */
-  create: async (projectData: any) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/projects`, {
+  disableTwoFactor: async (password: string, code: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/2fa/disable`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
-      body: JSON.stringify(projectData),
+      body: JSON.stringify({ password, code }),
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to create project');
+      const error = await response.json().catch(() => ({ error: 'Failed to disable two-factor authentication' }));
+      throw new Error(error.error || 'Failed to disable two-factor authentication');
     }
 
-    const newProject = await response.json();
-    return newProject;
+    return true;
   },
 
   /**
-   * Update a project
+   * Replace the 2FA backup codes with a new set
    */
-  update: async (projectId: string, updates: any) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/projects/${projectId}`, {
-      method: 'PATCH',
+  regenerateBackupCodes: async (code: string): Promise<string[]> => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/2fa/backup-codes`, {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
-      body: JSON.stringify(updates),
+      body: JSON.stringify({ code }),
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to update project');
+      const error = await response.json().catch(() => ({ error: 'Failed to regenerate backup codes' }));
+      throw new Error(error.error || 'Failed to regenerate backup codes');
     }
 
-    const updatedProject = await response.json();
+    const data = await response.json();
+    return data.backupCodes;
+  },
+
+  /**
+   * Get the active sessions (devices) of the current user
+   */
+  getSessions: async (): Promise<UserSession[]> => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/sessions`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch sessions' }));
+      throw new Error(error.error || 'Failed to fetch sessions');
+    }
+
+    const data = await response.json();
+    return data.sessions;
+  },
+
+  /**
+   * Sign out a single session
+   */
+  revokeSession: async (sessionId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to revoke session' }));
+      throw new Error(error.error || 'Failed to revoke session');
+    }
+
+    return true;
+  },
+
+  /**
+   * Sign out all sessions except the current one
+   */
+  revokeOtherSessions: async (): Promise<number> => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/sessions`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to revoke sessions' }));
+      throw new Error(error.error || 'Failed to revoke sessions');
+    }
+
+    const data = await response.json();
+    return data.revoked;
+  },
+
+  uploadAvatar: async (file: File) => {
+    const formData = new FormData();
+    formData.append('avatar', file);
+
+    const response = await authFetch(`${API_BASE_URL}/api/upload-avatar`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to upload avatar');
+    }
+
+    const data = await response.json();
+    return data.avatarUrl;
+  },
+
+  deleteAvatar: async () => {
+    const response = await authFetch(`${API_BASE_URL}/api/auth/me`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ avatarUrl: null }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to delete avatar' }));
+      throw new Error(error.error || 'Failed to delete avatar');
+    }
+
+    return true;
+  },
+
+  onAuthStateChange: (callback: (user: any) => void) => {
+    // Simple implementation - check for user on mount
+    authAPI.getCurrentUser().then(callback);
+    
+    // Return unsubscribe function
+    return {
+      data: {
+        subscription: {
+          unsubscribe: () => {},
+        },
+      },
+    };
+  },
+};
+
+// ========== TASKS API ==========
+
+export interface TaskFieldConflict {
+  field: string;
+  yours: any;
+  theirs: any;
+}
+
+/**
+ * Thrown when a task update is rejected because the task was changed by someone else (409)
+ * Carries the current server copy and the conflicting fields
+ */
+export class TaskConflictError extends Error {
+  currentTask: any;
+  diff: TaskFieldConflict[];
+
+  constructor(message: string, currentTask: any, diff: TaskFieldConflict[]) {
+    super(message);
+    this.name = 'TaskConflictError';
+    this.currentTask = currentTask;
+    this.diff = diff;
+  }
+}
+
+export interface TaskBlocker {
+  id: string;
+  title: string | null; // null - задача недоступна текущему пользователю
+}
+
+/**
+ * Thrown when completing a task is rejected because blocking tasks are not done (422)
+ * canOverride: the project only warns, the update may be repeated with ignoreBlockers
+ */
+export class TaskBlockedError extends Error {
+  blockers: TaskBlocker[];
+  canOverride: boolean;
+
+  constructor(message: string, blockers: TaskBlocker[], canOverride: boolean) {
+    super(message);
+    this.name = 'TaskBlockedError';
+    this.blockers = blockers;
+    this.canOverride = canOverride;
+  }
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  total: number; // All tasks matching the query
+  nextCursor: string | null; // null on the last page
+}
+
+export interface BulkTaskResult {
+  updated: Task[];
+  previous: BulkTaskUpdate[]; // Sent back as an update batch, undoes it
+  deletedIds: string[]; // Subtasks of the deleted tasks included
+  failed: BulkTaskFailure[];
+}
+
+export const tasksAPI = {
+  getAll: async (): Promise<Task[]> => {
+    // Use new Prisma-based endpoint
+    const response = await authFetch(`${API_BASE_URL}/api/tasks`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch tasks' }));
+      throw new Error(errorData.error || 'Failed to fetch tasks');
+    }
+
+    const tasks = await response.json();
+    return tasks;
+  },
+
+  /**
+   * Get one page of tasks matching the filters (filtered, sorted and paginated by the server)
+   * Pass nextCursor of the previous page as cursor to get the next one
+   */
+  list: async (query: TaskListQuery & { limit: number }): Promise<TaskPage> => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+      params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    });
+
+    const response = await authFetch(`${API_BASE_URL}/api/tasks?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch tasks' }));
+      throw toResponseError(response, errorData, 'Failed to fetch tasks');
+    }
+
+    return response.json();
+  },
+
+  create: async (taskData: CreateTaskRequest): Promise<Task> => {
+    // Use new Prisma-based endpoint
+    const response = await authFetch(`${API_BASE_URL}/api/tasks`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(taskData),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to create task' }));
+      throw toResponseError(response, errorData, `Failed to create task: ${response.status} ${response.statusText}`);
+    }
+
+    const newTask = await response.json();
+    return newTask;
+  },
+
+  update: async (taskId: string, updates: UpdateTaskRequest): Promise<Task> => {
+    // Use new Prisma-based endpoint
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (response.status === 409) {
+      const conflict = await response.json().catch(() => ({}));
+      throw new TaskConflictError(
+        conflict.error || 'Task was modified by another user',
+        conflict.currentTask,
+        conflict.diff || []
+      );
+    }
+
+    if (response.status === 422) {
+      const blocked = await response.json().catch(() => ({}));
+      if (blocked.code === 'TASK_BLOCKED') {
+        throw new TaskBlockedError(
+          blocked.error || 'Task is blocked by unfinished tasks',
+          blocked.blockers || [],
+          Boolean(blocked.canOverride)
+        );
+      }
+      throw new Error(blocked.error || 'Failed to update task');
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update task' }));
+      throw toResponseError(response, errorData, `Failed to update task: ${response.status} ${response.statusText}`);
+    }
+
+    const updatedTask = await response.json();
+    return updatedTask;
+  },
+
+  delete: async (taskId: string, scope?: 'this' | 'future') => {
+    // scope=future also deletes later occurrences of a recurring task
+    const query = scope ? `?scope=${scope}` : '';
+
+    // Use new Prisma-based endpoint
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}${query}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete task' }));
+      throw new Error(errorData.error || `Failed to delete task: ${response.status} ${response.statusText}`);
+    }
+
+    // scope=future: deletedIds lists the occurrences that were actually deleted
+    const data: { deletedIds?: string[] } = await response.json().catch(() => ({}));
+    return data;
+  },
+
+  /**
+   * Update or delete many tasks at once
+   * Tasks that cannot be changed are reported in failed, the rest are changed anyway
+   * keepalive lets the request finish while the page is being closed
+   */
+  bulk: async (request: BulkTaskRequest, options?: { keepalive?: boolean }): Promise<BulkTaskResult> => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/bulk`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      keepalive: options?.keepalive,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update tasks' }));
+      throw toResponseError(response, errorData, `Failed to update tasks: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get task change history (newest first)
+   */
+  getActivity: async (taskId: string, options?: { before?: string; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (options?.before) params.set('before', options.before);
+    if (options?.limit) params.set('limit', String(options.limit));
+    const query = params.toString() ? `?${params.toString()}` : '';
+
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/activity${query}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch task activity' }));
+      throw new Error(errorData.error || 'Failed to fetch task activity');
+    }
+
+    const data = await response.json();
+    return data.activity || [];
+  },
+
+  /**
+   * Get comment threads of a task (replies nested under their root)
+   */
+  getComments: async (taskId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/comments`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch comments' }));
+      throw new Error(errorData.error || 'Failed to fetch comments');
+    }
+
+    const data = await response.json();
+    return data.comments || [];
+  },
+
+  /**
+   * Get users that can be @mentioned in comments of a task
+   */
+  getMentionCandidates: async (taskId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/comments/mentions`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch mention candidates' }));
+      throw new Error(errorData.error || 'Failed to fetch mention candidates');
+    }
+
+    const data = await response.json();
+    return data.users || [];
+  },
+
+  /**
+   * Add a comment or a reply to a thread
+   */
+  addComment: async (taskId: string, content: string, parentId?: string | null) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/comments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ content, parentId: parentId || undefined }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to add comment' }));
+      throw new Error(errorData.error || 'Failed to add comment');
+    }
+
+    const data = await response.json();
+    return data.comment;
+  },
+
+  /**
+   * Edit own comment
+   */
+  updateComment: async (taskId: string, commentId: string, content: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/comments/${commentId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ content }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update comment' }));
+      throw new Error(errorData.error || 'Failed to update comment');
+    }
+
+    const data = await response.json();
+    return data.comment;
+  },
+
+  /**
+   * Delete own comment (comments with replies are soft deleted)
+   */
+  deleteComment: async (taskId: string, commentId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/comments/${commentId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete comment' }));
+      throw new Error(errorData.error || 'Failed to delete comment');
+    }
+
+    const data = await response.json();
+    return { softDeleted: Boolean(data.softDeleted) };
+  },
+
+  /**
+   * Get tasks that block a task and tasks it blocks
+   */
+  getDependencies: async (taskId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/dependencies`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch dependencies' }));
+      throw new Error(errorData.error || 'Failed to fetch dependencies');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Link a task: { blockingTaskId } - the task is blocked by it, { blockedTaskId } - the task blocks it
+   */
+  addDependency: async (taskId: string, link: { blockingTaskId: string } | { blockedTaskId: string }) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/dependencies`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(link),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to add dependency' }));
+      throw new Error(errorData.error || 'Failed to add dependency');
+    }
+
+    const data = await response.json();
+    return data.dependency;
+  },
+
+  /**
+   * Remove a task dependency
+   */
+  removeDependency: async (taskId: string, dependencyId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/dependencies/${dependencyId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to remove dependency' }));
+      throw new Error(errorData.error || 'Failed to remove dependency');
+    }
+
+    return true;
+  },
+
+  /**
+   * Add a checklist item to the end of a task checklist
+   */
+  addChecklistItem: async (taskId: string, title: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/checklist`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to add checklist item' }));
+      throw new Error(errorData.error || 'Failed to add checklist item');
+    }
+
+    const data = await response.json();
+    return data.item;
+  },
+
+  /**
+   * Rename, check/uncheck or move a checklist item
+   */
+  updateChecklistItem: async (
+    taskId: string,
+    itemId: string,
+    updates: { title?: string; done?: boolean; position?: number }
+  ) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/checklist/${itemId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update checklist item' }));
+      throw new Error(errorData.error || 'Failed to update checklist item');
+    }
+
+    const data = await response.json();
+    return data.item;
+  },
+
+  /**
+   * Delete a checklist item
+   */
+  deleteChecklistItem: async (taskId: string, itemId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/tasks/${taskId}/checklist/${itemId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete checklist item' }));
+      throw new Error(errorData.error || 'Failed to delete checklist item');
+    }
+
+    return true;
+  },
+
+  uploadAttachment: async (taskId: string, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('taskId', taskId);
+
+    const response = await authFetch(`${API_BASE_URL}/api/upload-attachment`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to upload attachment' }));
+      throw new Error(error.error || 'Failed to upload attachment');
+    }
+
+    const data = await response.json();
+    return data.attachment;
+  },
+
+  /**
+   * Delete an attachment together with its file
+   */
+  deleteAttachment: async (_taskId: string, attachmentId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete attachment' }));
+      throw new Error(errorData.error || 'Failed to delete attachment');
+    }
+
+    return true;
+  },
+
+  /**
+   * Get a time-limited URL of an attachment that works without the auth header
+   * 'inline' is only honoured for images and PDFs
+   */
+  getAttachmentUrl: async (attachmentId: string, disposition: 'inline' | 'attachment' = 'attachment') => {
+    const response = await authFetch(`${API_BASE_URL}/api/attachments/${attachmentId}/url?disposition=${disposition}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to get attachment url' }));
+      throw new Error(errorData.error || 'Failed to get attachment url');
+    }
+
+    const data: { url: string; expiresAt: string } = await response.json();
+    // Local storage returns a path on this API, S3 an absolute bucket URL
+    return {
+      url: data.url.startsWith('/') ? `${API_BASE_URL}${data.url}` : data.url,
+      expiresAt: data.expiresAt,
+    };
+  },
+
+  /**
+   * Download an attachment under its original name
+   */
+  downloadAttachment: async (attachmentId: string, fileName: string) => {
+    const { url } = await tasksAPI.getAttachmentUrl(attachmentId, 'attachment');
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+};
+
+// ========== PROJECTS API ==========
+
+export const projectsAPI = {
+  /**
+   * Get all projects accessible to the user (owned + member of)
+   */
+  getAll: async (): Promise<Project[]> => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch projects');
+    }
+
+    const projects = await response.json();
+    return projects;
+  },
+
+  /**
+   * Create a new project
+   */
+  create: async (projectData: CreateProjectRequest): Promise<Project> => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(projectData),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw toResponseError(response, error, 'Failed to create project');
+    }
+
+    const newProject = await response.json();
+    return newProject;
+  },
+
+  /**
+   * Update a project
+   */
+  update: async (projectId: string, updates: UpdateProjectRequest): Promise<Project> => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw toResponseError(response, error, 'Failed to update project');
+    }
+
+    const updatedProject = await response.json();
     return updatedProject;
   },
 
   /**
-   * Archive a project
+   * Archive a project
+   */
+  archive: async (projectId: string): Promise<Project> => {
+    return projectsAPI.update(projectId, { archived: true });
+  },
+
+  /**
+   * Restore an archived project
+   */
+  restore: async (projectId: string): Promise<Project> => {
+    return projectsAPI.update(projectId, { archived: false });
+  },
+
+  /**
+   * Delete a project
+   */
+  delete: async (projectId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete project');
+    }
+
+    return true;
+  },
+
+  /**
+   * Get archived projects (most recently archived first)
+   */
+  getArchived: async (): Promise<Project[]> => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/archived`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch archived projects' }));
+      throw new Error(error.error || 'Failed to fetch archived projects');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get tasks in a project
+   */
+  getTasks: async (projectId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/tasks`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch project tasks');
+    }
+
+    const tasks = await response.json();
+    return tasks;
+  },
+
+  /**
+   * Get project members
+   */
+  getProjectMembers: async (projectId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/members`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch project members');
+    }
+
+    const members = await response.json();
+    return members;
+  },
+
+  /**
+   * Change a member's role (owner only)
+   * memberId may be a membership id or a user id
+   */
+  updateMemberRole: async (projectId: string, memberId: string, role: 'collaborator' | 'member' | 'viewer') => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/members/${memberId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ role }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update member role' }));
+      throw new Error(errorData.error || 'Failed to update member role');
+    }
+
+    const data = await response.json();
+    return data.member;
+  },
+
+  /**
+   * Remove a member (owner only)
+   * Open tasks of the member go to reassignTo (user id) or become unassigned
+   */
+  removeMember: async (projectId: string, memberId: string, reassignTo?: string | null) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/members/${memberId}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reassignTo: reassignTo || undefined }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to remove member' }));
+      throw new Error(errorData.error || 'Failed to remove member');
+    }
+
+    const data = await response.json();
+    return { reassignedTaskCount: data.reassignedTaskCount || 0 };
+  },
+
+  /**
+   * Leave a project (not available to the owner)
+   */
+  leaveProject: async (projectId: string, reassignTo?: string | null) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/leave`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reassignTo: reassignTo || undefined }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to leave project' }));
+      throw new Error(errorData.error || 'Failed to leave project');
+    }
+
+    return true;
+  },
+
+  /**
+   * Transfer ownership to another member (owner only)
+   */
+  transferOwnership: async (projectId: string, memberId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/transfer-ownership`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ memberId }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to transfer ownership' }));
+      throw new Error(errorData.error || 'Failed to transfer ownership');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Add a link to a project (owner and collaborators)
+   */
+  addLink: async (projectId: string, link: { name: string; url: string }) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/links`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(link),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to add link' }));
+      throw new Error(errorData.error || 'Failed to add link');
+    }
+
+    const data = await response.json();
+    return data.link;
+  },
+
+  /**
+   * Update a link of a project
+   */
+  updateLink: async (projectId: string, linkId: string, updates: { name?: string; url?: string; position?: number }) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/links/${linkId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update link' }));
+      throw new Error(errorData.error || 'Failed to update link');
+    }
+
+    const data = await response.json();
+    return data.link;
+  },
+
+  /**
+   * Delete a link of a project
+   */
+  deleteLink: async (projectId: string, linkId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/links/${linkId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete link' }));
+      throw new Error(errorData.error || 'Failed to delete link');
+    }
+
+    return true;
+  },
+
+  /**
+   * Upload a project file (owner and collaborators)
+   */
+  uploadAttachment: async (projectId: string, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('projectId', projectId);
+
+    const response = await authFetch(`${API_BASE_URL}/api/upload-project-attachment`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to upload file' }));
+      throw new Error(errorData.error || 'Failed to upload file');
+    }
+
+    const data = await response.json();
+    return data.attachment;
+  },
+
+  /**
+   * Delete a project file together with its stored file
    */
-  archive: async (projectId: string) => {
-    return projectsAPI.update(projectId, { archived: true });
+  deleteAttachment: async (projectId: string, attachmentId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete file' }));
+      throw new Error(errorData.error || 'Failed to delete file');
+    }
+
+    return true;
   },
 
   /**
-   * Restore an archived project
+   * Download a project file under its original name (via a time-limited URL)
    */
-  restore: async (projectId: string) => {
-    return projectsAPI.update(projectId, { archived: false });
+  downloadAttachment: async (projectId: string, attachmentId: string, fileName: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/attachments/${attachmentId}/url`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to get file url' }));
+      throw new Error(errorData.error || 'Failed to get file url');
+    }
+
+    const data: { url: string } = await response.json();
+    const link = document.createElement('a');
+    link.href = data.url.startsWith('/') ? `${API_BASE_URL}${data.url}` : data.url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
   },
 
   /**
-   * Delete a project
+   * Get attachment storage usage and quota of a project
    */
-  delete: async (projectId: string) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
+  getStorageUsage: async (projectId: string): Promise<{ usedBytes: number; quotaBytes: number; attachmentCount: number }> => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/storage`);
 
-    const response = await fetch(`${API_BASE_URL}/api/projects/${projectId}`, {
-      method: 'DELETE',
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch storage usage' }));
+      throw new Error(errorData.error || 'Failed to fetch storage usage');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get the workflow (ordered statuses) of a project
+   */
+  getWorkflow: async (projectId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/workflow`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch workflow' }));
+      throw new Error(errorData.error || 'Failed to fetch workflow');
+    }
+
+    const data = await response.json();
+    return data.statuses;
+  },
+
+  /**
+   * Replace the workflow of a project (owner and collaborators)
+   */
+  updateWorkflow: async (
+    projectId: string,
+    statuses: Array<{
+      key: string;
+      name: string;
+      color: string;
+      wipLimit: number | null;
+      isDone: boolean;
+      allowedTransitions: string[];
+    }>
+  ) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/workflow`, {
+      method: 'PUT',
       headers: {
-        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ statuses }),
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to delete project');
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update workflow' }));
+      throw new Error(errorData.error || 'Failed to update workflow');
     }
 
-    return true;
+    const data = await response.json();
+    return data.statuses;
   },
 
   /**
-   * Get archived projects
+   * Get invitations of a project (owner only), pending ones with their link
    */
-  getArchived: async () => {
-    const projects = await projectsAPI.getAll();
-    return projects.filter((p: any) => p.archived);
+  getInvitations: async (projectId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/invitations`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch invitations' }));
+      throw new Error(errorData.error || 'Failed to fetch invitations');
+    }
+
+    const data = await response.json();
+    return data.invitations || [];
   },
 
   /**
-   * Get tasks in a project
+   * Invite a user to a project by email
    */
-  getTasks: async (projectId: string) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/projects/${projectId}/tasks`, {
+  sendInvitation: async (projectId: string, email: string, role: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/invitations`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ email, role }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch project tasks');
+      const errorData = await response.json().catch(() => ({ error: 'Failed to send invitation' }));
+      throw new Error(errorData.error || 'Failed to send invitation');
     }
 
-    const tasks = await response.json();
-    return tasks;
+    const data = await response.json();
+    return data.invitation;
   },
 
   /**
-   * Get project members
+   * Revoke a pending invitation
    */
-  getProjectMembers: async (projectId: string) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
+  revokeInvitation: async (_projectId: string, invitationId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/invitations/${invitationId}`, {
+      method: 'DELETE',
+    });
 
-    const response = await fetch(`${API_BASE_URL}/api/projects/${projectId}/members`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to revoke invitation' }));
+      throw new Error(errorData.error || 'Failed to revoke invitation');
+    }
+
+    return true;
+  },
+
+  /**
+   * Resend a pending invitation: extends its expiry and emails the link again
+   */
+  resendInvitation: async (invitationId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/invitations/${invitationId}/resend`, {
+      method: 'POST',
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch project members');
+      const errorData = await response.json().catch(() => ({ error: 'Failed to resend invitation' }));
+      throw toResponseError(response, errorData, 'Failed to resend invitation');
     }
 
-    const members = await response.json();
-    return members;
+    const data = await response.json();
+    return data.invitation;
+  },
+
+  /**
+   * Get project change history including its tasks (newest first)
+   */
+  getActivity: async (projectId: string, options?: { before?: string; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (options?.before) params.set('before', options.before);
+    if (options?.limit) params.set('limit', String(options.limit));
+    const query = params.toString() ? `?${params.toString()}` : '';
+
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/activity${query}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch project activity' }));
+      throw new Error(errorData.error || 'Failed to fetch project activity');
+    }
+
+    const data = await response.json();
+    return data.activity || [];
   },
 
   /**
    * Get pending invitations for current user
    */
   getMyPendingInvitations: async () => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/my/pending_invitations`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    const response = await authFetch(`${API_BASE_URL}/api/my/pending_invitations`);
 
     if (!response.ok) {
       throw new Error('Failed to fetch pending invitations');
@@ -543,14 +1768,8 @@ export const projectsAPI = {
    * Accept an invitation
    */
   acceptInvitation: async (token: string) => {
-    const authToken = getAuthToken();
-    if (!authToken) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/invitations/${token}/accept`, {
+    const response = await authFetch(`${API_BASE_URL}/api/invitations/${token}/accept`, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-      },
     });
 
     if (!response.ok) {
@@ -566,14 +1785,8 @@ export const projectsAPI = {
    * Reject an invitation (revoke)
    */
   rejectInvitation: async (invitationId: string) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/invitations/${invitationId}`, {
+    const response = await authFetch(`${API_BASE_URL}/api/invitations/${invitationId}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
     });
 
     if (!response.ok) {
@@ -613,14 +1826,7 @@ export const invitationsAPI = {
 
 export const teamAPI = {
   getMembers: async (projectId: string) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${API_BASE_URL}/api/projects/${projectId}/members`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    const response = await authFetch(`${API_BASE_URL}/api/projects/${projectId}/members`);
 
     if (!response.ok) {
       throw new Error('Failed to fetch members');
@@ -645,21 +1851,223 @@ export const diagnosticsAPI = {
   },
 };
 
+// ========== REALTIME API ==========
+
+export const realtimeAPI = {
+  /**
+   * Open a Server-Sent Events stream with task/project/member changes
+   * EventSource cannot set headers, so the URL carries a single-use stream ticket
+   * instead of the access token
+   */
+  connect: async (): Promise<EventSource> => {
+    const response = await authFetch(`${API_BASE_URL}/api/realtime/ticket`, { method: 'POST' });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to open realtime stream' }));
+      throw toResponseError(response, errorData, 'Failed to open realtime stream');
+    }
+
+    const { ticket } = await response.json();
+    return new EventSource(`${API_BASE_URL}/api/realtime/events?ticket=${encodeURIComponent(ticket)}`);
+  },
+};
+
+// ========== SEARCH API ==========
+
+export const searchAPI = {
+  /**
+   * Full-text search over the tasks and projects the user can see, best matches first
+   * Highlights wrap the matched words in <mark></mark>
+   */
+  search: async (
+    q: string,
+    options?: { limit?: number; signal?: AbortSignal }
+  ): Promise<{ tasks: TaskSearchResult[]; projects: ProjectSearchResult[] }> => {
+    const params = new URLSearchParams({ q });
+    if (options?.limit) params.set('limit', String(options.limit));
+
+    const response = await authFetch(`${API_BASE_URL}/api/search?${params.toString()}`, {
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to search' }));
+      throw toResponseError(response, errorData, 'Failed to search');
+    }
+
+    return response.json();
+  },
+};
+
+// ========== SAVED VIEWS API ==========
+
+export const savedViewsAPI = {
+  /**
+   * Get the personal views and the views shared with the user's projects (pinned first)
+   */
+  getAll: async (): Promise<SavedView[]> => {
+    const response = await authFetch(`${API_BASE_URL}/api/saved-views`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch saved views' }));
+      throw new Error(errorData.error || 'Failed to fetch saved views');
+    }
+
+    const data = await response.json();
+    return data.views || [];
+  },
+
+  create: async (view: SavedViewRequest): Promise<SavedView> => {
+    const response = await authFetch(`${API_BASE_URL}/api/saved-views`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(view),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to save view' }));
+      throw toResponseError(response, errorData, 'Failed to save view');
+    }
+
+    const data = await response.json();
+    return data.view;
+  },
+
+  update: async (viewId: string, updates: UpdateSavedViewRequest): Promise<SavedView> => {
+    const response = await authFetch(`${API_BASE_URL}/api/saved-views/${viewId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update view' }));
+      throw toResponseError(response, errorData, 'Failed to update view');
+    }
+
+    const data = await response.json();
+    return data.view;
+  },
+
+  delete: async (viewId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/saved-views/${viewId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete view' }));
+      throw new Error(errorData.error || 'Failed to delete view');
+    }
+  },
+};
+
+// ========== NOTIFICATIONS API ==========
+
+export const notificationsAPI = {
+  /**
+   * Get notifications (newest first) together with the unread count
+   */
+  getAll: async (options?: { before?: string; limit?: number; unreadOnly?: boolean }) => {
+    const params = new URLSearchParams();
+    if (options?.before) params.set('before', options.before);
+    if (options?.limit) params.set('limit', String(options.limit));
+    if (options?.unreadOnly) params.set('unread', 'true');
+    const query = params.toString() ? `?${params.toString()}` : '';
+
+    const response = await authFetch(`${API_BASE_URL}/api/notifications${query}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch notifications' }));
+      throw new Error(errorData.error || 'Failed to fetch notifications');
+    }
+
+    const data = await response.json();
+    return {
+      notifications: data.notifications || [],
+      unreadCount: data.unreadCount || 0,
+    };
+  },
+
+  /**
+   * Mark notifications as read (all of them when ids are omitted)
+   */
+  markRead: async (ids?: string[]) => {
+    const response = await authFetch(`${API_BASE_URL}/api/notifications/read`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ids }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to mark notifications as read' }));
+      throw new Error(errorData.error || 'Failed to mark notifications as read');
+    }
+
+    const data = await response.json();
+    return { unreadCount: data.unreadCount || 0 };
+  },
+
+  delete: async (notificationId: string) => {
+    const response = await authFetch(`${API_BASE_URL}/api/notifications/${notificationId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete notification' }));
+      throw new Error(errorData.error || 'Failed to delete notification');
+    }
+
+    return true;
+  },
+
+  /**
+   * Get per-type delivery preferences (in-app / email)
+   */
+  getPreferences: async () => {
+    const response = await authFetch(`${API_BASE_URL}/api/notifications/preferences`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch notification preferences' }));
+      throw new Error(errorData.error || 'Failed to fetch notification preferences');
+    }
+
+    const data = await response.json();
+    return data.preferences;
+  },
+
+  updatePreferences: async (preferences: Record<string, { inApp: boolean; email: boolean }>) => {
+    const response = await authFetch(`${API_BASE_URL}/api/notifications/preferences`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ preferences }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update notification preferences' }));
+      throw new Error(errorData.error || 'Failed to update notification preferences');
+    }
+
+    const data = await response.json();
+    return data.preferences;
+  },
+};
+
 // ========== USER SETTINGS API (Custom Columns) ==========
 
 export const userSettingsAPI = {
   getCustomColumns: async () => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-    
     const userId = getUserIdFromToken();
     if (!userId) throw new Error('Invalid token');
 
-    const response = await fetch(`${API_BASE_URL}/api/users/${userId}/custom_columns`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    const response = await authFetch(`${API_BASE_URL}/api/users/${userId}/custom_columns`);
 
     if (!response.ok) {
       throw new Error('Failed to fetch custom columns');
@@ -670,17 +2078,13 @@ export const userSettingsAPI = {
   },
 
   saveCustomColumns: async (customColumns: Array<{ id: string; title: string; color: string }>) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-    
     const userId = getUserIdFromToken();
     if (!userId) throw new Error('Invalid token');
 
-    const response = await fetch(`${API_BASE_URL}/api/users/${userId}/custom_columns`, {
+    const response = await authFetch(`${API_BASE_URL}/api/users/${userId}/custom_columns`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
       body: JSON.stringify({ columns: customColumns }),
     });
@@ -696,47 +2100,76 @@ export const userSettingsAPI = {
 // ========== CATEGORIES API ==========
 
 export const categoriesAPI = {
-  getCategories: async () => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-    
-    const userId = getUserIdFromToken();
-    if (!userId) throw new Error('Invalid token');
+  /**
+   * Get the personal categories and the categories of the user's projects
+   */
+  getAll: async (): Promise<Category[]> => {
+    const response = await authFetch(`${API_BASE_URL}/api/categories`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch categories' }));
+      throw new Error(errorData.error || 'Failed to fetch categories');
+    }
+
+    const data = await response.json();
+    return data.categories || [];
+  },
 
-    const response = await fetch(`${API_BASE_URL}/api/users/${userId}/categories`, {
+  create: async (category: CategoryRequest): Promise<Category> => {
+    const response = await authFetch(`${API_BASE_URL}/api/categories`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify(category),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch categories');
+      const errorData = await response.json().catch(() => ({ error: 'Failed to create category' }));
+      throw toResponseError(response, errorData, 'Failed to create category');
     }
 
-    const categories = await response.json();
-    return categories;
+    const data = await response.json();
+    return data.category;
   },
 
-  saveCategories: async (categories: Array<{ id: string; name: string; color: string }>) => {
-    const token = getAuthToken();
-    if (!token) throw new Error('Not authenticated');
-    
-    const userId = getUserIdFromToken();
-    if (!userId) throw new Error('Invalid token');
-
-    const response = await fetch(`${API_BASE_URL}/api/users/${userId}/categories`, {
-      method: 'POST',
+  update: async (categoryId: string, updates: UpdateCategoryRequest): Promise<Category> => {
+    const response = await authFetch(`${API_BASE_URL}/api/categories/${categoryId}`, {
+      method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
-      body: JSON.stringify({ categories }),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update category' }));
+      throw toResponseError(response, errorData, 'Failed to update category');
+    }
+
+    const data = await response.json();
+    return data.category;
+  },
+
+  /**
+   * Delete a category; its tasks move to reassignTo or are left without a category
+   * @returns Number of affected tasks
+   */
+  delete: async (categoryId: string, reassignTo?: string): Promise<number> => {
+    const params = new URLSearchParams();
+    if (reassignTo) params.set('reassignTo', reassignTo);
+    const query = params.toString();
+
+    const response = await authFetch(`${API_BASE_URL}/api/categories/${categoryId}${query ? `?${query}` : ''}`, {
+      method: 'DELETE',
     });
 
     if (!response.ok) {
-      throw new Error('Failed to save categories');
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete category' }));
+      throw new Error(errorData.error || 'Failed to delete category');
     }
 
-    return categories;
+    const data = await response.json();
+    return data.affectedTasks ?? 0;
   },
 };
@@ -0,0 +1,91 @@
+/**
+ * Dashboard state in the URL: a copied link opens exactly the same board
+ * (?view=<saved view id>&mode=table&status=todo,review&sort=dueDate:desc...)
+ * Only values that differ from the defaults are written.
+ */
+
+import { boardStateSchema, type BoardState } from '../server/types';
+
+export const DEFAULT_BOARD_STATE: BoardState = boardStateSchema.parse({});
+
+const LIST_PARAMS = {
+  project: 'projects',
+  category: 'categories',
+  status: 'statuses',
+  priority: 'priorities',
+  assignee: 'assignees',
+  tags: 'tags',
+} as const;
+
+// Parameters owned by the board; anything else in the query string is left alone
+const BOARD_PARAMS = ['view', 'mode', 'q', 'my', 'deadline', 'from', 'to', 'sort', 'range', ...Object.keys(LIST_PARAMS)];
+
+export function boardStateToSearchParams(state: BoardState, savedViewId?: string | null): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (savedViewId) params.set('view', savedViewId);
+  if (state.viewMode !== DEFAULT_BOARD_STATE.viewMode) params.set('mode', state.viewMode);
+  if (state.search) params.set('q', state.search);
+  if (state.myTasks) params.set('my', '1');
+  Object.entries(LIST_PARAMS).forEach(([param, key]) => {
+    if (filters[key].length > 0) params.set(param, filters[key].join(','));
+  });
+  if (filters.deadline !== 'all') params.set('deadline', filters.deadline);
+  if (filters.deadlineFrom) params.set('from', filters.deadlineFrom);
+  if (filters.deadlineTo) params.set('to', filters.deadlineTo);
+  if (state.sortColumn && state.sortDirection) params.set('sort', `${state.sortColumn}:${state.sortDirection}`);
+  if (state.dateRange !== DEFAULT_BOARD_STATE.dateRange) params.set('range', state.dateRange);
+
+  return params;
+}
+
+/**
+ * Board state and saved view of a query string; null when it has no board parameters
+ * Invalid values fall back to the defaults
+ */
+export function boardStateFromSearchParams(params: URLSearchParams): { state: BoardState; savedViewId: string | null } | null {
+  if (!BOARD_PARAMS.some((param) => params.has(param))) {
+    return null;
+  }
+
+  const list = (param: string) => params.get(param)?.split(',').filter(Boolean) ?? [];
+  const [sortColumn, sortDirection] = params.get('sort')?.split(':') ?? [];
+  const candidate = {
+    viewMode: params.get('mode') ?? undefined,
+    search: params.get('q') ?? undefined,
+    myTasks: params.get('my') === '1',
+    filters: {
+      ...Object.fromEntries(Object.entries(LIST_PARAMS).map(([param, key]) => [key, list(param)])),
+      deadline: params.get('deadline') ?? undefined,
+      deadlineFrom: params.get('from') ?? undefined,
+      deadlineTo: params.get('to') ?? undefined,
+    },
+    sortColumn: sortColumn && sortDirection ? sortColumn : null,
+    sortDirection: sortColumn && sortDirection ? sortDirection : null,
+    dateRange: params.get('range') ?? undefined,
+  };
+
+  const result = boardStateSchema.safeParse(candidate);
+  return {
+    state: result.success ? result.data : DEFAULT_BOARD_STATE,
+    savedViewId: params.get('view'),
+  };
+}
+
+/**
+ * Replace the board parameters of the current URL (without adding a history entry)
+ */
+export function writeBoardStateToUrl(state: BoardState | null, savedViewId?: string | null) {
+  const params = new URLSearchParams(window.location.search);
+  BOARD_PARAMS.forEach((param) => params.delete(param));
+  if (state) {
+    boardStateToSearchParams(state, savedViewId).forEach((value, key) => params.set(key, value));
+  }
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(null, '', url);
+  }
+}
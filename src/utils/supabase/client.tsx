@@ -22,6 +22,10 @@ export {
   diagnosticsAPI,
   userSettingsAPI,
   categoriesAPI,
+  realtimeAPI,
+  notificationsAPI,
+  TaskConflictError,
+  TaskBlockedError,
 } from '../api-client';
 
 // Export a dummy supabase object for compatibility
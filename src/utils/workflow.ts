@@ -0,0 +1,45 @@
+/**
+ * Утилиты для статусов (workflow) проекта
+ * Колонки доски проекта общие для всех участников и хранятся на сервере;
+ * здесь - значения по умолчанию и проверки, повторяющие серверные
+ */
+
+import type { Project, WorkflowStatus } from '../contexts/app-context';
+
+/**
+ * Статусы проекта, пока workflow не загружен с сервера (совпадают с серверными по умолчанию)
+ */
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = [
+  { key: 'todo', name: 'К выполнению', color: 'bg-gray-500', isDone: false },
+  { key: 'in_progress', name: 'В работе', color: 'bg-blue-500', isDone: false },
+  { key: 'review', name: 'На проверке', color: 'bg-yellow-500', isDone: false },
+  { key: 'done', name: 'Готово', color: 'bg-green-500', isDone: true },
+].map((status, position) => ({
+  ...status,
+  id: status.key,
+  projectId: '',
+  position,
+  wipLimit: null,
+  allowedTransitions: [],
+}));
+
+/**
+ * Упорядоченные статусы проекта
+ */
+export function getWorkflowStatuses(project?: Project | null): WorkflowStatus[] {
+  const statuses = project?.workflowStatuses;
+  if (!statuses || statuses.length === 0) {
+    return DEFAULT_WORKFLOW_STATUSES;
+  }
+  return [...statuses].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Можно ли перевести задачу из одного статуса в другой
+ * Пустой список allowedTransitions - переход в любой статус
+ */
+export function canTransition(statuses: WorkflowStatus[], from: string, to: string): boolean {
+  if (from === to) return true;
+  const source = statuses.find((s) => s.key === from);
+  return !source || source.allowedTransitions.length === 0 || source.allowedTransitions.includes(to);
+}